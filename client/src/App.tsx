@@ -10,6 +10,7 @@ import ScrollProgressBar from "@/components/common/ScrollProgressBar";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { SeoProvider } from "@/contexts/SeoContext";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import { PERMISSIONS } from "@shared/permissions";
 import ChatbotWidget from "@/components/custom/ChatbotWidget";
 import ElectronCleanupHandler from "@/components/system/ElectronCleanupHandler";
 import GlobalCleanupHandler from "@/components/system/GlobalCleanupHandler";
@@ -25,14 +26,19 @@ import Blog from "@/pages/Blog";
 import BlogPost from "@/pages/BlogPost";
 import Contact from "@/pages/Contact";
 import RequestQuote from "@/pages/RequestQuote";
+import QuoteTracking from "@/pages/QuoteTracking";
 import PrivacyPolicy from "@/pages/PrivacyPolicy";
 import TermsOfService from "@/pages/TermsOfService";
 import Sitemap from "@/pages/Sitemap";
 import JoinUs from "@/pages/JoinUs";
 import Careers from "@/pages/Careers";
 import CareerDetail from "@/pages/CareerDetail";
+import JobAlerts from "@/pages/JobAlerts";
 import SubcontractorVendorRegistration from "@/pages/SubcontractorVendorRegistration";
 import Login from "@/pages/auth/Login";
+import AcceptInvite from "@/pages/auth/AcceptInvite";
+import ResetPassword from "@/pages/auth/ResetPassword";
+import ForgotPassword from "@/pages/auth/ForgotPassword";
 import Dashboard from "@/pages/admin/Dashboard";
 import ProjectManagement from "@/pages/admin/ProjectManagement";
 import BlogManagement from "@/pages/admin/BlogManagement";
@@ -41,12 +47,18 @@ import MessagesManagement from "@/pages/admin/MessagesManagement";
 import TestimonialsManagement from "@/pages/admin/TestimonialsManagement";
 import NewsletterManagement from "@/pages/admin/NewsletterManagement";
 import QuoteRequestsManagement from "@/pages/admin/QuoteRequestsManagement";
+import QuoteReports from "@/pages/admin/QuoteReports";
+import EstimateBuilder from "@/pages/admin/EstimateBuilder";
 import CareersManagement from "@/pages/admin/CareersManagement";
 import TeamMembersManagement from "@/pages/admin/TeamMembersManagement";
 import SettingsPage from "@/pages/admin/Settings";
 import AccessibilityCheckerPage from "@/pages/admin/AccessibilityChecker";
 import SubcontractorManagement from "@/pages/admin/SubcontractorManagement";
 import FileUploadTest from "@/pages/admin/FileUploadTest";
+import UserManagement from "@/pages/admin/UserManagement";
+import AuditLogPage from "@/pages/admin/AuditLog";
+import EmailOutboxPage from "@/pages/admin/EmailOutbox";
+import QuarantineManagementPage from "@/pages/admin/QuarantineManagement";
 import Resources from "@/pages/Resources";
 import JoinTogether from "@/pages/JoinTogether";
 import NotFound from "@/pages/not-found";
@@ -111,12 +123,14 @@ function Router() {
           <Route path="/blog/:slug" component={BlogPost} />
           <Route path="/contact" component={Contact} />
           <Route path="/request-quote" component={RequestQuote} />
+          <Route path="/quote/track/:token" component={QuoteTracking} />
           <Route path="/privacy-policy" component={PrivacyPolicy} />
           <Route path="/terms-of-service" component={TermsOfService} />
           <Route path="/sitemap" component={Sitemap} />
           <Route path="/join-us" component={JoinUs} />
           <Route path="/join-together" component={JoinTogether} />
           <Route path="/careers" component={Careers} />
+          <Route path="/careers/alerts" component={JobAlerts} />
           <Route path="/careers/:id" component={CareerDetail} />
           <Route path="/resources" component={Resources} />
           <Route path="/subcontractors" component={SubcontractorVendorRegistration} />
@@ -127,6 +141,15 @@ function Router() {
           <Route path="/auth/login">
             <Login />
           </Route>
+          <Route path="/auth/accept-invite">
+            <AcceptInvite />
+          </Route>
+          <Route path="/auth/forgot-password">
+            <ForgotPassword />
+          </Route>
+          <Route path="/auth/reset-password">
+            <ResetPassword />
+          </Route>
           
           {/* Protected Admin Routes */}
           <Route path="/admin">
@@ -135,40 +158,50 @@ function Router() {
             </ProtectedRoute>
           </Route>
           <Route path="/admin/projects">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.PROJECTS_MANAGE}>
               <ProjectManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/blog">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.BLOG_MANAGE}>
               <BlogManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/services">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.SERVICES_MANAGE}>
               <ServicesManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/messages">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.MESSAGES_MANAGE}>
               <MessagesManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/testimonials">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.TESTIMONIALS_MANAGE}>
               <TestimonialsManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/newsletter">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.NEWSLETTER_MANAGE}>
               <NewsletterManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/quotes">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.QUOTES_MANAGE}>
               <QuoteRequestsManagement />
             </ProtectedRoute>
           </Route>
+          <Route path="/admin/quotes/reports">
+            <ProtectedRoute permission={PERMISSIONS.QUOTES_MANAGE}>
+              <QuoteReports />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/admin/quotes/:id/estimate">
+            <ProtectedRoute permission={PERMISSIONS.QUOTES_MANAGE}>
+              <EstimateBuilder />
+            </ProtectedRoute>
+          </Route>
           <Route path="/admin/settings">
             <ProtectedRoute>
               <SettingsPage />
@@ -180,22 +213,42 @@ function Router() {
             </ProtectedRoute>
           </Route>
           <Route path="/admin/subcontractors">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.VENDORS_MANAGE}>
               <SubcontractorManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/careers">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.CAREERS_MANAGE}>
               <CareersManagement />
             </ProtectedRoute>
           </Route>
           <Route path="/admin/team-members">
-            <ProtectedRoute>
+            <ProtectedRoute permission={PERMISSIONS.TEAM_MANAGE}>
               <TeamMembersManagement />
             </ProtectedRoute>
           </Route>
-          <Route path="/admin/file-upload-test">
+          <Route path="/admin/users">
+            <ProtectedRoute permission={PERMISSIONS.USERS_MANAGE}>
+              <UserManagement />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/admin/audit">
+            <ProtectedRoute permission={PERMISSIONS.AUDIT_VIEW}>
+              <AuditLogPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/admin/outbox">
+            <ProtectedRoute permission={PERMISSIONS.OUTBOX_VIEW}>
+              <EmailOutboxPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/admin/quarantine">
             <ProtectedRoute>
+              <QuarantineManagementPage />
+            </ProtectedRoute>
+          </Route>
+          <Route path="/admin/file-upload-test">
+            <ProtectedRoute permission={PERMISSIONS.FILES_MANAGE}>
               <FileUploadTest />
             </ProtectedRoute>
           </Route>
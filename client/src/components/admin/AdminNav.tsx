@@ -14,107 +14,158 @@ import {
   Briefcase,
   UserRound,
   FolderOpen,
+  UserCog,
+  History,
+  Inbox,
+  ShieldAlert,
   LogOut
 } from 'lucide-react';
 import { useNotifications } from '@/hooks/useNotifications';
 import NotificationIndicator from '@/components/common/NotificationIndicator';
 import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@shared/permissions';
+import { QUARANTINE_PERMISSIONS } from '@shared/spam';
 
 type AdminNavProps = {
-  activePage: 'dashboard' | 'projects' | 'services' | 'blog' | 'messages' | 'testimonials' | 'settings' | 'accessibility' | 'newsletter' | 'quotes' | 'subcontractors' | 'careers' | 'team-members' | 'file-upload-test';
+  activePage: 'dashboard' | 'projects' | 'services' | 'blog' | 'messages' | 'testimonials' | 'settings' | 'accessibility' | 'newsletter' | 'quotes' | 'subcontractors' | 'careers' | 'team-members' | 'file-upload-test' | 'users' | 'audit' | 'outbox' | 'quarantine';
 };
 
 const AdminNav = ({ activePage }: AdminNavProps) => {
   const [location, navigate] = useLocation();
   const { counts, isLoading } = useNotifications();
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   
   const navItems = [
     { 
       href: '/admin', 
       label: 'Dashboard', 
       icon: <Home className="w-5 h-5 mr-3" />,
-      active: activePage === 'dashboard'
+      active: activePage === 'dashboard',
+      permission: PERMISSIONS.DASHBOARD_VIEW
     },
     { 
       href: '/admin/projects', 
       label: 'Projects', 
       icon: <Building className="w-5 h-5 mr-3" />,
-      active: activePage === 'projects'
+      active: activePage === 'projects',
+      permission: PERMISSIONS.PROJECTS_MANAGE
     },
     { 
       href: '/admin/services', 
       label: 'Services', 
       icon: <Wrench className="w-5 h-5 mr-3" />,
-      active: activePage === 'services'
+      active: activePage === 'services',
+      permission: PERMISSIONS.SERVICES_MANAGE
     },
     { 
       href: '/admin/blog', 
       label: 'Blog', 
       icon: <FileText className="w-5 h-5 mr-3" />,
-      active: activePage === 'blog'
+      active: activePage === 'blog',
+      permission: PERMISSIONS.BLOG_MANAGE
     },
     { 
       href: '/admin/testimonials', 
       label: 'Testimonials', 
       icon: <Star className="w-5 h-5 mr-3" />,
-      active: activePage === 'testimonials'
+      active: activePage === 'testimonials',
+      permission: PERMISSIONS.TESTIMONIALS_MANAGE
     },
     { 
       href: '/admin/messages', 
       label: 'Messages', 
       icon: <MessageSquare className="w-5 h-5 mr-3" />,
-      active: activePage === 'messages'
+      active: activePage === 'messages',
+      permission: PERMISSIONS.MESSAGES_MANAGE
     },
     { 
       href: '/admin/newsletter', 
       label: 'Newsletter', 
       icon: <Mail className="w-5 h-5 mr-3" />,
-      active: activePage === 'newsletter'
+      active: activePage === 'newsletter',
+      permission: PERMISSIONS.NEWSLETTER_MANAGE
     },
     { 
       href: '/admin/quotes', 
       label: 'Quote Requests', 
       icon: <ClipboardList className="w-5 h-5 mr-3" />,
-      active: activePage === 'quotes'
+      active: activePage === 'quotes',
+      permission: PERMISSIONS.QUOTES_MANAGE
     },
     { 
       href: '/admin/careers', 
       label: 'Careers', 
       icon: <Briefcase className="w-5 h-5 mr-3" />,
-      active: activePage === 'careers'
+      active: activePage === 'careers',
+      permission: PERMISSIONS.CAREERS_MANAGE
     },
     { 
       href: '/admin/team-members', 
       label: 'Team Members', 
       icon: <UserRound className="w-5 h-5 mr-3" />,
-      active: activePage === 'team-members'
+      active: activePage === 'team-members',
+      permission: PERMISSIONS.TEAM_MANAGE
     },
     { 
       href: '/admin/subcontractors', 
       label: 'Vendors', 
       icon: <Users className="w-5 h-5 mr-3" />,
-      active: activePage === 'subcontractors'
+      active: activePage === 'subcontractors',
+      permission: PERMISSIONS.VENDORS_MANAGE
+    },
+    { 
+      href: '/admin/quarantine', 
+      label: 'Spam Quarantine', 
+      icon: <ShieldAlert className="w-5 h-5 mr-3" />,
+      active: activePage === 'quarantine',
+      // Shown to anyone who manages one of the inboxes it holds back
+      permission: Object.values(QUARANTINE_PERMISSIONS)
+    },
+    { 
+      href: '/admin/users', 
+      label: 'Users', 
+      icon: <UserCog className="w-5 h-5 mr-3" />,
+      active: activePage === 'users',
+      permission: PERMISSIONS.USERS_MANAGE
+    },
+    { 
+      href: '/admin/audit', 
+      label: 'Audit Log', 
+      icon: <History className="w-5 h-5 mr-3" />,
+      active: activePage === 'audit',
+      permission: PERMISSIONS.AUDIT_VIEW
+    },
+    { 
+      href: '/admin/outbox', 
+      label: 'Email Outbox', 
+      icon: <Inbox className="w-5 h-5 mr-3" />,
+      active: activePage === 'outbox',
+      permission: PERMISSIONS.OUTBOX_VIEW
     },
     { 
       href: '/admin/settings', 
       label: 'Settings', 
       icon: <Settings className="w-5 h-5 mr-3" />,
-      active: activePage === 'settings'
+      active: activePage === 'settings',
+      permission: PERMISSIONS.DASHBOARD_VIEW
     },
     { 
       href: '/admin/accessibility', 
       label: 'Accessibility', 
       icon: <Eye className="w-5 h-5 mr-3" />,
-      active: activePage === 'accessibility'
+      active: activePage === 'accessibility',
+      permission: PERMISSIONS.DASHBOARD_VIEW
     },
     { 
       href: '/admin/file-upload-test', 
       label: 'File Management', 
       icon: <FolderOpen className="w-5 h-5 mr-3" />,
-      active: activePage === 'file-upload-test'
+      active: activePage === 'file-upload-test',
+      permission: PERMISSIONS.FILES_MANAGE
     }
-  ];
+  ].filter((item) =>
+    Array.isArray(item.permission) ? item.permission.some(hasPermission) : hasPermission(item.permission)
+  );
 
   return (
     <div className="w-full md:w-64 mb-8 md:mb-0">
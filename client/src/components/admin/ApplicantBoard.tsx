@@ -0,0 +1,227 @@
+import { useRef, type ReactNode } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import {
+  APPLICANT_STAGES,
+  APPLICANT_STAGE_LABELS,
+  MAX_APPLICANT_RATING,
+  isApplicantStage,
+  type ApplicantStage,
+} from "@shared/careers";
+import type { JobApplication, JobPosting } from "@shared/schema";
+
+export const JOB_APPLICATIONS_QUERY_KEY = ["/api/admin/job-applications"];
+
+const STAGE_COLORS: Record<ApplicantStage, string> = {
+  new: "border-t-blue-500",
+  screening: "border-t-cyan-500",
+  interview: "border-t-amber-500",
+  offer: "border-t-purple-500",
+  hired: "border-t-green-600",
+  rejected: "border-t-gray-400",
+};
+
+// Shows a rating out of five stars; pass onChange to let the user pick one
+export function RatingStars({ rating, onChange }: { rating: number; onChange?: (rating: number) => void }) {
+  return (
+    <div
+      className="flex items-center"
+      role={onChange ? "radiogroup" : "img"}
+      aria-label={onChange ? "Rating" : `Rated ${rating.toFixed(1)} out of ${MAX_APPLICANT_RATING}`}
+    >
+      {Array.from({ length: MAX_APPLICANT_RATING }, (_, index) => {
+        const value = index + 1;
+        const star = (
+          <Star
+            className={`h-4 w-4 ${
+              Math.round(rating) >= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+            }`}
+          />
+        );
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value} of ${MAX_APPLICANT_RATING}`}
+            onClick={() => onChange(value)}
+            className="p-0.5"
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ApplicantCardProps {
+  application: JobApplication;
+  jobTitle?: string;
+  onOpen: () => void;
+}
+
+function ApplicantCard({ application, jobTitle, onOpen }: ApplicantCardProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: application.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...listeners}
+      {...attributes}
+      onClick={onOpen}
+      onKeyDown={(event) => {
+        // Space picks the card up to move it; Enter opens it
+        if (event.key === "Enter") onOpen();
+        else listeners?.onKeyDown?.(event);
+      }}
+      className={`rounded-md border bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing text-left ${
+        isDragging ? "relative z-10 opacity-80 shadow-lg" : "hover:border-[#1E90DB]"
+      }`}
+    >
+      <p className="font-medium text-sm">{application.name}</p>
+      {jobTitle && <p className="text-xs text-gray-500 truncate">{jobTitle}</p>}
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+        <span>{formatDate(application.createdAt)}</span>
+        {application.averageRating !== null && <RatingStars rating={application.averageRating} />}
+      </div>
+    </div>
+  );
+}
+
+function StageColumn({ stage, children, count }: { stage: ApplicantStage; children: ReactNode; count: number }) {
+  const { setNodeRef, isOver } = useDroppable({ id: stage });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex w-64 shrink-0 flex-col rounded-lg border-t-4 ${STAGE_COLORS[stage]} ${
+        isOver ? "bg-blue-50" : "bg-gray-100"
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2">
+        <h3 className="font-semibold text-sm">{APPLICANT_STAGE_LABELS[stage]}</h3>
+        <span className="text-xs text-gray-500">{count}</span>
+      </div>
+      <div className="flex min-h-[120px] flex-col gap-2 px-2 pb-2">{children}</div>
+    </div>
+  );
+}
+
+interface ApplicantBoardProps {
+  applications: JobApplication[];
+  jobPostings: JobPosting[];
+  // Show which position each candidate applied for, when the board isn't filtered to one
+  showJobTitles: boolean;
+  onOpen: (application: JobApplication) => void;
+}
+
+/**
+ * Kanban board of candidates by stage. Dragging a card to another column
+ * moves the candidate there; the change is shown straight away and undone
+ * if the server rejects it.
+ */
+export function ApplicantBoard({ applications, jobPostings, showJobTitles, onOpen }: ApplicantBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sensors = useSensors(
+    // A short drag distance keeps plain clicks opening the card
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor),
+  );
+
+  // The click that ends a drag shouldn't also open the card
+  const dragging = useRef(false);
+
+  const jobTitles = new Map(jobPostings.map((job) => [job.id, job.title]));
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: number; stage: ApplicantStage }) =>
+      apiRequest({
+        url: `/api/admin/job-applications/${id}/stage`,
+        method: "PUT",
+        body: { stage },
+      }),
+    onMutate: async ({ id, stage }) => {
+      await queryClient.cancelQueries({ queryKey: JOB_APPLICATIONS_QUERY_KEY });
+      const previous = queryClient.getQueryData<JobApplication[]>(JOB_APPLICATIONS_QUERY_KEY);
+      queryClient.setQueryData<JobApplication[]>(JOB_APPLICATIONS_QUERY_KEY, (current = []) =>
+        current.map((application) => (application.id === id ? { ...application, stage } : application)),
+      );
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(JOB_APPLICATIONS_QUERY_KEY, context?.previous);
+      toast({
+        title: "Failed to move candidate",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: JOB_APPLICATIONS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/job-applications/${id}/activity`] });
+    },
+  });
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setTimeout(() => {
+      dragging.current = false;
+    });
+    const application = applications.find((candidate) => candidate.id === active.id);
+    const stage = over?.id;
+    if (!application || !isApplicantStage(stage) || application.stage === stage) return;
+    stageMutation.mutate({ id: application.id, stage });
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={() => {
+        dragging.current = true;
+      }}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => {
+        dragging.current = false;
+      }}
+    >
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {APPLICANT_STAGES.map((stage) => {
+          const inStage = applications.filter((application) => application.stage === stage);
+          return (
+            <StageColumn key={stage} stage={stage} count={inStage.length}>
+              {inStage.map((application) => (
+                <ApplicantCard
+                  key={application.id}
+                  application={application}
+                  jobTitle={showJobTitles ? jobTitles.get(application.jobPostingId) : undefined}
+                  onOpen={() => !dragging.current && onOpen(application)}
+                />
+              ))}
+            </StageColumn>
+          );
+        })}
+      </div>
+    </DndContext>
+  );
+}
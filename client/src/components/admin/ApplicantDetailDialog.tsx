@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  ArrowRightLeft,
+  ExternalLink,
+  FileText,
+  Inbox,
+  Linkedin,
+  Loader2,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Phone,
+  Trash2,
+} from "lucide-react";
+import { JOB_APPLICATIONS_QUERY_KEY, RatingStars } from "./ApplicantBoard";
+import {
+  APPLICANT_STAGES,
+  APPLICANT_STAGE_LABELS,
+  MAX_APPLICANT_RATING,
+  isApplicantStage,
+  type ApplicantStage,
+} from "@shared/careers";
+import type { JobApplication, JobApplicationActivity, JobPosting } from "@shared/schema";
+
+interface ApplicantDetailDialogProps {
+  application: JobApplication | null;
+  jobPosting?: JobPosting;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const stageLabel = (stage: string | null) =>
+  stage && isApplicantStage(stage) ? APPLICANT_STAGE_LABELS[stage] : stage || "—";
+
+export function ApplicantDetailDialog({ application, jobPosting, onOpenChange }: ApplicantDetailDialogProps) {
+  return (
+    <Dialog open={!!application} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        {application && (
+          <ApplicantDetails
+            key={application.id}
+            application={application}
+            jobPosting={jobPosting}
+            onDeleted={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ApplicantDetails({
+  application,
+  jobPosting,
+  onDeleted,
+}: {
+  application: JobApplication;
+  jobPosting?: JobPosting;
+  onDeleted: () => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const activityQueryKey = [`/api/admin/job-applications/${application.id}/activity`];
+  const [noteBody, setNoteBody] = useState("");
+  const [rating, setRating] = useState<number | null>(null);
+
+  const { data: activity = [], isLoading } = useQuery<JobApplicationActivity[]>({
+    queryKey: activityQueryKey,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: JOB_APPLICATIONS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: activityQueryKey });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const stageMutation = useMutation({
+    mutationFn: async (stage: ApplicantStage) =>
+      apiRequest({
+        url: `/api/admin/job-applications/${application.id}/stage`,
+        method: "PUT",
+        body: { stage },
+      }),
+    onSuccess: refresh,
+    onError: onError("Failed to change stage"),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async (note: { body: string; rating: number | null }) =>
+      apiRequest({
+        url: `/api/admin/job-applications/${application.id}/notes`,
+        method: "POST",
+        body: note,
+      }),
+    onSuccess: () => {
+      refresh();
+      setNoteBody("");
+      setRating(null);
+    },
+    onError: onError("Failed to add note"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest({ url: `/api/admin/job-applications/${application.id}`, method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: JOB_APPLICATIONS_QUERY_KEY });
+      toast({
+        title: "Application deleted",
+        description: "The application and its uploaded files have been removed.",
+      });
+      onDeleted();
+    },
+    onError: onError("Failed to delete application"),
+  });
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the application from ${application.name}? Their resume will be deleted too.`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const notes = activity.filter((entry) => entry.type === "note");
+
+  const timeline = [
+    { key: "applied", date: new Date(application.createdAt), icon: Inbox, title: "Applied", detail: null, author: undefined },
+    ...activity.map((entry) => ({
+      key: `activity-${entry.id}`,
+      date: new Date(entry.createdAt),
+      icon: entry.type === "stage_change" ? ArrowRightLeft : MessageSquare,
+      title:
+        entry.type === "stage_change"
+          ? `Moved from ${stageLabel(entry.fromValue)} to ${stageLabel(entry.toValue)}`
+          : entry.rating
+            ? `Added a note and rated ${entry.rating}/${MAX_APPLICANT_RATING}`
+            : "Added a note",
+      detail: entry.type === "stage_change" ? entry.body : null,
+      author: entry.authorUsername,
+    })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{application.name}</DialogTitle>
+        <DialogDescription>
+          Applied for {jobPosting?.title ?? "a position"} on {formatDateTime(application.createdAt)}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-2 text-sm text-gray-700">
+            <a href={`mailto:${application.email}`} className="flex items-center hover:text-[#1E90DB]">
+              <Mail className="mr-2 h-4 w-4 shrink-0" /> {application.email}
+            </a>
+            {application.phone && (
+              <a href={`tel:${application.phone}`} className="flex items-center hover:text-[#1E90DB]">
+                <Phone className="mr-2 h-4 w-4 shrink-0" /> {application.phone}
+              </a>
+            )}
+            {application.location && (
+              <span className="flex items-center">
+                <MapPin className="mr-2 h-4 w-4 shrink-0" /> {application.location}
+              </span>
+            )}
+            {application.linkedinUrl && (
+              <a
+                href={application.linkedinUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center hover:text-[#1E90DB]"
+              >
+                <Linkedin className="mr-2 h-4 w-4 shrink-0" /> LinkedIn profile
+              </a>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={application.resumeUrl} target="_blank" rel="noopener noreferrer">
+                <FileText className="mr-1 h-4 w-4" /> Resume: {application.resumeFileName}
+                <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            </Button>
+            {application.coverLetterUrl && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={application.coverLetterUrl} target="_blank" rel="noopener noreferrer">
+                  <FileText className="mr-1 h-4 w-4" /> Cover letter: {application.coverLetterFileName}
+                  <ExternalLink className="ml-1 h-3 w-3" />
+                </a>
+              </Button>
+            )}
+          </div>
+
+          {application.coverLetter && (
+            <div className="rounded bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap max-h-[200px] overflow-y-auto">
+              {application.coverLetter}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="applicant-stage">Stage</Label>
+            <Select
+              value={application.stage}
+              onValueChange={(value) => isApplicantStage(value) && stageMutation.mutate(value)}
+              disabled={stageMutation.isPending}
+            >
+              <SelectTrigger id="applicant-stage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APPLICANT_STAGES.map((stage) => (
+                  <SelectItem key={stage} value={stage}>
+                    {APPLICANT_STAGE_LABELS[stage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm text-muted-foreground">Interviewer Notes</h3>
+            <div className="space-y-2 max-h-[240px] overflow-y-auto">
+              {notes.length === 0 ? (
+                <p className="text-sm text-gray-500">No notes yet.</p>
+              ) : (
+                notes.map((note) => (
+                  <div key={note.id} className="p-3 bg-gray-50 rounded-md">
+                    <div className="flex items-center justify-between mb-1">
+                      <p className="text-xs text-muted-foreground">
+                        <span className="font-semibold">{note.authorUsername}</span> · {formatDateTime(note.createdAt)}
+                      </p>
+                      {note.rating && <RatingStars rating={note.rating} />}
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                  </div>
+                ))
+              )}
+            </div>
+            <Textarea
+              aria-label="New note"
+              placeholder="How did the screening or interview go?"
+              rows={3}
+              value={noteBody}
+              onChange={(e) => setNoteBody(e.target.value)}
+              maxLength={5000}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <RatingStars rating={rating ?? 0} onChange={(value) => setRating(value === rating ? null : value)} />
+              <Button
+                size="sm"
+                onClick={() => noteMutation.mutate({ body: noteBody.trim(), rating })}
+                disabled={!noteBody.trim() || noteMutation.isPending}
+              >
+                {noteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Note
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-sm text-muted-foreground mb-2">Activity</h3>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+              {timeline.map((item) => {
+                const Icon = item.icon;
+                return (
+                  <li key={item.key} className="ml-6">
+                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white bg-blue-100 text-blue-700">
+                      <Icon className="h-3 w-3" />
+                    </span>
+                    <p className="text-sm font-medium">{item.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDateTime(item.date)}
+                      {item.author && ` · ${item.author}`}
+                    </p>
+                    {item.detail && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{item.detail}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          <div className="mt-8 border-t pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="text-red-600 hover:text-red-900"
+            >
+              <Trash2 className="mr-1 h-4 w-4" /> Delete Application
+            </Button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Eye, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface EmailTemplate {
+  name: string;
+  label: string;
+  description: string;
+  placeholders: string[];
+  subject: string;
+  text: string;
+  html: string;
+  customized: boolean;
+}
+
+interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type TemplateDraft = Pick<EmailTemplate, "subject" | "text" | "html">;
+
+const TEMPLATES_QUERY_KEY = ["/api/admin/email-templates"];
+
+// Placeholders that hold ready-made HTML and must use triple braces in the HTML body
+const isHtmlPlaceholder = (placeholder: string) => placeholder.endsWith("Html");
+
+export function EmailTemplateSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedName, setSelectedName] = useState<string>("");
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [pendingAction, setPendingAction] = useState<"save" | "reset" | "preview" | null>(null);
+
+  const { data: templates, isLoading } = useQuery<EmailTemplate[]>({
+    queryKey: TEMPLATES_QUERY_KEY,
+  });
+
+  const selectedTemplate = templates?.find((template) => template.name === selectedName);
+
+  useEffect(() => {
+    if (templates?.length && !selectedName) {
+      setSelectedName(templates[0].name);
+    }
+  }, [templates, selectedName]);
+
+  useEffect(() => {
+    if (selectedTemplate) {
+      setDraft({
+        subject: selectedTemplate.subject,
+        text: selectedTemplate.text,
+        html: selectedTemplate.html,
+      });
+    }
+  }, [selectedTemplate]);
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => {
+    setDraft((current) => current && { ...current, ...changes });
+  };
+
+  const runAction = async (action: "save" | "reset" | "preview") => {
+    if (!draft || !selectedTemplate) return;
+
+    setPendingAction(action);
+    try {
+      const url = `/api/admin/email-templates/${selectedTemplate.name}`;
+      if (action === "preview") {
+        setPreview(await apiRequest<RenderedEmail>({ url: `${url}/preview`, method: "POST", body: draft }));
+        return;
+      }
+
+      if (action === "save") {
+        await apiRequest({ url, method: "PUT", body: draft });
+      } else {
+        await apiRequest({ url, method: "DELETE" });
+      }
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      toast({
+        title: action === "save" ? "Template Saved" : "Template Reset",
+        description:
+          action === "save"
+            ? `${selectedTemplate.label} has been updated.`
+            : `${selectedTemplate.label} has been restored to the default.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the email template",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Customer Emails</CardTitle>
+        <CardDescription>
+          Emails sent to customers, such as the confirmation with a reference number and a copy of
+          what they submitted. Sent emails appear in the email outbox.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !templates ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="email-template">Template</Label>
+              <Select value={selectedName} onValueChange={setSelectedName}>
+                <SelectTrigger id="email-template">
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.name} value={template.name}>
+                      {template.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplate && (
+                <div className="text-sm text-gray-500 flex items-center gap-2">
+                  {selectedTemplate.description}
+                  <Badge variant={selectedTemplate.customized ? "default" : "secondary"}>
+                    {selectedTemplate.customized ? "Customized" : "Default"}
+                  </Badge>
+                </div>
+              )}
+            </div>
+
+            {selectedTemplate && draft && (
+              <>
+                <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+                  <p className="font-medium mb-1">Available placeholders</p>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedTemplate.placeholders.map((placeholder) => (
+                      <code key={placeholder} className="rounded bg-white px-1.5 py-0.5 border">
+                        {isHtmlPlaceholder(placeholder) ? `{{{${placeholder}}}}` : `{{${placeholder}}}`}
+                      </code>
+                    ))}
+                  </div>
+                  <p className="mt-2">
+                    Use the HTML placeholders (triple braces) in the HTML body only.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="email-template-subject">Subject</Label>
+                  <Input
+                    id="email-template-subject"
+                    value={draft.subject}
+                    onChange={(e) => updateDraft({ subject: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="email-template-text">Plain-text body</Label>
+                  <Textarea
+                    id="email-template-text"
+                    rows={10}
+                    className="font-mono text-sm"
+                    value={draft.text}
+                    onChange={(e) => updateDraft({ text: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="email-template-html">HTML body</Label>
+                  <Textarea
+                    id="email-template-html"
+                    rows={10}
+                    className="font-mono text-sm"
+                    value={draft.html}
+                    onChange={(e) => updateDraft({ html: e.target.value })}
+                  />
+                  <p className="text-sm text-gray-500">
+                    The HTML body is placed inside the branded email layout.
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => runAction("save")} disabled={pendingAction !== null}>
+                    {pendingAction === "save" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Template
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => runAction("preview")}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === "preview" ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Eye className="mr-2 h-4 w-4" />
+                    )}
+                    Preview
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => runAction("reset")}
+                    disabled={pendingAction !== null || !selectedTemplate.customized}
+                  >
+                    {pendingAction === "reset" ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Reset to Default
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <Tabs defaultValue="html">
+              <TabsList>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Plain text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                {/* Sandboxed so template markup can't run scripts in the admin panel */}
+                <iframe
+                  title="Email template preview"
+                  sandbox=""
+                  srcDoc={preview.html}
+                  className="w-full h-[420px] rounded-md border"
+                />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap text-sm bg-gray-50 rounded-md p-4 max-h-[420px] overflow-auto">
+                  {preview.text}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
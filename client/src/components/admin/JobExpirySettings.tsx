@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobExpirySettings as JobExpirySettingsData } from "@shared/careers";
+
+const SETTINGS_QUERY_KEY = ["/api/admin/careers/expiry-settings"];
+
+interface JobExpiryDraft {
+  alertsEnabled: boolean;
+  daysBefore: string;
+  recipients: string;
+}
+
+const parseRecipients = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+
+export function JobExpirySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<JobExpiryDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings, isLoading } = useQuery<JobExpirySettingsData>({
+    queryKey: SETTINGS_QUERY_KEY,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft({
+        alertsEnabled: settings.alertsEnabled,
+        daysBefore: String(settings.daysBefore),
+        recipients: settings.recipients.join("\n"),
+      });
+    }
+  }, [settings]);
+
+  const updateDraft = (changes: Partial<JobExpiryDraft>) => {
+    setDraft((current) => current && { ...current, ...changes });
+  };
+
+  const saveSettings = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      await apiRequest({
+        url: "/api/admin/careers/expiry-settings",
+        method: "PUT",
+        body: {
+          alertsEnabled: draft.alertsEnabled,
+          daysBefore: parseInt(draft.daysBefore),
+          recipients: parseRecipients(draft.recipients),
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({
+        title: "Expiry Alerts Saved",
+        description: "The job posting expiry alerts have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the expiry alerts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Job Posting Expiry Alerts</CardTitle>
+        <CardDescription>
+          Job postings with a closing date are archived automatically once it passes. HR can be
+          emailed a few days beforehand to extend or replace the posting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="job-expiry-alerts" className="text-base">
+                  Email HR before a posting closes
+                </Label>
+                <Switch
+                  id="job-expiry-alerts"
+                  checked={draft.alertsEnabled}
+                  onCheckedChange={(alertsEnabled) => updateDraft({ alertsEnabled })}
+                />
+              </div>
+              <Textarea
+                aria-label="Recipients for job posting expiry alerts"
+                placeholder="hr@arcemusa.com"
+                rows={2}
+                value={draft.recipients}
+                onChange={(e) => updateDraft({ recipients: e.target.value })}
+                disabled={!draft.alertsEnabled}
+              />
+              <p className="text-sm text-gray-500">
+                Enter one email address per line. Each closing date is alerted once; checks run
+                every hour.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="job-expiry-days">Days of notice</Label>
+              <Input
+                id="job-expiry-days"
+                type="number"
+                min={1}
+                max={60}
+                className="w-32"
+                value={draft.daysBefore}
+                onChange={(e) => updateDraft({ daysBefore: e.target.value })}
+                disabled={!draft.alertsEnabled}
+              />
+            </div>
+            <Button
+              onClick={saveSettings}
+              disabled={isSaving || !(parseInt(draft.daysBefore) > 0)}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Expiry Alerts
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import {
+  LEAD_FORM_LABELS,
+  UNTRACKED_LEAD_SOURCE,
+  type LeadSourceBreakdown as LeadSourceBreakdownData,
+} from "@shared/attribution";
+
+const PERIODS = [
+  { days: "30", label: "Last 30 days" },
+  { days: "90", label: "Last 90 days" },
+  { days: "365", label: "Last 12 months" },
+];
+
+/**
+ * Dashboard card showing which ads, search engines and referring sites
+ * inbound forms came from
+ */
+export function LeadSourceBreakdown() {
+  const [days, setDays] = useState("90");
+
+  const { data, isLoading } = useQuery<LeadSourceBreakdownData>({
+    queryKey: ["/api/admin/lead-sources", { days }],
+  });
+
+  if (data && data.forms.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-montserrat font-bold">Lead Sources</h2>
+          <p className="text-sm text-gray-500">
+            Where submitters came from on their first visit, by UTM source and medium or referring site.
+          </p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="md:w-[180px]" aria-label="Period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period.days} value={period.days}>
+                {period.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-[#1E90DB]" />
+        </div>
+      ) : data.sources.length === 0 ? (
+        <p className="text-gray-500">No submissions in this period</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source / medium</TableHead>
+                  {data.forms.map((form) => (
+                    <TableHead key={form} className="text-right">
+                      {LEAD_FORM_LABELS[form]}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.sources.map((row) => (
+                  <TableRow key={row.source}>
+                    <TableCell className={row.source === UNTRACKED_LEAD_SOURCE ? "text-gray-500" : "font-medium"}>
+                      {row.source}
+                    </TableCell>
+                    {data.forms.map((form) => (
+                      <TableCell key={form} className="text-right">
+                        {row.counts[form] ?? 0}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold">{row.total}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {data.campaigns.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-2">
+                Campaigns producing quote requests
+              </h3>
+              <ul className="divide-y">
+                {data.campaigns.map((entry) => (
+                  <li key={`${entry.campaign}-${entry.source}`} className="flex justify-between gap-4 py-2 text-sm">
+                    <span>
+                      <span className="font-medium">{entry.campaign}</span>
+                      <span className="text-gray-500"> · {entry.source}</span>
+                    </span>
+                    <span className="font-semibold">{entry.quoteRequests}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
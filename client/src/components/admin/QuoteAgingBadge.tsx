@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  QUOTE_STATUS_LABELS,
+  formatDuration,
+  getResponseDueAt,
+  isClosedQuoteStatus,
+  isQuoteStatus,
+} from "@shared/quotes";
+import type { QuoteRequest } from "@shared/schema";
+
+// A pending request is flagged as due soon in the last quarter of its response window
+const DUE_SOON_FRACTION = 0.25;
+
+export function isQuoteOverdue(quote: QuoteRequest, responseHours: number, now: Date = new Date()) {
+  return (
+    (quote.status || "pending") === "pending" &&
+    !quote.respondedAt &&
+    !!quote.createdAt &&
+    getResponseDueAt(quote.createdAt, responseHours) <= now
+  );
+}
+
+interface QuoteAgingBadgeProps {
+  quote: QuoteRequest;
+  responseHours: number;
+}
+
+/**
+ * How long an open quote request has been in its current status, and
+ * whether a pending one is close to or past the response target
+ */
+export function QuoteAgingBadge({ quote, responseHours }: QuoteAgingBadgeProps) {
+  const status = quote.status || "pending";
+  const enteredAt = quote.statusChangedAt ?? quote.createdAt;
+  if (isClosedQuoteStatus(status) || !enteredAt) return null;
+
+  const now = new Date();
+  const age = formatDuration(now.getTime() - new Date(enteredAt).getTime());
+  const label = `${age} in ${isQuoteStatus(status) ? QUOTE_STATUS_LABELS[status] : status}`;
+
+  if (status === "pending" && !quote.respondedAt && quote.createdAt) {
+    const remaining = getResponseDueAt(quote.createdAt, responseHours).getTime() - now.getTime();
+    if (remaining <= 0) {
+      return (
+        <Badge className="bg-red-100 text-red-800 hover:bg-red-100" title={`Response target: ${responseHours} hours`}>
+          Overdue by {formatDuration(-remaining)}
+        </Badge>
+      );
+    }
+    if (remaining <= responseHours * 3600000 * DUE_SOON_FRACTION) {
+      return (
+        <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100" title={label}>
+          Respond within {formatDuration(remaining)}
+        </Badge>
+      );
+    }
+  }
+
+  return (
+    <Badge variant="outline" className="font-normal text-muted-foreground">
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  ESTIMABLE_PROJECT_TYPES,
+  FINISH_LEVELS,
+  FINISH_LEVEL_LABELS,
+  QUOTE_PROJECT_TYPE_LABELS,
+  type EstimableProjectType,
+  type FinishLevel,
+  type QuoteCostRates,
+} from "@shared/quoteWizard";
+
+const SETTINGS_QUERY_KEY = ["/api/quote/cost-rates"];
+
+// Rates are edited as whole dollars per square foot and stored in cents
+type RateDraft = Record<EstimableProjectType, Record<FinishLevel, { low: string; high: string }>>;
+
+interface QuoteCostRatesDraft {
+  enabled: boolean;
+  perFloorPercent: string;
+  rates: RateDraft;
+}
+
+const toDollars = (cents: number) => String(cents / 100);
+const toCents = (dollars: string) => Math.round(parseFloat(dollars) * 100);
+
+function toDraft(settings: QuoteCostRates): QuoteCostRatesDraft {
+  const rates = {} as RateDraft;
+  for (const projectType of ESTIMABLE_PROJECT_TYPES) {
+    rates[projectType] = {} as RateDraft[EstimableProjectType];
+    for (const finishLevel of FINISH_LEVELS) {
+      const rate = settings.rates[projectType][finishLevel];
+      rates[projectType][finishLevel] = { low: toDollars(rate.lowCents), high: toDollars(rate.highCents) };
+    }
+  }
+  return { enabled: settings.enabled, perFloorPercent: String(settings.perFloorPercent), rates };
+}
+
+// Every rate must be a non-negative number with the high rate at or above the low one
+function isDraftValid(draft: QuoteCostRatesDraft) {
+  const perFloor = parseFloat(draft.perFloorPercent);
+  if (!(perFloor >= 0 && perFloor <= 100)) return false;
+  return ESTIMABLE_PROJECT_TYPES.every((projectType) =>
+    FINISH_LEVELS.every((finishLevel) => {
+      const { low, high } = draft.rates[projectType][finishLevel];
+      return toCents(low) >= 0 && toCents(high) >= toCents(low);
+    }),
+  );
+}
+
+export function QuoteCostRatesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<QuoteCostRatesDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings, isLoading } = useQuery<QuoteCostRates>({
+    queryKey: SETTINGS_QUERY_KEY,
+  });
+
+  useEffect(() => {
+    if (settings) setDraft(toDraft(settings));
+  }, [settings]);
+
+  const updateRate = (
+    projectType: EstimableProjectType,
+    finishLevel: FinishLevel,
+    bound: "low" | "high",
+    value: string,
+  ) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const rates = { ...current.rates, [projectType]: { ...current.rates[projectType] } };
+      rates[projectType][finishLevel] = { ...rates[projectType][finishLevel], [bound]: value };
+      return { ...current, rates };
+    });
+  };
+
+  const saveSettings = async () => {
+    if (!draft) return;
+
+    const rates = {} as QuoteCostRates["rates"];
+    for (const projectType of ESTIMABLE_PROJECT_TYPES) {
+      rates[projectType] = {} as QuoteCostRates["rates"][EstimableProjectType];
+      for (const finishLevel of FINISH_LEVELS) {
+        const { low, high } = draft.rates[projectType][finishLevel];
+        rates[projectType][finishLevel] = { lowCents: toCents(low), highCents: toCents(high) };
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await apiRequest({
+        url: "/api/admin/quote/cost-rates",
+        method: "PUT",
+        body: {
+          enabled: draft.enabled,
+          perFloorPercent: parseFloat(draft.perFloorPercent),
+          rates,
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({
+        title: "Cost Rates Saved",
+        description: "The quote wizard will use the new rates for its ballpark range.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the cost rates",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ballpark Cost Rates</CardTitle>
+        <CardDescription>
+          Typical cost per square foot used by the quote request wizard to show visitors a rough
+          price range. Each request keeps the range it was shown, so changes only affect new requests.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quote-ballpark-enabled" className="text-base">
+                Show a ballpark range in the quote wizard
+              </Label>
+              <Switch
+                id="quote-ballpark-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>$ per sq ft</TableHead>
+                    {FINISH_LEVELS.map((finishLevel) => (
+                      <TableHead key={finishLevel}>{FINISH_LEVEL_LABELS[finishLevel]}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ESTIMABLE_PROJECT_TYPES.map((projectType) => (
+                    <TableRow key={projectType}>
+                      <TableCell className="font-medium whitespace-nowrap">
+                        {QUOTE_PROJECT_TYPE_LABELS[projectType]}
+                      </TableCell>
+                      {FINISH_LEVELS.map((finishLevel) => {
+                        const rate = draft.rates[projectType][finishLevel];
+                        const label = `${QUOTE_PROJECT_TYPE_LABELS[projectType]}, ${FINISH_LEVEL_LABELS[finishLevel]}`;
+                        return (
+                          <TableCell key={finishLevel}>
+                            <div className="flex items-center gap-1">
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-20"
+                                aria-label={`${label} low rate`}
+                                value={rate.low}
+                                onChange={(e) => updateRate(projectType, finishLevel, "low", e.target.value)}
+                              />
+                              <span className="text-gray-500">–</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-20"
+                                aria-label={`${label} high rate`}
+                                value={rate.high}
+                                onChange={(e) => updateRate(projectType, finishLevel, "high", e.target.value)}
+                              />
+                            </div>
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quote-ballpark-per-floor">Added per floor above the first (%)</Label>
+              <Input
+                id="quote-ballpark-per-floor"
+                type="number"
+                min={0}
+                max={100}
+                className="w-32"
+                value={draft.perFloorPercent}
+                onChange={(e) => setDraft({ ...draft, perFloorPercent: e.target.value })}
+              />
+              <p className="text-sm text-gray-500">
+                Infrastructure and other projects are always priced individually and never get a ballpark.
+              </p>
+            </div>
+
+            <Button onClick={saveSettings} disabled={isSaving || !isDraftValid(draft)}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Cost Rates
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
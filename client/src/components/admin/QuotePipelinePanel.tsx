@@ -0,0 +1,447 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ArrowRightLeft,
+  CalendarClock,
+  Copy,
+  FileText,
+  FolderPlus,
+  Inbox,
+  Link2,
+  Loader2,
+  MessageCircle,
+  MessageSquare,
+  Paperclip,
+  UserCheck,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import {
+  QUOTE_STATUSES,
+  QUOTE_STATUS_LABELS,
+  formatDuration,
+  getQuoteStatusDurations,
+  isQuoteStatus,
+} from "@shared/quotes";
+import type { QuoteRequest, QuoteRequestActivity } from "@shared/schema";
+
+export interface QuoteAssignee {
+  id: number;
+  username: string;
+  email: string | null;
+}
+
+interface QuotePipelinePanelProps {
+  quote: QuoteRequest;
+  assignees: QuoteAssignee[];
+}
+
+interface TimelineItem {
+  key: string;
+  date: Date;
+  icon: typeof Inbox;
+  title: string;
+  detail?: string | null;
+  author?: string;
+  upcoming?: boolean;
+}
+
+const UNASSIGNED = "unassigned";
+
+// Follow-ups are scheduled by day; the value is local midnight of that day
+const toDateInputValue = (value: Date | string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const statusLabel = (status: string | null) =>
+  status && isQuoteStatus(status) ? QUOTE_STATUS_LABELS[status] : status || "—";
+
+export function isFollowUpOverdue(followUpAt: Date | string | null) {
+  if (!followUpAt) return false;
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  return new Date(followUpAt) < startOfToday;
+}
+
+function describeActivity(activity: QuoteRequestActivity): Pick<TimelineItem, "icon" | "title"> {
+  switch (activity.type) {
+    case "status_change":
+      return {
+        icon: ArrowRightLeft,
+        title: `Status changed from ${statusLabel(activity.fromValue)} to ${statusLabel(activity.toValue)}`,
+      };
+    case "assignment":
+      return {
+        icon: UserCheck,
+        title: activity.toValue ? `Assigned to ${activity.toValue}` : `Unassigned from ${activity.fromValue}`,
+      };
+    case "follow_up":
+      return {
+        icon: CalendarClock,
+        title: activity.toValue
+          ? `Follow-up scheduled for ${formatDate(activity.toValue)}`
+          : "Follow-up cleared",
+      };
+    case "estimate_sent":
+      return { icon: FileText, title: `Proposal ${activity.toValue} emailed` };
+    case "customer_message":
+      return { icon: MessageCircle, title: "Customer sent a message" };
+    case "customer_upload":
+      return { icon: Paperclip, title: "Customer added files" };
+    case "converted_to_project":
+      return { icon: FolderPlus, title: `Converted to project "${activity.toValue}"` };
+    case "tracking_link":
+      return {
+        icon: Link2,
+        title: activity.toValue === "replaced" ? "Customer tracking link replaced" : "Customer tracking link created",
+      };
+    default:
+      return { icon: MessageSquare, title: activity.type };
+  }
+}
+
+export function QuotePipelinePanel({ quote, assignees }: QuotePipelinePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const activityQueryKey = [`/api/admin/quote/requests/${quote.id}/activity`];
+  const [followUpDate, setFollowUpDate] = useState(toDateInputValue(quote.followUpAt));
+  const [followUpNote, setFollowUpNote] = useState("");
+  const [noteBody, setNoteBody] = useState("");
+  const [trackingUrl, setTrackingUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFollowUpDate(toDateInputValue(quote.followUpAt));
+  }, [quote.id, quote.followUpAt]);
+
+  useEffect(() => {
+    setTrackingUrl(null);
+  }, [quote.id]);
+
+  const { data: activity = [], isLoading } = useQuery<QuoteRequestActivity[]>({
+    queryKey: activityQueryKey,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/quote/requests"] });
+    queryClient.invalidateQueries({ queryKey: activityQueryKey });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async (assignedToId: number | null) =>
+      apiRequest({
+        url: `/api/admin/quote/requests/${quote.id}/assignment`,
+        method: "PUT",
+        body: { assignedToId },
+      }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Estimator updated" });
+    },
+    onError: onError("Assignment failed"),
+  });
+
+  const followUpMutation = useMutation({
+    mutationFn: async (date: string | null) =>
+      apiRequest({
+        url: `/api/admin/quote/requests/${quote.id}/follow-up`,
+        method: "PUT",
+        body: {
+          followUpAt: date ? new Date(`${date}T00:00:00`).toISOString() : null,
+          note: followUpNote || undefined,
+        },
+      }),
+    onSuccess: (_data, date) => {
+      refresh();
+      setFollowUpNote("");
+      toast({ title: date ? "Follow-up scheduled" : "Follow-up cleared" });
+    },
+    onError: onError("Follow-up failed"),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async (body: string) =>
+      apiRequest({
+        url: `/api/admin/quote/requests/${quote.id}/notes`,
+        method: "POST",
+        body: { body },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: activityQueryKey });
+      setNoteBody("");
+    },
+    onError: onError("Failed to add note"),
+  });
+
+  const trackingLinkMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest<{ trackingUrl: string }>({
+        url: `/api/admin/quote/requests/${quote.id}/tracking-link`,
+        method: "POST",
+      }),
+    onSuccess: (data) => {
+      refresh();
+      setTrackingUrl(data?.trackingUrl ?? null);
+    },
+    onError: onError("Failed to create tracking link"),
+  });
+
+  const createTrackingLink = () => {
+    if (
+      quote.trackingTokenHash &&
+      !window.confirm("The customer's current tracking link will stop working. Create a new one?")
+    ) {
+      return;
+    }
+    trackingLinkMutation.mutate();
+  };
+
+  const copyTrackingLink = async () => {
+    if (!trackingUrl) return;
+    try {
+      await navigator.clipboard.writeText(trackingUrl);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const notes = activity.filter((entry) => entry.type === "note");
+
+  const statusDurations = quote.createdAt
+    ? getQuoteStatusDurations(
+        quote.createdAt,
+        activity.filter((entry) => entry.type === "status_change"),
+      )
+    : {};
+  const currentStatus = quote.status || "pending";
+
+  const timeline: TimelineItem[] = [
+    ...(quote.createdAt
+      ? [{ key: "submitted", date: new Date(quote.createdAt), icon: Inbox, title: "Quote request submitted" }]
+      : []),
+    ...activity
+      .filter((entry) => entry.type !== "note")
+      .map((entry) => ({
+        key: `activity-${entry.id}`,
+        date: new Date(entry.createdAt),
+        ...describeActivity(entry),
+        detail: entry.body,
+        author: entry.authorUsername,
+      })),
+    ...(quote.followUpAt
+      ? [
+          {
+            key: "follow-up-due",
+            date: new Date(quote.followUpAt),
+            icon: CalendarClock,
+            title: isFollowUpOverdue(quote.followUpAt) ? "Follow-up overdue" : "Follow-up due",
+            upcoming: true,
+          },
+        ]
+      : []),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return (
+    <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6 border-t pt-4">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="quote-assignee">Estimator</Label>
+          <Select
+            value={quote.assignedToId ? String(quote.assignedToId) : UNASSIGNED}
+            onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : parseInt(value))}
+            disabled={assignMutation.isPending}
+          >
+            <SelectTrigger id="quote-assignee">
+              <SelectValue placeholder="Unassigned" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assignees.map((assignee) => (
+                <SelectItem key={assignee.id} value={String(assignee.id)}>
+                  {assignee.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="quote-follow-up">Follow-up due</Label>
+          <Input
+            id="quote-follow-up"
+            type="date"
+            value={followUpDate}
+            onChange={(e) => setFollowUpDate(e.target.value)}
+          />
+          <Input
+            placeholder="What needs to happen? (optional)"
+            value={followUpNote}
+            onChange={(e) => setFollowUpNote(e.target.value)}
+            maxLength={2000}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => followUpMutation.mutate(followUpDate)}
+              disabled={!followUpDate || followUpMutation.isPending}
+            >
+              {followUpMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Schedule
+            </Button>
+            {quote.followUpAt && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => followUpMutation.mutate(null)}
+                disabled={followUpMutation.isPending}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Customer tracking link</Label>
+          <p className="text-sm text-gray-500">
+            {quote.trackingTokenHash
+              ? "The customer has a private link to check the status, add files and send messages. For security it can't be shown again, but you can create a new one to share."
+              : "Create a private link the customer can use to check the status, add files and send messages."}
+          </p>
+          {trackingUrl && (
+            <div className="flex gap-2">
+              <Input readOnly value={trackingUrl} aria-label="Tracking link" onFocus={(e) => e.target.select()} />
+              <Button size="sm" variant="outline" onClick={copyTrackingLink} aria-label="Copy tracking link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <Button size="sm" variant="outline" onClick={createTrackingLink} disabled={trackingLinkMutation.isPending}>
+            {trackingLinkMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            {quote.trackingTokenHash ? "Replace Link" : "Create Link"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm text-muted-foreground">Internal Notes</h3>
+          <div className="space-y-2 max-h-[240px] overflow-y-auto">
+            {notes.length === 0 ? (
+              <p className="text-sm text-gray-500">No notes yet.</p>
+            ) : (
+              notes.map((note) => (
+                <div key={note.id} className="p-3 bg-gray-50 rounded-md">
+                  <p className="text-xs text-muted-foreground mb-1">
+                    <span className="font-semibold">{note.authorUsername}</span> · {formatDateTime(note.createdAt)}
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                </div>
+              ))
+            )}
+          </div>
+          <Textarea
+            aria-label="New note"
+            placeholder="Add a note for the team..."
+            rows={3}
+            value={noteBody}
+            onChange={(e) => setNoteBody(e.target.value)}
+            maxLength={5000}
+          />
+          <Button
+            size="sm"
+            onClick={() => noteMutation.mutate(noteBody.trim())}
+            disabled={!noteBody.trim() || noteMutation.isPending}
+          >
+            {noteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Note
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        {!isLoading && Object.keys(statusDurations).length > 0 && (
+          <div className="mb-6">
+            <h3 className="font-semibold text-sm text-muted-foreground mb-2">Time in each status</h3>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {QUOTE_STATUSES.filter((status) => statusDurations[status] !== undefined).map((status) => (
+                <div key={status} className="contents">
+                  <dt className={status === currentStatus ? "font-medium" : "text-gray-600"}>
+                    {QUOTE_STATUS_LABELS[status]}
+                    {status === currentStatus && " (current)"}
+                  </dt>
+                  <dd className="text-right">{formatDuration(statusDurations[status]!)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        <h3 className="font-semibold text-sm text-muted-foreground mb-2">Timeline</h3>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+            {timeline.map((item) => {
+              const Icon = item.icon;
+              const overdue = item.upcoming && isFollowUpOverdue(item.date);
+              return (
+                <li key={item.key} className="ml-6">
+                  <span
+                    className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white ${
+                      overdue ? "bg-red-100 text-red-700" : item.upcoming ? "bg-amber-100 text-amber-700" : "bg-blue-100 text-blue-700"
+                    }`}
+                  >
+                    <Icon className="h-3 w-3" />
+                  </span>
+                  <p className={`text-sm font-medium ${overdue ? "text-red-700" : ""}`}>{item.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.upcoming ? formatDate(item.date) : formatDateTime(item.date)}
+                    {item.author && ` · ${item.author}`}
+                  </p>
+                  {item.detail && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{item.detail}</p>}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { QuoteSlaSettings as QuoteSlaSettingsData } from "@shared/quotes";
+
+const SETTINGS_QUERY_KEY = ["/api/admin/quote/sla"];
+
+interface QuoteSlaDraft {
+  responseHours: string;
+  alertsEnabled: boolean;
+  recipients: string;
+}
+
+const parseRecipients = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+
+export function QuoteSlaSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<QuoteSlaDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings, isLoading } = useQuery<QuoteSlaSettingsData>({
+    queryKey: SETTINGS_QUERY_KEY,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft({
+        responseHours: String(settings.responseHours),
+        alertsEnabled: settings.alertsEnabled,
+        recipients: settings.recipients.join("\n"),
+      });
+    }
+  }, [settings]);
+
+  const updateDraft = (changes: Partial<QuoteSlaDraft>) => {
+    setDraft((current) => current && { ...current, ...changes });
+  };
+
+  const saveSettings = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      await apiRequest({
+        url: "/api/admin/quote/sla",
+        method: "PUT",
+        body: {
+          responseHours: parseInt(draft.responseHours),
+          alertsEnabled: draft.alertsEnabled,
+          recipients: parseRecipients(draft.recipients),
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({
+        title: "Response Target Saved",
+        description: "The quote response target has been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the response target",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quote Response Target</CardTitle>
+        <CardDescription>
+          How quickly new quote requests should get a response. A request counts as answered once
+          it leaves Pending. Late requests are flagged in the quote list and can be emailed to staff.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="quote-sla-hours">Respond within (hours)</Label>
+              <Input
+                id="quote-sla-hours"
+                type="number"
+                min={1}
+                max={720}
+                className="w-32"
+                value={draft.responseHours}
+                onChange={(e) => updateDraft({ responseHours: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="quote-sla-alerts" className="text-base">
+                  Email staff when a request is overdue
+                </Label>
+                <Switch
+                  id="quote-sla-alerts"
+                  checked={draft.alertsEnabled}
+                  onCheckedChange={(alertsEnabled) => updateDraft({ alertsEnabled })}
+                />
+              </div>
+              <Textarea
+                aria-label="Recipients for overdue quote alerts"
+                placeholder="estimating@arcemusa.com"
+                rows={2}
+                value={draft.recipients}
+                onChange={(e) => updateDraft({ recipients: e.target.value })}
+                disabled={!draft.alertsEnabled}
+              />
+              <p className="text-sm text-gray-500">
+                Enter one email address per line. Each overdue request is alerted once; checks run
+                every 15 minutes.
+              </p>
+            </div>
+            <Button
+              onClick={saveSettings}
+              disabled={isSaving || !(parseInt(draft.responseHours) > 0)}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Response Target
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, Monitor } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLE_LABELS, isRole } from "@shared/permissions";
+
+interface UserSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+const SESSIONS_QUERY_KEY = ["/api/user/sessions"];
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export function SessionSettings() {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return apiRequest("DELETE", `/api/user/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: "Session ended", description: "That device has been signed out." });
+    },
+    onError: (error) => showError(error, "Failed to end session."),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ revokedCount: number }>("DELETE", "/api/user/sessions");
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({
+        title: "Signed out other sessions",
+        description: `${result?.revokedCount ?? 0} other session(s) were signed out.`,
+      });
+    },
+    onError: (error) => showError(error, "Failed to sign out other sessions."),
+  });
+
+  const otherSessionCount = sessions.filter((session) => !session.current).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          You are signed in as <strong>{user?.username}</strong> with role{" "}
+          <strong>{isRole(user?.role) ? ROLE_LABELS[user.role] : user?.role}</strong>. These are
+          the devices currently signed in to your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Signed In</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      <Monitor className="inline mr-2 h-4 w-4 text-gray-500" />
+                      {session.device}
+                      {session.current && (
+                        <Badge className="ml-2 bg-green-100 text-green-800 hover:bg-green-100">
+                          This device
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{session.ipAddress || "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(session.signedInAt)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(session.lastSeenAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {session.current ? (
+                        <Button variant="ghost" size="sm" onClick={logout}>
+                          <LogOut className="mr-2 h-4 w-4" />
+                          Logout
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-900"
+                          onClick={() => revokeMutation.mutate(session.id)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="destructive"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={otherSessionCount === 0 || revokeOthersMutation.isPending}
+        >
+          Sign Out All Other Sessions
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
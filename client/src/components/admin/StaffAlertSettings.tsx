@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  STAFF_ALERT_EVENTS,
+  STAFF_ALERT_EVENT_LABELS,
+  type StaffAlertEvent,
+  type StaffAlertSettings as StaffAlertSettingsData,
+} from "@shared/staffAlerts";
+
+// Recipients are edited as free text, one address per line or comma-separated
+type StaffAlertDraft = Record<StaffAlertEvent, { enabled: boolean; recipients: string }>;
+
+const SETTINGS_QUERY_KEY = ["/api/admin/notifications/staff-alerts"];
+
+const parseRecipients = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+
+export function StaffAlertSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<StaffAlertDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings, isLoading } = useQuery<StaffAlertSettingsData>({
+    queryKey: SETTINGS_QUERY_KEY,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(
+        Object.fromEntries(
+          STAFF_ALERT_EVENTS.map((event) => [
+            event,
+            { enabled: settings[event].enabled, recipients: settings[event].recipients.join("\n") },
+          ]),
+        ) as StaffAlertDraft,
+      );
+    }
+  }, [settings]);
+
+  const updateEvent = (event: StaffAlertEvent, changes: Partial<StaffAlertDraft[StaffAlertEvent]>) => {
+    setDraft((current) => current && { ...current, [event]: { ...current[event], ...changes } });
+  };
+
+  const saveSettings = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      await apiRequest({
+        url: "/api/admin/notifications/staff-alerts",
+        method: "PUT",
+        body: Object.fromEntries(
+          STAFF_ALERT_EVENTS.map((event) => [
+            event,
+            { enabled: draft[event].enabled, recipients: parseRecipients(draft[event].recipients) },
+          ]),
+        ),
+      });
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({
+        title: "Notifications Saved",
+        description: "Staff alert recipients have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save staff alert settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff Alerts</CardTitle>
+        <CardDescription>
+          Email staff as soon as someone submits a form on the website. Each alert includes a
+          summary of the submission and a link to it in the admin panel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            {STAFF_ALERT_EVENTS.map((event) => (
+              <div key={event} className="space-y-2 border-b pb-6 last:border-b-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`staff-alert-${event}`} className="text-base">
+                    {STAFF_ALERT_EVENT_LABELS[event]}
+                  </Label>
+                  <Switch
+                    id={`staff-alert-${event}`}
+                    checked={draft[event].enabled}
+                    onCheckedChange={(enabled) => updateEvent(event, { enabled })}
+                  />
+                </div>
+                <Textarea
+                  aria-label={`Recipients for ${STAFF_ALERT_EVENT_LABELS[event]}`}
+                  placeholder="office@arcemusa.com"
+                  rows={2}
+                  value={draft[event].recipients}
+                  onChange={(e) => updateEvent(event, { recipients: e.target.value })}
+                  disabled={!draft[event].enabled}
+                />
+              </div>
+            ))}
+            <p className="text-sm text-gray-500">
+              Enter one email address per line. Sent alerts appear in the email outbox.
+            </p>
+            <Button onClick={saveSettings} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Notifications
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
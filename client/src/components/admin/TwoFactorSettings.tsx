@@ -0,0 +1,383 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Copy, Loader2, ShieldCheck } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLES, ROLE_LABELS, ROLE_VALUES, type Role } from "@shared/permissions";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+const STATUS_QUERY_KEY = ["/api/user/two-factor"];
+
+function BackupCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Copied", description: "Backup codes copied to clipboard." });
+    } catch (error) {
+      console.error("Error copying backup codes:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Save these backup codes somewhere safe. Each code can be used once to sign in if you
+          lose access to your authenticator app. They won't be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={copyCodes}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy Codes
+        </Button>
+        <Button type="button" onClick={onDone}>
+          I've Saved My Codes
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { checkAuth } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_QUERY_KEY,
+  });
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startSetup = () =>
+    runAction(async () => {
+      const result = await apiRequest<TwoFactorEnrollment>({
+        url: "/api/user/two-factor/setup",
+        method: "POST",
+      });
+      setCode("");
+      setEnrollment(result);
+    }, "Failed to start two-factor setup");
+
+  const confirmSetup = () =>
+    runAction(async () => {
+      const result = await apiRequest<{ backupCodes: string[] }>({
+        url: "/api/user/two-factor/enable",
+        method: "POST",
+        body: { code },
+      });
+      setEnrollment(null);
+      setCode("");
+      setBackupCodes(result?.backupCodes ?? []);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    }, "Failed to enable two-factor authentication");
+
+  const regenerateBackupCodes = () =>
+    runAction(async () => {
+      const result = await apiRequest<{ backupCodes: string[] }>({
+        url: "/api/user/two-factor/backup-codes",
+        method: "POST",
+        body: { code },
+      });
+      setCode("");
+      setBackupCodes(result?.backupCodes ?? []);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    }, "Failed to generate new backup codes");
+
+  const disableTwoFactor = () =>
+    runAction(async () => {
+      await apiRequest({
+        url: "/api/user/two-factor/disable",
+        method: "POST",
+        body: { password },
+      });
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+      await checkAuth();
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Your account no longer requires a verification code to sign in.",
+      });
+    }, "Failed to disable two-factor authentication");
+
+  // Refreshing the session user clears the "setup required" gate once enrollment is finished
+  const finishBackupCodes = async () => {
+    setBackupCodes(null);
+    await checkAuth();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Enabled</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app (such as Google Authenticator or 1Password)
+          in addition to your password when signing in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : backupCodes ? (
+          <BackupCodesList codes={backupCodes} onDone={finishBackupCodes} />
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="Two-factor authentication QR code"
+              className="h-48 w-48 border rounded-md"
+            />
+            <p className="text-sm text-gray-600">
+              Can't scan it? Enter this key manually:{" "}
+              <code className="font-mono break-all">{enrollment.secret}</code>
+            </p>
+            <div className="grid gap-2 max-w-xs">
+              <Label htmlFor="two-factor-setup-code">Verification Code</Label>
+              <Input
+                id="two-factor-setup-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={confirmSetup} disabled={isSubmitting || !code.trim()}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify and Enable
+              </Button>
+              <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              You have <strong>{status.backupCodesRemaining}</strong> unused backup code
+              {status.backupCodesRemaining === 1 ? "" : "s"} remaining.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-regenerate-code">Generate New Backup Codes</Label>
+              <p className="text-sm text-gray-500">
+                Enter a code from your authenticator app. Your old backup codes will stop working.
+              </p>
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  id="two-factor-regenerate-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                />
+                <Button
+                  variant="outline"
+                  onClick={regenerateBackupCodes}
+                  disabled={isSubmitting || !code.trim()}
+                >
+                  Generate
+                </Button>
+              </div>
+            </div>
+
+            {status.required ? (
+              <p className="text-sm text-gray-500">
+                Two-factor authentication is required for your role and can't be turned off.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-disable-password">Turn Off Two-Factor Authentication</Label>
+                <p className="text-sm text-gray-500">Confirm with your current password.</p>
+                <div className="flex gap-2 max-w-md">
+                  <Input
+                    id="two-factor-disable-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                  <Button
+                    variant="destructive"
+                    onClick={disableTwoFactor}
+                    disabled={isSubmitting || !password}
+                  >
+                    Disable
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {status?.required && (
+              <Alert>
+                <ShieldCheck className="h-4 w-4" />
+                <AlertDescription>
+                  Your role requires two-factor authentication. Set it up to continue using the admin panel.
+                </AlertDescription>
+              </Alert>
+            )}
+            <Button onClick={startSetup} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set Up Two-Factor Authentication
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Roles without admin panel access have nothing to protect
+const POLICY_ROLES = ROLE_VALUES.filter((role) => role !== ROLES.USER);
+
+export function TwoFactorPolicySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [requiredRoles, setRequiredRoles] = useState<Role[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: policy, isLoading } = useQuery<{ requiredRoles: Role[] }>({
+    queryKey: ["/api/admin/security/two-factor-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setRequiredRoles(policy.requiredRoles);
+    }
+  }, [policy]);
+
+  const toggleRole = (role: Role, checked: boolean) => {
+    setRequiredRoles((current) =>
+      checked ? [...current, role] : current.filter((r) => r !== role),
+    );
+  };
+
+  const savePolicy = async () => {
+    setIsSaving(true);
+    try {
+      await apiRequest({
+        url: "/api/admin/security/two-factor-policy",
+        method: "PUT",
+        body: { requiredRoles },
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security/two-factor-policy"] });
+      toast({
+        title: "Policy Saved",
+        description: "Users with the selected roles must set up two-factor authentication.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the two-factor policy",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Two-Factor Policy</CardTitle>
+        <CardDescription>
+          Require two-factor authentication for staff roles. Affected users are asked to set it
+          up before they can use the admin panel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-3">
+              {POLICY_ROLES.map((role) => (
+                <div key={role} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`two-factor-role-${role}`}
+                    checked={requiredRoles.includes(role)}
+                    onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                  />
+                  <Label htmlFor={`two-factor-role-${role}`}>{ROLE_LABELS[role]}</Label>
+                </div>
+              ))}
+            </div>
+            <Button onClick={savePolicy} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Policy
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,24 +1,29 @@
 import { ReactNode, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2 } from 'lucide-react';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TwoFactorSettings } from '@/components/admin/TwoFactorSettings';
+import { PERMISSIONS, type Permission } from '@shared/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Permission required to view the page; defaults to basic admin panel access
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated, loading } = useAuth();
+const ProtectedRoute = ({ children, permission = PERMISSIONS.DASHBOARD_VIEW }: ProtectedRouteProps) => {
+  const { user, isAuthenticated, isLoading, hasPermission, logout } = useAuth();
   const [location, setLocation] = useLocation();
 
   useEffect(() => {
-    if (!loading && !isAuthenticated) {
+    if (!isLoading && !isAuthenticated) {
       // Redirect to login if not authenticated
       setLocation('/auth/login');
     }
-  }, [isAuthenticated, loading, setLocation]);
+  }, [isAuthenticated, isLoading, setLocation]);
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Loader2 className="w-10 h-10 animate-spin text-[#1E90DB]" />
@@ -26,8 +31,49 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     );
   }
 
-  // Render children only if authenticated
-  return isAuthenticated ? <>{children}</> : null;
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  // Signed in, but the user's role does not include this page
+  if (!hasPermission(permission)) {
+    const canViewDashboard = hasPermission(PERMISSIONS.DASHBOARD_VIEW);
+
+    return (
+      <div className="min-h-screen pt-32 pb-20 bg-gray-50 flex items-start justify-center">
+        <div className="bg-white rounded-lg shadow-md p-8 max-w-md text-center">
+          <ShieldAlert className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-montserrat font-bold mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-6">
+            Your account does not have permission to view this page.
+          </p>
+          <Button onClick={() => setLocation(canViewDashboard ? '/admin' : '/')}>
+            {canViewDashboard ? 'Back to Dashboard' : 'Return to Website'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // The user's role requires 2FA; the admin panel stays locked until they enroll
+  if (user?.twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+        <div className="container mx-auto px-4 md:px-8 max-w-2xl">
+          <h1 className="text-2xl font-montserrat font-bold mb-2">Set Up Two-Factor Authentication</h1>
+          <p className="text-gray-600 mb-6">
+            Your account needs two-factor authentication before you can use the admin panel.
+          </p>
+          <TwoFactorSettings />
+          <Button variant="ghost" className="mt-4" onClick={logout}>
+            Sign out
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
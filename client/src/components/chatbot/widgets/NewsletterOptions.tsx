@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useNewsletter } from '@/hooks/useNewsletter';
+import { useFormGuard, HoneypotField } from '@/components/common/FormGuard';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -13,6 +14,7 @@ type FormValues = z.infer<typeof formSchema>;
 
 const NewsletterOptions = () => {
   const { subscribe } = useNewsletter();
+  const guard = useFormGuard();
   const [isSubmitted, setIsSubmitted] = useState(false);
 
   const { 
@@ -28,7 +30,8 @@ const NewsletterOptions = () => {
       await subscribe({
         email: data.email,
         firstName: "",
-        lastName: ""
+        lastName: "",
+        formGuard: guard.read()
       });
       setIsSubmitted(true);
     } catch (error) {
@@ -41,6 +44,7 @@ const NewsletterOptions = () => {
       {!isSubmitted ? (
         <form onSubmit={handleSubmit(onSubmit)} className="mt-2">
           <div className="flex flex-col space-y-2">
+            <HoneypotField guard={guard} />
             <input
               type="email"
               placeholder="Your email address"
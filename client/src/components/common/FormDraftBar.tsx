@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import type { FormDraftHandle } from "@/hooks/useFormDraft";
+import { DRAFT_TTL_DAYS } from "@shared/drafts";
+import { Loader2, Mail, RotateCcw, Save } from "lucide-react";
+
+interface FormDraftBarProps {
+  draft: FormDraftHandle;
+  // The form's current data, sent with the "finish later" link
+  getData: () => Record<string, unknown>;
+  // Reset the form's fields; the saved draft is cleared here
+  onStartOver: () => void;
+  // Prefills the address for the link, usually the email typed into the form
+  defaultEmail?: string;
+}
+
+// Shows that progress is being saved and offers a link to finish on another device
+const FormDraftBar = ({ draft, getData, onStartOver, defaultEmail = "" }: FormDraftBarProps) => {
+  const { toast } = useToast();
+  const [showEmail, setShowEmail] = useState(false);
+  const [email, setEmail] = useState("");
+
+  const openEmail = () => {
+    setEmail(email || defaultEmail);
+    setShowEmail(true);
+  };
+
+  const sendLink = async () => {
+    try {
+      const result = await draft.emailLink(email.trim(), getData());
+      setShowEmail(false);
+      toast({
+        title: "Link sent",
+        description: result.message,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send the link",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startOver = () => {
+    if (window.confirm("Clear everything you've entered and start over?")) {
+      draft.clear();
+      onStartOver();
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-700 space-y-3">
+      {draft.linkExpired && !draft.restored && (
+        <p className="text-amber-800">
+          That link has expired or the form has already been submitted, so there was nothing to restore.
+        </p>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <p className="flex items-start">
+          <Save className="mr-2 mt-0.5 h-4 w-4 shrink-0 text-[#1E90DB]" />
+          <span>
+            {draft.restored ? "We've restored your saved progress. " : "Your progress is saved on this device as you go. "}
+            {draft.linkedEmail
+              ? `You can also finish from the link we sent to ${draft.linkedEmail}.`
+              : `Need more time? We can email you a link to finish later, valid for ${DRAFT_TTL_DAYS} days.`}
+          </span>
+        </p>
+
+        <div className="flex gap-2 shrink-0">
+          {!draft.linkedEmail && !showEmail && (
+            <Button type="button" variant="outline" size="sm" onClick={openEmail}>
+              <Mail className="mr-1 h-4 w-4" />
+              Email me a link
+            </Button>
+          )}
+          {draft.savedAt && (
+            <Button type="button" variant="ghost" size="sm" onClick={startOver}>
+              <RotateCcw className="mr-1 h-4 w-4" />
+              Start over
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showEmail && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            aria-label="Email address for the link"
+            placeholder="email@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => {
+              // Don't submit the surrounding form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                sendLink();
+              }
+            }}
+            className="bg-white"
+          />
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={sendLink} disabled={draft.isSendingLink || !email.trim()}>
+              {draft.isSendingLink && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Send link
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowEmail(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormDraftBar;
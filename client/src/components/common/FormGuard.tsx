@@ -0,0 +1,49 @@
+import { useCallback, useRef } from "react";
+import { HONEYPOT_FIELD_NAME, type FormGuard } from "@shared/spam";
+
+/**
+ * Spam checks for a public form: remembers when the form was shown and
+ * reads the hidden honeypot input. Render <HoneypotField guard={guard} />
+ * inside the form and send guard.read() as formGuard with the submission.
+ */
+export function useFormGuard() {
+  const openedAt = useRef(Date.now());
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  const read = useCallback(
+    (): FormGuard => ({
+      honeypot: honeypotRef.current?.value || undefined,
+      elapsedMs: Date.now() - openedAt.current,
+    }),
+    [],
+  );
+
+  // Call after a successful submission when the form stays on screen for another one
+  const reset = useCallback(() => {
+    openedAt.current = Date.now();
+    if (honeypotRef.current) honeypotRef.current.value = "";
+  }, []);
+
+  return { honeypotRef, read, reset };
+}
+
+export type FormGuardHandle = ReturnType<typeof useFormGuard>;
+
+// Off-screen input that people never see or reach by keyboard, but bots fill in
+export function HoneypotField({ guard }: { guard: FormGuardHandle }) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+      <label>
+        Fax number
+        <input
+          ref={guard.honeypotRef}
+          type="text"
+          name={HONEYPOT_FIELD_NAME}
+          tabIndex={-1}
+          autoComplete="off"
+          defaultValue=""
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BellRing, Loader2, MailCheck } from "lucide-react";
+
+// Matches the "all" value the careers page filters use
+const ANY = "all";
+
+const formSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+  department: z.string(),
+  location: z.string(),
+  type: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+type AlertFilters = Pick<FormValues, "department" | "location" | "type">;
+
+interface JobAlertSignupProps {
+  departments: string[];
+  locations: string[];
+  jobTypes: string[];
+  // The filters the visitor has picked on the careers page, offered as the alert's filters
+  filters: AlertFilters;
+}
+
+const JobAlertSignup = ({ departments, locations, jobTypes, filters }: JobAlertSignupProps) => {
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: "", ...filters },
+  });
+
+  useEffect(() => {
+    form.setValue("department", filters.department);
+    form.setValue("location", filters.location);
+    form.setValue("type", filters.type);
+  }, [filters.department, filters.location, filters.type]);
+
+  const subscribeMutation = useMutation({
+    mutationFn: (values: FormValues) =>
+      apiRequest<{ message: string }>({
+        url: "/api/careers/alerts",
+        method: "POST",
+        body: {
+          email: values.email,
+          department: values.department === ANY ? null : values.department,
+          location: values.location === ANY ? null : values.location,
+          type: values.type === ANY ? null : values.type,
+        },
+      }),
+    onSuccess: (_result, values) => {
+      setSentTo(values.email);
+      form.reset({ email: "", ...filters });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't set up your job alert",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filterSelect = (
+    name: keyof AlertFilters,
+    label: string,
+    anyLabel: string,
+    options: string[],
+    formatOption: (option: string) => string = (option) => option,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={ANY}>{anyLabel}</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {formatOption(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <div className="mb-4">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <BellRing className="h-6 w-6 text-[#1E90DB]" />
+          Get Job Alerts
+        </h2>
+        <p className="text-muted-foreground">
+          Not the right role yet? We'll email you when new positions open that match what you're looking for.
+        </p>
+      </div>
+
+      {sentTo ? (
+        <div className="flex items-start gap-3 rounded-md bg-blue-50 p-4 text-sm">
+          <MailCheck className="h-5 w-5 text-[#1E90DB] shrink-0" />
+          <div>
+            <p className="font-semibold">Check your inbox</p>
+            <p>
+              We've sent a confirmation link to {sentTo}. Your alert starts once you click it.
+            </p>
+            <Button variant="link" className="h-auto p-0" onClick={() => setSentTo(null)}>
+              Set up another alert
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => subscribeMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {filterSelect("department", "Department", "Any department", departments)}
+              {filterSelect("location", "Location", "Any location", locations)}
+              {filterSelect("type", "Job type", "Any type", jobTypes, (type) => type.replace("-", " "))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input type="email" placeholder="Your email" autoComplete="email" aria-label="Email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={subscribeMutation.isPending} className="whitespace-nowrap">
+                {subscribeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Alert
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              You'll get at most one email a day, and every email has an unsubscribe link.
+            </p>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+};
+
+export default JobAlertSignup;
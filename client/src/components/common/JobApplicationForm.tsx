@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useFormGuard, HoneypotField } from "@/components/common/FormGuard";
+import UploadThingFileUpload from "./UploadThingFileUpload";
+import { CheckCircle, FileText, Loader2, X } from "lucide-react";
+import { publicJobApplicationSchema } from "@shared/schema";
+
+// Interface for file attachments
+interface FileAttachment {
+  fileName: string;
+  fileUrl: string;
+  fileKey: string;
+  fileSize: number;
+  fileType: string;
+}
+
+const APPLICATION_FILE_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+// The files are uploaded separately and added on submit
+const formSchema = publicJobApplicationSchema.omit({
+  jobPostingId: true,
+  resume: true,
+  coverLetterFile: true,
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const DEFAULT_VALUES: FormValues = {
+  name: "",
+  email: "",
+  phone: "",
+  location: "",
+  linkedinUrl: "",
+  coverLetter: "",
+};
+
+interface JobApplicationFormProps {
+  jobPostingId: number;
+  jobTitle: string;
+}
+
+const AttachedFile = ({ file, onRemove }: { file: FileAttachment; onRemove: () => void }) => (
+  <div className="flex items-center justify-between rounded bg-gray-50 p-2 text-sm text-gray-700">
+    <span className="flex items-center truncate">
+      <FileText className="mr-2 h-4 w-4 shrink-0 text-[#1E90DB]" />
+      <span className="truncate">
+        {file.fileName} ({(file.fileSize / (1024 * 1024)).toFixed(2)} MB)
+      </span>
+    </span>
+    <Button type="button" variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove ${file.fileName}`}>
+      <X className="h-4 w-4" />
+    </Button>
+  </div>
+);
+
+const JobApplicationForm = ({ jobPostingId, jobTitle }: JobApplicationFormProps) => {
+  const { toast } = useToast();
+  const guard = useFormGuard();
+  const [resume, setResume] = useState<FileAttachment | null>(null);
+  const [coverLetterFile, setCoverLetterFile] = useState<FileAttachment | null>(null);
+  const [resumeMissing, setResumeMissing] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (data: FormValues) =>
+      apiRequest<{ message: string }>("POST", `/api/careers/${jobPostingId}/apply`, {
+        ...data,
+        resume,
+        coverLetterFile: coverLetterFile || undefined,
+        formGuard: guard.read(),
+      }),
+    onSuccess: (result) => {
+      setSubmitted(true);
+      toast({
+        title: "Application sent",
+        description: result?.message,
+      });
+    },
+    onError: (error: Error) => {
+      // Point at the field the server rejected when it's one on this form
+      if (error instanceof ApiError) {
+        for (const fieldError of error.fieldErrors) {
+          const field = fieldError.path[0];
+          if (typeof field === "string" && field in DEFAULT_VALUES) {
+            form.setError(field as keyof FormValues, { message: fieldError.message });
+          }
+        }
+      }
+      toast({
+        title: "Couldn't send your application",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    if (!resume) {
+      setResumeMissing(true);
+      return;
+    }
+    applyMutation.mutate(data);
+  };
+
+  if (submitted) {
+    return (
+      <div className="text-center py-6">
+        <CheckCircle className="mx-auto mb-3 h-12 w-12 text-green-600" />
+        <h4 className="text-lg font-semibold mb-1">Thanks for applying!</h4>
+        <p className="text-muted-foreground">
+          We've received your application for {jobTitle} and emailed you a confirmation.
+          Our team will be in touch if your experience is a good fit.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit, () => setResumeMissing(!resume))}
+        className="space-y-4"
+      >
+        <HoneypotField guard={guard} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Full Name *</FormLabel>
+                <FormControl>
+                  <Input placeholder="John Doe" autoComplete="name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email Address *</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="email@example.com" autoComplete="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone Number</FormLabel>
+                <FormControl>
+                  <Input type="tel" placeholder="(555) 123-4567" autoComplete="tel" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Where are you based?</FormLabel>
+                <FormControl>
+                  <Input placeholder="City, State" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="linkedinUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>LinkedIn Profile</FormLabel>
+              <FormControl>
+                <Input type="url" placeholder="https://www.linkedin.com/in/your-name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Resume *</p>
+          {resume ? (
+            <AttachedFile file={resume} onRemove={() => setResume(null)} />
+          ) : (
+            <UploadThingFileUpload
+              onUploadComplete={(files) => {
+                setResume(files[0] ?? null);
+                setResumeMissing(false);
+              }}
+              uploadType="applicationDocumentUploader"
+              maxFiles={1}
+              maxFileSize={8}
+              allowedFileTypes={APPLICATION_FILE_TYPES}
+            />
+          )}
+          {resumeMissing && !resume && (
+            <p className="text-sm font-medium text-destructive">Please upload your resume</p>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="coverLetter"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cover Letter</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={6}
+                  placeholder="Tell us why you're interested in this role"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>Write a few lines here, attach a file below, or both.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Cover Letter File</p>
+          {coverLetterFile ? (
+            <AttachedFile file={coverLetterFile} onRemove={() => setCoverLetterFile(null)} />
+          ) : (
+            <UploadThingFileUpload
+              onUploadComplete={(files) => setCoverLetterFile(files[0] ?? null)}
+              uploadType="applicationDocumentUploader"
+              maxFiles={1}
+              maxFileSize={8}
+              allowedFileTypes={APPLICATION_FILE_TYPES}
+            />
+          )}
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={applyMutation.isPending}>
+          {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Submit Application
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default JobApplicationForm;
@@ -12,6 +12,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useNewsletter } from "@/hooks/useNewsletter";
+import { useFormGuard, HoneypotField } from "@/components/common/FormGuard";
 import { Mail } from "lucide-react";
 
 // Form validation schema
@@ -31,6 +32,7 @@ interface NewsletterSubscriptionProps {
 
 const NewsletterSubscription = ({ extendedForm = false, className = "" }: NewsletterSubscriptionProps) => {
   const { subscribe, subscriptionMutation } = useNewsletter();
+  const guard = useFormGuard();
   
   // Initialize form
   const form = useForm<FormValues>({
@@ -44,9 +46,10 @@ const NewsletterSubscription = ({ extendedForm = false, className = "" }: Newsle
 
   // Submit handler
   const onSubmit = (data: FormValues) => {
-    subscriptionMutation.mutate(data, {
+    subscriptionMutation.mutate({ ...data, formGuard: guard.read() }, {
       onSuccess: () => {
         form.reset();
+        guard.reset();
       }
     });
   };
@@ -67,6 +70,7 @@ const NewsletterSubscription = ({ extendedForm = false, className = "" }: Newsle
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+          <HoneypotField guard={guard} />
           {extendedForm && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               <FormField
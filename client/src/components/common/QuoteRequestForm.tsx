@@ -2,7 +2,8 @@ import React, { useState, useEffect } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { 
+import { useQuery } from "@tanstack/react-query";
+import {
   Form,
   FormControl,
   FormField,
@@ -13,19 +14,40 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { 
+import {
   Select,
   SelectContent,
   SelectItem,
   SelectTrigger,
-  SelectValue 
+  SelectValue
 } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Button } from "@/components/ui/button";
 import { useQuoteRequest } from "@/hooks/useQuoteRequest";
-import { Loader2 } from "lucide-react";
+import { useFormGuard, HoneypotField } from "@/components/common/FormGuard";
+import { useFormDraft } from "@/hooks/useFormDraft";
+import FormDraftBar from "./FormDraftBar";
+import { ArrowLeft, ArrowRight, Calculator, CheckCircle, Loader2 } from "lucide-react";
 import UploadThingFileUpload from "./UploadThingFileUpload";
-import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Separator } from "@/components/ui/separator";
+import {
+  FINISH_LEVELS,
+  FINISH_LEVEL_LABELS,
+  QUOTE_PROJECT_TYPES,
+  QUOTE_PROJECT_TYPE_LABELS,
+  QUOTE_TIMELINES,
+  QUOTE_TIMELINE_LABELS,
+  QUOTE_WIZARD_QUESTIONS,
+  RENOVATION_SCOPES,
+  RENOVATION_SCOPE_LABELS,
+  calculateBallpark,
+  describeQuoteDetails,
+  formatBallpark,
+  isEstimableProjectType,
+  type QuoteCostRates,
+  type QuoteDetails,
+  type QuoteProjectType,
+} from "@shared/quoteWizard";
 
 // Interface for file attachments
 interface FileAttachment {
@@ -36,21 +58,106 @@ interface FileAttachment {
   fileType: string;
 }
 
+const PROJECT_TYPE_DESCRIPTIONS: Record<QuoteProjectType, string> = {
+  residential: "New homes, additions and multi-family buildings",
+  commercial: "Offices, retail, restaurants and fit-outs",
+  renovation: "Remodels and upgrades to an existing building",
+  industrial: "Warehouses, plants and workshops",
+  infrastructure: "Site work, roads, utilities and civil projects",
+  other: "Anything else - tell us about it",
+};
+
+const BUDGET_OPTIONS = [
+  { value: "under50k", label: "Under $50,000" },
+  { value: "50k-100k", label: "$50,000 - $100,000" },
+  { value: "100k-250k", label: "$100,000 - $250,000" },
+  { value: "250k-500k", label: "$250,000 - $500,000" },
+  { value: "500k-1m", label: "$500,000 - $1 million" },
+  { value: "over1m", label: "Over $1 million" },
+];
+
+const parseCount = (value: string | undefined) => {
+  const digits = (value ?? "").replace(/,/g, "").trim();
+  return digits === "" ? undefined : Number(digits);
+};
+
+// Optional whole number typed into a text box, e.g. "2,400"
+const countField = (min: number, max: number, message: string) =>
+  z.string().trim().optional().refine((value) => {
+    const count = parseCount(value);
+    return count === undefined || (Number.isInteger(count) && count >= min && count <= max);
+  }, message);
+
 // Form validation schema
 const formSchema = z.object({
+  projectType: z.string().refine(
+    (value) => (QUOTE_PROJECT_TYPES as readonly string[]).includes(value),
+    "Please select a project type",
+  ),
+  renovationScope: z.enum(RENOVATION_SCOPES).optional(),
+  squareFeet: countField(10, 5_000_000, "Enter the approximate area in square feet"),
+  floors: countField(1, 150, "Enter a number of floors between 1 and 150"),
+  finishLevel: z.enum(FINISH_LEVELS).optional(),
+  timeframe: z.string().optional(),
+  budget: z.string().optional(),
+  description: z.string().min(10, "Please provide at least a brief description of your project"),
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Please enter a valid email address"),
   phone: z.string().min(1, "Phone number is required"),
   company: z.string().optional(),
-  projectType: z.string().min(1, "Please select a project type"),
-  projectSize: z.string().optional(),
-  budget: z.string().optional(),
-  timeframe: z.string().optional(),
-  description: z.string().min(10, "Please provide at least a brief description of your project")
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+const DEFAULT_VALUES: FormValues = {
+  projectType: "",
+  squareFeet: "",
+  floors: "",
+  timeframe: "",
+  budget: "",
+  description: "",
+  name: "",
+  email: "",
+  phone: "",
+  company: "",
+};
+
+type WizardStep = "project" | "details" | "schedule" | "description" | "contact";
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  project: "Project type",
+  details: "Size & finish",
+  schedule: "Timing & budget",
+  description: "Description",
+  contact: "Your details",
+};
+
+const STEP_FIELDS: Record<Exclude<WizardStep, "details">, (keyof FormValues)[]> = {
+  project: ["projectType"],
+  schedule: ["timeframe", "budget"],
+  description: ["description"],
+  contact: ["name", "email", "phone", "company"],
+};
+
+// The details step is skipped for project types with no structured questions
+function getSteps(projectType: string): WizardStep[] {
+  const questions = QUOTE_WIZARD_QUESTIONS[projectType as QuoteProjectType] ?? [];
+  return questions.length > 0
+    ? ["project", "details", "schedule", "description", "contact"]
+    : ["project", "schedule", "description", "contact"];
+}
+
+// Structured answers for the questions asked for this project type
+function getDetails(values: FormValues): QuoteDetails {
+  const questions = QUOTE_WIZARD_QUESTIONS[values.projectType as QuoteProjectType] ?? [];
+  const details: QuoteDetails = {};
+  if (questions.includes("renovationScope") && values.renovationScope) details.renovationScope = values.renovationScope;
+  if (questions.includes("squareFeet")) details.squareFeet = parseCount(values.squareFeet);
+  if (questions.includes("floors")) details.floors = parseCount(values.floors);
+  if (questions.includes("finishLevel") && values.finishLevel) details.finishLevel = values.finishLevel;
+  return details;
+}
+
 interface QuoteRequestFormProps {
   className?: string;
   onSuccess?: () => void;
@@ -58,341 +165,557 @@ interface QuoteRequestFormProps {
 
 const QuoteRequestForm = ({ className = "", onSuccess }: QuoteRequestFormProps) => {
   const { submitQuoteRequest, quoteRequestMutation } = useQuoteRequest();
+  const guard = useFormGuard();
   const [fileAttachments, setFileAttachments] = useState<FileAttachment[]>([]);
-  
+  const [step, setStep] = useState<WizardStep>("project");
+
+  const { data: costRates } = useQuery<QuoteCostRates>({
+    queryKey: ["/api/quote/cost-rates"],
+    staleTime: 10 * 60000,
+  });
+
   // Initialize form
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      email: "",
-      phone: "",
-      company: "",
-      projectType: "",
-      projectSize: "",
-      budget: "",
-      timeframe: "",
-      description: ""
-    }
+    defaultValues: DEFAULT_VALUES
   });
 
+  // Progress is saved as the visitor goes, so closing the tab doesn't lose it
+  const draft = useFormDraft("quote_request", (data) => {
+    const saved = { ...DEFAULT_VALUES, ...(data.values as Partial<FormValues>) };
+    form.reset(saved);
+    if (Array.isArray(data.attachments)) setFileAttachments(data.attachments as FileAttachment[]);
+    if (getSteps(saved.projectType).includes(data.step as WizardStep)) setStep(data.step as WizardStep);
+  });
+
+  const values = form.watch();
+  const getDraftData = () => ({
+    values: form.getValues(),
+    // The first step on its own isn't progress worth restoring
+    step: step === "project" ? undefined : step,
+    attachments: fileAttachments,
+  });
+
+  const serializedValues = JSON.stringify(values);
+  useEffect(() => {
+    draft.save(getDraftData());
+  }, [serializedValues, step, fileAttachments, draft.save]);
+
+  const startOver = () => {
+    form.reset(DEFAULT_VALUES);
+    setFileAttachments([]);
+    setStep("project");
+  };
+
+  const steps = getSteps(values.projectType);
+  const stepIndex = steps.indexOf(step);
+  const questions = QUOTE_WIZARD_QUESTIONS[values.projectType as QuoteProjectType] ?? [];
+  const details = getDetails(values);
+  const ballpark = costRates ? calculateBallpark(values.projectType, details, costRates) : null;
+
+  const goNext = async () => {
+    const fields = step === "details" ? questions : STEP_FIELDS[step];
+    if (await form.trigger(fields)) {
+      setStep(steps[stepIndex + 1]);
+    }
+  };
+
+  const goBack = () => setStep(steps[Math.max(0, stepIndex - 1)]);
+
   // Submit handler
   const onSubmit = (data: FormValues) => {
-    // Include the file attachments with the form data and map form fields to match backend schema
+    const submittedDetails = getDetails(data);
     const requestData = {
       name: data.name,
       email: data.email,
       phone: data.phone,
       company: data.company,
       projectType: data.projectType,
-      projectSize: data.projectSize,
-      budget: data.budget,
-      timeframe: data.timeframe,
+      // Kept in sync with the structured answers for lists and exports
+      projectSize: describeQuoteDetails(submittedDetails) || undefined,
+      budget: data.budget || undefined,
+      timeframe: data.timeframe || undefined,
       description: data.description,
-      attachments: fileAttachments
+      details: Object.keys(submittedDetails).length > 0 ? submittedDetails : undefined,
+      attachments: fileAttachments,
+      formGuard: guard.read()
     };
-    
+
     submitQuoteRequest(requestData);
   };
-  
+
   // Reset form on successful submission
   useEffect(() => {
     if (quoteRequestMutation.isSuccess) {
-      form.reset();
+      form.reset(DEFAULT_VALUES);
       setFileAttachments([]); // Clear the attachments
+      setStep("project");
+      guard.reset();
+      draft.clear();
       if (onSuccess) onSuccess();
     }
-  }, [quoteRequestMutation.isSuccess, form, onSuccess]);
-  
+  }, [quoteRequestMutation.isSuccess, form, onSuccess, guard.reset, draft.clear]);
+
   // Handle file upload completion
   const handleFileUploadComplete = (files: FileAttachment[]) => {
     setFileAttachments(files);
   };
 
+  const trackingUrl: string | undefined = quoteRequestMutation.data?.trackingUrl;
+  const inputClassName = "border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800";
+
   return (
     <div className={`quote-request-form ${className} bg-white p-6 rounded-lg shadow-md border border-gray-100`}>
+      {quoteRequestMutation.isSuccess && trackingUrl && (
+        <div className="mb-6 rounded-md border border-green-200 bg-green-50 p-4" role="status">
+          <p className="font-semibold text-green-800 flex items-center">
+            <CheckCircle className="mr-2 h-5 w-5" />
+            Thank you! Your quote request has been received.
+          </p>
+          <p className="text-sm text-green-900 mt-1">
+            You can check its status, add files or send us a message at any time using your private
+            tracking link. We've also emailed it to you.
+          </p>
+          <a
+            href={trackingUrl}
+            className="inline-block mt-2 text-sm font-semibold text-[#1E90DB] hover:text-[#1670B0] underline"
+          >
+            Track your quote request
+          </a>
+        </div>
+      )}
+
+      <div className="mb-6">
+        <FormDraftBar draft={draft} getData={getDraftData} onStartOver={startOver} defaultEmail={values.email} />
+      </div>
+
+      {/* Progress */}
+      <ol className="flex flex-wrap gap-2 mb-6" aria-label="Quote request steps">
+        {steps.map((wizardStep, index) => (
+          <li
+            key={wizardStep}
+            aria-current={wizardStep === step ? "step" : undefined}
+            className={`flex items-center text-sm rounded-full px-3 py-1 ${
+              wizardStep === step
+                ? "bg-[#1E90DB] text-white font-semibold"
+                : index < stepIndex
+                  ? "bg-blue-50 text-[#1E90DB]"
+                  : "bg-gray-100 text-gray-500"
+            }`}
+          >
+            <span className="mr-1">{index + 1}.</span>
+            {STEP_TITLES[wizardStep]}
+          </li>
+        ))}
+      </ol>
+
       <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Name Field */}
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Full Name *</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="John Doe" 
-                      className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800"
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Email Field */}
-            <FormField
-              control={form.control}
-              name="email"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Email Address *</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="email" 
-                      placeholder="email@example.com"
-                      className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800"
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Phone Field */}
-            <FormField
-              control={form.control}
-              name="phone"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Phone Number *</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="(123) 456-7890"
-                      className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800"
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Company Field */}
+        <form
+          onSubmit={(event) => {
+            // Enter in a field moves to the next step until the last one
+            if (step !== "contact") {
+              event.preventDefault();
+              goNext();
+              return;
+            }
+            form.handleSubmit(onSubmit)(event);
+          }}
+          className="space-y-6"
+        >
+          <HoneypotField guard={guard} />
+
+          {step === "project" && (
             <FormField
               control={form.control}
-              name="company"
+              name="projectType"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Company</FormLabel>
+                  <FormLabel className="text-gray-700 font-medium">What kind of project is it? *</FormLabel>
                   <FormControl>
-                    <Input 
-                      placeholder="Company Name"
-                      className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800"
-                      {...field} 
-                    />
+                    <RadioGroup
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      className="grid grid-cols-1 md:grid-cols-2 gap-3"
+                    >
+                      {QUOTE_PROJECT_TYPES.map((projectType) => (
+                        <label
+                          key={projectType}
+                          className={`flex items-start gap-3 rounded-md border p-4 cursor-pointer transition-colors ${
+                            field.value === projectType ? "border-[#1E90DB] bg-blue-50" : "border-gray-200 hover:border-gray-300"
+                          }`}
+                        >
+                          <RadioGroupItem value={projectType} className="mt-1" />
+                          <span>
+                            <span className="block font-semibold text-gray-800">
+                              {QUOTE_PROJECT_TYPE_LABELS[projectType]}
+                            </span>
+                            <span className="block text-sm text-gray-600">
+                              {PROJECT_TYPE_DESCRIPTIONS[projectType]}
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </RadioGroup>
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-          </div>
+          )}
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Project Type Field */}
-            <FormField
-              control={form.control}
-              name="projectType"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Project Type *</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
-                    <FormControl>
-                      <SelectTrigger className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800">
-                        <SelectValue placeholder="Select project type" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="commercial">Commercial Construction</SelectItem>
-                      <SelectItem value="residential">Residential Construction</SelectItem>
-                      <SelectItem value="renovation">Renovation</SelectItem>
-                      <SelectItem value="industrial">Industrial Construction</SelectItem>
-                      <SelectItem value="infrastructure">Infrastructure</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Project Size Field */}
-            <FormField
-              control={form.control}
-              name="projectSize"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Project Size</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
-                    <FormControl>
-                      <SelectTrigger className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800">
-                        <SelectValue placeholder="Select project size" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="small">Small (Under 1,000 sq ft)</SelectItem>
-                      <SelectItem value="medium">Medium (1,000 - 5,000 sq ft)</SelectItem>
-                      <SelectItem value="large">Large (5,000 - 20,000 sq ft)</SelectItem>
-                      <SelectItem value="xlarge">X-Large (Over 20,000 sq ft)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
+          {step === "details" && (
+            <div className="space-y-4">
+              {questions.includes("renovationScope") && (
+                <FormField
+                  control={form.control}
+                  name="renovationScope"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">What are you renovating?</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                        <FormControl>
+                          <SelectTrigger className={inputClassName}>
+                            <SelectValue placeholder="Select the scope" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RENOVATION_SCOPES.map((scope) => (
+                            <SelectItem key={scope} value={scope}>{RENOVATION_SCOPE_LABELS[scope]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
-            
-            {/* Budget Field */}
-            <FormField
-              control={form.control}
-              name="budget"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Budget Range</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
-                    <FormControl>
-                      <SelectTrigger className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800">
-                        <SelectValue placeholder="Select budget range" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="under50k">Under $50,000</SelectItem>
-                      <SelectItem value="50k-100k">$50,000 - $100,000</SelectItem>
-                      <SelectItem value="100k-250k">$100,000 - $250,000</SelectItem>
-                      <SelectItem value="250k-500k">$250,000 - $500,000</SelectItem>
-                      <SelectItem value="500k-1m">$500,000 - $1 million</SelectItem>
-                      <SelectItem value="over1m">Over $1 million</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {questions.includes("squareFeet") && (
+                  <FormField
+                    control={form.control}
+                    name="squareFeet"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-medium">Approximate area (sq ft)</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" placeholder="e.g. 2,400" className={inputClassName} {...field} />
+                        </FormControl>
+                        <FormDescription className="text-gray-600 text-sm">
+                          {values.projectType === "renovation" ? "The area being renovated" : "Total floor area across all floors"}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {questions.includes("floors") && (
+                  <FormField
+                    control={form.control}
+                    name="floors"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-medium">Number of floors</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" placeholder="e.g. 2" className={inputClassName} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {questions.includes("finishLevel") && (
+                <FormField
+                  control={form.control}
+                  name="finishLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Finish level</FormLabel>
+                      <FormControl>
+                        <RadioGroup
+                          value={field.value ?? ""}
+                          onValueChange={field.onChange}
+                          className="flex flex-col md:flex-row gap-4"
+                        >
+                          {FINISH_LEVELS.map((finishLevel) => (
+                            <label key={finishLevel} className="flex items-center gap-2 text-gray-700 cursor-pointer">
+                              <RadioGroupItem value={finishLevel} />
+                              {FINISH_LEVEL_LABELS[finishLevel]}
+                            </label>
+                          ))}
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
-            
-            {/* Timeframe Field */}
-            <FormField
-              control={form.control}
-              name="timeframe"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-medium">Timeframe</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
+
+              <BallparkEstimate
+                ballpark={ballpark}
+                available={!!costRates?.enabled && isEstimableProjectType(values.projectType)}
+              />
+            </div>
+          )}
+
+          {step === "schedule" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="timeframe"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700 font-medium">When would you like to start?</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                      <FormControl>
+                        <SelectTrigger className={inputClassName}>
+                          <SelectValue placeholder="Select timeline" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {QUOTE_TIMELINES.map((timeline) => (
+                          <SelectItem key={timeline} value={timeline}>{QUOTE_TIMELINE_LABELS[timeline]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="budget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700 font-medium">Budget Range</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                      <FormControl>
+                        <SelectTrigger className={inputClassName}>
+                          <SelectValue placeholder="Select budget range" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BUDGET_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          {step === "description" && (
+            <>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700 font-medium">Project Description *</FormLabel>
                     <FormControl>
-                      <SelectTrigger className="border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800">
-                        <SelectValue placeholder="Select timeframe" />
-                      </SelectTrigger>
+                      <Textarea
+                        placeholder="Please provide details about your project, requirements, and any specific needs."
+                        className={`min-h-[120px] ${inputClassName}`}
+                        {...field}
+                      />
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value="immediate">Immediate (1-3 months)</SelectItem>
-                      <SelectItem value="soon">Soon (3-6 months)</SelectItem>
-                      <SelectItem value="planning">Planning Phase (6-12 months)</SelectItem>
-                      <SelectItem value="future">Future Project (Over 12 months)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
-          
-          {/* Project Description Field */}
-          <FormField
-            control={form.control}
-            name="description"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-gray-700 font-medium">Project Description *</FormLabel>
-                <FormControl>
-                  <Textarea 
-                    placeholder="Please provide details about your project, requirements, and any specific needs."
-                    className="min-h-[120px] border-gray-300 focus:border-[#1E90DB] focus:ring-[#1E90DB] text-gray-800"
-                    {...field} 
-                  />
-                </FormControl>
-                <FormDescription className="text-gray-600 text-sm italic">
-                  Include as much detail as possible to help us provide an accurate quote.
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          
-          {/* File Attachments Section */}
-          <div className="space-y-2">
-            <Accordion type="single" collapsible className="w-full">
-              <AccordionItem value="attachments">
-                <AccordionTrigger className="text-gray-700 font-medium py-2">
-                  Attach Supporting Documents
-                </AccordionTrigger>
-                <AccordionContent>
-                  <div className="mt-2 space-y-2">
-                    <p className="text-sm text-gray-600">
-                      Upload up to 3 files (images or PDF documents) to help us better understand your project.
+                    <FormDescription className="text-gray-600 text-sm italic">
+                      Include as much detail as possible to help us provide an accurate quote.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* File Attachments Section */}
+              <div className="space-y-2">
+                <p className="text-gray-700 font-medium">Supporting documents</p>
+                <p className="text-sm text-gray-600">
+                  Upload up to 3 files (images or PDF documents) to help us better understand your project.
+                </p>
+
+                <UploadThingFileUpload
+                  onUploadComplete={handleFileUploadComplete}
+                  uploadType="quoteDocumentUploader"
+                  maxFiles={3}
+                  maxFileSize={8} // 8MB max file size
+                  allowedFileTypes={['image/jpeg', 'image/png', 'image/webp', 'application/pdf']}
+                />
+
+                {fileAttachments.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Attached Files ({fileAttachments.length})
                     </p>
-                    
-                    <UploadThingFileUpload 
-                      onUploadComplete={handleFileUploadComplete}
-                      uploadType="quoteDocumentUploader"
-                      maxFiles={3}
-                      maxFileSize={8} // 8MB max file size
-                      allowedFileTypes={['image/jpeg', 'image/png', 'image/webp', 'application/pdf']}
-                    />
-                    
-                    {fileAttachments.length > 0 && (
-                      <div className="mt-4">
-                        <p className="text-sm font-medium text-gray-700 mb-2">
-                          Attached Files ({fileAttachments.length})
-                        </p>
-                        <div className="bg-gray-50 p-2 rounded">
-                          {fileAttachments.map((file, index) => (
-                            <div key={index} className="text-sm text-gray-600 py-1">
-                              ✓ {file.fileName} ({(file.fileSize / (1024 * 1024)).toFixed(2)} MB)
-                            </div>
-                          ))}
+                    <div className="bg-gray-50 p-2 rounded">
+                      {fileAttachments.map((file, index) => (
+                        <div key={index} className="text-sm text-gray-600 py-1">
+                          ✓ {file.fileName} ({(file.fileSize / (1024 * 1024)).toFixed(2)} MB)
                         </div>
-                      </div>
-                    )}
+                      ))}
+                    </div>
                   </div>
-                </AccordionContent>
-              </AccordionItem>
-            </Accordion>
-          </div>
-          
+                )}
+              </div>
+            </>
+          )}
+
+          {step === "contact" && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Full Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="John Doe" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Email Address *</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="email@example.com" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Phone Number *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="(123) 456-7890" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="company"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Company</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Company Name" className={inputClassName} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Summary of the earlier steps */}
+              <div className="rounded-md bg-gray-50 p-4 text-sm text-gray-700 space-y-1">
+                <p>
+                  <span className="font-semibold">Project:</span>{" "}
+                  {QUOTE_PROJECT_TYPE_LABELS[values.projectType as QuoteProjectType]}
+                  {describeQuoteDetails(details) && ` · ${describeQuoteDetails(details)}`}
+                </p>
+                {ballpark && (
+                  <p>
+                    <span className="font-semibold">Ballpark:</span> {formatBallpark(ballpark)}
+                  </p>
+                )}
+                {fileAttachments.length > 0 && (
+                  <p>
+                    <span className="font-semibold">Files:</span> {fileAttachments.length} attached
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
           <Separator className="my-2" />
-          
-          <Button 
-            type="submit" 
-            className="w-full md:w-auto bg-[#1E90DB] hover:bg-[#1670B0] text-white font-semibold"
-            disabled={quoteRequestMutation.isPending}
-          >
-            {quoteRequestMutation.isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting...
-              </>
+
+          <div className="flex justify-between gap-4">
+            {stepIndex > 0 ? (
+              <Button type="button" variant="outline" onClick={goBack} disabled={quoteRequestMutation.isPending}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+            ) : (
+              <span />
+            )}
+
+            {step === "contact" ? (
+              <Button
+                type="submit"
+                className="bg-[#1E90DB] hover:bg-[#1670B0] text-white font-semibold"
+                disabled={quoteRequestMutation.isPending}
+              >
+                {quoteRequestMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  "REQUEST A QUOTE"
+                )}
+              </Button>
             ) : (
-              "REQUEST A QUOTE"
+              <Button type="submit" className="bg-[#1E90DB] hover:bg-[#1670B0] text-white font-semibold">
+                Next
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
             )}
-          </Button>
+          </div>
         </form>
       </Form>
     </div>
   );
 };
 
-export default QuoteRequestForm;
\ No newline at end of file
+interface BallparkEstimateProps {
+  ballpark: ReturnType<typeof calculateBallpark>;
+  // Whether this project type can get a ballpark at all
+  available: boolean;
+}
+
+const BallparkEstimate = ({ ballpark, available }: BallparkEstimateProps) => {
+  if (!available) return null;
+
+  return (
+    <div className="rounded-md border border-blue-100 bg-blue-50 p-4" aria-live="polite">
+      <p className="font-semibold text-gray-800 flex items-center">
+        <Calculator className="mr-2 h-5 w-5 text-[#1E90DB]" />
+        Ballpark estimate
+      </p>
+      {ballpark ? (
+        <>
+          <p className="text-2xl font-bold text-[#1E90DB] mt-1">{formatBallpark(ballpark)}</p>
+          <p className="text-xs text-gray-600 mt-1">
+            A rough range from typical costs per square foot for similar projects, not a quote. Your
+            detailed estimate depends on the site, design and materials.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600 mt-1">Enter the approximate area to see a typical cost range.</p>
+      )}
+    </div>
+  );
+};
+
+export default QuoteRequestForm;
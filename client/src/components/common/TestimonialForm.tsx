@@ -15,6 +15,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useTestimonials } from "@/hooks/useTestimonials";
+import { useFormGuard, HoneypotField } from "@/components/common/FormGuard";
 import { Loader2, Star } from "lucide-react";
 import { publicTestimonialSchema } from "@shared/schema";
 
@@ -24,6 +25,7 @@ interface TestimonialFormProps {
 
 const TestimonialForm = ({ onSuccess }: TestimonialFormProps) => {
   const { submitTestimonial, isSubmitting } = useTestimonials();
+  const guard = useFormGuard();
 
   // Extend the schema with client-side validation
   const formSchema = publicTestimonialSchema.extend({
@@ -49,8 +51,9 @@ const TestimonialForm = ({ onSuccess }: TestimonialFormProps) => {
   });
 
   const onSubmit = (data: FormValues) => {
-    submitTestimonial(data);
+    submitTestimonial({ ...data, formGuard: guard.read() });
     form.reset();
+    guard.reset();
     
     // Call the onSuccess callback after a short delay to allow the success toast to be seen
     if (onSuccess) {
@@ -65,6 +68,7 @@ const TestimonialForm = ({ onSuccess }: TestimonialFormProps) => {
       {/* Title is now handled by the parent component */}
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <HoneypotField guard={guard} />
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
               control={form.control}
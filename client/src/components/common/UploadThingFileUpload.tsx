@@ -15,12 +15,21 @@ interface UploadThingFileUploadProps {
     fileSize: number;
     fileType: string;
   }[]) => void;
-  uploadType: 'imageUploader' | 'quoteDocumentUploader';
+  uploadType: 'imageUploader' | 'quoteDocumentUploader' | 'applicationDocumentUploader';
   maxFiles?: number;
   maxFileSize?: number; // in MB
   allowedFileTypes?: string[];
 }
 
+// Extensions the file picker offers for each MIME type
+const FILE_TYPE_EXTENSIONS: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+};
+
 const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
   onUploadComplete,
   uploadType,
@@ -118,12 +127,9 @@ const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png'],
-      'image/webp': ['.webp'],
-      'application/pdf': ['.pdf']
-    },
+    accept: Object.fromEntries(
+      allowedFileTypes.map(type => [type, FILE_TYPE_EXTENSIONS[type] || []])
+    ),
     maxFiles
   });
 
@@ -159,11 +165,17 @@ const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
     }
   };
 
+  const supportedExtensions = Array.from(new Set(
+    allowedFileTypes.flatMap(type => (FILE_TYPE_EXTENSIONS[type] || []).slice(0, 1))
+  )).map(extension => extension.slice(1).toUpperCase());
+
   const getFileIconColor = (fileName: string) => {
     const extension = fileName.split('.').pop()?.toLowerCase();
     switch (extension) {
       case 'pdf':
         return 'text-red-500';
+      case 'docx':
+        return 'text-indigo-500';
       case 'jpg':
       case 'jpeg':
       case 'png':
@@ -193,7 +205,7 @@ const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
               : 'Drag & drop files here, or click to select files'}
           </p>
           <p className="text-xs text-gray-500">
-            Supported files: JPG, PNG, PDF (Max {maxFileSize}MB)
+            Supported files: {supportedExtensions.join(', ')} (Max {maxFileSize}MB)
           </p>
           <p className="text-xs text-gray-500">
             Maximum {maxFiles} file{maxFiles !== 1 ? 's' : ''}
@@ -219,6 +231,7 @@ const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
                   </div>
                 </div>
                 <Button
+                  type="button"
                   variant="ghost"
                   size="icon"
                   onClick={() => removeFile(index)}
@@ -244,6 +257,7 @@ const UploadThingFileUpload: React.FC<UploadThingFileUploadProps> = ({
       )}
 
       <Button
+        type="button"
         onClick={handleUpload}
         disabled={files.length === 0 || uploading}
         className="w-full"
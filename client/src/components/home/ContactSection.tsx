@@ -3,6 +3,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { withAttribution } from '@/lib/attribution';
+import { useFormGuard, HoneypotField } from '@/components/common/FormGuard';
 import { initializeRevealEffects } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
@@ -28,6 +30,7 @@ import { InsertMessage, insertMessageSchema } from '@shared/schema';
 
 const ContactSection = () => {
   const { toast } = useToast();
+  const guard = useFormGuard();
   
   const form = useForm<InsertMessage>({
     resolver: zodResolver(insertMessageSchema),
@@ -42,7 +45,7 @@ const ContactSection = () => {
 
   const contactMutation = useMutation({
     mutationFn: async (data: InsertMessage) => {
-      return apiRequest('POST', '/api/contact', data);
+      return apiRequest('POST', '/api/contact', withAttribution({ ...data, formGuard: guard.read() }));
     },
     onSuccess: () => {
       toast({
@@ -51,6 +54,7 @@ const ContactSection = () => {
         variant: "default"
       });
       form.reset();
+      guard.reset();
     },
     onError: (error) => {
       toast({
@@ -137,6 +141,7 @@ const ContactSection = () => {
           <div className="reveal">
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <HoneypotField guard={guard} />
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <FormField
                     control={form.control}
@@ -0,0 +1,92 @@
+import React from 'react';
+import Metadata from './Metadata';
+import { BreadcrumbStructuredData, JobPostingStructuredData } from './StructuredData';
+import { useSeo } from '@/contexts/SeoContext';
+import { JOB_EMPLOYMENT_TYPES, parseJobLocation, parseSalaryRange } from '@shared/careers';
+import type { JobPosting } from '@shared/schema';
+
+interface CareerSeoProps {
+  jobPosting: JobPosting;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Same layout as the page: one line is a paragraph, several become a bulleted list
+const toHtml = (text: string) => {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length <= 1) return `<p>${escapeHtml(text.trim())}</p>`;
+  return `<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`;
+};
+
+const CareerSeo: React.FC<CareerSeoProps> = ({ jobPosting }) => {
+  const { siteName, siteUrl } = useSeo();
+
+  const jobUrl = `${siteUrl}/careers/${jobPosting.id}`;
+  const location = parseJobLocation(jobPosting.location);
+  const salary = parseSalaryRange(jobPosting.salary);
+
+  const sections: Array<[heading: string | null, text: string | null]> = [
+    [null, jobPosting.description],
+    ['Responsibilities', jobPosting.responsibilities],
+    ['Requirements', jobPosting.requirements],
+    ['Benefits', jobPosting.benefits],
+  ];
+  const descriptionHtml = sections
+    .filter(([, text]) => text?.trim())
+    .map(([heading, text]) => `${heading ? `<h3>${heading}</h3>` : ''}${toHtml(text!)}`)
+    .join('');
+
+  return (
+    <>
+      <Metadata
+        title={`${jobPosting.title} | Careers | ${siteName}`}
+        description={`${jobPosting.title} (${jobPosting.department}) in ${jobPosting.location}. ${jobPosting.description}`.slice(0, 160)}
+        canonicalUrl={jobUrl}
+        keywords={`${jobPosting.title}, ${jobPosting.department} jobs, construction jobs ${jobPosting.location}, ${siteName} careers`}
+      />
+
+      <JobPostingStructuredData
+        title={jobPosting.title}
+        description={descriptionHtml}
+        datePosted={new Date(jobPosting.publishAt ?? jobPosting.createdAt).toISOString()}
+        validThrough={jobPosting.expiresAt ? new Date(jobPosting.expiresAt).toISOString() : undefined}
+        employmentType={JOB_EMPLOYMENT_TYPES[jobPosting.type]}
+        hiringOrganization={{
+          name: siteName,
+          url: siteUrl,
+          logo: `${siteUrl}/images/logo.png`,
+        }}
+        identifier={String(jobPosting.id)}
+        jobLocation={location?.remote
+          ? null
+          : location
+            ? {
+                addressLocality: location.addressLocality,
+                addressRegion: location.addressRegion,
+                addressCountry: location.addressCountry,
+              }
+            // Not in a form we can split up; the admin warns about it
+            : { addressLocality: jobPosting.location.trim(), addressCountry: 'US' }}
+        baseSalary={salary ? { currency: 'USD', ...salary } : undefined}
+        // Candidates can apply on the page itself
+        directApply
+        url={jobUrl}
+      />
+
+      <BreadcrumbStructuredData
+        items={[
+          { name: 'Home', url: siteUrl },
+          { name: 'Careers', url: `${siteUrl}/careers` },
+          { name: jobPosting.title, url: jobUrl }
+        ]}
+      />
+    </>
+  );
+};
+
+export default CareerSeo;
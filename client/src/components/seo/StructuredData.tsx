@@ -44,6 +44,37 @@ interface ArticleStructuredDataProps {
   url: string;
 }
 
+interface JobPostingStructuredDataProps {
+  title: string;
+  // HTML; Google shows it as the full job description
+  description: string;
+  datePosted: string;
+  validThrough?: string;
+  employmentType?: string;
+  hiringOrganization: {
+    name: string;
+    url: string;
+    logo: string;
+  };
+  identifier: string;
+  // A postal address, or null for remote positions
+  jobLocation: {
+    addressLocality: string;
+    addressRegion?: string;
+    addressCountry: string;
+  } | null;
+  // Where remote applicants may live
+  applicantLocationCountry?: string;
+  baseSalary?: {
+    currency: string;
+    minValue: number;
+    maxValue: number;
+    unitText: string;
+  };
+  directApply?: boolean;
+  url: string;
+}
+
 interface BreadcrumbStructuredDataProps {
   items: {
     name: string;
@@ -176,6 +207,80 @@ export const ArticleStructuredData: React.FC<ArticleStructuredDataProps> = ({
   );
 };
 
+export const JobPostingStructuredData: React.FC<JobPostingStructuredDataProps> = ({
+  title,
+  description,
+  datePosted,
+  validThrough,
+  employmentType,
+  hiringOrganization,
+  identifier,
+  jobLocation,
+  applicantLocationCountry = 'US',
+  baseSalary,
+  directApply,
+  url,
+}) => {
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'JobPosting',
+    title,
+    description,
+    datePosted,
+    ...(validThrough && { validThrough }),
+    ...(employmentType && { employmentType }),
+    hiringOrganization: {
+      '@type': 'Organization',
+      name: hiringOrganization.name,
+      sameAs: hiringOrganization.url,
+      logo: hiringOrganization.logo,
+    },
+    identifier: {
+      '@type': 'PropertyValue',
+      name: hiringOrganization.name,
+      value: identifier,
+    },
+    ...(jobLocation
+      ? {
+          jobLocation: {
+            '@type': 'Place',
+            address: {
+              '@type': 'PostalAddress',
+              ...jobLocation,
+            },
+          },
+        }
+      : {
+          jobLocationType: 'TELECOMMUTE',
+          applicantLocationRequirements: {
+            '@type': 'Country',
+            name: applicantLocationCountry,
+          },
+        }),
+    ...(baseSalary && {
+      baseSalary: {
+        '@type': 'MonetaryAmount',
+        currency: baseSalary.currency,
+        value: {
+          '@type': 'QuantitativeValue',
+          ...(baseSalary.minValue === baseSalary.maxValue
+            ? { value: baseSalary.minValue }
+            : { minValue: baseSalary.minValue, maxValue: baseSalary.maxValue }),
+          unitText: baseSalary.unitText,
+        },
+      },
+    }),
+    ...(directApply !== undefined && { directApply }),
+    url,
+  };
+
+  return (
+    <Helmet>
+      <script type="application/ld+json">{JSON.stringify(structuredData)}</script>
+    </Helmet>
+  );
+};
+
 export const BreadcrumbStructuredData: React.FC<BreadcrumbStructuredDataProps> = ({ items }) => {
   const structuredData = {
     '@context': 'https://schema.org',
@@ -1,19 +1,31 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, ApiError } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
+import { hasPermission as roleHasPermission, ROLES, type Permission } from '@shared/permissions';
 
 interface AuthUser {
   id: number;
   username: string;
   role: string;
+  email: string | null;
+  twoFactorEnabled: boolean;
+  // The user's role requires 2FA but they haven't enrolled yet
+  twoFactorSetupRequired?: boolean;
 }
 
+export type LoginResult =
+  | { status: 'success' }
+  | { status: 'two_factor_required' }
+  | { status: 'error'; message: string };
+
 interface AuthContextType {
   user: AuthUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   isAdmin: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  hasPermission: (permission: Permission) => boolean;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<LoginResult>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<boolean>;
 }
@@ -23,7 +35,9 @@ const AuthContext = createContext<AuthContextType>({
   isLoading: true,
   isAuthenticated: false,
   isAdmin: false,
-  login: async () => false,
+  hasPermission: () => false,
+  login: async () => ({ status: 'error', message: 'Not available' }),
+  verifyTwoFactor: async () => ({ status: 'error', message: 'Not available' }),
   logout: async () => {},
   checkAuth: async () => false,
 });
@@ -63,31 +77,61 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, [checkAuth]);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const loginErrorResult = (error: unknown, fallback: string): LoginResult => ({
+    status: 'error',
+    message: error instanceof ApiError ? error.message : fallback,
+  });
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     setIsLoading(true);
     try {
-      const response = await apiRequest<AuthUser>({
+      const response = await apiRequest<AuthUser | { twoFactorRequired: true }>({
         url: '/api/login',
         method: 'POST',
         body: { username, password }
       });
       
+      // Password was correct; the server is waiting for the authenticator code
+      if (response && 'twoFactorRequired' in response) {
+        return { status: 'two_factor_required' };
+      }
+
       if (response) {
         setUser(response);
         // Invalidate any user-related queries
         queryClient.invalidateQueries({ queryKey: ['/api/user'] });
-        return true;
+        return { status: 'success' };
       }
       
-      return false;
+      return { status: 'error', message: 'Invalid username or password' };
     } catch (error) {
       console.error('Login error:', error);
-      return false;
+      return loginErrorResult(error, 'An error occurred during login. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const verifyTwoFactor = async (code: string): Promise<LoginResult> => {
+    try {
+      const response = await apiRequest<AuthUser>({
+        url: '/api/login/two-factor',
+        method: 'POST',
+        body: { code }
+      });
+
+      if (response) {
+        setUser(response);
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+        return { status: 'success' };
+      }
+
+      return { status: 'error', message: 'Invalid verification code' };
+    } catch (error) {
+      return loginErrorResult(error, 'Unable to verify the code. Please try again.');
+    }
+  };
+
   const logout = async (): Promise<void> => {
     setIsLoading(true);
     try {
@@ -125,7 +169,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const isAuthenticated = !!user;
-  const isAdmin = isAuthenticated && user?.role === 'admin';
+  const isAdmin = isAuthenticated && user?.role === ROLES.SUPER_ADMIN;
+
+  const hasPermission = useCallback(
+    (permission: Permission) => roleHasPermission(user?.role, permission),
+    [user]
+  );
 
   return (
     <AuthContext.Provider
@@ -134,7 +183,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated,
         isAdmin,
+        hasPermission,
         login,
+        verifyTwoFactor,
         logout,
         checkAuth
       }}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { withAttribution } from '@/lib/attribution';
 import { InsertSubcontractor, InsertVendor } from '@shared/schema';
+import type { WithFormGuard } from '@shared/spam';
 
 interface SubmissionResult {
   success: boolean;
@@ -14,7 +16,7 @@ export const useApplicationSubmission = () => {
   const { toast } = useToast();
 
   const submitSubcontractorApplication = async (
-    data: InsertSubcontractor
+    data: WithFormGuard<InsertSubcontractor>
   ): Promise<SubmissionResult> => {
     setIsSubmitting(true);
 
@@ -75,7 +77,7 @@ export const useApplicationSubmission = () => {
       const response = await apiRequest(
         'POST',
         '/api/subcontractors/apply',
-        formattedData
+        withAttribution(formattedData)
       );
 
       // Handle API response
@@ -124,7 +126,7 @@ export const useApplicationSubmission = () => {
   };
 
   const submitVendorApplication = async (
-    data: InsertVendor
+    data: WithFormGuard<InsertVendor>
   ): Promise<SubmissionResult> => {
     setIsSubmitting(true);
 
@@ -184,7 +186,7 @@ export const useApplicationSubmission = () => {
       const response = await apiRequest(
         'POST',
         '/api/vendors/apply',
-        formattedData
+        withAttribution(formattedData)
       );
 
       // Handle API response
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import {
+  DRAFT_QUERY_PARAM,
+  DRAFT_TTL_DAYS,
+  type DraftableForm,
+  type FormDraftView,
+} from "@shared/drafts";
+
+const STORAGE_KEY_PREFIX = "arcem_form_draft_";
+
+const DRAFT_TTL_MS = DRAFT_TTL_DAYS * 24 * 3600000;
+
+// Wait for a pause in typing before saving
+const SAVE_DELAY_MS = 1500;
+
+interface StoredDraft {
+  data: Record<string, unknown>;
+  savedAt: string;
+  // Set once a magic link has been emailed, so later saves also update the server copy
+  token?: string;
+  email?: string;
+}
+
+function readStored(form: DraftableForm): StoredDraft | undefined {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + form);
+    if (!stored) return undefined;
+    const parsed = JSON.parse(stored) as StoredDraft;
+    if (!parsed?.data || Date.now() - new Date(parsed.savedAt).getTime() > DRAFT_TTL_MS) {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + form);
+      return undefined;
+    }
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeStored(form: DraftableForm, draft: StoredDraft | undefined) {
+  try {
+    if (draft) {
+      localStorage.setItem(STORAGE_KEY_PREFIX + form, JSON.stringify(draft));
+    } else {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + form);
+    }
+  } catch {
+    // Private browsing or a full quota; the form still works without drafts
+  }
+}
+
+// Whether the visitor has typed or picked anything worth keeping
+function hasContent(value: unknown): boolean {
+  if (typeof value === "string") return value.trim() !== "";
+  if (Array.isArray(value)) return value.some(hasContent);
+  if (value && typeof value === "object") return Object.values(value).some(hasContent);
+  return typeof value === "number" || value === true;
+}
+
+function getLinkToken() {
+  return new URLSearchParams(window.location.search).get(DRAFT_QUERY_PARAM);
+}
+
+// Keep the token out of the address bar once it has been read, so it isn't shared by accident
+function removeLinkToken() {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(DRAFT_QUERY_PARAM)) return;
+  url.searchParams.delete(DRAFT_QUERY_PARAM);
+  window.history.replaceState(window.history.state, "", url);
+}
+
+type DraftData = Record<string, unknown>;
+
+/**
+ * Saved progress for a long public form. Progress is kept in this browser as
+ * the visitor types; emailLink() also saves it on the server and emails a magic
+ * link for finishing on another device, after which saves go to both. Opening
+ * the link (?draft=<token>) restores the server copy.
+ *
+ * Pass the form's current data to save() whenever it changes, restore it in
+ * onRestore, and call clear() once the form has been submitted.
+ */
+export function useFormDraft(form: DraftableForm, onRestore: (data: DraftData) => void) {
+  const [linkToken] = useState(getLinkToken);
+  const [stored, setStoredState] = useState<StoredDraft | undefined>();
+  const [restored, setRestored] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const storedRef = useRef<StoredDraft | undefined>();
+  const ready = useRef(false);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  // Shared by every form on the page; each one only takes a draft saved from it
+  const { data: linkedDraft, error: linkError } = useQuery<FormDraftView>({
+    queryKey: [`/api/drafts/${linkToken}`],
+    enabled: !!linkToken,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const setStored = useCallback((draft: StoredDraft | undefined) => {
+    storedRef.current = draft;
+    writeStored(form, draft);
+    setStoredState(draft);
+  }, [form]);
+
+  // Restore from the magic link if there is one, otherwise from this browser
+  useEffect(() => {
+    if (ready.current) return;
+
+    if (linkToken && linkedDraft === undefined && !linkError) return; // still loading
+    ready.current = true;
+    removeLinkToken();
+
+    const draft: StoredDraft | undefined =
+      linkToken && linkedDraft?.form === form
+        ? { data: linkedDraft.data, savedAt: new Date().toISOString(), token: linkToken, email: linkedDraft.email }
+        : readStored(form);
+
+    if (draft && hasContent(draft.data)) {
+      setStored(draft);
+      onRestoreRef.current(draft.data);
+      setRestored(true);
+    }
+  }, [form, linkToken, linkedDraft, linkError, setStored]);
+
+  const save = useCallback((data: DraftData) => {
+    if (!ready.current) return;
+
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      const current = storedRef.current;
+      if (!hasContent(data) && !current?.token) {
+        setStored(undefined);
+        return;
+      }
+
+      const next: StoredDraft = { ...current, data, savedAt: new Date().toISOString() };
+      setStored(next);
+      if (next.token) {
+        apiRequest({ url: `/api/drafts/${next.token}`, method: "PUT", body: { data }, suppressLogs: true })
+          .catch((error) => {
+            // The link has expired; carry on with the copy in this browser
+            if (error instanceof ApiError && error.status === 404) {
+              const { token, email, ...local } = next;
+              setStored(local);
+            }
+          });
+      }
+    }, SAVE_DELAY_MS);
+  }, [setStored]);
+
+  useEffect(() => () => clearTimeout(saveTimer.current), []);
+
+  const emailLink = useCallback(async (email: string, data: DraftData) => {
+    setIsSendingLink(true);
+    try {
+      const result = await apiRequest<{ message: string; token: string }>("POST", "/api/drafts", { form, email, data });
+      if (!result) throw new Error("Failed to save your progress");
+
+      setStored({ data, savedAt: new Date().toISOString(), token: result.token, email });
+      return result;
+    } finally {
+      setIsSendingLink(false);
+    }
+  }, [form, setStored]);
+
+  // Forget the draft here and on the server, after submitting or when starting over
+  const clear = useCallback(() => {
+    clearTimeout(saveTimer.current);
+    const token = storedRef.current?.token;
+    if (token) {
+      apiRequest({ url: `/api/drafts/${token}`, method: "DELETE", suppressLogs: true }).catch(() => {});
+    }
+    setStored(undefined);
+    setRestored(false);
+  }, [setStored]);
+
+  return {
+    save,
+    emailLink,
+    clear,
+    isSendingLink,
+    // True when the form was filled in from a saved draft
+    restored,
+    savedAt: stored?.savedAt,
+    linkedEmail: stored?.email,
+    linkExpired: !!linkError,
+  };
+}
+
+export type FormDraftHandle = ReturnType<typeof useFormDraft>;
@@ -1,6 +1,8 @@
 import { useMutation } from "@tanstack/react-query";
 import { InsertNewsletterSubscriber } from "@shared/schema";
+import type { WithFormGuard } from "@shared/spam";
 import { apiRequest } from "@/lib/queryClient";
+import { withAttribution } from "@/lib/attribution";
 import { useToast } from "@/hooks/use-toast";
 
 export const useNewsletter = () => {
@@ -8,8 +10,8 @@ export const useNewsletter = () => {
 
   // Mutation for subscribing to the newsletter
   const subscriptionMutation = useMutation({
-    mutationFn: async (data: InsertNewsletterSubscriber) => {
-      const res = await apiRequest("POST", "/api/newsletter/subscribe", data);
+    mutationFn: async (data: WithFormGuard<InsertNewsletterSubscriber>) => {
+      const res = await apiRequest("POST", "/api/newsletter/subscribe", withAttribution(data));
       return res;
     },
     onSuccess: (data) => {
@@ -53,7 +55,7 @@ export const useNewsletter = () => {
   return {
     subscriptionMutation,
     unsubscribeMutation,
-    subscribe: (data: InsertNewsletterSubscriber) => subscriptionMutation.mutate(data),
+    subscribe: (data: WithFormGuard<InsertNewsletterSubscriber>) => subscriptionMutation.mutate(data),
     unsubscribe: (email: string) => unsubscribeMutation.mutate(email),
   };
 };
\ No newline at end of file
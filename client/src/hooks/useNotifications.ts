@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { Message, QuoteRequest, Testimonial } from "@shared/schema";
 import { useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { PERMISSIONS } from "@shared/permissions";
 
 // Type for notification counts
 export interface NotificationCounts {
@@ -11,6 +13,8 @@ export interface NotificationCounts {
 }
 
 export const useNotifications = () => {
+  const { hasPermission } = useAuth();
+
   // Get all messages
   const { 
     data: messages = [],
@@ -18,6 +22,8 @@ export const useNotifications = () => {
   } = useQuery<Message[]>({
     queryKey: ["/api/messages"],
     retry: 1,
+    // Only fetch what the current role is allowed to see
+    enabled: hasPermission(PERMISSIONS.MESSAGES_MANAGE),
   });
 
   // Get pending testimonials
@@ -27,6 +33,7 @@ export const useNotifications = () => {
   } = useQuery<Testimonial[]>({
     queryKey: ["/api/admin/testimonials/pending"],
     retry: 1,
+    enabled: hasPermission(PERMISSIONS.TESTIMONIALS_MANAGE),
   });
 
   // Get all quote requests
@@ -36,6 +43,7 @@ export const useNotifications = () => {
   } = useQuery<QuoteRequest[]>({
     queryKey: ["/api/admin/quote/requests"],
     retry: 1,
+    enabled: hasPermission(PERMISSIONS.QUOTES_MANAGE),
   });
 
   // Calculate counts using useMemo instead of useEffect to avoid state updates
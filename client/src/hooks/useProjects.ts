@@ -7,9 +7,9 @@ export const useProjects = (projectId?: number) => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Get all projects
+  // Get all projects, including drafts (this hook is only used in the admin panel)
   const { data: projects = [], isLoading: isLoadingProjects } = useQuery<Project[], Error, Project[]>({
-    queryKey: ["/api/projects"],
+    queryKey: ["/api/projects", { includeDrafts: "true" }],
     queryFn: getQueryFn({ on401: "returnNull" }),
     enabled: !projectId
   });
@@ -116,6 +116,33 @@ export const useProjects = (projectId?: number) => {
     },
   });
 
+  // Publish or unpublish (draft) a project
+  const togglePublishedMutation = useMutation({
+    mutationFn: async ({ id, published }: { id: number; published: boolean }) => {
+      return await apiRequest({
+        url: `/api/projects/${id}`,
+        method: "PUT",
+        body: { published }
+      });
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects/featured"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.id] });
+      toast({
+        title: "Success",
+        description: variables.published ? "Project published" : "Project moved back to drafts",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update publish status: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete a project
   const deleteProjectMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -236,6 +263,7 @@ export const useProjects = (projectId?: number) => {
     updateProject: (id: number, data: Partial<InsertProject>) => 
       updateProjectMutation.mutate({ id, data }),
     toggleFeatured: (id: number, featured: boolean) => toggleFeaturedMutation.mutate({ id, featured }),
+    togglePublished: (id: number, published: boolean) => togglePublishedMutation.mutate({ id, published }),
     deleteProject: (id: number) => deleteProjectMutation.mutate(id),
     addGalleryImage: (projectId: number, imageData: { url: string, alt: string }) => 
       addGalleryImageMutation.mutate({ projectId, imageData }),
@@ -247,6 +275,7 @@ export const useProjects = (projectId?: number) => {
     isCreating: createProjectMutation.isPending,
     isUpdating: updateProjectMutation.isPending,
     isTogglingFeatured: toggleFeaturedMutation.isPending,
+    isTogglingPublished: togglePublishedMutation.isPending,
     isDeleting: deleteProjectMutation.isPending,
     isAddingGalleryImage: addGalleryImageMutation.isPending,
     isDeletingGalleryImage: deleteGalleryImageMutation.isPending,
@@ -1,6 +1,8 @@
 import { useMutation } from "@tanstack/react-query";
 import { InsertQuoteRequest } from "@shared/schema";
+import type { FormGuard } from "@shared/spam";
 import { apiRequest } from "@/lib/queryClient";
+import { withAttribution } from "@/lib/attribution";
 import { useToast } from "@/hooks/use-toast";
 
 interface FileAttachment {
@@ -13,6 +15,7 @@ interface FileAttachment {
 
 interface QuoteRequestWithAttachments extends InsertQuoteRequest {
   attachments?: FileAttachment[];
+  formGuard?: FormGuard;
 }
 
 export const useQuoteRequest = () => {
@@ -21,7 +24,7 @@ export const useQuoteRequest = () => {
   // Mutation for submitting a quote request
   const quoteRequestMutation = useMutation({
     mutationFn: async (data: QuoteRequestWithAttachments) => {
-      return await apiRequest("POST", "/api/quote/request", data);
+      return await apiRequest("POST", "/api/quote/request", withAttribution(data));
     },
     onSuccess: (data) => {
       toast({
@@ -1,5 +1,6 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { withAttribution } from "@/lib/attribution";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Subcontractor, 
@@ -7,6 +8,7 @@ import {
   Vendor,
   InsertVendor
 } from "@shared/schema";
+import type { WithFormGuard } from "@shared/spam";
 
 export const useSubcontractors = () => {
   const { toast } = useToast();
@@ -37,7 +39,7 @@ export const useSubcontractors = () => {
 
   // Enhanced submit subcontractor application with better validation and error handling
   const submitSubcontractorMutation = useMutation({
-    mutationFn: async (data: InsertSubcontractor) => {
+    mutationFn: async (data: WithFormGuard<InsertSubcontractor>) => {
       // Input validation - improved safety checks
       if (!data) {
         throw new Error("No data provided for subcontractor application");
@@ -97,7 +99,7 @@ export const useSubcontractors = () => {
         return await apiRequest({
           url: "/api/subcontractors/apply",
           method: "POST",
-          body: subcontractorData
+          body: withAttribution(subcontractorData)
         });
       } catch (err) {
         console.error("API request failed:", err);
@@ -133,7 +135,7 @@ export const useSubcontractors = () => {
 
   // Enhanced submit vendor application with better validation and error handling
   const submitVendorMutation = useMutation({
-    mutationFn: async (data: InsertVendor) => {
+    mutationFn: async (data: WithFormGuard<InsertVendor>) => {
       // Input validation - improved safety checks
       if (!data) {
         throw new Error("No data provided for vendor application");
@@ -190,7 +192,7 @@ export const useSubcontractors = () => {
         return await apiRequest({
           url: "/api/vendors/apply",
           method: "POST",
-          body: vendorData
+          body: withAttribution(vendorData)
         });
       } catch (err) {
         console.error("API request failed:", err);
@@ -382,9 +384,9 @@ export const useSubcontractors = () => {
     vendorsError,
 
     // Public actions
-    submitSubcontractorApplication: (data: InsertSubcontractor) => 
+    submitSubcontractorApplication: (data: WithFormGuard<InsertSubcontractor>) => 
       submitSubcontractorMutation.mutate(data),
-    submitVendorApplication: (data: InsertVendor) => 
+    submitVendorApplication: (data: WithFormGuard<InsertVendor>) => 
       submitVendorMutation.mutate(data),
     
     // Admin actions
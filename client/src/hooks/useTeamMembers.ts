@@ -3,11 +3,13 @@ import { TeamMember, InsertTeamMember } from '@shared/schema';
 import { apiRequest, getQueryFn } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@shared/permissions';
 
 export function useTeamMembers(teamMemberId?: number) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const { isAdmin } = useAuth(); // Get auth status to check if user is admin
+  const { hasPermission } = useAuth();
+  const isAdmin = hasPermission(PERMISSIONS.TEAM_MANAGE); // Whether the user can manage team members
   
   // Get active team members (public)
   const { data: activeTeamMembers = [], isLoading: isLoadingActive } = useQuery<TeamMember[], Error, TeamMember[]>({
@@ -173,7 +175,7 @@ export function useTeamMembers(teamMemberId?: number) {
     if (!isAdmin) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to create team members.",
+        description: "You do not have permission to create team members.",
         variant: "destructive",
       });
       return;
@@ -185,7 +187,7 @@ export function useTeamMembers(teamMemberId?: number) {
     if (!isAdmin) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to update team members.",
+        description: "You do not have permission to update team members.",
         variant: "destructive",
       });
       return;
@@ -197,7 +199,7 @@ export function useTeamMembers(teamMemberId?: number) {
     if (!isAdmin) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to change team member status.",
+        description: "You do not have permission to change team member status.",
         variant: "destructive",
       });
       return;
@@ -209,7 +211,7 @@ export function useTeamMembers(teamMemberId?: number) {
     if (!isAdmin) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to update display order.",
+        description: "You do not have permission to update display order.",
         variant: "destructive",
       });
       return;
@@ -221,7 +223,7 @@ export function useTeamMembers(teamMemberId?: number) {
     if (!isAdmin) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to delete team members.",
+        description: "You do not have permission to delete team members.",
         variant: "destructive",
       });
       return;
@@ -1,12 +1,15 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Testimonial, PublicTestimonial, InsertTestimonial } from "@shared/schema";
+import type { WithFormGuard } from "@shared/spam";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { PERMISSIONS } from "@shared/permissions";
 
 export const useTestimonials = () => {
   const { toast } = useToast();
-  const { isAdmin } = useAuth();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission(PERMISSIONS.TESTIMONIALS_MANAGE);
 
   // Get all approved testimonials
   const {
@@ -27,7 +30,7 @@ export const useTestimonials = () => {
   } = useQuery<Testimonial[]>({
     queryKey: ["/api/admin/testimonials"],
     retry: 1,
-    enabled: isAdmin, // Only fetch if user is admin
+    enabled: canManage, // Only fetch if user can manage testimonials
   });
 
   // Get pending testimonials - admin only
@@ -39,12 +42,12 @@ export const useTestimonials = () => {
   } = useQuery<Testimonial[]>({
     queryKey: ["/api/admin/testimonials/pending"],
     retry: 1,
-    enabled: isAdmin, // Only fetch if user is admin
+    enabled: canManage, // Only fetch if user can manage testimonials
   });
 
   // Mutation to submit a new testimonial
   const submitTestimonialMutation = useMutation({
-    mutationFn: async (data: PublicTestimonial) => {
+    mutationFn: async (data: WithFormGuard<PublicTestimonial>) => {
       return apiRequest({
         url: "/api/testimonials/submit",
         method: "POST",
@@ -146,15 +149,15 @@ export const useTestimonials = () => {
   });
 
   // Wrapper functions
-  const submitTestimonial = (data: PublicTestimonial) => {
+  const submitTestimonial = (data: WithFormGuard<PublicTestimonial>) => {
     submitTestimonialMutation.mutate(data);
   };
 
   const approveTestimonial = (id: number) => {
-    if (!isAdmin) {
+    if (!canManage) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to approve testimonials.",
+        description: "You do not have permission to approve testimonials.",
         variant: "destructive",
       });
       return;
@@ -163,10 +166,10 @@ export const useTestimonials = () => {
   };
 
   const revokeApproval = (id: number) => {
-    if (!isAdmin) {
+    if (!canManage) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to revoke testimonial approval.",
+        description: "You do not have permission to revoke testimonial approval.",
         variant: "destructive",
       });
       return;
@@ -175,10 +178,10 @@ export const useTestimonials = () => {
   };
 
   const deleteTestimonial = (id: number) => {
-    if (!isAdmin) {
+    if (!canManage) {
       toast({
         title: "Permission denied",
-        description: "You need admin privileges to delete testimonials.",
+        description: "You do not have permission to delete testimonials.",
         variant: "destructive",
       });
       return;
@@ -0,0 +1,61 @@
+import { UTM_PARAMETERS, leadAttributionSchema, type LeadAttribution } from "@shared/attribution";
+
+const STORAGE_KEY = "arcem_lead_attribution";
+
+// A first visit is credited with leads for this long; after that the next visit starts over
+const ATTRIBUTION_WINDOW_MS = 90 * 24 * 3600000;
+
+function readStored(): LeadAttribution | undefined {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return undefined;
+    const parsed = leadAttributionSchema.safeParse(JSON.parse(stored));
+    if (!parsed.success) return undefined;
+
+    const firstVisitAt = parsed.data.firstVisitAt ? new Date(parsed.data.firstVisitAt).getTime() : NaN;
+    return Date.now() - firstVisitAt < ATTRIBUTION_WINDOW_MS ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remember where this visitor came from: UTM parameters, the referring site
+ * and the landing page. Only the first visit is recorded, so a later direct
+ * visit doesn't hide the ad that brought them. Call once on page load.
+ */
+export function captureAttribution() {
+  if (readStored()) return;
+
+  const params = new URLSearchParams(window.location.search);
+  const attribution: LeadAttribution = {
+    landingPage: `${window.location.pathname}${window.location.search}`.slice(0, 2000),
+    firstVisitAt: new Date().toISOString(),
+  };
+  for (const [param, field] of Object.entries(UTM_PARAMETERS)) {
+    const value = params.get(param)?.trim();
+    if (value) attribution[field] = value.slice(0, 200);
+  }
+  // Links between our own pages aren't a source
+  if (document.referrer) {
+    try {
+      if (new URL(document.referrer).host !== window.location.host) {
+        attribution.referrer = document.referrer.slice(0, 2000);
+      }
+    } catch {
+      // Ignore malformed referrers
+    }
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(attribution));
+  } catch {
+    // Storage can be unavailable (private browsing); submissions then go unattributed
+  }
+}
+
+// Adds the visitor's attribution to a public form submission
+export function withAttribution<T extends object>(data: T): T & { attribution?: LeadAttribution } {
+  const attribution = readStored();
+  return attribution ? { ...data, attribution } : data;
+}
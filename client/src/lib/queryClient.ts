@@ -1,5 +1,24 @@
 import { QueryClient } from '@tanstack/react-query';
 
+// Error thrown for non-2xx responses; keeps the status and parsed body
+// so forms can map server-side validation errors back onto their fields
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+
+  // Field errors in the zod issue format the API returns: [{ path, message }]
+  get fieldErrors(): { path: (string | number)[]; message: string }[] {
+    return Array.isArray(this.data?.errors) ? this.data.errors : [];
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     let errorDetails;
@@ -8,7 +27,7 @@ async function throwIfResNotOk(res: Response) {
     } catch (e) {
       errorDetails = { message: 'Unknown error' };
     }
-    throw new Error(errorDetails.message || `API error: ${res.status}`);
+    throw new ApiError(errorDetails.message || `API error: ${res.status}`, res.status, errorDetails);
   }
 }
 
@@ -41,6 +41,28 @@ export type OurFileRouter = FileRouter & {
       size: number;
     }[];
   };
+  applicationDocumentUploader: {
+    config: {
+      pdf?: {
+        maxFileSize: string;
+        maxFileCount: number;
+      };
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"?: {
+        maxFileSize: string;
+        maxFileCount: number;
+      };
+    };
+    metadata?: {
+      isAnonymous?: boolean;
+    };
+    output: {
+      url: string;
+      ufsUrl?: string;
+      key: string;
+      name: string;
+      size: number;
+    }[];
+  };
 };
 
 // Create the React hooks with explicit endpoint config
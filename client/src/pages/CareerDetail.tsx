@@ -11,15 +11,17 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatDate, scrollToTop } from "@/lib/utils";
 import { BriefcaseIcon, MapPinIcon, CalendarIcon, ExternalLinkIcon, ArrowLeftIcon } from "lucide-react";
 import PageHeader from "@/components/PageHeader";
+import JobApplicationForm from "@/components/common/JobApplicationForm";
+import CareerSeo from "@/components/seo/CareerSeo";
 
 export default function CareerDetail() {
   const params = useParams<{ id: string }>();
   const jobId = params.id ? parseInt(params.id) : undefined;
   
   // Direct API call to get job details
-  const { data: jobPosting, isLoading: isLoadingJob } = useQuery<JobPosting>({
+  const { data: jobPosting, isLoading: isLoadingJob } = useQuery<JobPosting | null>({
     queryKey: [`/api/careers/${jobId}`],
-    queryFn: getQueryFn({ on401: "returnNull" }),
+    queryFn: getQueryFn<JobPosting>({ on401: "returnNull" }),
     enabled: !!jobId,
   });
 
@@ -87,6 +89,7 @@ export default function CareerDetail() {
 
   return (
     <div>
+      <CareerSeo jobPosting={jobPosting} />
       <PageHeader 
         title={jobPosting.title}
         backgroundImage="/uploads/images/careers/daniel-mccullough--FPFq_trr2Y-unsplash.jpg"
@@ -105,7 +108,7 @@ export default function CareerDetail() {
           </Badge>
           <div className="flex items-center text-white/80">
             <CalendarIcon className="h-4 w-4 mr-2" />
-            <span className="text-sm">Posted {formatDate(jobPosting.createdAt)}</span>
+            <span className="text-sm">Posted {formatDate(jobPosting.publishAt ?? jobPosting.createdAt)}</span>
           </div>
         </div>
       </PageHeader>
@@ -167,32 +170,33 @@ export default function CareerDetail() {
             </Card>
           )}
 
-          <div className="bg-muted p-6 rounded-lg mb-8">
-            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
-              <div>
-                <h3 className="text-xl font-bold mb-2">Apply for this Position</h3>
-                {jobPosting.salary && (
-                  <p className="text-muted-foreground mb-2">
-                    Salary Range: <span className="font-medium">{jobPosting.salary}</span>
-                  </p>
-                )}
-              </div>
-              {jobPosting.applyUrl ? (
-                <Button size="lg" asChild>
-                  <a href={jobPosting.applyUrl} target="_blank" rel="noopener noreferrer">
-                    Apply Now
-                    <ExternalLinkIcon className="ml-2 h-4 w-4" />
+          <Card id="apply" className="mb-8 scroll-mt-32">
+            <CardHeader>
+              <CardTitle>Apply for this Position</CardTitle>
+              {jobPosting.salary && (
+                <p className="text-muted-foreground">
+                  Salary Range: <span className="font-medium">{jobPosting.salary}</span>
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <JobApplicationForm jobPostingId={jobPosting.id} jobTitle={jobPosting.title} />
+              {jobPosting.applyUrl && (
+                <p className="mt-4 text-sm text-muted-foreground text-center">
+                  Prefer our job board?{" "}
+                  <a
+                    href={jobPosting.applyUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-[#1E90DB] hover:underline"
+                  >
+                    Apply there instead
+                    <ExternalLinkIcon className="ml-1 h-3 w-3" />
                   </a>
-                </Button>
-              ) : (
-                <Button size="lg" asChild>
-                  <Link to="/contact">
-                    Contact Us to Apply
-                  </Link>
-                </Button>
+                </p>
               )}
-            </div>
-          </div>
+            </CardContent>
+          </Card>
 
           <div className="text-center mt-12 mb-8">
             <h3 className="text-xl font-bold mb-2">Interested in Other Opportunities?</h3>
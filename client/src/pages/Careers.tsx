@@ -13,6 +13,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { useIsMobile } from "@/hooks/use-mobile";
 import PageHeader from "@/components/PageHeader";
+import JobAlertSignup from "@/components/common/JobAlertSignup";
 
 export default function Careers() {
   const { activeJobPostings, featuredJobPostings, isLoadingActive, isLoadingFeatured } = useCareers();
@@ -307,6 +308,13 @@ export default function Careers() {
             </>
           )}
         </div>
+
+        <JobAlertSignup
+          departments={departments}
+          locations={locations}
+          jobTypes={jobTypes}
+          filters={{ department: filterDepartment, location: filterLocation, type: filterType }}
+        />
         
         <div className="bg-muted/40 p-6 rounded-lg mt-12">
           <div className="text-center mb-6">
@@ -3,6 +3,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { withAttribution } from '@/lib/attribution';
+import { useFormGuard, HoneypotField } from '@/components/common/FormGuard';
 import { initializeRevealEffects, scrollToTop } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
@@ -29,6 +31,7 @@ import { motion } from 'framer-motion';
 
 const Contact = () => {
   const { toast } = useToast();
+  const guard = useFormGuard();
   
   useEffect(() => {
     scrollToTop();
@@ -50,7 +53,7 @@ const Contact = () => {
 
   const contactMutation = useMutation({
     mutationFn: async (data: InsertMessage) => {
-      return apiRequest('POST', '/api/contact', data);
+      return apiRequest('POST', '/api/contact', withAttribution({ ...data, formGuard: guard.read() }));
     },
     onSuccess: () => {
       toast({
@@ -59,6 +62,7 @@ const Contact = () => {
         variant: "default"
       });
       form.reset();
+      guard.reset();
     },
     onError: (error) => {
       toast({
@@ -188,6 +192,7 @@ const Contact = () => {
               
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <HoneypotField guard={guard} />
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <FormField
                       control={form.control}
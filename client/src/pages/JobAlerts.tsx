@@ -0,0 +1,113 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import { BellOff, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type ConfirmResult = { message: string; filterSummary: string };
+
+// Opened from the links in job alert emails: ?confirm=<token> or ?unsubscribe=<token>
+const JobAlerts = () => {
+  const params = new URLSearchParams(useSearch());
+  const confirmToken = params.get("confirm");
+  const unsubscribeToken = params.get("unsubscribe");
+  const confirmStarted = useRef(false);
+
+  const confirmMutation = useMutation({
+    mutationFn: async (token: string) =>
+      apiRequest<ConfirmResult>({ url: "/api/careers/alerts/confirm", method: "POST", body: { token } }),
+  });
+
+  // Unsubscribing waits for a click, so link scanners in mail filters can't do it by accident
+  const unsubscribeMutation = useMutation({
+    mutationFn: async (token: string) =>
+      apiRequest<{ message: string }>({ url: "/api/careers/alerts/unsubscribe", method: "POST", body: { token } }),
+  });
+
+  useEffect(() => {
+    if (confirmToken && !confirmStarted.current) {
+      confirmStarted.current = true;
+      confirmMutation.mutate(confirmToken);
+    }
+  }, [confirmToken]);
+
+  const renderStatus = (icon: ReactNode, title: string, text: string) => (
+    <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+      {icon}
+      <h2 className="text-2xl font-bold mb-2">{title}</h2>
+      <p className="text-gray-600 mb-6">{text}</p>
+      <Button asChild className="bg-[#1E90DB] hover:bg-[#1670B0]">
+        <Link href="/careers">See Open Positions</Link>
+      </Button>
+    </div>
+  );
+
+  const errorIcon = <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />;
+
+  let content: ReactNode;
+  if (confirmToken) {
+    content = confirmMutation.isSuccess
+      ? renderStatus(
+          <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />,
+          "Your job alerts are on",
+          `We'll email you when new openings match: ${confirmMutation.data?.filterSummary ?? "your alert"}.`,
+        )
+      : confirmMutation.isError
+        ? renderStatus(
+            errorIcon,
+            "We couldn't confirm your job alerts",
+            `${confirmMutation.error.message} You can sign up again from our careers page.`,
+          )
+        : null;
+  } else if (unsubscribeToken) {
+    content = unsubscribeMutation.isSuccess
+      ? renderStatus(
+          <BellOff className="h-12 w-12 text-gray-500 mx-auto mb-4" />,
+          "You've been unsubscribed",
+          "You won't receive any more emails from this job alert.",
+        )
+      : unsubscribeMutation.isError
+        ? renderStatus(errorIcon, "We couldn't unsubscribe you", unsubscribeMutation.error.message)
+        : (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <BellOff className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Stop these job alerts?</h2>
+            <p className="text-gray-600 mb-6">You won't receive any more emails from this job alert.</p>
+            <Button
+              onClick={() => unsubscribeMutation.mutate(unsubscribeToken)}
+              disabled={unsubscribeMutation.isPending}
+              className="bg-[#1E90DB] hover:bg-[#1670B0]"
+            >
+              {unsubscribeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unsubscribe
+            </Button>
+          </div>
+        );
+  } else {
+    content = renderStatus(
+      errorIcon,
+      "This link is incomplete",
+      "Please use the full link from your email, or sign up for job alerts on our careers page.",
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Job Alerts"
+        backgroundImage="/uploads/images/careers/silvia-brazzoduro-YSxcf6C_SEg-unsplash.jpg"
+      />
+      <div className="container mx-auto py-12 px-4 max-w-2xl">
+        {content ?? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-10 w-10 animate-spin text-[#1E90DB]" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobAlerts;
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import PageBanner from "@/components/common/PageBanner";
+import UploadThingFileUpload from "@/components/common/UploadThingFileUpload";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CheckCircle,
+  Circle,
+  ExternalLink,
+  FileText,
+  Image,
+  Loader2,
+  MessageCircle,
+  XCircle,
+} from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { QUOTE_STATUS_LABELS, type QuoteStatus, type QuoteTrackingView } from "@shared/quotes";
+
+interface FileAttachment {
+  fileName: string;
+  fileUrl: string;
+  fileKey: string;
+  fileSize: number;
+  fileType: string;
+}
+
+// The path a quote normally takes; rejected replaces the later steps
+const PROGRESS_STEPS: QuoteStatus[] = ["pending", "reviewing", "accepted", "completed"];
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const isImage = (fileType: string) => /^(jpg|jpeg|png|webp|gif)$/i.test(fileType) || fileType.startsWith("image/");
+
+const QuoteTracking = () => {
+  const [, params] = useRoute("/quote/track/:token");
+  const token = params?.token ?? "";
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState("");
+  const [uploadKey, setUploadKey] = useState(0);
+
+  const queryKey = [`/api/quote/track/${token}`];
+  const { data: quote, isLoading, isError } = useQuery<QuoteTrackingView>({
+    queryKey,
+    enabled: !!token,
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const messageMutation = useMutation({
+    mutationFn: async (body: string) =>
+      apiRequest<QuoteTrackingView>({
+        url: `/api/quote/track/${token}/messages`,
+        method: "POST",
+        body: { message: body },
+      }),
+    onSuccess: (data) => {
+      if (data) queryClient.setQueryData(queryKey, data);
+      setMessage("");
+      toast({ title: "Message sent", description: "Our team will get back to you soon." });
+    },
+    onError: onError("Your message couldn't be sent"),
+  });
+
+  const attachmentsMutation = useMutation({
+    mutationFn: async (attachments: FileAttachment[]) =>
+      apiRequest<QuoteTrackingView>({
+        url: `/api/quote/track/${token}/attachments`,
+        method: "POST",
+        body: { attachments },
+      }),
+    onSuccess: (data) => {
+      if (data) queryClient.setQueryData(queryKey, data);
+      setUploadKey((key) => key + 1);
+      toast({ title: "Files added", description: "Your files have been added to your quote request." });
+    },
+    onError: onError("Your files couldn't be added"),
+  });
+
+  const remainingUploads = quote ? Math.max(0, quote.maxAttachments - quote.attachments.length) : 0;
+  const currentStep = quote ? PROGRESS_STEPS.indexOf(quote.status) : -1;
+
+  return (
+    <div className="quote-tracking-page">
+      <PageBanner
+        title="Your Quote Request"
+        description="Check where your quote stands, share more files and send our team a message"
+        backgroundImage="/images/quote-banner.jpg"
+      />
+
+      <div className="container mx-auto py-12 px-4 max-w-4xl">
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-10 w-10 animate-spin text-[#1E90DB]" />
+          </div>
+        ) : isError || !quote ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">We couldn't find this quote request</h2>
+            <p className="text-gray-600 mb-6">
+              The link may be incomplete, or it may have been replaced with a new one. Please use the most
+              recent link we sent you, or contact us and mention your reference number.
+            </p>
+            <Button asChild className="bg-[#1E90DB] hover:bg-[#1670B0]">
+              <Link href="/contact">Contact Us</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <section className="bg-white rounded-lg shadow-lg p-6 md:p-8">
+              <p className="text-sm text-gray-500">
+                Reference {quote.referenceNumber}
+                {quote.submittedAt && ` · Submitted ${formatDate(quote.submittedAt)}`}
+              </p>
+              <h2 className="text-2xl font-bold mt-1 mb-6">
+                Hi {quote.name}, here's the latest on your {quote.projectType.toLowerCase()} project
+              </h2>
+
+              {quote.status === "rejected" ? (
+                <div className="flex items-start gap-3 rounded-md bg-gray-50 p-4">
+                  <XCircle className="h-6 w-6 text-gray-500 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">{quote.statusLabel}</p>
+                    <p className="text-gray-600">{quote.statusDescription}</p>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <ol className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6" aria-label="Quote progress">
+                    {PROGRESS_STEPS.map((step, index) => {
+                      const reached = index <= currentStep;
+                      return (
+                        <li
+                          key={step}
+                          className={`flex items-center gap-2 ${reached ? "text-[#1E90DB]" : "text-gray-400"}`}
+                          aria-current={index === currentStep ? "step" : undefined}
+                        >
+                          {reached ? <CheckCircle className="h-5 w-5" /> : <Circle className="h-5 w-5" />}
+                          <span className={index === currentStep ? "font-semibold" : ""}>
+                            {QUOTE_STATUS_LABELS[step]}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                  <div className="rounded-md bg-blue-50 p-4">
+                    <p className="font-semibold text-[#1670B0]">{quote.statusLabel}</p>
+                    <p className="text-gray-700">{quote.statusDescription}</p>
+                  </div>
+                </>
+              )}
+              <p className="text-xs text-gray-500 mt-4">
+                Anyone with the link to this page can see it, so please keep it private.
+              </p>
+            </section>
+
+            <section className="bg-white rounded-lg shadow-lg p-6 md:p-8">
+              <h3 className="text-xl font-bold mb-4">Your files</h3>
+              {quote.attachments.length === 0 ? (
+                <p className="text-gray-500 mb-4">You haven't shared any files yet.</p>
+              ) : (
+                <ul className="divide-y mb-6">
+                  {quote.attachments.map((attachment) => (
+                    <li key={attachment.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        {isImage(attachment.fileType) ? (
+                          <Image className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                        ) : (
+                          <FileText className="h-5 w-5 text-red-500 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{attachment.fileName}</p>
+                          <p className="text-xs text-gray-500">
+                            {Math.round(attachment.fileSize / 1024).toLocaleString()} KB · Added{" "}
+                            {formatDate(attachment.createdAt)}
+                          </p>
+                        </div>
+                      </div>
+                      <a
+                        href={attachment.fileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-sm text-[#1E90DB] hover:text-[#1670B0] flex-shrink-0"
+                      >
+                        <ExternalLink className="w-4 h-4 mr-1" />
+                        Open
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {remainingUploads > 0 ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">
+                    Add photos, drawings or documents (images or PDFs, up to 8MB each).
+                  </p>
+                  {attachmentsMutation.isPending ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Adding your files...
+                    </div>
+                  ) : (
+                    <UploadThingFileUpload
+                      key={uploadKey}
+                      onUploadComplete={(files) => attachmentsMutation.mutate(files)}
+                      uploadType="quoteDocumentUploader"
+                      maxFiles={Math.min(3, remainingUploads)}
+                      maxFileSize={8}
+                      allowedFileTypes={["image/jpeg", "image/png", "image/webp", "application/pdf"]}
+                    />
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  You've reached the file limit for online uploads. Please contact us if you need to share more.
+                </p>
+              )}
+            </section>
+
+            <section className="bg-white rounded-lg shadow-lg p-6 md:p-8">
+              <h3 className="text-xl font-bold mb-4">Messages to our team</h3>
+              {quote.messages.length > 0 && (
+                <ul className="space-y-3 mb-6">
+                  {quote.messages.map((entry) => (
+                    <li key={entry.id} className="rounded-md bg-gray-50 p-4">
+                      <p className="text-xs text-gray-500 mb-1 flex items-center gap-1">
+                        <MessageCircle className="h-3 w-3" />
+                        You · {formatDateTime(entry.createdAt)}
+                      </p>
+                      <p className="whitespace-pre-wrap">{entry.body}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (message.trim()) messageMutation.mutate(message.trim());
+                }}
+              >
+                <Textarea
+                  aria-label="Your message"
+                  placeholder="Questions, changes to your project or anything else we should know..."
+                  rows={4}
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  maxLength={5000}
+                />
+                <p className="text-sm text-gray-500">We'll reply by email or phone.</p>
+                <Button
+                  type="submit"
+                  className="bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={!message.trim() || messageMutation.isPending}
+                >
+                  {messageMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Message
+                </Button>
+              </form>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuoteTracking;
@@ -4,6 +4,9 @@ import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useApplicationSubmission } from '@/hooks/useApplicationSubmission';
+import { useFormGuard, HoneypotField } from '@/components/common/FormGuard';
+import FormDraftBar from '@/components/common/FormDraftBar';
+import { useFormDraft } from '@/hooks/useFormDraft';
 
 // UI Components
 import {
@@ -245,6 +248,43 @@ const HOW_DID_YOU_HEAR_OPTIONS = [
   'Other',
 ];
 
+const SUBCONTRACTOR_DEFAULT_VALUES: SubcontractorFormValues = {
+  companyName: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zip: '',
+  website: '',
+  serviceTypes: [],
+  serviceDescription: '',
+  yearsInBusiness: '',
+  insurance: false,
+  bondable: false,
+  licenses: '',
+  references: '',
+  howDidYouHear: '',
+};
+
+const VENDOR_DEFAULT_VALUES: VendorFormValues = {
+  companyName: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zip: '',
+  website: '',
+  supplyTypes: [],
+  serviceDescription: '',
+  yearsInBusiness: '',
+  references: '',
+  howDidYouHear: '',
+};
+
 // Main component for Subcontractor and Vendor Registration
 const SubcontractorVendorRegistration = () => {
   // State management
@@ -258,47 +298,47 @@ const SubcontractorVendorRegistration = () => {
   // Create forms for each tab
   const subcontractorForm = useForm<SubcontractorFormValues>({
     resolver: zodResolver(subcontractorFormSchema),
-    defaultValues: {
-      companyName: '',
-      contactName: '',
-      email: '',
-      phone: '',
-      address: '',
-      city: '',
-      state: '',
-      zip: '',
-      website: '',
-      serviceTypes: [],
-      serviceDescription: '',
-      yearsInBusiness: '',
-      insurance: false,
-      bondable: false,
-      licenses: '',
-      references: '',
-      howDidYouHear: '',
-    },
+    defaultValues: SUBCONTRACTOR_DEFAULT_VALUES,
   });
 
   const vendorForm = useForm<VendorFormValues>({
     resolver: zodResolver(vendorFormSchema),
-    defaultValues: {
-      companyName: '',
-      contactName: '',
-      email: '',
-      phone: '',
-      address: '',
-      city: '',
-      state: '',
-      zip: '',
-      website: '',
-      supplyTypes: [],
-      serviceDescription: '',
-      yearsInBusiness: '',
-      references: '',
-      howDidYouHear: '',
-    },
+    defaultValues: VENDOR_DEFAULT_VALUES,
+  });
+
+  // Both registrations are long, so progress is saved as people type
+  const subcontractorDraft = useFormDraft('subcontractor_application', (data) => {
+    const saved = { ...SUBCONTRACTOR_DEFAULT_VALUES, ...(data as Partial<SubcontractorFormValues>) };
+    subcontractorForm.reset(saved);
+    setSelectedServiceTypes(saved.serviceTypes);
   });
 
+  const vendorDraft = useFormDraft('vendor_application', (data) => {
+    const saved = { ...VENDOR_DEFAULT_VALUES, ...(data as Partial<VendorFormValues>) };
+    vendorForm.reset(saved);
+    setSelectedSupplyTypes(saved.supplyTypes);
+  });
+
+  useEffect(() => {
+    const subscription = subcontractorForm.watch((values) => subcontractorDraft.save(values));
+    return () => subscription.unsubscribe();
+  }, [subcontractorForm, subcontractorDraft.save]);
+
+  useEffect(() => {
+    const subscription = vendorForm.watch((values) => vendorDraft.save(values));
+    return () => subscription.unsubscribe();
+  }, [vendorForm, vendorDraft.save]);
+
+  const startSubcontractorOver = () => {
+    subcontractorForm.reset(SUBCONTRACTOR_DEFAULT_VALUES);
+    setSelectedServiceTypes([]);
+  };
+
+  const startVendorOver = () => {
+    vendorForm.reset(VENDOR_DEFAULT_VALUES);
+    setSelectedSupplyTypes([]);
+  };
+
   // Check URL for tab parameter on initial load
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -344,6 +384,8 @@ const SubcontractorVendorRegistration = () => {
 
   // Use our custom hook to handle API submissions
   const { isSubmitting: isSubmittingAPI, submitSubcontractorApplication, submitVendorApplication } = useApplicationSubmission();
+  const subcontractorGuard = useFormGuard();
+  const vendorGuard = useFormGuard();
   
   // Form submission handlers
   const onSubmitSubcontractor = async (data: SubcontractorFormValues) => {
@@ -377,6 +419,7 @@ const SubcontractorVendorRegistration = () => {
         licenses: data.licenses || "",
         references: data.references || "",
         howDidYouHear: data.howDidYouHear || "",
+        formGuard: subcontractorGuard.read(),
       };
       
       // Use our custom hook to submit the application
@@ -384,8 +427,9 @@ const SubcontractorVendorRegistration = () => {
       
       if (result.success) {
         // Reset form and state
-        subcontractorForm.reset();
-        setSelectedServiceTypes([]);
+        subcontractorDraft.clear();
+        startSubcontractorOver();
+        subcontractorGuard.reset();
         scrollToTop();
       }
     } catch (error) {
@@ -423,6 +467,7 @@ const SubcontractorVendorRegistration = () => {
         yearsInBusiness: data.yearsInBusiness,
         references: data.references || "",
         howDidYouHear: data.howDidYouHear || "",
+        formGuard: vendorGuard.read(),
       };
       
       // Use our custom hook to submit the application
@@ -430,8 +475,9 @@ const SubcontractorVendorRegistration = () => {
       
       if (result.success) {
         // Reset form and state
-        vendorForm.reset();
-        setSelectedSupplyTypes([]);
+        vendorDraft.clear();
+        startVendorOver();
+        vendorGuard.reset();
         scrollToTop();
       }
     } catch (error) {
@@ -517,9 +563,19 @@ const SubcontractorVendorRegistration = () => {
                         Complete the form below to register as a subcontractor with ARCEM. We will review your information and contact you if there are opportunities that match your services.
                       </p>
                     </div>
+
+                    <div className="mb-8">
+                      <FormDraftBar
+                        draft={subcontractorDraft}
+                        getData={() => subcontractorForm.getValues()}
+                        onStartOver={startSubcontractorOver}
+                        defaultEmail={subcontractorForm.watch('email')}
+                      />
+                    </div>
                     
                     <Form {...subcontractorForm}>
                       <form onSubmit={subcontractorForm.handleSubmit(onSubmitSubcontractor, () => showFormErrors(subcontractorForm))} className="space-y-8">
+                        <HoneypotField guard={subcontractorGuard} />
                         <div className="space-y-4">
                           <h3 className="text-lg font-semibold">Company Information</h3>
                           
@@ -895,9 +951,19 @@ const SubcontractorVendorRegistration = () => {
                         Complete the form below to register as a vendor with ARCEM. We will review your information and contact you if there are opportunities to work together.
                       </p>
                     </div>
+
+                    <div className="mb-8">
+                      <FormDraftBar
+                        draft={vendorDraft}
+                        getData={() => vendorForm.getValues()}
+                        onStartOver={startVendorOver}
+                        defaultEmail={vendorForm.watch('email')}
+                      />
+                    </div>
                     
                     <Form {...vendorForm}>
                       <form onSubmit={vendorForm.handleSubmit(onSubmitVendor, () => showFormErrors(vendorForm))} className="space-y-8">
+                        <HoneypotField guard={vendorGuard} />
                         <div className="space-y-4">
                           <h3 className="text-lg font-semibold">Company Information</h3>
                           
@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2 } from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import ExportButton from "@/components/admin/ExportButton";
+import { AuditLogEntry, User } from "@shared/schema";
+import { AUDIT_ENTITY_LABELS, AUDIT_ENTITY_TYPES, isAuditEntityType } from "@shared/audit";
+
+type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+interface AuditFilters {
+  actorId: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  actorId: "all",
+  entityType: "all",
+  entityId: "",
+  action: "",
+  from: "",
+  to: "",
+};
+
+const entityLabel = (entityType: string) =>
+  isAuditEntityType(entityType) ? AUDIT_ENTITY_LABELS[entityType] : entityType;
+
+const actionLabel = (action: string) => action.replace(/_/g, " ");
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+// Only filters that are set end up in the query string
+const toQueryParams = (filters: AuditFilters) => {
+  const params: Record<string, string> = {};
+  if (filters.actorId !== "all") params.actorId = filters.actorId;
+  if (filters.entityType !== "all") params.entityType = filters.entityType;
+  if (filters.entityId.trim()) params.entityId = filters.entityId.trim();
+  if (filters.action.trim()) params.action = filters.action.trim();
+  if (filters.from) params.from = new Date(`${filters.from}T00:00:00`).toISOString();
+  if (filters.to) params.to = new Date(`${filters.to}T23:59:59.999`).toISOString();
+  return params;
+};
+
+const AuditLogPage = () => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/admin/audit", toQueryParams(filters)],
+  });
+
+  const { data: staffUsers = [] } = useQuery<Pick<User, "id" | "username">[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  // Spreadsheet cells can't hold objects, so the JSON columns are flattened to text
+  const exportRows = entries.map((entry) => ({
+    date: new Date(entry.createdAt).toLocaleString(),
+    actor: entry.actorUsername,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? "",
+    changes: entry.changes ? JSON.stringify(entry.changes) : "",
+    before: entry.before ? JSON.stringify(entry.before) : "",
+    after: entry.after ? JSON.stringify(entry.after) : "",
+    ipAddress: entry.ipAddress ?? "",
+  }));
+
+  const selectedChanges = (selectedEntry?.changes ?? null) as FieldChanges | null;
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="audit" />
+
+          {/* Main Content */}
+          <div className="flex-1">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-montserrat font-bold flex items-center">
+                  <History className="mr-2 h-6 w-6" />
+                  Audit Log
+                </h1>
+                <ExportButton
+                  data={exportRows}
+                  fileName={`audit-log-${new Date().toISOString().split("T")[0]}`}
+                  dateFields={[]}
+                />
+              </div>
+
+              {/* Filters */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="space-y-2">
+                  <Label htmlFor="audit-actor">User</Label>
+                  <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+                    <SelectTrigger id="audit-actor">
+                      <SelectValue placeholder="All users" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All users</SelectItem>
+                      {staffUsers.map((staffUser) => (
+                        <SelectItem key={staffUser.id} value={String(staffUser.id)}>
+                          {staffUser.username}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-entity-type">Record type</Label>
+                  <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+                    <SelectTrigger id="audit-entity-type">
+                      <SelectValue placeholder="All record types" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All record types</SelectItem>
+                      {AUDIT_ENTITY_TYPES.map((entityType) => (
+                        <SelectItem key={entityType} value={entityType}>
+                          {AUDIT_ENTITY_LABELS[entityType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-entity-id">Record ID</Label>
+                  <Input
+                    id="audit-entity-id"
+                    value={filters.entityId}
+                    onChange={(e) => updateFilter("entityId", e.target.value)}
+                    placeholder="Any"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-action">Action</Label>
+                  <Input
+                    id="audit-action"
+                    value={filters.action}
+                    onChange={(e) => updateFilter("action", e.target.value)}
+                    placeholder="e.g. delete, approve, change_status"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-from">From</Label>
+                  <Input
+                    id="audit-from"
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => updateFilter("from", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audit-to">To</Label>
+                  <Input
+                    id="audit-to"
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => updateFilter("to", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end mb-4">
+                <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                  Clear filters
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-[#1E90DB]" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>User</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Record</TableHead>
+                        <TableHead>Changed Fields</TableHead>
+                        <TableHead className="text-right">Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                            No audit log entries match these filters.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {new Date(entry.createdAt).toLocaleString()}
+                            </TableCell>
+                            <TableCell className="font-medium">{entry.actorUsername}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="capitalize">
+                                {actionLabel(entry.action)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {entityLabel(entry.entityType)}
+                              {entry.entityId && <span className="text-gray-500"> #{entry.entityId}</span>}
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate text-sm text-gray-600">
+                              {entry.changes ? Object.keys(entry.changes as FieldChanges).join(", ") : "—"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                                View
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Entry details */}
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="capitalize">
+                  {actionLabel(selectedEntry.action)} {entityLabel(selectedEntry.entityType)}
+                  {selectedEntry.entityId && ` #${selectedEntry.entityId}`}
+                </DialogTitle>
+                <DialogDescription>
+                  By {selectedEntry.actorUsername} on {new Date(selectedEntry.createdAt).toLocaleString()}
+                  {selectedEntry.ipAddress && ` from ${selectedEntry.ipAddress}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {selectedChanges ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selectedChanges).map(([field, change]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium align-top">{field}</TableCell>
+                        <TableCell className="align-top break-all text-sm text-red-700">
+                          {formatValue(change.from)}
+                        </TableCell>
+                        <TableCell className="align-top break-all text-sm text-green-700">
+                          {formatValue(change.to)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500">No field-level changes were recorded for this action.</p>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -7,14 +8,24 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Search, Plus, Edit, Trash2, Star, Upload, Check, X } from 'lucide-react';
+import { Search, Plus, Edit, Trash2, Star, Upload, Check, X, Users, AlertTriangle } from 'lucide-react';
 import AdminNav from '@/components/admin/AdminNav';
+import { ApplicantBoard, JOB_APPLICATIONS_QUERY_KEY } from "@/components/admin/ApplicantBoard";
+import { ApplicantDetailDialog } from "@/components/admin/ApplicantDetailDialog";
 import { z } from "zod";
-import { insertJobPostingSchema, type JobPosting } from "@shared/schema";
+import { insertJobPostingSchema, type JobApplication, type JobPosting } from "@shared/schema";
+import {
+  JOB_POSTING_STATUS_LABELS,
+  getJobPostingSeoIssues,
+  getJobPostingStatus,
+  type JobPostingSeoIssue,
+  type JobPostingStatus,
+} from "@shared/careers";
 import { useCareers } from "@/hooks/useCareers";
 import { formatDate, scrollToTop } from "@/lib/utils";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -29,10 +40,65 @@ const jobPostingFormSchema = insertJobPostingSchema.extend({
   description: z.string().min(30, { message: "Description must be at least 30 characters" }),
   requirements: z.string().min(30, { message: "Requirements must be at least 30 characters" }),
   responsibilities: z.string().min(30, { message: "Responsibilities must be at least 30 characters" }),
+  // Date inputs; converted to timestamps by toJobPostingData
+  publishAt: z.string(),
+  expiresAt: z.string(),
+}).refine((values) => !values.publishAt || !values.expiresAt || values.expiresAt >= values.publishAt, {
+  message: "The closing date can't be before the publish date",
+  path: ["expiresAt"],
 });
 
 type JobPostingFormValues = z.infer<typeof jobPostingFormSchema>;
 
+const toDateInputValue = (value: Date | string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// A posting goes up at the start of its publish date and comes down at the end of its closing date
+const toJobPostingData = (values: JobPostingFormValues) => ({
+  ...values,
+  publishAt: values.publishAt ? new Date(`${values.publishAt}T00:00:00`) : null,
+  expiresAt: values.expiresAt ? new Date(`${values.expiresAt}T23:59:59`) : null,
+});
+
+const STATUS_BADGE_CLASSES: Record<JobPostingStatus, string> = {
+  live: "bg-green-100 text-green-800 hover:bg-green-100",
+  scheduled: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  expired: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  archived: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  inactive: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+};
+
+const ALL_POSTINGS = "all";
+
+// What the form still needs for the posting to appear in Google's job search
+function JobSearchWarnings({ issues }: { issues: JobPostingSeoIssue[] }) {
+  if (issues.length === 0) return null;
+  const missingRequired = issues.some((issue) => issue.required);
+
+  return (
+    <Alert className={missingRequired ? "border-amber-300 bg-amber-50" : undefined}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {missingRequired ? "Won't appear in Google job search" : "Could rank better in Google job search"}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-5 space-y-1 mt-1">
+          {issues.map((issue) => (
+            <li key={issue.field}>
+              {issue.required && <span className="font-semibold">Required: </span>}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
 export default function CareersManagement() {
   const { 
     allJobPostings, 
@@ -55,8 +121,18 @@ export default function CareersManagement() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentJobPosting, setCurrentJobPosting] = useState<JobPosting | null>(null);
-  const [activeTab, setActiveTab] = useState("all"); // all, active, inactive
+  const [activeTab, setActiveTab] = useState("all"); // all, active, inactive, scheduled, archived, featured
   const [searchQuery, setSearchQuery] = useState('');
+  const [boardJobId, setBoardJobId] = useState(ALL_POSTINGS);
+  const [openApplicationId, setOpenApplicationId] = useState<number | null>(null);
+  const openedLinkedApplication = useRef(false);
+  const openedLinkedPosting = useRef(false);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const search = useSearch();
+
+  const { data: jobApplications = [] } = useQuery<JobApplication[]>({
+    queryKey: JOB_APPLICATIONS_QUERY_KEY,
+  });
 
   useEffect(() => {
     scrollToTop();
@@ -77,6 +153,8 @@ export default function CareersManagement() {
       benefits: "",
       salary: "",
       applyUrl: "",
+      publishAt: "",
+      expiresAt: "",
       active: true,
       featured: false,
     },
@@ -96,20 +174,22 @@ export default function CareersManagement() {
       benefits: "",
       salary: "",
       applyUrl: "",
+      publishAt: "",
+      expiresAt: "",
       active: true,
       featured: false,
     },
   });
 
   const onCreateSubmit = (values: JobPostingFormValues) => {
-    createJobPosting(values);
+    createJobPosting(toJobPostingData(values));
     setIsCreateDialogOpen(false);
     form.reset();
   };
 
   const onEditSubmit = (values: JobPostingFormValues) => {
     if (currentJobPosting) {
-      updateJobPosting(currentJobPosting.id, values);
+      updateJobPosting(currentJobPosting.id, toJobPostingData(values));
       setIsEditDialogOpen(false);
       editForm.reset();
     }
@@ -128,6 +208,8 @@ export default function CareersManagement() {
       benefits: jobPosting.benefits || "",
       salary: jobPosting.salary || "",
       applyUrl: jobPosting.applyUrl || "",
+      publishAt: toDateInputValue(jobPosting.publishAt),
+      expiresAt: toDateInputValue(jobPosting.expiresAt),
       active: jobPosting.active,
       featured: jobPosting.featured,
     });
@@ -184,12 +266,57 @@ export default function CareersManagement() {
     let statusMatches = true;
     if (activeTab === "active") statusMatches = job.active === true;
     if (activeTab === "inactive") statusMatches = job.active === false;
+    if (activeTab === "scheduled") statusMatches = getJobPostingStatus(job) === "scheduled";
+    if (activeTab === "archived") statusMatches = getJobPostingStatus(job) === "archived";
     if (activeTab === "featured") statusMatches = job.featured === true;
     
     return searchMatches && statusMatches;
   });
+  // Open the application linked from a staff alert email (?applications=4&id=12) once loaded
+  useEffect(() => {
+    if (openedLinkedApplication.current) return;
+    const params = new URLSearchParams(search);
+    const linkedId = parseInt(params.get("id") || "");
+    const linkedApplication = jobApplications.find((application) => application.id === linkedId);
+    if (params.has("applications") && linkedApplication) {
+      openedLinkedApplication.current = true;
+      setBoardJobId(String(linkedApplication.jobPostingId));
+      setOpenApplicationId(linkedApplication.id);
+    }
+  }, [search, jobApplications]);
+
+  // Open the posting linked from an expiry alert email (?edit=3) once loaded
+  useEffect(() => {
+    if (openedLinkedPosting.current) return;
+    const linkedId = parseInt(new URLSearchParams(search).get("edit") || "");
+    const linkedPosting = jobPostingsArray.find((job) => job.id === linkedId);
+    if (linkedPosting) {
+      openedLinkedPosting.current = true;
+      handleEditClick(linkedPosting);
+    }
+  }, [search, jobPostingsArray]);
+
+  const showApplicants = (jobId: number) => {
+    setBoardJobId(String(jobId));
+    boardRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  const countApplications = (jobId: number) => {
+    const forJob = jobApplications.filter((application) => application.jobPostingId === jobId);
+    return { total: forJob.length, awaiting: forJob.filter((application) => application.stage === "new").length };
+  };
+
+  const boardApplications =
+    boardJobId === ALL_POSTINGS
+      ? jobApplications
+      : jobApplications.filter((application) => String(application.jobPostingId) === boardJobId);
+  // Looked up from the list so the dialog shows changes made on the board
+  const openApplication = jobApplications.find((application) => application.id === openApplicationId) ?? null;
+
   const activeCount = jobPostingsArray.filter((job: JobPosting) => job.active === true).length;
   const inactiveCount = jobPostingsArray.filter((job: JobPosting) => job.active === false).length;
+  const scheduledCount = jobPostingsArray.filter((job: JobPosting) => getJobPostingStatus(job) === "scheduled").length;
+  const archivedCount = jobPostingsArray.filter((job: JobPosting) => getJobPostingStatus(job) === "archived").length;
   const featuredCount = jobPostingsArray.filter((job: JobPosting) => job.featured === true).length;
   const totalCount = jobPostingsArray.length;
 
@@ -231,6 +358,8 @@ export default function CareersManagement() {
                   <TabsTrigger value="all">All ({totalCount})</TabsTrigger>
                   <TabsTrigger value="active">Active ({activeCount})</TabsTrigger>
                   <TabsTrigger value="inactive">Inactive ({inactiveCount})</TabsTrigger>
+                  <TabsTrigger value="scheduled">Scheduled ({scheduledCount})</TabsTrigger>
+                  <TabsTrigger value="archived">Archived ({archivedCount})</TabsTrigger>
                   <TabsTrigger value="featured">Featured ({featuredCount})</TabsTrigger>
                 </TabsList>
               
@@ -257,13 +386,14 @@ export default function CareersManagement() {
                         <TableHead className="hidden md:table-cell">Type</TableHead>
                         <TableHead className="hidden md:table-cell">Posted</TableHead>
                         <TableHead>Status</TableHead>
+                        <TableHead>Applications</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {isLoadingAll ? (
                         <TableRow>
-                          <TableCell colSpan={7} className="h-24 text-center">
+                          <TableCell colSpan={8} className="h-24 text-center">
                             <div className="flex justify-center">
                               <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-primary"></div>
                             </div>
@@ -271,7 +401,7 @@ export default function CareersManagement() {
                         </TableRow>
                       ) : filteredJobPostings.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                          <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
                             No job postings found
                           </TableCell>
                         </TableRow>
@@ -280,6 +410,11 @@ export default function CareersManagement() {
                           <TableRow key={job.id}>
                             <TableCell className="font-medium">
                               {job.title}
+                              {getJobPostingSeoIssues(job).some((issue) => issue.required) && (
+                                <span title="Missing details Google needs to list this job. Edit the posting to see what to fix.">
+                                  <AlertTriangle className="inline h-4 w-4 ml-2 text-amber-500" />
+                                </span>
+                              )}
                               {job.featured && (
                                 <Badge variant="outline" className="ml-2">
                                   <Star className="h-3 w-3 mr-1 fill-yellow-400 stroke-yellow-400" />
@@ -292,11 +427,47 @@ export default function CareersManagement() {
                             <TableCell className="hidden md:table-cell capitalize">{job.type}</TableCell>
                             <TableCell className="hidden md:table-cell">{formatDate(job.createdAt)}</TableCell>
                             <TableCell>
-                              {job.active ? (
-                                <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">Active</Badge>
-                              ) : (
-                                <Badge variant="outline">Inactive</Badge>
-                              )}
+                              {(() => {
+                                const status = getJobPostingStatus(job);
+                                return (
+                                  <>
+                                    <Badge className={STATUS_BADGE_CLASSES[status]}>
+                                      {JOB_POSTING_STATUS_LABELS[status]}
+                                    </Badge>
+                                    {status === "scheduled" && (
+                                      <p className="text-xs text-muted-foreground mt-1">From {formatDate(job.publishAt)}</p>
+                                    )}
+                                    {status === "live" && job.expiresAt && (
+                                      <p className="text-xs text-muted-foreground mt-1">Closes {formatDate(job.expiresAt)}</p>
+                                    )}
+                                    {status === "archived" && (
+                                      <p className="text-xs text-muted-foreground mt-1">Closed {formatDate(job.expiresAt ?? job.archivedAt)}</p>
+                                    )}
+                                  </>
+                                );
+                              })()}
+                            </TableCell>
+                            <TableCell>
+                              {(() => {
+                                const { total, awaiting } = countApplications(job.id);
+                                return (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => showApplicants(job.id)}
+                                    title="Show applicants on the board"
+                                    className="px-2"
+                                  >
+                                    <Users className="h-4 w-4 mr-1" />
+                                    {total}
+                                    {awaiting > 0 && (
+                                      <Badge className="ml-2 bg-blue-100 text-blue-800 hover:bg-blue-100">
+                                        {awaiting} new
+                                      </Badge>
+                                    )}
+                                  </Button>
+                                );
+                              })()}
                             </TableCell>
                             <TableCell className="text-right">
                               <Button
@@ -346,6 +517,37 @@ export default function CareersManagement() {
                 </div>
               </Tabs>
             </div>
+
+            {/* Applicant pipeline */}
+            <div ref={boardRef} className="bg-white rounded-lg shadow-md p-6 mb-8 scroll-mt-32">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-montserrat font-bold">Applicant Pipeline</h2>
+                  <p className="text-sm text-gray-500">
+                    Drag candidates between stages, or open one to add notes and ratings.
+                  </p>
+                </div>
+                <Select value={boardJobId} onValueChange={setBoardJobId}>
+                  <SelectTrigger className="w-full md:w-[260px]" aria-label="Position">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_POSTINGS}>All positions</SelectItem>
+                    {jobPostingsArray.map((job) => (
+                      <SelectItem key={job.id} value={String(job.id)}>
+                        {job.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ApplicantBoard
+                applications={boardApplications}
+                jobPostings={jobPostingsArray}
+                showJobTitles={boardJobId === ALL_POSTINGS}
+                onOpen={(application) => setOpenApplicationId(application.id)}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -536,7 +738,41 @@ export default function CareersManagement() {
                         <Input placeholder="https://..." {...field} value={field.value || ''} />
                       </FormControl>
                       <FormDescription>
-                        External link for applications, if any
+                        Optional job board listing, offered alongside the application form
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="publishAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Publish Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Keep the posting off the careers page until this date
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiresAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Closing Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Last day applications are accepted; the posting is archived afterwards
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -585,6 +821,7 @@ export default function CareersManagement() {
                   )}
                 />
               </div>
+              <JobSearchWarnings issues={getJobPostingSeoIssues(form.watch())} />
               <DialogFooter>
                 <Button type="submit" disabled={isCreating}>
                   {isCreating ? "Creating..." : "Create Job Posting"}
@@ -781,7 +1018,41 @@ export default function CareersManagement() {
                         <Input placeholder="https://..." {...field} value={field.value || ''} />
                       </FormControl>
                       <FormDescription>
-                        External link for applications, if any
+                        Optional job board listing, offered alongside the application form
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="publishAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Publish Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Keep the posting off the careers page until this date
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editForm.control}
+                  name="expiresAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Closing Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Last day applications are accepted; the posting is archived afterwards
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -830,6 +1101,7 @@ export default function CareersManagement() {
                   )}
                 />
               </div>
+              <JobSearchWarnings issues={getJobPostingSeoIssues(editForm.watch())} />
               <DialogFooter>
                 <Button type="submit" disabled={isUpdating}>
                   {isUpdating ? "Updating..." : "Update Job Posting"}
@@ -840,13 +1112,21 @@ export default function CareersManagement() {
         </DialogContent>
       </Dialog>
 
+      <ApplicantDetailDialog
+        application={openApplication}
+        jobPosting={jobPostingsArray.find((job) => job.id === openApplication?.jobPostingId)}
+        onOpenChange={(open) => {
+          if (!open) setOpenApplicationId(null);
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the job posting "{currentJobPosting?.title}"? This action cannot be undone.
+              Are you sure you want to delete the job posting "{currentJobPosting?.title}"? Its applications will be deleted too. This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
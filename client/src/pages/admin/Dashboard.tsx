@@ -20,9 +20,12 @@ import {
 } from 'lucide-react';
 import AdminNav from '@/components/admin/AdminNav';
 import StorageUsage from '@/components/admin/StorageUsage';
+import { LeadSourceBreakdown } from '@/components/admin/LeadSourceBreakdown';
 import { Project, BlogPost, Message } from '@shared/schema';
 import { useNotifications } from '@/hooks/useNotifications';
 import NotificationIndicator from '@/components/common/NotificationIndicator';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@shared/permissions';
 
 const Dashboard = () => {
   useEffect(() => {
@@ -30,6 +33,8 @@ const Dashboard = () => {
     document.title = 'Admin Dashboard - ARCEM';
   }, []);
 
+  const { hasPermission } = useAuth();
+
   // Get notification counts
   const { counts, isLoading: isLoadingNotifications } = useNotifications();
 
@@ -46,6 +51,7 @@ const Dashboard = () => {
   // Fetch messages
   const { data: messages, isLoading: isLoadingMessages } = useQuery<Message[]>({
     queryKey: ['/api/messages'],
+    enabled: hasPermission(PERMISSIONS.MESSAGES_MANAGE),
   });
 
   return (
@@ -116,9 +122,11 @@ const Dashboard = () => {
             </div>
             
             {/* Storage Usage */}
-            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-              <StorageUsage />
-            </div>
+            {hasPermission(PERMISSIONS.FILES_MANAGE) && (
+              <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <StorageUsage />
+              </div>
+            )}
             
             {/* Quick Actions */}
             <div className="bg-white rounded-lg shadow-md p-6 mb-8">
@@ -128,37 +136,45 @@ const Dashboard = () => {
                 <div className="space-y-3">
                   <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Content</h3>
                   <div className="space-y-2">
-                    <Link href="/admin/projects">
-                      <Button variant="outline" className="w-full justify-start">
-                        <Building className="mr-2 h-4 w-4" /> 
-                        Projects
-                      </Button>
-                    </Link>
-                    <Link href="/admin/services">
-                      <Button variant="outline" className="w-full justify-start">
-                        <Wrench className="mr-2 h-4 w-4" /> 
-                        Services
-                      </Button>
-                    </Link>
-                    <Link href="/admin/blog">
-                      <Button variant="outline" className="w-full justify-start">
-                        <FileText className="mr-2 h-4 w-4" /> 
-                        Blog
-                      </Button>
-                    </Link>
-                    <Link href="/admin/testimonials">
-                      <Button variant="outline" className="w-full justify-start relative">
-                        <Star className="mr-2 h-4 w-4" /> 
-                        Testimonials
-                        {counts.pendingTestimonials > 0 && (
-                          <NotificationIndicator 
-                            count={counts.pendingTestimonials} 
-                            size="sm" 
-                            className="absolute right-2 top-2"
-                          />
-                        )}
-                      </Button>
-                    </Link>
+                    {hasPermission(PERMISSIONS.PROJECTS_MANAGE) && (
+                      <Link href="/admin/projects">
+                        <Button variant="outline" className="w-full justify-start">
+                          <Building className="mr-2 h-4 w-4" /> 
+                          Projects
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.SERVICES_MANAGE) && (
+                      <Link href="/admin/services">
+                        <Button variant="outline" className="w-full justify-start">
+                          <Wrench className="mr-2 h-4 w-4" /> 
+                          Services
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.BLOG_MANAGE) && (
+                      <Link href="/admin/blog">
+                        <Button variant="outline" className="w-full justify-start">
+                          <FileText className="mr-2 h-4 w-4" /> 
+                          Blog
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.TESTIMONIALS_MANAGE) && (
+                      <Link href="/admin/testimonials">
+                        <Button variant="outline" className="w-full justify-start relative">
+                          <Star className="mr-2 h-4 w-4" /> 
+                          Testimonials
+                          {counts.pendingTestimonials > 0 && (
+                            <NotificationIndicator 
+                              count={counts.pendingTestimonials} 
+                              size="sm" 
+                              className="absolute right-2 top-2"
+                            />
+                          )}
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
                 
@@ -166,38 +182,44 @@ const Dashboard = () => {
                 <div className="space-y-3">
                   <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Communication</h3>
                   <div className="space-y-2">
-                    <Link href="/admin/messages">
-                      <Button variant="outline" className="w-full justify-start relative">
-                        <MessageSquare className="mr-2 h-4 w-4" /> 
-                        Messages
-                        {counts.unreadMessages > 0 && (
-                          <NotificationIndicator 
-                            count={counts.unreadMessages} 
-                            size="sm" 
-                            className="absolute right-2 top-2"
-                          />
-                        )}
-                      </Button>
-                    </Link>
-                    <Link href="/admin/newsletter">
-                      <Button variant="outline" className="w-full justify-start">
-                        <Mail className="mr-2 h-4 w-4" /> 
-                        Newsletter
-                      </Button>
-                    </Link>
-                    <Link href="/admin/quotes">
-                      <Button variant="outline" className="w-full justify-start relative">
-                        <ClipboardList className="mr-2 h-4 w-4" /> 
-                        Quote Requests
-                        {counts.pendingQuoteRequests > 0 && (
-                          <NotificationIndicator 
-                            count={counts.pendingQuoteRequests} 
-                            size="sm" 
-                            className="absolute right-2 top-2"
-                          />
-                        )}
-                      </Button>
-                    </Link>
+                    {hasPermission(PERMISSIONS.MESSAGES_MANAGE) && (
+                      <Link href="/admin/messages">
+                        <Button variant="outline" className="w-full justify-start relative">
+                          <MessageSquare className="mr-2 h-4 w-4" /> 
+                          Messages
+                          {counts.unreadMessages > 0 && (
+                            <NotificationIndicator 
+                              count={counts.unreadMessages} 
+                              size="sm" 
+                              className="absolute right-2 top-2"
+                            />
+                          )}
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.NEWSLETTER_MANAGE) && (
+                      <Link href="/admin/newsletter">
+                        <Button variant="outline" className="w-full justify-start">
+                          <Mail className="mr-2 h-4 w-4" /> 
+                          Newsletter
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.QUOTES_MANAGE) && (
+                      <Link href="/admin/quotes">
+                        <Button variant="outline" className="w-full justify-start relative">
+                          <ClipboardList className="mr-2 h-4 w-4" /> 
+                          Quote Requests
+                          {counts.pendingQuoteRequests > 0 && (
+                            <NotificationIndicator 
+                              count={counts.pendingQuoteRequests} 
+                              size="sm" 
+                              className="absolute right-2 top-2"
+                            />
+                          )}
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
                 
@@ -205,24 +227,30 @@ const Dashboard = () => {
                 <div className="space-y-3">
                   <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Resources</h3>
                   <div className="space-y-2">
-                    <Link href="/admin/careers">
-                      <Button variant="outline" className="w-full justify-start">
-                        <BriefcaseBusiness className="mr-2 h-4 w-4" /> 
-                        Careers
-                      </Button>
-                    </Link>
-                    <Link href="/admin/team-members">
-                      <Button variant="outline" className="w-full justify-start">
-                        <Users className="mr-2 h-4 w-4" /> 
-                        Team Members
-                      </Button>
-                    </Link>
-                    <Link href="/admin/file-upload-test">
-                      <Button variant="outline" className="w-full justify-start">
-                        <FolderOpen className="mr-2 h-4 w-4" /> 
-                        File Manager
-                      </Button>
-                    </Link>
+                    {hasPermission(PERMISSIONS.CAREERS_MANAGE) && (
+                      <Link href="/admin/careers">
+                        <Button variant="outline" className="w-full justify-start">
+                          <BriefcaseBusiness className="mr-2 h-4 w-4" /> 
+                          Careers
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.TEAM_MANAGE) && (
+                      <Link href="/admin/team-members">
+                        <Button variant="outline" className="w-full justify-start">
+                          <Users className="mr-2 h-4 w-4" /> 
+                          Team Members
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.FILES_MANAGE) && (
+                      <Link href="/admin/file-upload-test">
+                        <Button variant="outline" className="w-full justify-start">
+                          <FolderOpen className="mr-2 h-4 w-4" /> 
+                          File Manager
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
                 
@@ -230,35 +258,46 @@ const Dashboard = () => {
                 <div className="space-y-3">
                   <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Create New</h3>
                   <div className="space-y-2">
-                    <Link href="/admin/projects?action=new">
-                      <Button variant="gold" className="w-full justify-start">
-                        <Plus className="mr-2 h-4 w-4" /> 
-                        Project
-                      </Button>
-                    </Link>
-                    <Link href="/admin/blog?action=new">
-                      <Button variant="gold" className="w-full justify-start">
-                        <Plus className="mr-2 h-4 w-4" /> 
-                        Blog Article
-                      </Button>
-                    </Link>
-                    <Link href="/admin/services?action=new">
-                      <Button variant="gold" className="w-full justify-start">
-                        <Plus className="mr-2 h-4 w-4" /> 
-                        Service
-                      </Button>
-                    </Link>
-                    <Link href="/admin/careers?action=new">
-                      <Button variant="gold" className="w-full justify-start">
-                        <Plus className="mr-2 h-4 w-4" /> 
-                        Job Posting
-                      </Button>
-                    </Link>
+                    {hasPermission(PERMISSIONS.PROJECTS_MANAGE) && (
+                      <Link href="/admin/projects?action=new">
+                        <Button variant="gold" className="w-full justify-start">
+                          <Plus className="mr-2 h-4 w-4" /> 
+                          Project
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.BLOG_MANAGE) && (
+                      <Link href="/admin/blog?action=new">
+                        <Button variant="gold" className="w-full justify-start">
+                          <Plus className="mr-2 h-4 w-4" /> 
+                          Blog Article
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.SERVICES_MANAGE) && (
+                      <Link href="/admin/services?action=new">
+                        <Button variant="gold" className="w-full justify-start">
+                          <Plus className="mr-2 h-4 w-4" /> 
+                          Service
+                        </Button>
+                      </Link>
+                    )}
+                    {hasPermission(PERMISSIONS.CAREERS_MANAGE) && (
+                      <Link href="/admin/careers?action=new">
+                        <Button variant="gold" className="w-full justify-start">
+                          <Plus className="mr-2 h-4 w-4" /> 
+                          Job Posting
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
             
+            {/* Lead Sources */}
+            <LeadSourceBreakdown />
+
             {/* Recent Activity */}
             <div className="bg-white rounded-lg shadow-md p-6 mb-8">
               <h2 className="text-xl font-montserrat font-bold mb-4">Recent Activity</h2>
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Mail, RotateCw, Search, Send } from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { EmailLogEntry } from "@shared/schema";
+
+type OutboxEntry = Omit<EmailLogEntry, "textBody" | "htmlBody"> & { hasBody: boolean };
+
+interface OutboxStatus {
+  transport: "smtp" | "file";
+  sender: string;
+}
+
+interface SendResult {
+  id?: number;
+  recipient: string;
+  transport: string;
+}
+
+const OUTBOX_QUERY_KEY = "/api/admin/outbox";
+
+const templateLabel = (template: string | null) =>
+  template ? template.replace(/_/g, " ") : "—";
+
+const EmailOutboxPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [recipientFilter, setRecipientFilter] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const filters: Record<string, string> = {};
+  if (statusFilter !== "all") filters.status = statusFilter;
+  if (recipientFilter.trim()) filters.recipient = recipientFilter.trim();
+
+  const { data: entries = [], isLoading } = useQuery<OutboxEntry[]>({
+    queryKey: [OUTBOX_QUERY_KEY, filters],
+  });
+
+  const { data: status } = useQuery<OutboxStatus>({
+    queryKey: ["/api/admin/outbox/status"],
+  });
+
+  const { data: selectedEmail, isLoading: isLoadingEmail } = useQuery<EmailLogEntry>({
+    queryKey: [`/api/admin/outbox/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<SendResult>("POST", "/api/admin/outbox/test");
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [OUTBOX_QUERY_KEY] });
+      toast({
+        title: "Test email sent",
+        description: `A test email was sent to ${result?.recipient}.`,
+      });
+    },
+    onError: (error) => showError(error, "Failed to send test email."),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest<SendResult>("POST", `/api/admin/outbox/${id}/resend`);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [OUTBOX_QUERY_KEY] });
+      setSelectedId(null);
+      toast({
+        title: "Email resent",
+        description: `The email was sent to ${result?.recipient} again.`,
+      });
+    },
+    onError: (error) => showError(error, "Failed to resend email."),
+  });
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="outbox" />
+
+          {/* Main Content */}
+          <div className="flex-1">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-2">
+                <h1 className="text-2xl font-montserrat font-bold flex items-center">
+                  <Mail className="mr-2 h-6 w-6" />
+                  Email Outbox
+                </h1>
+                <Button onClick={() => testMutation.mutate()} disabled={testMutation.isPending}>
+                  {testMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  Send Test Email
+                </Button>
+              </div>
+              {status && (
+                <p className="text-sm text-gray-600 mb-6">
+                  Sending from <strong>{status.sender}</strong> via{" "}
+                  {status.transport === "smtp"
+                    ? "SMTP"
+                    : "the local file outbox (emails are written to disk, not delivered)"}
+                  .
+                </p>
+              )}
+
+              {/* Filters */}
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <div className="relative flex-1">
+                  <Input
+                    type="text"
+                    placeholder="Search by recipient..."
+                    value={recipientFilter}
+                    onChange={(e) => setRecipientFilter(e.target.value)}
+                    className="pl-10"
+                  />
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Emails</SelectItem>
+                    <SelectItem value="sent">Sent</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-[#1E90DB]" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Recipient</TableHead>
+                        <TableHead>Subject</TableHead>
+                        <TableHead>Template</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                            No emails have been sent yet.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {new Date(entry.createdAt).toLocaleString()}
+                            </TableCell>
+                            <TableCell>{entry.recipient}</TableCell>
+                            <TableCell className="max-w-xs truncate">{entry.subject}</TableCell>
+                            <TableCell className="capitalize">{templateLabel(entry.template)}</TableCell>
+                            <TableCell>
+                              {entry.status === "sent" ? (
+                                <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Sent</Badge>
+                              ) : (
+                                <Badge variant="destructive" title={entry.error ?? undefined}>Failed</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => setSelectedId(entry.id)}>
+                                View
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Message viewer */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {isLoadingEmail || !selectedEmail ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-[#1E90DB]" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedEmail.subject}</DialogTitle>
+                <DialogDescription>
+                  To {selectedEmail.recipient} from {selectedEmail.sender} on{" "}
+                  {new Date(selectedEmail.createdAt).toLocaleString()} via {selectedEmail.transport}
+                </DialogDescription>
+              </DialogHeader>
+
+              {selectedEmail.error && (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">
+                  Delivery failed: {selectedEmail.error}
+                </div>
+              )}
+              {selectedEmail.filePath && (
+                <p className="text-xs text-gray-500 break-all">Saved to {selectedEmail.filePath}</p>
+              )}
+
+              {selectedEmail.textBody === null && selectedEmail.htmlBody === null ? (
+                <p className="text-sm text-gray-500">
+                  The contents of this email were not stored because it contained a one-time link.
+                </p>
+              ) : (
+                <Tabs defaultValue={selectedEmail.htmlBody ? "html" : "text"}>
+                  <TabsList>
+                    {selectedEmail.htmlBody && <TabsTrigger value="html">HTML</TabsTrigger>}
+                    <TabsTrigger value="text">Plain Text</TabsTrigger>
+                  </TabsList>
+                  {selectedEmail.htmlBody && (
+                    <TabsContent value="html">
+                      {/* Sandboxed so stored markup can't run scripts in the admin panel */}
+                      <iframe
+                        title="Email preview"
+                        sandbox=""
+                        srcDoc={selectedEmail.htmlBody}
+                        className="w-full h-[420px] rounded-md border"
+                      />
+                    </TabsContent>
+                  )}
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap rounded-md border bg-gray-50 p-4 text-sm">
+                      {selectedEmail.textBody}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              )}
+
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => resendMutation.mutate(selectedEmail.id)}
+                  disabled={selectedEmail.textBody === null || resendMutation.isPending}
+                >
+                  <RotateCw className="mr-2 h-4 w-4" />
+                  Resend
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmailOutboxPage;
@@ -0,0 +1,736 @@
+import { useEffect, useState } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ArrowLeft,
+  Copy,
+  Download,
+  FileText,
+  Loader2,
+  Plus,
+  Save,
+  Send,
+  Trash2,
+} from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { useSingleQuoteRequest } from "@/hooks/useSingleQuoteRequest";
+import { formatReferenceNumber } from "@shared/submissions";
+import {
+  ESTIMATE_LINE_ITEM_CATEGORIES,
+  ESTIMATE_LINE_ITEM_CATEGORY_LABELS,
+  calculateEstimateTotals,
+  formatCents,
+  formatProposalNumber,
+  lineItemTotalCents,
+  type EstimateLineItem,
+  type EstimateLineItemCategory,
+} from "@shared/estimates";
+import type { Estimate } from "@shared/schema";
+
+// Numbers are kept as typed so partially entered values ("12.") don't jump around
+interface LineItemDraft {
+  category: EstimateLineItemCategory;
+  description: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string;
+}
+
+interface EstimateDraft {
+  title: string;
+  scope: string;
+  terms: string;
+  validUntil: string;
+  markupPercent: string;
+  taxPercent: string;
+  lineItems: LineItemDraft[];
+}
+
+const NEW_VERSION = "new";
+
+const DEFAULT_TERMS =
+  "50% deposit due on acceptance, balance due on completion. Changes to the scope of work are quoted separately and require written approval.";
+
+const emptyLineItem = (category: EstimateLineItemCategory = "labor"): LineItemDraft => ({
+  category,
+  description: "",
+  quantity: "1",
+  unit: "",
+  unitPrice: "",
+});
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Dates are picked by day in the estimator's local time
+const toDateInputValue = (value: Date | string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const draftFromEstimate = (estimate: Estimate): EstimateDraft => ({
+  title: estimate.title,
+  scope: estimate.scope ?? "",
+  terms: estimate.terms ?? "",
+  validUntil: toDateInputValue(estimate.validUntil),
+  markupPercent: String(estimate.markupBasisPoints / 100),
+  taxPercent: String(estimate.taxBasisPoints / 100),
+  lineItems: estimate.lineItems.map((item) => ({
+    category: item.category,
+    description: item.description,
+    quantity: String(item.quantity),
+    unit: item.unit,
+    unitPrice: (item.unitPriceCents / 100).toFixed(2),
+  })),
+});
+
+const toLineItems = (items: LineItemDraft[]): EstimateLineItem[] =>
+  items.map((item) => ({
+    category: item.category,
+    description: item.description.trim(),
+    quantity: toNumber(item.quantity),
+    unit: item.unit.trim(),
+    unitPriceCents: Math.round(toNumber(item.unitPrice) * 100),
+  }));
+
+const toEstimateInput = (draft: EstimateDraft) => ({
+  title: draft.title,
+  scope: draft.scope || null,
+  terms: draft.terms || null,
+  // Valid through the end of the chosen day
+  validUntil: draft.validUntil ? new Date(`${draft.validUntil}T23:59:59`).toISOString() : null,
+  lineItems: toLineItems(draft.lineItems),
+  markupBasisPoints: Math.round(toNumber(draft.markupPercent) * 100),
+  taxBasisPoints: Math.round(toNumber(draft.taxPercent) * 100),
+});
+
+const EstimateBuilder = () => {
+  const [, params] = useRoute("/admin/quotes/:id/estimate");
+  const quoteRequestId = params ? parseInt(params.id) : undefined;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { quoteRequest, isLoading: isLoadingQuote } = useSingleQuoteRequest(quoteRequestId);
+
+  const [selected, setSelected] = useState<number | typeof NEW_VERSION | null>(null);
+  const [draft, setDraft] = useState<EstimateDraft | null>(null);
+  const [savedDraft, setSavedDraft] = useState<string>("");
+  const [sendOpen, setSendOpen] = useState(false);
+  const [sendTo, setSendTo] = useState("");
+  const [sendMessage, setSendMessage] = useState("");
+
+  const estimatesQueryKey = [`/api/admin/quote/requests/${quoteRequestId}/estimates`];
+  const { data: estimates = [], isLoading: isLoadingEstimates } = useQuery<Estimate[]>({
+    queryKey: estimatesQueryKey,
+    enabled: !!quoteRequestId,
+  });
+
+  const selectedEstimate =
+    typeof selected === "number" ? estimates.find((estimate) => estimate.id === selected) : undefined;
+  const readOnly = selectedEstimate?.status === "sent";
+  const isDirty = draft !== null && JSON.stringify(draft) !== savedDraft;
+  const referenceNumber = quoteRequestId ? formatReferenceNumber("quote_request", quoteRequestId) : "";
+
+  const loadDraft = (next: EstimateDraft, saved: boolean) => {
+    setDraft(next);
+    setSavedDraft(saved ? JSON.stringify(next) : "");
+  };
+
+  // Open the latest version, or start a blank one when the quote has none yet
+  useEffect(() => {
+    if (selected !== null || isLoadingEstimates || !quoteRequest) return;
+
+    if (estimates.length > 0) {
+      setSelected(estimates[0].id);
+      loadDraft(draftFromEstimate(estimates[0]), true);
+    } else {
+      setSelected(NEW_VERSION);
+      loadDraft(
+        {
+          title: `${quoteRequest.projectType} proposal`,
+          scope: quoteRequest.description ?? "",
+          terms: DEFAULT_TERMS,
+          validUntil: toDateInputValue(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)),
+          markupPercent: "15",
+          taxPercent: "0",
+          lineItems: [emptyLineItem()],
+        },
+        false,
+      );
+    }
+  }, [selected, isLoadingEstimates, estimates, quoteRequest]);
+
+  const selectVersion = (value: string) => {
+    const estimate = estimates.find((entry) => entry.id === parseInt(value));
+    if (!estimate) return;
+    if (isDirty && !window.confirm("Discard unsaved changes to this version?")) return;
+    setSelected(estimate.id);
+    loadDraft(draftFromEstimate(estimate), true);
+  };
+
+  const startNewVersion = () => {
+    if (!selectedEstimate || !draft) return;
+    setSelected(NEW_VERSION);
+    loadDraft(draftFromEstimate(selectedEstimate), false);
+  };
+
+  const updateDraft = (changes: Partial<EstimateDraft>) => {
+    setDraft((current) => current && { ...current, ...changes });
+  };
+
+  const updateLineItem = (index: number, changes: Partial<LineItemDraft>) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          lineItems: current.lineItems.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+        },
+    );
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Estimate> => {
+      if (!draft) throw new Error("Nothing to save");
+      const body = toEstimateInput(draft);
+      const estimate =
+        selected === NEW_VERSION
+          ? await apiRequest<Estimate>({ url: "/api/admin/estimates", method: "POST", body: { quoteRequestId, ...body } })
+          : await apiRequest<Estimate>({ url: `/api/admin/estimates/${selected}`, method: "PUT", body });
+      if (!estimate) throw new Error("Failed to save estimate");
+      return estimate;
+    },
+    onSuccess: (estimate) => {
+      queryClient.invalidateQueries({ queryKey: estimatesQueryKey });
+      setSelected(estimate.id);
+      loadDraft(draftFromEstimate(estimate), true);
+      toast({ title: "Estimate saved", description: `Version ${estimate.version} has been saved.` });
+    },
+    onError: showError("Failed to save estimate"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest({ url: `/api/admin/estimates/${id}`, method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: estimatesQueryKey });
+      setSelected(null);
+      setDraft(null);
+      toast({ title: "Draft deleted" });
+    },
+    onError: showError("Failed to delete draft"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (id: number) =>
+      apiRequest<Estimate>({
+        url: `/api/admin/estimates/${id}/send`,
+        method: "POST",
+        body: { to: sendTo.trim() || undefined, message: sendMessage.trim() || undefined },
+      }),
+    onSuccess: (estimate) => {
+      queryClient.invalidateQueries({ queryKey: estimatesQueryKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/quote/requests/${quoteRequestId}/activity`] });
+      setSendOpen(false);
+      setSendMessage("");
+      toast({ title: "Proposal sent", description: `The proposal was emailed to ${estimate?.sentTo ?? sendTo}.` });
+    },
+    onError: showError("Failed to send proposal"),
+  });
+
+  const openSendDialog = () => {
+    setSendTo(quoteRequest?.email ?? "");
+    setSendOpen(true);
+  };
+
+  const lineItems = draft ? toLineItems(draft.lineItems) : [];
+  const totals = calculateEstimateTotals(
+    lineItems,
+    draft ? Math.round(toNumber(draft.markupPercent) * 100) : 0,
+    draft ? Math.round(toNumber(draft.taxPercent) * 100) : 0,
+  );
+  const canSave =
+    !!draft &&
+    !readOnly &&
+    draft.title.trim().length > 0 &&
+    draft.lineItems.every((item) => item.description.trim() && toNumber(item.quantity) > 0);
+
+  const isLoading = isLoadingQuote || isLoadingEstimates || !draft;
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="quotes" />
+
+          {/* Main Content */}
+          <div className="flex-1">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <Link href="/admin/quotes" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-4">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Back to quote requests
+              </Link>
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <div>
+                  <h1 className="text-2xl font-montserrat font-bold flex items-center">
+                    <FileText className="mr-2 h-6 w-6" />
+                    Estimate
+                  </h1>
+                  {quoteRequest && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {referenceNumber} · {quoteRequest.name}
+                      {quoteRequest.company && ` (${quoteRequest.company})`} · {quoteRequest.projectType}
+                    </p>
+                  )}
+                </div>
+                {estimates.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="estimate-version" className="whitespace-nowrap">Version</Label>
+                    <Select
+                      value={typeof selected === "number" ? String(selected) : undefined}
+                      onValueChange={selectVersion}
+                    >
+                      <SelectTrigger id="estimate-version" className="w-[220px]">
+                        <SelectValue placeholder="New version (unsaved)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {estimates.map((estimate) => (
+                          <SelectItem key={estimate.id} value={String(estimate.id)}>
+                            v{estimate.version} · {estimate.status === "sent" ? "Sent" : "Draft"} ·{" "}
+                            {formatCents(estimate.totalCents)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {isLoading || !draft ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {selected === NEW_VERSION ? (
+                      <Badge variant="outline">New version · not saved yet</Badge>
+                    ) : selectedEstimate?.status === "sent" ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        Sent {selectedEstimate.sentAt && formatDate(selectedEstimate.sentAt)} to {selectedEstimate.sentTo}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">Draft</Badge>
+                    )}
+                    {selectedEstimate && (
+                      <span className="text-sm text-muted-foreground">
+                        {formatProposalNumber(referenceNumber, selectedEstimate.version)} · created by{" "}
+                        {selectedEstimate.createdByUsername} on {formatDate(selectedEstimate.createdAt)}
+                      </span>
+                    )}
+                  </div>
+
+                  {readOnly && (
+                    <div className="rounded-md bg-blue-50 p-3 text-sm text-blue-800">
+                      This version has been sent to the client and can no longer be changed. Start a new
+                      version to revise the pricing or scope.
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="estimate-title">Title</Label>
+                      <Input
+                        id="estimate-title"
+                        value={draft.title}
+                        onChange={(e) => updateDraft({ title: e.target.value })}
+                        maxLength={200}
+                        disabled={readOnly}
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="estimate-scope">Scope of work</Label>
+                      <Textarea
+                        id="estimate-scope"
+                        rows={5}
+                        value={draft.scope}
+                        onChange={(e) => updateDraft({ scope: e.target.value })}
+                        disabled={readOnly}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h2 className="font-semibold">Line items</h2>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-[150px]">Category</TableHead>
+                            <TableHead>Description</TableHead>
+                            <TableHead className="w-[90px]">Qty</TableHead>
+                            <TableHead className="w-[90px]">Unit</TableHead>
+                            <TableHead className="w-[120px]">Unit price ($)</TableHead>
+                            <TableHead className="w-[110px] text-right">Amount</TableHead>
+                            <TableHead className="w-[50px]" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {draft.lineItems.length === 0 ? (
+                            <TableRow>
+                              <TableCell colSpan={7} className="text-center text-sm text-gray-500 py-6">
+                                No line items yet.
+                              </TableCell>
+                            </TableRow>
+                          ) : (
+                            draft.lineItems.map((item, index) => (
+                              <TableRow key={index}>
+                                <TableCell>
+                                  <Select
+                                    value={item.category}
+                                    onValueChange={(value) =>
+                                      updateLineItem(index, { category: value as EstimateLineItemCategory })
+                                    }
+                                    disabled={readOnly}
+                                  >
+                                    <SelectTrigger aria-label="Category">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {ESTIMATE_LINE_ITEM_CATEGORIES.map((category) => (
+                                        <SelectItem key={category} value={category}>
+                                          {ESTIMATE_LINE_ITEM_CATEGORY_LABELS[category]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    aria-label="Description"
+                                    value={item.description}
+                                    onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                                    maxLength={500}
+                                    disabled={readOnly}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    aria-label="Quantity"
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={item.quantity}
+                                    onChange={(e) => updateLineItem(index, { quantity: e.target.value })}
+                                    disabled={readOnly}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    aria-label="Unit"
+                                    placeholder="hrs"
+                                    value={item.unit}
+                                    onChange={(e) => updateLineItem(index, { unit: e.target.value })}
+                                    maxLength={20}
+                                    disabled={readOnly}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    aria-label="Unit price"
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={item.unitPrice}
+                                    onChange={(e) => updateLineItem(index, { unitPrice: e.target.value })}
+                                    disabled={readOnly}
+                                  />
+                                </TableCell>
+                                <TableCell className="text-right font-medium">
+                                  {formatCents(lineItemTotalCents(lineItems[index]))}
+                                </TableCell>
+                                <TableCell>
+                                  {!readOnly && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      aria-label="Remove line item"
+                                      onClick={() =>
+                                        updateDraft({ lineItems: draft.lineItems.filter((_, i) => i !== index) })
+                                      }
+                                    >
+                                      <Trash2 className="h-4 w-4 text-red-500" />
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    {!readOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateDraft({
+                            lineItems: [
+                              ...draft.lineItems,
+                              emptyLineItem(draft.lineItems[draft.lineItems.length - 1]?.category),
+                            ],
+                          })
+                        }
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add line item
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="estimate-markup">Overhead &amp; profit (%)</Label>
+                          <Input
+                            id="estimate-markup"
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={draft.markupPercent}
+                            onChange={(e) => updateDraft({ markupPercent: e.target.value })}
+                            disabled={readOnly}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="estimate-tax">Tax (%)</Label>
+                          <Input
+                            id="estimate-tax"
+                            type="number"
+                            min="0"
+                            max="50"
+                            step="0.01"
+                            value={draft.taxPercent}
+                            onChange={(e) => updateDraft({ taxPercent: e.target.value })}
+                            disabled={readOnly}
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="estimate-valid-until">Valid until</Label>
+                        <Input
+                          id="estimate-valid-until"
+                          type="date"
+                          value={draft.validUntil}
+                          onChange={(e) => updateDraft({ validUntil: e.target.value })}
+                          disabled={readOnly}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="rounded-md bg-gray-50 p-4 text-sm space-y-1">
+                      {ESTIMATE_LINE_ITEM_CATEGORIES.map((category) => (
+                        <div key={category} className="flex justify-between text-muted-foreground">
+                          <span>{ESTIMATE_LINE_ITEM_CATEGORY_LABELS[category]}</span>
+                          <span>{formatCents(totals.categoryTotalsCents[category])}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between border-t pt-2 mt-2">
+                        <span>Subtotal</span>
+                        <span>{formatCents(totals.subtotalCents)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Overhead &amp; profit</span>
+                        <span>{formatCents(totals.markupCents)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Tax</span>
+                        <span>{formatCents(totals.taxCents)}</span>
+                      </div>
+                      <div className="flex justify-between border-t pt-2 mt-2 text-base font-bold">
+                        <span>Total</span>
+                        <span>{formatCents(totals.totalCents)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="estimate-terms">Terms &amp; conditions</Label>
+                    <Textarea
+                      id="estimate-terms"
+                      rows={4}
+                      value={draft.terms}
+                      onChange={(e) => updateDraft({ terms: e.target.value })}
+                      disabled={readOnly}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 border-t pt-4">
+                    {readOnly ? (
+                      <Button onClick={startNewVersion}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        New version from this
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => saveMutation.mutate()}
+                        disabled={!canSave || !isDirty || saveMutation.isPending}
+                      >
+                        {saveMutation.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Save className="mr-2 h-4 w-4" />
+                        )}
+                        {selected === NEW_VERSION ? "Save as new version" : "Save draft"}
+                      </Button>
+                    )}
+                    {selectedEstimate && (
+                      <Button variant="outline" asChild>
+                        <a href={`/api/admin/estimates/${selectedEstimate.id}/pdf`}>
+                          <Download className="mr-2 h-4 w-4" />
+                          Download PDF
+                        </a>
+                      </Button>
+                    )}
+                    {selectedEstimate?.status === "draft" && (
+                      <>
+                        <Button
+                          variant="outline"
+                          onClick={openSendDialog}
+                          disabled={isDirty || selectedEstimate.lineItems.length === 0}
+                          title={isDirty ? "Save your changes before sending" : undefined}
+                        >
+                          <Send className="mr-2 h-4 w-4" />
+                          Email to client
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => {
+                            if (window.confirm(`Delete draft version ${selectedEstimate.version}?`)) {
+                              deleteMutation.mutate(selectedEstimate.id);
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete draft
+                        </Button>
+                      </>
+                    )}
+                    {selected === NEW_VERSION && estimates.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        onClick={() => {
+                          setSelected(estimates[0].id);
+                          loadDraft(draftFromEstimate(estimates[0]), true);
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  {isDirty && selectedEstimate && (
+                    <p className="text-sm text-amber-700">
+                      You have unsaved changes. Save the draft to update the PDF.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={sendOpen} onOpenChange={setSendOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Email proposal</DialogTitle>
+            <DialogDescription>
+              The proposal PDF is attached to the email. Once sent, this version is locked; later changes
+              are made in a new version.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-to">Recipient</Label>
+              <Input id="proposal-to" type="email" value={sendTo} onChange={(e) => setSendTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-message">Message (optional)</Label>
+              <Textarea
+                id="proposal-message"
+                rows={5}
+                placeholder="A personal note included in the email..."
+                value={sendMessage}
+                onChange={(e) => setSendMessage(e.target.value)}
+                maxLength={5000}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSendOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedEstimate && sendMutation.mutate(selectedEstimate.id)}
+              disabled={!sendTo.trim() || sendMutation.isPending}
+            >
+              {sendMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Send Proposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EstimateBuilder;
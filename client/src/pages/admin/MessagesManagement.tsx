@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearch } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Message } from '@shared/schema';
@@ -12,6 +13,8 @@ import { useToast } from '@/hooks/use-toast';
 
 const MessagesManagement = () => {
   const { toast } = useToast();
+  const search = useSearch();
+  const linkedMessageId = parseInt(new URLSearchParams(search).get('id') || '');
 
   const { data: messages, isLoading, error } = useQuery<Message[]>({
     queryKey: ['/api/messages'],
@@ -78,6 +81,12 @@ const MessagesManagement = () => {
     }
   });
 
+  // Scroll to the message linked from a staff alert email (?id=123) once it has rendered
+  useEffect(() => {
+    if (isNaN(linkedMessageId) || !messages) return;
+    document.getElementById(`message-${linkedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [linkedMessageId, messages]);
+
   const handleMarkAsRead = (id: number) => {
     markAsReadMutation.mutate(id);
   };
@@ -206,7 +215,11 @@ const MessagesManagement = () => {
                 <h2 className="text-xl font-bold mb-4">Message Details</h2>
                 <div className="space-y-4">
                   {messages.map((message) => (
-                    <div key={message.id} className="border rounded-lg p-4">
+                    <div
+                      key={message.id}
+                      id={`message-${message.id}`}
+                      className={`border rounded-lg p-4 ${message.id === linkedMessageId ? 'border-[#1E90DB] ring-2 ring-[#1E90DB]/30' : ''}`}
+                    >
                       <div className="flex items-start justify-between">
                         <div>
                           <h3 className="font-bold">{message.name}</h3>
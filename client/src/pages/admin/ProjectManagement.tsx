@@ -5,7 +5,7 @@ import { scrollToTop } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { Search, Plus, Edit, Trash2, Star, StarOff, AlertTriangle, Image, FileEdit } from 'lucide-react';
+import { Search, Plus, Edit, Trash2, Star, StarOff, AlertTriangle, Image, FileEdit, Eye, EyeOff } from 'lucide-react';
 import AdminNav from '@/components/admin/AdminNav';
 import ExportButton from '@/components/admin/ExportButton';
 import SimpleProjectForm from '@/components/admin/SimpleProjectForm';
@@ -105,8 +105,10 @@ const ProjectManagement = () => {
     isLoadingProjects: isLoading,
     deleteProject,
     toggleFeatured,
+    togglePublished,
     isDeleting,
-    isTogglingFeatured
+    isTogglingFeatured,
+    isTogglingPublished
   } = useProjects();
 
   // Handle search input change
@@ -248,6 +250,9 @@ const ProjectManagement = () => {
                           <th scope="col" className="px-6 py-3 text-left text-xs font-montserrat font-medium text-gray-500 uppercase tracking-wider">
                             Featured
                           </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-montserrat font-medium text-gray-500 uppercase tracking-wider">
+                            Status
+                          </th>
                           <th scope="col" className="px-6 py-3 text-right text-xs font-montserrat font-medium text-gray-500 uppercase tracking-wider">
                             Actions
                           </th>
@@ -256,7 +261,7 @@ const ProjectManagement = () => {
                       <tbody className="bg-white divide-y divide-gray-200">
                         {isLoading ? (
                           <tr>
-                            <td colSpan={5} className="px-6 py-4 text-center">
+                            <td colSpan={6} className="px-6 py-4 text-center">
                               <div className="animate-pulse flex items-center justify-center">
                                 <div className="h-4 w-36 bg-gray-200 rounded"></div>
                               </div>
@@ -264,7 +269,7 @@ const ProjectManagement = () => {
                           </tr>
                         ) : filteredProjects?.length === 0 ? (
                           <tr>
-                            <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                            <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
                               No projects found
                             </td>
                           </tr>
@@ -303,6 +308,27 @@ const ProjectManagement = () => {
                                   )}
                                 </Button>
                               </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => togglePublished(project.id, project.published === false)}
+                                  disabled={isTogglingPublished}
+                                  title={project.published === false ? "Publish on the website" : "Move back to drafts"}
+                                >
+                                  {project.published === false ? (
+                                    <>
+                                      <EyeOff className="h-4 w-4 mr-1 text-gray-400" />
+                                      <span className="text-gray-500">Draft</span>
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Eye className="h-4 w-4 mr-1 text-green-600" />
+                                      <span className="text-green-700">Published</span>
+                                    </>
+                                  )}
+                                </Button>
+                              </td>
                               <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                                 <Button
                                   variant="ghost"
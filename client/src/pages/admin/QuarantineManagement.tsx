@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Loader2, ShieldAlert, Trash2, Undo2 } from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QuarantinedSubmission } from "@shared/schema";
+import { SPAM_PROTECTED_FORM_LABELS, isSpamProtectedForm } from "@shared/spam";
+
+const QUARANTINE_QUERY_KEY = "/api/admin/quarantine";
+
+const formLabel = (form: string) =>
+  isSpamProtectedForm(form) ? SPAM_PROTECTED_FORM_LABELS[form] : form;
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+// Who the submission claims to be from; forms name their fields differently
+const describeSubmitter = (payload: Record<string, unknown>) => {
+  const name =
+    text(payload.name) ||
+    text(payload.contactName) ||
+    [text(payload.firstName), text(payload.lastName)].filter(Boolean).join(" ");
+  return { name: name || "—", email: text(payload.email) };
+};
+
+const formatValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+const QuarantineManagementPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<QuarantinedSubmission | null>(null);
+
+  const { data: submissions = [], isLoading } = useQuery<QuarantinedSubmission[]>({
+    queryKey: [QUARANTINE_QUERY_KEY],
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const releaseMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/admin/quarantine/${id}/release`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUARANTINE_QUERY_KEY] });
+      setSelected(null);
+      toast({
+        title: "Submission released",
+        description: "It has been delivered to its inbox as though it had just arrived.",
+      });
+    },
+    onError: (error) => showError(error, "Failed to release submission."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/admin/quarantine/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUARANTINE_QUERY_KEY] });
+      setSelected(null);
+      toast({ title: "Submission deleted" });
+    },
+    onError: (error) => showError(error, "Failed to delete submission."),
+  });
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Delete this submission? This action cannot be undone.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const isBusy = releaseMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="quarantine" />
+
+          {/* Main Content */}
+          <div className="flex-1">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <h1 className="text-2xl font-montserrat font-bold flex items-center mb-2">
+                <ShieldAlert className="mr-2 h-6 w-6" />
+                Spam Quarantine
+              </h1>
+              <p className="text-sm text-gray-600 mb-6">
+                Public form submissions that looked like spam are held here instead of reaching the inboxes.
+                Release anything genuine to deliver it; held submissions are deleted after 30 days.
+              </p>
+
+              {isLoading ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-8 w-8 animate-spin text-[#1E90DB]" />
+                </div>
+              ) : submissions.length === 0 ? (
+                <p className="text-gray-500 text-center py-10">No submissions are being held</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Received</TableHead>
+                        <TableHead>Form</TableHead>
+                        <TableHead>From</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Why it was held</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {submissions.map((submission) => {
+                        const submitter = describeSubmitter(submission.payload);
+                        return (
+                          <TableRow
+                            key={submission.id}
+                            className="cursor-pointer"
+                            onClick={() => setSelected(submission)}
+                          >
+                            <TableCell className="whitespace-nowrap">
+                              {new Date(submission.createdAt).toLocaleString()}
+                            </TableCell>
+                            <TableCell>{formLabel(submission.form)}</TableCell>
+                            <TableCell>
+                              <div className="font-medium">{submitter.name}</div>
+                              {submitter.email && (
+                                <div className="text-sm text-gray-500">{submitter.email}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="destructive">{submission.spamScore}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              {submission.spamReasons.join("; ")}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="mr-2"
+                                disabled={isBusy}
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  releaseMutation.mutate(submission.id);
+                                }}
+                              >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Release
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                disabled={isBusy}
+                                aria-label="Delete submission"
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  handleDelete(submission.id);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{formLabel(selected.form)}</DialogTitle>
+                <DialogDescription>
+                  Received {new Date(selected.createdAt).toLocaleString()}
+                  {selected.ipAddress && ` from ${selected.ipAddress}`} · score {selected.spamScore}
+                </DialogDescription>
+              </DialogHeader>
+
+              <ul className="list-disc pl-5 text-sm text-gray-700">
+                {selected.spamReasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+
+              <dl className="space-y-3 text-sm">
+                {Object.entries(selected.payload)
+                  .filter(([, value]) => value !== null && value !== undefined && value !== "")
+                  .map(([field, value]) => (
+                    <div key={field}>
+                      <dt className="font-semibold text-gray-600">{field}</dt>
+                      <dd className="whitespace-pre-wrap break-words">{formatValue(value)}</dd>
+                    </div>
+                  ))}
+              </dl>
+
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  disabled={isBusy}
+                  onClick={() => handleDelete(selected.id)}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+                <Button disabled={isBusy} onClick={() => releaseMutation.mutate(selected.id)}>
+                  {releaseMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Undo2 className="mr-2 h-4 w-4" />
+                  )}
+                  Release
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuarantineManagementPage;
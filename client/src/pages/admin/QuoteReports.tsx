@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, BarChart3, Loader2 } from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import ExportButton from "@/components/admin/ExportButton";
+import { scrollToTop } from "@/lib/utils";
+import { formatDuration, type QuoteTimingReport, type QuoteTimingReportRow } from "@shared/quotes";
+
+const toDateInputValue = (date: Date) => {
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const oneYearAgo = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return date;
+};
+
+const formatHours = (hours: number | null) => (hours === null ? "—" : formatDuration(hours * 3600000));
+
+const formatShare = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : "—");
+
+interface TimingTableProps {
+  title: string;
+  groupLabel: string;
+  rows: QuoteTimingReportRow[];
+  total: QuoteTimingReportRow;
+  responseHours: number;
+}
+
+function TimingTable({ title, groupLabel, rows, total, responseHours }: TimingTableProps) {
+  const exportRows = rows.map((row) => ({
+    [groupLabel]: row.label,
+    received: row.received,
+    responded: row.responded,
+    [`within ${responseHours}h`]: row.respondedWithinTarget,
+    averageResponseHours: row.averageResponseHours ?? "",
+    medianResponseHours: row.medianResponseHours ?? "",
+    closed: row.closed,
+    averageCloseHours: row.averageCloseHours ?? "",
+    medianCloseHours: row.medianCloseHours ?? "",
+  }));
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <ExportButton
+          data={exportRows}
+          fileName={`quote-response-times-by-${groupLabel.toLowerCase().replace(/\s+/g, "-")}`}
+          dateFields={[]}
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{groupLabel}</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Responded</TableHead>
+              <TableHead className="text-right">Within {responseHours}h</TableHead>
+              <TableHead className="text-right">Avg. response</TableHead>
+              <TableHead className="text-right">Median response</TableHead>
+              <TableHead className="text-right">Closed</TableHead>
+              <TableHead className="text-right">Avg. close</TableHead>
+              <TableHead className="text-right">Median close</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="h-20 text-center text-gray-500">
+                  No quote requests in this period
+                </TableCell>
+              </TableRow>
+            ) : (
+              [...rows, total].map((row) => (
+                <TableRow key={row.key} className={row === total ? "font-semibold bg-gray-50" : ""}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell className="text-right">{row.received}</TableCell>
+                  <TableCell className="text-right">{row.responded}</TableCell>
+                  <TableCell className="text-right">
+                    {formatShare(row.respondedWithinTarget, row.responded)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatHours(row.averageResponseHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.medianResponseHours)}</TableCell>
+                  <TableCell className="text-right">{row.closed}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.averageCloseHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.medianCloseHours)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </section>
+  );
+}
+
+const QuoteReports = () => {
+  const [from, setFrom] = useState(toDateInputValue(oneYearAgo()));
+  const [to, setTo] = useState(toDateInputValue(new Date()));
+
+  useEffect(() => {
+    scrollToTop();
+    document.title = 'Quote Reports - ARCEM';
+  }, []);
+
+  const params: Record<string, string> = {};
+  if (from) params.from = new Date(`${from}T00:00:00`).toISOString();
+  if (to) params.to = new Date(`${to}T23:59:59.999`).toISOString();
+
+  const { data: report, isLoading, isError } = useQuery<QuoteTimingReport>({
+    queryKey: ["/api/admin/quote/reports/timing", params],
+  });
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="quotes" />
+
+          {/* Main Content */}
+          <div className="flex-1 min-w-0">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-montserrat font-bold flex items-center">
+                  <BarChart3 className="mr-2 h-6 w-6" />
+                  Quote Response Times
+                </h1>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/quotes">
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Quote Requests
+                  </Link>
+                </Button>
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <div className="space-y-2">
+                  <Label htmlFor="quote-report-from">Submitted from</Label>
+                  <Input id="quote-report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quote-report-to">To</Label>
+                  <Input id="quote-report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center items-center h-64">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : isError || !report ? (
+                <p className="text-gray-500">The report couldn't be loaded. Check the date range and try again.</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                    <div className="rounded-md bg-gray-50 p-4">
+                      <p className="text-sm text-gray-500">Received</p>
+                      <p className="text-2xl font-bold">{report.total.received}</p>
+                    </div>
+                    <div className="rounded-md bg-gray-50 p-4">
+                      <p className="text-sm text-gray-500">Responded within {report.responseHours}h</p>
+                      <p className="text-2xl font-bold">
+                        {formatShare(report.total.respondedWithinTarget, report.total.responded)}
+                      </p>
+                    </div>
+                    <div className="rounded-md bg-gray-50 p-4">
+                      <p className="text-sm text-gray-500">Median response</p>
+                      <p className="text-2xl font-bold">{formatHours(report.total.medianResponseHours)}</p>
+                    </div>
+                    <div className={`rounded-md p-4 ${report.overdue > 0 ? "bg-red-50" : "bg-gray-50"}`}>
+                      <p className="text-sm text-gray-500">Overdue now</p>
+                      <p className={`text-2xl font-bold ${report.overdue > 0 ? "text-red-700" : ""}`}>
+                        {report.overdue}
+                      </p>
+                    </div>
+                  </div>
+
+                  <TimingTable
+                    title="By month submitted"
+                    groupLabel="Month"
+                    rows={report.byMonth}
+                    total={report.total}
+                    responseHours={report.responseHours}
+                  />
+                  <TimingTable
+                    title="By project type"
+                    groupLabel="Project type"
+                    rows={report.byProjectType}
+                    total={report.total}
+                    responseHours={report.responseHours}
+                  />
+
+                  <p className="text-sm text-gray-500">
+                    Response time runs from submission until a request first leaves Pending. Close time
+                    runs until it is accepted, rejected or completed. Requests handled before response
+                    tracking was added count as received only.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteReports;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { Link, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { 
   Table, 
@@ -39,16 +40,45 @@ import {
   Filter,
   FileText,
   Image,
-  ExternalLink
+  ExternalLink,
+  Calculator,
+  FolderPlus,
+  BarChart3
 } from "lucide-react";
 import ExportButton from "@/components/admin/ExportButton";
+import {
+  QuotePipelinePanel,
+  isFollowUpOverdue,
+  type QuoteAssignee,
+} from "@/components/admin/QuotePipelinePanel";
+import { QuoteAgingBadge, isQuoteOverdue } from "@/components/admin/QuoteAgingBadge";
+import { useAuth } from "@/contexts/AuthContext";
 import AdminNav from "@/components/admin/AdminNav";
 import { apiRequest } from "@/lib/queryClient";
 import { QuoteRequest, QuoteRequestAttachment } from "@shared/schema";
+import { formatReferenceNumber } from "@shared/submissions";
+import { describeLeadSource } from "@shared/attribution";
+import {
+  CONVERTIBLE_QUOTE_STATUSES,
+  DEFAULT_QUOTE_SLA,
+  isQuoteStatus,
+  type QuoteSlaSettings,
+} from "@shared/quotes";
+import { QUOTE_TIMELINE_LABELS, formatBallpark, isQuoteTimeline } from "@shared/quoteWizard";
+import { PERMISSIONS } from "@shared/permissions";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate, scrollToTop } from "@/lib/utils";
 import { useSingleQuoteRequest, QuoteRequestWithAttachments } from "@/hooks/useSingleQuoteRequest";
 
+const formatTimeframe = (timeframe: string) =>
+  isQuoteTimeline(timeframe) ? QUOTE_TIMELINE_LABELS[timeframe] : timeframe;
+
+// The ballpark range the requester was shown by the quote wizard, if any
+const formatShownBallpark = (quote: Pick<QuoteRequest, "ballparkLowCents" | "ballparkHighCents">) =>
+  quote.ballparkLowCents !== null && quote.ballparkHighCents !== null
+    ? formatBallpark({ lowCents: quote.ballparkLowCents, highCents: quote.ballparkHighCents })
+    : null;
+
 const QuoteRequestsManagement = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -58,6 +88,10 @@ const QuoteRequestsManagement = () => {
   const [quoteToView, setQuoteToView] = useState<QuoteRequest | null>(null);
   const [selectedQuoteId, setSelectedQuoteId] = useState<number | undefined>(undefined);
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const { user, hasPermission } = useAuth();
+  const search = useSearch();
+  const openedLinkedQuote = useRef(false);
   
   // Fetch single quote request with attachments when viewing details
   const { quoteRequest, isLoading: isLoadingDetails } = useSingleQuoteRequest(selectedQuoteId);
@@ -77,6 +111,15 @@ const QuoteRequestsManagement = () => {
     queryKey: ["/api/admin/quote/requests"],
   });
 
+  const { data: assignees = [] } = useQuery<QuoteAssignee[]>({
+    queryKey: ["/api/admin/quote/assignees"],
+  });
+  const assigneeNames = new Map(assignees.map((assignee) => [assignee.id, assignee.username]));
+
+  const { data: sla = DEFAULT_QUOTE_SLA } = useQuery<QuoteSlaSettings>({
+    queryKey: ["/api/admin/quote/sla"],
+  });
+
   // Delete quote request mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -114,17 +157,15 @@ const QuoteRequestsManagement = () => {
         body: { status }
       });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/quote/requests"] });
+      // The status change shows up on the quote's timeline
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/quote/requests/${id}/activity`] });
       toast({
         title: "Status updated",
         description: "The quote request status has been updated.",
         variant: "default",
       });
-      // Close detail view after status update
-      if (quoteToView) {
-        setQuoteToView(null);
-      }
     },
     onError: (error) => {
       toast({
@@ -172,8 +213,14 @@ const QuoteRequestsManagement = () => {
       quote.projectType.toLowerCase().includes(searchQuery.toLowerCase());
     
     const statusMatches = statusFilter === "all" || quote.status === statusFilter;
+
+    const assigneeMatches =
+      assigneeFilter === "all" ||
+      (assigneeFilter === "unassigned" && !quote.assignedToId) ||
+      (assigneeFilter === "me" && !!user && quote.assignedToId === user.id) ||
+      String(quote.assignedToId) === assigneeFilter;
     
-    return searchMatches && statusMatches;
+    return searchMatches && statusMatches && assigneeMatches;
   });
 
   // Get counts for tabs
@@ -183,6 +230,7 @@ const QuoteRequestsManagement = () => {
   const rejectedCount = quoteRequests.filter((quote: QuoteRequest) => quote.status === "rejected").length;
   const completedCount = quoteRequests.filter((quote: QuoteRequest) => quote.status === "completed").length;
   const unreadCount = quoteRequests.filter((quote: QuoteRequest) => !quote.reviewed).length;
+  const overdueCount = quoteRequests.filter((quote) => isQuoteOverdue(quote, sla.responseHours)).length;
 
   // Handle search input change
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -212,6 +260,44 @@ const QuoteRequestsManagement = () => {
     }
   };
 
+  // Open the quote linked from a staff alert email (?id=123) once the list has loaded
+  useEffect(() => {
+    if (openedLinkedQuote.current) return;
+    const linkedId = parseInt(new URLSearchParams(search).get("id") || "");
+    const linkedQuote = quoteRequests.find((quote) => quote.id === linkedId);
+    if (linkedQuote) {
+      openedLinkedQuote.current = true;
+      viewQuoteDetails(linkedQuote);
+    }
+  }, [search, quoteRequests]);
+
+  const convertMutation = useMutation({
+    mutationFn: async (id: number) =>
+      apiRequest<{ project: { id: number; title: string }; copiedImages: number; skippedFiles: string[] }>({
+        url: `/api/admin/quote/requests/${id}/convert-to-project`,
+        method: "POST",
+      }),
+    onSuccess: (result, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quote/requests"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/quote/requests/${id}/activity`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      const skipped = result?.skippedFiles.length
+        ? ` ${result.skippedFiles.length} non-image file(s) stay on the quote: ${result.skippedFiles.join(", ")}.`
+        : "";
+      toast({
+        title: "Draft project created",
+        description: `${result?.copiedImages ?? 0} image(s) were added to the project gallery.${skipped}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Conversion failed",
+        description: error.message || "Failed to convert the quote request to a project",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle status change
   const handleStatusChange = (id: number, status: string) => {
     updateStatusMutation.mutate({ id, status });
@@ -257,15 +343,31 @@ const QuoteRequestsManagement = () => {
                       {unreadCount} Unread
                     </Badge>
                   )}
+                  {overdueCount > 0 && (
+                    <Badge
+                      className="ml-2 bg-red-100 text-red-800 hover:bg-red-100"
+                      title={`Pending for more than ${sla.responseHours} hours`}
+                    >
+                      {overdueCount} Overdue
+                    </Badge>
+                  )}
                 </h1>
                 
-                <ExportButton
-                  data={statusFilter === "all" ? quoteRequests : filteredQuoteRequests}
-                  fileName="QuoteRequests_Export"
-                  excludeFields={['id']}
-                  dateFields={['createdAt', 'updatedAt']}
-                  disabled={isLoading || quoteRequests.length === 0}
-                />
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/admin/quotes/reports">
+                      <BarChart3 className="mr-2 h-4 w-4" />
+                      Reports
+                    </Link>
+                  </Button>
+                  <ExportButton
+                    data={statusFilter === "all" ? quoteRequests : filteredQuoteRequests}
+                    fileName="QuoteRequests_Export"
+                    excludeFields={['id']}
+                    dateFields={['createdAt', 'updatedAt', 'statusChangedAt', 'respondedAt', 'closedAt', 'slaAlertedAt']}
+                    disabled={isLoading || quoteRequests.length === 0}
+                  />
+                </div>
               </div>
               
               {/* Status filter tabs */}
@@ -283,16 +385,33 @@ const QuoteRequestsManagement = () => {
                   <TabsTrigger value="completed">Completed ({completedCount})</TabsTrigger>
                 </TabsList>
               
-                {/* Search bar */}
-                <div className="mb-6 relative">
-                  <Input
-                    type="text"
-                    placeholder="Search quote requests..."
-                    value={searchQuery}
-                    onChange={handleSearchChange}
-                    className="pl-10 pr-4 py-2 border border-gray-300"
-                  />
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                {/* Search bar and estimator filter */}
+                <div className="mb-6 flex flex-col md:flex-row gap-4">
+                  <div className="relative flex-1">
+                    <Input
+                      type="text"
+                      placeholder="Search quote requests..."
+                      value={searchQuery}
+                      onChange={handleSearchChange}
+                      className="pl-10 pr-4 py-2 border border-gray-300"
+                    />
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  </div>
+                  <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                    <SelectTrigger className="md:w-[200px]">
+                      <SelectValue placeholder="Estimator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All estimators</SelectItem>
+                      <SelectItem value="me">Assigned to me</SelectItem>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {assignees.map((assignee) => (
+                        <SelectItem key={assignee.id} value={String(assignee.id)}>
+                          {assignee.username}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
                 
                 {/* Quote requests table */}
@@ -310,13 +429,14 @@ const QuoteRequestsManagement = () => {
                           <TableHead>Budget</TableHead>
                           <TableHead>Submitted</TableHead>
                           <TableHead>Status</TableHead>
+                          <TableHead>Estimator</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {filteredQuoteRequests.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                            <TableCell colSpan={7} className="h-24 text-center text-gray-500">
                               No quote requests found
                             </TableCell>
                           </TableRow>
@@ -343,7 +463,30 @@ const QuoteRequestsManagement = () => {
                                   <Badge variant="secondary" className="ml-2">New</Badge>
                                 )}
                               </TableCell>
-                              <TableCell>{getStatusBadge(quote.status || 'pending')}</TableCell>
+                              <TableCell>
+                                <div className="flex flex-col items-start gap-1">
+                                  {getStatusBadge(quote.status || 'pending')}
+                                  <QuoteAgingBadge quote={quote} responseHours={sla.responseHours} />
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-col">
+                                  <span>
+                                    {quote.assignedToId
+                                      ? assigneeNames.get(quote.assignedToId) ?? "Unknown user"
+                                      : "—"}
+                                  </span>
+                                  {quote.followUpAt && (
+                                    <span
+                                      className={`text-xs ${
+                                        isFollowUpOverdue(quote.followUpAt) ? "text-red-600 font-semibold" : "text-muted-foreground"
+                                      }`}
+                                    >
+                                      Follow up {formatDate(quote.followUpAt)}
+                                    </span>
+                                  )}
+                                </div>
+                              </TableCell>
                               <TableCell className="text-right">
                                 <Button
                                   variant="ghost"
@@ -390,10 +533,11 @@ const QuoteRequestsManagement = () => {
           }
         }}
       >
-        <DialogContent className="max-w-3xl">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Quote Request Details</DialogTitle>
             <DialogDescription>
+              {quoteToView && `${formatReferenceNumber("quote_request", quoteToView.id)} · `}
               Submitted on {quoteToView?.createdAt ? formatDate(quoteToView.createdAt) : "N/A"}
             </DialogDescription>
           </DialogHeader>
@@ -426,8 +570,15 @@ const QuoteRequestsManagement = () => {
                       <p><span className="font-semibold">Budget:</span> {quoteRequest.budget}</p>
                     )}
                     {quoteRequest.timeframe && (
-                      <p><span className="font-semibold">Timeframe:</span> {quoteRequest.timeframe}</p>
+                      <p><span className="font-semibold">Timeframe:</span> {formatTimeframe(quoteRequest.timeframe)}</p>
                     )}
+                    {formatShownBallpark(quoteRequest) && (
+                      <p><span className="font-semibold">Ballpark shown:</span> {formatShownBallpark(quoteRequest)}</p>
+                    )}
+                    <p>
+                      <span className="font-semibold">Lead source:</span> {describeLeadSource(quoteRequest.attribution)}
+                      {quoteRequest.attribution?.utmCampaign && ` (${quoteRequest.attribution.utmCampaign})`}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -516,8 +667,56 @@ const QuoteRequestsManagement = () => {
                   {!quoteRequest.reviewed && (
                     <Badge variant="outline" className="ml-auto">Unreviewed</Badge>
                   )}
+                  <Button variant="outline" size="sm" asChild className={quoteRequest.reviewed ? "ml-auto" : ""}>
+                    <Link href={`/admin/quotes/${quoteRequest.id}/estimate`}>
+                      <Calculator className="mr-2 h-4 w-4" />
+                      Estimate &amp; Proposal
+                    </Link>
+                  </Button>
                 </div>
               </div>
+
+              {hasPermission(PERMISSIONS.PROJECTS_MANAGE) &&
+                (quoteRequest.projectId ||
+                  (isQuoteStatus(quoteRequest.status) && CONVERTIBLE_QUOTE_STATUSES.includes(quoteRequest.status))) && (
+                <div className="md:col-span-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground">Project</h3>
+                  <div className="mt-1 p-3 bg-gray-50 rounded-md flex flex-wrap items-center justify-between gap-4">
+                    {quoteRequest.projectId ? (
+                      <>
+                        <p className="text-sm">This quote request has been converted to a project.</p>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={`/admin/projects?edit=${quoteRequest.projectId}`}>
+                            <ExternalLink className="mr-2 h-4 w-4" />
+                            Open Project
+                          </Link>
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-sm text-gray-600">
+                          Create a draft portfolio project from this request. Client, type, size and description are
+                          filled in, and attached images are added to the project gallery.
+                        </p>
+                        <Button
+                          size="sm"
+                          onClick={() => convertMutation.mutate(quoteRequest.id)}
+                          disabled={convertMutation.isPending}
+                        >
+                          {convertMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <FolderPlus className="mr-2 h-4 w-4" />
+                          )}
+                          Convert to Project
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <QuotePipelinePanel quote={quoteRequest} assignees={assignees} />
             </div>
           ) : quoteToView && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
@@ -543,7 +742,10 @@ const QuoteRequestsManagement = () => {
                       <p><span className="font-semibold">Budget:</span> {quoteToView.budget}</p>
                     )}
                     {quoteToView.timeframe && (
-                      <p><span className="font-semibold">Timeframe:</span> {quoteToView.timeframe}</p>
+                      <p><span className="font-semibold">Timeframe:</span> {formatTimeframe(quoteToView.timeframe)}</p>
+                    )}
+                    {formatShownBallpark(quoteToView) && (
+                      <p><span className="font-semibold">Ballpark shown:</span> {formatShownBallpark(quoteToView)}</p>
                     )}
                   </div>
                 </div>
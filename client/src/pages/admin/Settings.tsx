@@ -1,61 +1,27 @@
-import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import AdminNav from "@/components/admin/AdminNav";
-import { Button } from "@/components/ui/button";
 import {
   Card,
   CardHeader,
   CardTitle,
   CardDescription,
   CardContent,
-  CardFooter,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
 import { SocialMediaSettings } from "@/components/admin/SocialMediaSettings";
+import { ProfileSettings, PasswordSettings } from "@/components/admin/AccountSettings";
+import { TwoFactorSettings, TwoFactorPolicySettings } from "@/components/admin/TwoFactorSettings";
+import { SessionSettings } from "@/components/admin/SessionSettings";
+import { StaffAlertSettings } from "@/components/admin/StaffAlertSettings";
+import { QuoteSlaSettings } from "@/components/admin/QuoteSlaSettings";
+import { JobExpirySettings } from "@/components/admin/JobExpirySettings";
+import { QuoteCostRatesSettings } from "@/components/admin/QuoteCostRatesSettings";
+import { EmailTemplateSettings } from "@/components/admin/EmailTemplateSettings";
+import { PERMISSIONS } from "@shared/permissions";
 
 const SettingsPage = () => {
-  const { user, logout } = useAuth();
-  const { toast } = useToast();
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [isChangingPassword, setIsChangingPassword] = useState(false);
-
-  const handleUpdateProfile = (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsUpdating(true);
-
-    // Simulate profile update
-    setTimeout(() => {
-      setIsUpdating(false);
-      toast({
-        title: "Profile Updated",
-        description: "Your profile information has been updated successfully.",
-        variant: "default",
-      });
-    }, 1000);
-  };
-
-  const handleChangePassword = (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsChangingPassword(true);
-
-    // Simulate password change
-    setTimeout(() => {
-      setIsChangingPassword(false);
-      toast({
-        title: "Password Changed",
-        description: "Your password has been updated successfully.",
-        variant: "default",
-      });
-    }, 1000);
-  };
-
-  const handleLogout = async () => {
-    await logout();
-  };
+  const { hasPermission } = useAuth();
+  const canManageSiteSettings = hasPermission(PERMISSIONS.SETTINGS_MANAGE);
 
   return (
     <div className="min-h-screen pt-32 pb-20 bg-gray-50">
@@ -76,141 +42,58 @@ const SettingsPage = () => {
                 <TabsList className="mb-6">
                   <TabsTrigger value="profile">Profile</TabsTrigger>
                   <TabsTrigger value="security">Security</TabsTrigger>
-                  <TabsTrigger value="social">Social Media</TabsTrigger>
+                  <TabsTrigger value="sessions">Sessions</TabsTrigger>
+                  {canManageSiteSettings && (
+                    <TabsTrigger value="notifications">Notifications</TabsTrigger>
+                  )}
+                  {canManageSiteSettings && (
+                    <TabsTrigger value="quotes">Quotes</TabsTrigger>
+                  )}
+                  {canManageSiteSettings && (
+                    <TabsTrigger value="social">Social Media</TabsTrigger>
+                  )}
                   <TabsTrigger value="preferences">Preferences</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="profile">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>Profile Information</CardTitle>
-                      <CardDescription>
-                        Update your account profile information
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <form
-                        onSubmit={handleUpdateProfile}
-                        className="space-y-4"
-                      >
-                        <div className="grid gap-4">
-                          <div className="grid gap-2">
-                            <Label htmlFor="username">Username</Label>
-                            <Input
-                              id="username"
-                              defaultValue={user?.username}
-                              disabled
-                            />
-                          </div>
-
-                          <div className="grid gap-2">
-                            <Label htmlFor="email">Email</Label>
-                            <Input
-                              id="email"
-                              type="email"
-                              placeholder="Email not available"
-                            />
-                          </div>
-
-                          <div className="grid gap-2">
-                            <Label htmlFor="role">Role</Label>
-                            <Input
-                              id="role"
-                              defaultValue={user?.role}
-                              disabled
-                            />
-                          </div>
-                        </div>
-
-                        <Button type="submit" disabled={isUpdating}>
-                          {isUpdating ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Saving...
-                            </>
-                          ) : (
-                            "Save Changes"
-                          )}
-                        </Button>
-                      </form>
-                    </CardContent>
-                  </Card>
+                  <ProfileSettings />
                 </TabsContent>
 
                 <TabsContent value="security">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>Security Settings</CardTitle>
-                      <CardDescription>
-                        Manage your account security
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <form
-                        onSubmit={handleChangePassword}
-                        className="space-y-4"
-                      >
-                        <div className="grid gap-4">
-                          <div className="grid gap-2">
-                            <Label htmlFor="currentPassword">
-                              Current Password
-                            </Label>
-                            <Input id="currentPassword" type="password" />
-                          </div>
-
-                          <div className="grid gap-2">
-                            <Label htmlFor="newPassword">New Password</Label>
-                            <Input id="newPassword" type="password" />
-                          </div>
+                  <PasswordSettings />
 
-                          <div className="grid gap-2">
-                            <Label htmlFor="confirmPassword">
-                              Confirm New Password
-                            </Label>
-                            <Input id="confirmPassword" type="password" />
-                          </div>
-                        </div>
+                  <div className="mt-6">
+                    <TwoFactorSettings />
+                  </div>
 
-                        <Button type="submit" disabled={isChangingPassword}>
-                          {isChangingPassword ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Updating...
-                            </>
-                          ) : (
-                            "Change Password"
-                          )}
-                        </Button>
-                      </form>
-                    </CardContent>
-                  </Card>
-
-                  <Card className="mt-6">
-                    <CardHeader>
-                      <CardTitle>Session</CardTitle>
-                      <CardDescription>
-                        Manage your active session
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-gray-500 mb-4">
-                        You are currently logged in as{" "}
-                        <strong>{user?.username}</strong> with role{" "}
-                        <strong>{user?.role}</strong>.
-                      </p>
-                    </CardContent>
-                    <CardFooter>
-                      <Button variant="destructive" onClick={handleLogout}>
-                        Logout
-                      </Button>
-                    </CardFooter>
-                  </Card>
+                  {canManageSiteSettings && <TwoFactorPolicySettings />}
                 </TabsContent>
 
-                <TabsContent value="social">
-                  <SocialMediaSettings />
+                <TabsContent value="sessions">
+                  <SessionSettings />
                 </TabsContent>
 
+                {canManageSiteSettings && (
+                  <TabsContent value="notifications" className="space-y-6">
+                    <StaffAlertSettings />
+                    <QuoteSlaSettings />
+                    <JobExpirySettings />
+                    <EmailTemplateSettings />
+                  </TabsContent>
+                )}
+
+                {canManageSiteSettings && (
+                  <TabsContent value="quotes">
+                    <QuoteCostRatesSettings />
+                  </TabsContent>
+                )}
+
+                {canManageSiteSettings && (
+                  <TabsContent value="social">
+                    <SocialMediaSettings />
+                  </TabsContent>
+                )}
+
                 <TabsContent value="preferences">
                   <Card>
                     <CardHeader>
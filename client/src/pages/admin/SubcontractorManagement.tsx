@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSubcontractors } from '@/hooks/useSubcontractors';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { useLocation } from 'wouter';
+import { useLocation, useSearch } from 'wouter';
 import AdminNav from '@/components/admin/AdminNav';
 import ExportButton from '@/components/admin/ExportButton';
 import {
@@ -55,6 +55,8 @@ export default function SubcontractorManagement() {
   const [statusFilter, setStatusFilter] = useState('all');
   const [notes, setNotes] = useState('');
   const [status, setStatus] = useState('');
+  const search = useSearch();
+  const openedLinkedApplication = useRef(false);
 
   const {
     subcontractors,
@@ -105,6 +107,26 @@ export default function SubcontractorManagement() {
     setIsDetailsOpen(true);
   };
 
+  // Open the application linked from a staff alert email (?tab=vendors&id=12) once the lists have loaded
+  useEffect(() => {
+    if (openedLinkedApplication.current) return;
+    const params = new URLSearchParams(search);
+    const linkedId = parseInt(params.get('id') || '');
+    const linkedTab = params.get('tab') === 'vendors' ? 'vendors' : 'subcontractors';
+
+    if (linkedTab === 'vendors') {
+      const linkedVendor = vendors.find((vendor) => vendor.id === linkedId);
+      if (!linkedVendor) return;
+      viewVendorDetails(linkedVendor);
+    } else {
+      const linkedSubcontractor = subcontractors.find((subcontractor) => subcontractor.id === linkedId);
+      if (!linkedSubcontractor) return;
+      viewSubcontractorDetails(linkedSubcontractor);
+    }
+    openedLinkedApplication.current = true;
+    setActiveTab(linkedTab);
+  }, [search, subcontractors, vendors]);
+
   // Save subcontractor changes
   const saveSubcontractorChanges = async () => {
     if (!selectedSubcontractor) return;
@@ -295,7 +317,7 @@ export default function SubcontractorManagement() {
             </div>
 
             <div className="flex flex-col sm:flex-row gap-4 mb-6 items-start sm:items-center justify-between">
-              <Tabs defaultValue={activeTab} className="w-full" onValueChange={setActiveTab}>
+              <Tabs value={activeTab} className="w-full" onValueChange={setActiveTab}>
                 <TabsList className="grid w-full max-w-md grid-cols-2">
                   <TabsTrigger value="subcontractors">Subcontractors</TabsTrigger>
                   <TabsTrigger value="vendors">Vendors</TabsTrigger>
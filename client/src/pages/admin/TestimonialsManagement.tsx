@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useTestimonials } from "@/hooks/useTestimonials";
 import AdminNav from "@/components/admin/AdminNav";
 import ExportButton from "@/components/admin/ExportButton";
@@ -24,6 +24,7 @@ import {
 
 const TestimonialsManagement = () => {
   const [location, setLocation] = useLocation();
+  const search = useSearch();
   const { toast } = useToast();
   const {
     allTestimonials,
@@ -47,7 +48,7 @@ const TestimonialsManagement = () => {
     document.title = 'Testimonials Management - ARCEM';
     
     // Parse URL parameters to set the active tab
-    const searchParams = new URLSearchParams(location.split('?')[1] || '');
+    const searchParams = new URLSearchParams(search);
     const tab = searchParams.get('tab');
     
     if (tab === 'all') {
@@ -72,7 +73,7 @@ const TestimonialsManagement = () => {
     };
     
     fetchData();
-  }, [location, refetchAllTestimonials, refetchPendingTestimonials]);
+  }, [location, search, refetchAllTestimonials, refetchPendingTestimonials]);
 
   // State variables
   const [searchQuery, setSearchQuery] = useState('');
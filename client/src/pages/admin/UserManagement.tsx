@@ -0,0 +1,673 @@
+import React, { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  Loader2,
+  Trash2,
+  Search,
+  UserCog,
+  UserPlus,
+  KeyRound,
+  Ban,
+  CheckCircle,
+  Copy,
+  ShieldOff,
+  Unlock,
+  LogOut
+} from "lucide-react";
+import AdminNav from "@/components/admin/AdminNav";
+import { apiRequest } from "@/lib/queryClient";
+import { User, UserInvite, LoginAttempt } from "@shared/schema";
+import { ROLE_LABELS, ROLE_VALUES, ROLES, isRole, type Role } from "@shared/permissions";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, scrollToTop } from "@/lib/utils";
+
+type StaffUser = Omit<User, "password" | "twoFactorSecret" | "twoFactorBackupCodes">;
+type PendingInvite = Omit<UserInvite, "tokenHash"> & { expired: boolean };
+
+const roleLabel = (role: string | null) =>
+  isRole(role) ? ROLE_LABELS[role] : role || "—";
+
+const isLocked = (staffUser: StaffUser) =>
+  !!staffUser.lockedUntil && new Date(staffUser.lockedUntil) > new Date();
+
+const FAILURE_REASON_LABELS: Record<string, string> = {
+  invalid_credentials: "Wrong username or password",
+  account_disabled: "Account disabled",
+  invalid_two_factor: "Wrong 2FA code",
+  throttled: "Blocked (too many attempts)",
+};
+
+const UserManagement = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>(ROLES.CONTENT_EDITOR);
+  const [generatedLink, setGeneratedLink] = useState<{ title: string; url: string } | null>(null);
+  const [userToDelete, setUserToDelete] = useState<StaffUser | null>(null);
+
+  useEffect(() => {
+    scrollToTop();
+    document.title = 'User Management - ARCEM';
+  }, []);
+
+  const { data: users = [], isLoading } = useQuery<StaffUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: invites = [] } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/admin/users/invites"],
+  });
+
+  const { data: lockedUsers = [] } = useQuery<StaffUser[]>({
+    queryKey: ["/api/admin/users/locked"],
+  });
+
+  const { data: loginAttempts = [] } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/admin/login-attempts"],
+  });
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users/invites"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users/locked"] });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { email: string; role: Role }) => {
+      return apiRequest<PendingInvite & { inviteUrl: string }>("POST", "/api/admin/users/invites", data);
+    },
+    onSuccess: (invite) => {
+      invalidateUsers();
+      setShowInviteDialog(false);
+      setInviteEmail("");
+      if (invite) {
+        setGeneratedLink({ title: `Invitation for ${invite.email}`, url: invite.inviteUrl });
+      }
+    },
+    onError: (error) => showError(error, "Failed to create invite.")
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/admin/users/invites/${id}`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: "Invite revoked", description: "The invitation link no longer works." });
+    },
+    onError: (error) => showError(error, "Failed to revoke invite.")
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: Role }) => {
+      return apiRequest("PUT", `/api/admin/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: "Role updated", description: "The user's role has been changed." });
+    },
+    onError: (error) => showError(error, "Failed to update role.")
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      return apiRequest("PUT", `/api/admin/users/${id}/status`, { active });
+    },
+    onSuccess: (_data, variables) => {
+      invalidateUsers();
+      toast({
+        title: variables.active ? "Account enabled" : "Account disabled",
+        description: variables.active
+          ? "The user can sign in again."
+          : "The user has been signed out and can no longer sign in."
+      });
+    },
+    onError: (error) => showError(error, "Failed to update account status.")
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (staffUser: StaffUser) => {
+      return apiRequest<{ resetUrl: string }>("POST", `/api/admin/users/${staffUser.id}/reset-password`);
+    },
+    onSuccess: (result, staffUser) => {
+      if (result) {
+        setGeneratedLink({ title: `Password reset for ${staffUser.username}`, url: result.resetUrl });
+      }
+    },
+    onError: (error) => showError(error, "Failed to reset password.")
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/admin/users/${id}/two-factor`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({
+        title: "Two-factor reset",
+        description: "The user can sign in with their password and set up two-factor authentication again."
+      });
+    },
+    onError: (error) => showError(error, "Failed to reset two-factor authentication.")
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async (staffUser: StaffUser) => {
+      return apiRequest<{ revokedCount: number }>("POST", `/api/admin/users/${staffUser.id}/sign-out`);
+    },
+    onSuccess: (result, staffUser) => {
+      toast({
+        title: "Signed out everywhere",
+        description: `${staffUser.username} was signed out of ${result?.revokedCount ?? 0} session(s).`
+      });
+    },
+    onError: (error) => showError(error, "Failed to sign user out.")
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/admin/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: "Account unlocked", description: "The user can sign in again." });
+    },
+    onError: (error) => showError(error, "Failed to unlock account.")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/admin/users/${id}`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      setUserToDelete(null);
+      toast({ title: "User deleted", description: "The account has been removed." });
+    },
+    onError: (error) => showError(error, "Failed to delete user.")
+  });
+
+  const filteredUsers = users.filter(staffUser => {
+    const query = searchQuery.toLowerCase();
+    return (
+      staffUser.username.toLowerCase().includes(query) ||
+      (staffUser.email && staffUser.email.toLowerCase().includes(query))
+    );
+  });
+
+  const handleInviteSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMutation.mutate({ email: inviteEmail, role: inviteRole });
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Copied", description: "Link copied to clipboard." });
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-gray-50">
+      <div className="container mx-auto px-4 md:px-8">
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <AdminNav activePage="users" />
+
+          {/* Main Content */}
+          <div className="flex-1">
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <h1 className="text-2xl font-montserrat font-bold flex items-center">
+                  <UserCog className="mr-2 h-6 w-6" />
+                  Staff Accounts
+                </h1>
+                <Button onClick={() => setShowInviteDialog(true)}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Invite User
+                </Button>
+              </div>
+
+              {/* Search bar */}
+              <div className="mb-6 relative">
+                <Input
+                  type="text"
+                  placeholder="Search by username or email..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10 pr-4 py-2 border border-gray-300"
+                />
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              </div>
+
+              {/* Users table */}
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead className="w-[200px]">Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>2FA</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          <div className="animate-pulse flex items-center justify-center">
+                            <div className="h-4 w-36 bg-gray-200 rounded"></div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredUsers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                          No users found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredUsers.map(staffUser => {
+                        const isSelf = staffUser.id === currentUser?.id;
+                        return (
+                          <TableRow key={staffUser.id}>
+                            <TableCell className="font-medium">
+                              {staffUser.username}
+                              {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                            </TableCell>
+                            <TableCell>{staffUser.email || '—'}</TableCell>
+                            <TableCell>
+                              {isSelf ? (
+                                roleLabel(staffUser.role)
+                              ) : (
+                                <Select
+                                  value={staffUser.role || undefined}
+                                  onValueChange={(role) => roleMutation.mutate({ id: staffUser.id, role: role as Role })}
+                                  disabled={roleMutation.isPending}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select role" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ROLE_VALUES.map(role => (
+                                      <SelectItem key={role} value={role}>
+                                        {ROLE_LABELS[role]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={`${
+                                staffUser.active
+                                  ? 'bg-green-100 text-green-800 hover:bg-green-100'
+                                  : 'bg-red-100 text-red-800 hover:bg-red-100'
+                              }`}>
+                                {staffUser.active ? 'Active' : 'Disabled'}
+                              </Badge>
+                              {isLocked(staffUser) && (
+                                <Badge className="ml-1 bg-amber-100 text-amber-800 hover:bg-amber-100">
+                                  Locked
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={`${
+                                staffUser.twoFactorEnabled
+                                  ? 'bg-blue-100 text-blue-800 hover:bg-blue-100'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-100'
+                              }`}>
+                                {staffUser.twoFactorEnabled ? 'On' : 'Off'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{staffUser.createdAt ? formatDate(staffUser.createdAt) : 'N/A'}</TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Force password reset"
+                                onClick={() => resetPasswordMutation.mutate(staffUser)}
+                                disabled={resetPasswordMutation.isPending}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              {!isSelf && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Sign out everywhere"
+                                    onClick={() => signOutMutation.mutate(staffUser)}
+                                    disabled={signOutMutation.isPending}
+                                  >
+                                    <LogOut className="h-4 w-4" />
+                                  </Button>
+                                  {staffUser.twoFactorEnabled && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Reset two-factor authentication"
+                                      onClick={() => resetTwoFactorMutation.mutate(staffUser.id)}
+                                      disabled={resetTwoFactorMutation.isPending}
+                                    >
+                                      <ShieldOff className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title={staffUser.active ? "Disable account" : "Enable account"}
+                                    onClick={() => statusMutation.mutate({ id: staffUser.id, active: !staffUser.active })}
+                                    disabled={statusMutation.isPending}
+                                    className={staffUser.active ? "text-amber-600 hover:text-amber-800" : "text-green-600 hover:text-green-800"}
+                                  >
+                                    {staffUser.active ? <Ban className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Delete user"
+                                    onClick={() => setUserToDelete(staffUser)}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="mt-4 text-sm text-muted-foreground">
+                Showing {filteredUsers.length} of {users.length} users
+              </div>
+            </div>
+
+            {/* Pending invites */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <h2 className="text-xl font-montserrat font-bold mb-4">Pending Invitations</h2>
+              {invites.length === 0 ? (
+                <p className="text-gray-500">No pending invitations</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invites.map(invite => (
+                        <TableRow key={invite.id}>
+                          <TableCell className="font-medium">{invite.email}</TableCell>
+                          <TableCell>{roleLabel(invite.role)}</TableCell>
+                          <TableCell>
+                            {invite.expired ? (
+                              <Badge className="bg-gray-100 text-gray-700 hover:bg-gray-100">Expired</Badge>
+                            ) : (
+                              formatDate(invite.expiresAt)
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Revoke invitation"
+                              onClick={() => revokeInviteMutation.mutate(invite.id)}
+                              disabled={revokeInviteMutation.isPending}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            {/* Locked accounts */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <h2 className="text-xl font-montserrat font-bold mb-4">Locked Accounts</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Accounts are locked for 15 minutes after 5 failed sign-in attempts in a row.
+              </p>
+              {lockedUsers.length === 0 ? (
+                <p className="text-gray-500">No accounts are currently locked</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Username</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Locked Until</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lockedUsers.map(lockedUser => (
+                        <TableRow key={lockedUser.id}>
+                          <TableCell className="font-medium">{lockedUser.username}</TableCell>
+                          <TableCell>{lockedUser.email || '—'}</TableCell>
+                          <TableCell>
+                            {lockedUser.lockedUntil ? new Date(lockedUser.lockedUntil).toLocaleString() : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => unlockMutation.mutate(lockedUser.id)}
+                              disabled={unlockMutation.isPending}
+                            >
+                              <Unlock className="mr-2 h-4 w-4" />
+                              Unlock
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            {/* Failed sign-in log */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <h2 className="text-xl font-montserrat font-bold mb-4">Recent Failed Sign-ins</h2>
+              {loginAttempts.length === 0 ? (
+                <p className="text-gray-500">No failed sign-in attempts recorded</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Username</TableHead>
+                        <TableHead>IP Address</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {loginAttempts.map(attempt => (
+                        <TableRow key={attempt.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(attempt.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{attempt.username}</TableCell>
+                          <TableCell>{attempt.ipAddress || '—'}</TableCell>
+                          <TableCell>{FAILURE_REASON_LABELS[attempt.reason] || attempt.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Invite Dialog */}
+      <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+        <DialogContent>
+          <form onSubmit={handleInviteSubmit}>
+            <DialogHeader>
+              <DialogTitle>Invite a Staff Member</DialogTitle>
+              <DialogDescription>
+                The invitation link lets the recipient choose a username and password. It expires after 7 days.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  required
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="invite-role">Role</Label>
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as Role)}>
+                  <SelectTrigger id="invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_VALUES.filter(role => role !== ROLES.USER).map(role => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Create Invite"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Generated link dialog (invites and password resets) */}
+      <Dialog open={!!generatedLink} onOpenChange={(open) => !open && setGeneratedLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{generatedLink?.title}</DialogTitle>
+            <DialogDescription>
+              Share this single-use link with the user. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={generatedLink?.url || ""} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={() => generatedLink && copyLink(generatedLink.url)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button>Done</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!userToDelete} onOpenChange={(open) => !open && setUserToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete the account "{userToDelete?.username}"? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button
+              variant="destructive"
+              onClick={() => userToDelete && deleteMutation.mutate(userToDelete.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UserManagement;
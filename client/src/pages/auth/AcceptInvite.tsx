@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { passwordSchema } from '@shared/schema';
+import { ROLE_LABELS, isRole } from '@shared/permissions';
+
+const acceptInviteSchema = z
+  .object({
+    username: z.string().min(3, { message: 'Username must be at least 3 characters' }),
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type AcceptInviteFormValues = z.infer<typeof acceptInviteSchema>;
+
+interface InviteDetails {
+  email: string;
+  role: string;
+}
+
+const AcceptInvite = () => {
+  const [, setLocation] = useLocation();
+  const { checkAuth } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+
+  const { data: invite, isLoading, error: inviteError } = useQuery<InviteDetails | null>({
+    queryKey: ['/api/invites', token],
+    queryFn: () => apiRequest<InviteDetails>(`/api/invites/${token}`),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<AcceptInviteFormValues>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: {
+      username: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: AcceptInviteFormValues) => {
+    setError(null);
+    try {
+      await apiRequest({
+        url: '/api/register',
+        method: 'POST',
+        body: { token, username: data.username, password: data.password },
+      });
+      // Registration signs the new user in
+      await checkAuth();
+      setLocation('/admin');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create your account. Please try again.');
+    }
+  };
+
+  const invalidInvite = !token || !!inviteError || (!isLoading && !invite);
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+          Create Your Account
+        </h2>
+        {invite && (
+          <p className="mt-2 text-center text-sm text-gray-600">
+            You have been invited as <strong>{isRole(invite.role) ? ROLE_LABELS[invite.role] : invite.role}</strong> ({invite.email})
+          </p>
+        )}
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-8 h-8 animate-spin text-[#1E90DB]" />
+            </div>
+          ) : invalidInvite ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                This invitation is invalid or has expired. Please ask an administrator for a new one.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="text" autoComplete="username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {form.formState.isSubmitting ? 'Creating account...' : 'Create Account'}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { apiRequest } from '@/lib/queryClient';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email({ message: 'Please enter a valid email address' }),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword = () => {
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormValues) => {
+    setError(null);
+    try {
+      const result = await apiRequest<{ message: string }>({
+        url: '/api/password-reset/request',
+        method: 'POST',
+        body: data,
+      });
+      setSentMessage(result?.message ?? 'If an account exists for that email, a password reset link has been sent.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send a reset link. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+          Forgot Your Password?
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          Enter the email address on your account and we'll send you a reset link.
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {sentMessage ? (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>{sentMessage}</AlertDescription>
+            </Alert>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="email" autoComplete="email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {form.formState.isSubmitting ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            <Link href="/auth/login" className="text-[#1E90DB] hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
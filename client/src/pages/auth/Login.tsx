@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -17,10 +17,17 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(6, { message: 'Enter the 6-digit code or a backup code' }),
+});
+
+type TwoFactorFormValues = z.infer<typeof twoFactorSchema>;
+
 const Login = () => {
   const [, setLocation] = useLocation();
-  const { login, isAuthenticated, isLoading } = useAuth();
+  const { login, verifyTwoFactor, isAuthenticated, isLoading } = useAuth();
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -37,20 +44,43 @@ const Login = () => {
     },
   });
 
+  const twoFactorForm = useForm<TwoFactorFormValues>({
+    resolver: zodResolver(twoFactorSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
   const onSubmit = async (data: LoginFormValues) => {
     setError(null);
-    try {
-      const success = await login(data.username, data.password);
-      if (success) {
-        setLocation('/admin');
-      } else {
-        setError('Invalid username or password');
-      }
-    } catch (err) {
-      setError('An error occurred during login. Please try again.');
+    const result = await login(data.username, data.password);
+    if (result.status === 'success') {
+      setLocation('/admin');
+    } else if (result.status === 'two_factor_required') {
+      setTwoFactorStep(true);
+    } else {
+      setError(result.message);
     }
   };
 
+  const onTwoFactorSubmit = async (data: TwoFactorFormValues) => {
+    setError(null);
+    const result = await verifyTwoFactor(data.code);
+    if (result.status === 'success') {
+      setLocation('/admin');
+    } else if (result.status === 'error') {
+      setError(result.message);
+      twoFactorForm.reset();
+    }
+  };
+
+  const restartLogin = () => {
+    setError(null);
+    setTwoFactorStep(false);
+    twoFactorForm.reset();
+    form.resetField('password');
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -61,52 +91,99 @@ const Login = () => {
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              {error && (
-                <Alert variant="destructive">
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-              
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input {...field} type="text" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+          {twoFactorStep ? (
+            <Form {...twoFactorForm}>
+              <form onSubmit={twoFactorForm.handleSubmit(onTwoFactorSubmit)} className="space-y-6">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
                 )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input {...field} type="password" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+
+                <FormField
+                  control={twoFactorForm.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Verification Code</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="text" autoComplete="one-time-code" autoFocus />
+                      </FormControl>
+                      <p className="text-sm text-gray-500">
+                        Enter the code from your authenticator app, or one of your backup codes.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={twoFactorForm.formState.isSubmitting}
+                >
+                  {twoFactorForm.formState.isSubmitting ? 'Verifying...' : 'Verify'}
+                </Button>
+
+                <Button type="button" variant="ghost" className="w-full" onClick={restartLogin}>
+                  Back to sign in
+                </Button>
+              </form>
+            </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
                 )}
-              />
-
-              <Button
-                type="submit"
-                className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
-                disabled={form.formState.isSubmitting || isLoading}
-              >
-                {form.formState.isSubmitting || isLoading ? 'Logging in...' : 'Sign in'}
-              </Button>
-            </form>
-          </Form>
+              
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="text" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Password</FormLabel>
+                        <Link href="/auth/forgot-password" className="text-sm text-[#1E90DB] hover:underline">
+                          Forgot password?
+                        </Link>
+                      </div>
+                      <FormControl>
+                        <Input {...field} type="password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={form.formState.isSubmitting || isLoading}
+                >
+                  {form.formState.isSubmitting || isLoading ? 'Logging in...' : 'Sign in'}
+                </Button>
+              </form>
+            </Form>
+          )}
           
           <div className="mt-6">
             <div className="relative">
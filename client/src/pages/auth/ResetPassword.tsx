@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { apiRequest } from '@/lib/queryClient';
+import { passwordSchema } from '@shared/schema';
+
+const resetPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+const ResetPassword = () => {
+  const [error, setError] = useState<string | null>(null);
+  const [completed, setCompleted] = useState(false);
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+
+  const { data: tokenStatus, isLoading, error: tokenError } = useQuery<{ valid: boolean } | null>({
+    queryKey: ['/api/password-reset', token],
+    queryFn: () => apiRequest<{ valid: boolean }>(`/api/password-reset/${token}`),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormValues) => {
+    setError(null);
+    try {
+      await apiRequest({
+        url: '/api/password-reset/confirm',
+        method: 'POST',
+        body: { token, password: data.password },
+      });
+      setCompleted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to reset your password. Please try again.');
+    }
+  };
+
+  const invalidToken = !token || !!tokenError || (!isLoading && !tokenStatus?.valid);
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+          Choose a New Password
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-8 h-8 animate-spin text-[#1E90DB]" />
+            </div>
+          ) : completed ? (
+            <div className="space-y-6">
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>Your password has been reset. You can now sign in.</AlertDescription>
+              </Alert>
+              <Link href="/auth/login">
+                <Button className="w-full bg-[#1E90DB] hover:bg-[#1670B0]">Go to Sign In</Button>
+              </Link>
+            </div>
+          ) : invalidToken ? (
+            <div className="space-y-6">
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This reset link is invalid or has expired. Please request a new one.
+                </AlertDescription>
+              </Alert>
+              <Link href="/auth/forgot-password">
+                <Button variant="outline" className="w-full">Request a New Link</Button>
+              </Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="password" autoComplete="new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-[#1E90DB] hover:bg-[#1670B0]"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {form.formState.isSubmitting ? 'Saving...' : 'Reset Password'}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,51 @@
+import { mailService, type MailSendOptions } from "./services/mailService";
+import {
+  renderFieldList,
+  type EditableMailTemplateName,
+  type MailTemplateVariables,
+} from "./services/mailTemplates";
+import type { SubmissionSummary } from "./submissionSummaries";
+import type { SubmissionType } from "@shared/submissions";
+
+const ACKNOWLEDGEMENT_TEMPLATES: Record<SubmissionType, EditableMailTemplateName> = {
+  contact_message: "contact_message_received",
+  quote_request: "quote_request_received",
+  subcontractor_application: "subcontractor_application_received",
+  vendor_application: "vendor_application_received",
+  testimonial_submission: "testimonial_received",
+  job_application: "job_application_received",
+};
+
+/**
+ * Email the submitter a receipt with their reference number and a copy of what they sent.
+ *
+ * Never throws, for the same reason as notifyStaff. Skipped when the submission
+ * has no email address (testimonials may be submitted without one). Extra
+ * variables fill placeholders only some templates have, such as trackingUrl;
+ * pass storeBody: false when one of them is a live link.
+ */
+export async function sendAcknowledgement(
+  submission: SubmissionSummary,
+  extraVariables: MailTemplateVariables = {},
+  options: Omit<MailSendOptions, "template"> = {},
+): Promise<void> {
+  if (!submission.submitterEmail) return;
+
+  try {
+    const copy = renderFieldList(submission.fields);
+    await mailService.sendTemplate(
+      ACKNOWLEDGEMENT_TEMPLATES[submission.type],
+      submission.submitterEmail,
+      {
+        name: submission.submitterName,
+        referenceNumber: submission.referenceNumber,
+        submissionText: copy.text,
+        submissionHtml: copy.html,
+        ...extraVariables,
+      },
+      options,
+    );
+  } catch (error) {
+    console.error(`Error sending ${submission.type} acknowledgement:`, error);
+  }
+}
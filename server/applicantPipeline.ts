@@ -0,0 +1,38 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { getAverageRating, type ApplicantActivityType } from "@shared/careers";
+import type { JobApplicationActivity } from "@shared/schema";
+
+/**
+ * Add an entry to a candidate's activity history, authored by the signed-in user
+ */
+export function recordApplicantActivity(
+  req: Request,
+  jobApplicationId: number,
+  activity: {
+    type: ApplicantActivityType;
+    body?: string | null;
+    rating?: number | null;
+    fromValue?: string | null;
+    toValue?: string | null;
+  },
+): Promise<JobApplicationActivity> {
+  return storage.createJobApplicationActivity({
+    jobApplicationId,
+    type: activity.type,
+    authorId: req.user?.id ?? null,
+    authorUsername: req.user?.username ?? "unknown",
+    body: activity.body ?? null,
+    rating: activity.rating ?? null,
+    fromValue: activity.fromValue ?? null,
+    toValue: activity.toValue ?? null,
+  });
+}
+
+// Refresh the average shown on the board after a rated note is added
+export async function updateAverageRating(jobApplicationId: number) {
+  const activity = await storage.getJobApplicationActivity(jobApplicationId);
+  return storage.updateJobApplication(jobApplicationId, {
+    averageRating: getAverageRating(activity),
+  });
+}
@@ -0,0 +1,166 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getTwoFactorRequiredRoles } from "./twoFactor";
+import { getStaffAlertSettings } from "./staffAlerts";
+import { getQuoteSlaSettings } from "./quoteSla";
+import { getQuoteCostRates } from "./quoteCostRates";
+import { getJobExpirySettings } from "./jobPostingSchedule";
+import { getEditableMailTemplate } from "./emailTemplates";
+import { isEditableMailTemplate } from "./services/mailTemplates";
+import type { AuditEntityType } from "@shared/audit";
+
+type EntityLoader = (id: string | undefined) => Promise<unknown>;
+
+const byNumericId = (load: (id: number) => Promise<unknown>): EntityLoader =>
+  async (id) => {
+    const numericId = parseInt(id ?? "");
+    return isNaN(numericId) ? undefined : load(numericId);
+  };
+
+// Used to capture the "before" state; entity types without a loader only get the response as "after"
+const ENTITY_LOADERS: Partial<Record<AuditEntityType, EntityLoader>> = {
+  project: byNumericId((id) => storage.getProject(id)),
+  blog_post: byNumericId((id) => storage.getBlogPost(id)),
+  blog_category: byNumericId((id) => storage.getBlogCategory(id)),
+  blog_tag: byNumericId((id) => storage.getBlogTag(id)),
+  service: byNumericId((id) => storage.getService(id)),
+  testimonial: byNumericId((id) => storage.getTestimonial(id)),
+  message: byNumericId((id) => storage.getMessage(id)),
+  newsletter_subscriber: byNumericId((id) => storage.getNewsletterSubscriber(id)),
+  quote_request: byNumericId((id) => storage.getQuoteRequest(id)),
+  estimate: byNumericId((id) => storage.getEstimate(id)),
+  subcontractor: byNumericId((id) => storage.getSubcontractor(id)),
+  vendor: byNumericId((id) => storage.getVendor(id)),
+  job_posting: byNumericId((id) => storage.getJobPosting(id)),
+  job_application: byNumericId((id) => storage.getJobApplication(id)),
+  team_member: byNumericId((id) => storage.getTeamMember(id)),
+  user: byNumericId((id) => storage.getUser(id)),
+  user_invite: byNumericId(async (id) =>
+    (await storage.getUserInvites()).find((invite) => invite.id === id),
+  ),
+  site_setting: async (idOrKey) => {
+    if (!idOrKey) return undefined;
+    return /^\d+$/.test(idOrKey)
+      ? (await storage.getSiteSettings()).find((setting) => setting.id === parseInt(idOrKey))
+      : storage.getSiteSettingByKey(idOrKey);
+  },
+  security_policy: async () => ({ requiredRoles: await getTwoFactorRequiredRoles() }),
+  staff_alert_settings: () => getStaffAlertSettings(),
+  quote_sla_settings: () => getQuoteSlaSettings(),
+  email_template: async (name) =>
+    name && isEditableMailTemplate(name) ? getEditableMailTemplate(name) : undefined,
+  quarantined_submission: byNumericId((id) => storage.getQuarantinedSubmission(id)),
+  quote_cost_rates: () => getQuoteCostRates(),
+  job_expiry_settings: () => getJobExpirySettings(),
+};
+
+// Never written to the log, whatever entity they appear on. The *Url fields are links
+// that carry a live token (invites, password resets, quote tracking).
+const REDACTED_FIELD_PATTERN = /password|secret|token|backupCodes|inviteUrl|resetUrl|trackingUrl/i;
+const REDACTED = "[redacted]";
+
+interface AuditOptions {
+  // Defaults to create/update/delete based on the HTTP method
+  action?: string;
+  // Route parameter holding the entity id; defaults to "id"
+  idParam?: string;
+}
+
+type AuditRecord = Record<string, unknown>;
+
+// Round-trips through JSON so Dates and response bodies compare the same way, and redacts secrets
+function toAuditRecord(value: unknown): AuditRecord | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  return JSON.parse(JSON.stringify(value), (key, fieldValue) =>
+    key && REDACTED_FIELD_PATTERN.test(key) && fieldValue !== null ? REDACTED : fieldValue,
+  );
+}
+
+// Response bodies may be partial (e.g. just a message), so only fields present on both sides are compared
+export function diffAuditRecords(before: AuditRecord | null, after: AuditRecord | null) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  if (before && after) {
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) continue;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes[key] = { from: before[key], to: after[key] };
+      }
+    }
+  } else if (after) {
+    for (const [key, value] of Object.entries(after)) changes[key] = { from: null, to: value };
+  } else if (before) {
+    for (const [key, value] of Object.entries(before)) changes[key] = { from: value, to: null };
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function defaultAction(method: string) {
+  switch (method) {
+    case "POST":
+      return "create";
+    case "DELETE":
+      return "delete";
+    default:
+      return "update";
+  }
+}
+
+/**
+ * Records who changed what on an admin route. Mount it after requirePermission:
+ * it loads the entity before the handler runs, captures the JSON response, and
+ * writes an audit_log row once the request finishes with a 2xx status.
+ */
+export function audit(entityType: AuditEntityType, options: AuditOptions = {}) {
+  const idParam = options.idParam ?? "id";
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const action = options.action ?? defaultAction(req.method);
+    const paramId: string | undefined = req.params[idParam];
+    const actor = req.user;
+
+    let before: AuditRecord | null = null;
+    const loader = ENTITY_LOADERS[entityType];
+    if (loader) {
+      try {
+        before = toAuditRecord(await loader(paramId));
+      } catch (error) {
+        console.error(`Audit: failed to load ${entityType} ${paramId ?? ""}:`, error);
+      }
+    }
+
+    let responseBody: unknown;
+    const originalJson = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on("finish", () => {
+      if (res.statusCode < 200 || res.statusCode >= 300) return;
+
+      const after = action === "delete" ? null : toAuditRecord(responseBody);
+      const responseId = after?.id;
+      const entityId =
+        paramId ?? (typeof responseId === "number" || typeof responseId === "string" ? String(responseId) : null);
+
+      storage
+        .createAuditLogEntry({
+          actorId: actor?.id ?? null,
+          actorUsername: actor?.username ?? "unknown",
+          action,
+          entityType,
+          entityId,
+          before,
+          after,
+          changes: diffAuditRecords(before, after),
+          ipAddress: req.ip || null,
+        })
+        .catch((error) => console.error("Audit: failed to write log entry:", error));
+    });
+
+    next();
+  };
+}
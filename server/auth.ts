@@ -1,14 +1,33 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
-import pg from "pg";
+import { User as SelectUser, passwordSchema } from "@shared/schema";
+import { hasAnyPermission, type Permission } from "@shared/permissions";
 import connectPgSimple from "connect-pg-simple";
-import { DATABASE_URL } from "./db";
+import {
+  sessionPool,
+  listUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+  isCurrentSession,
+} from "./sessions";
+import { mailService } from "./services/mailService";
+import {
+  generateTwoFactorSecret,
+  buildTwoFactorEnrollment,
+  matchTotpCode,
+  verifyUserTotpCode,
+  generateBackupCodes,
+  consumeBackupCode,
+  isTwoFactorRequiredForRole,
+  isTwoFactorSetupRequired,
+} from "./twoFactor";
+import { checkLoginAllowed, recordFailedLogin, recordSuccessfulLogin } from "./loginThrottle";
+import { z } from "zod";
 
 declare global {
   namespace Express {
@@ -16,27 +35,218 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password verified, waiting for the second factor
+    twoFactorLogin?: { userId: number; expiresAt: number; attempts: number };
+    // Secret shown during enrollment, saved to the user once a code is confirmed
+    twoFactorSetupSecret?: string;
+    // Shown in the user's list of active sessions
+    device?: { userAgent: string | null; ipAddress: string | null; signedInAt: number };
+    lastSeenAt?: number;
+    lastIpAddress?: string;
+  }
+}
+
+const SESSION_LAST_SEEN_INTERVAL_MS = 60 * 1000; // 1 minute
+
+// Called right after req.login, which starts a fresh session
+function recordSessionDevice(req: Request) {
+  const now = Date.now();
+  req.session.device = {
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+    signedInAt: now,
+  };
+  req.session.lastSeenAt = now;
+}
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  // Create a standard PostgreSQL pool for session store
-  const pgPool = new pg.Pool({
-    connectionString: DATABASE_URL
+// Tokens sent to users (invites, password resets) are only stored as SHA-256 hashes
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateToken() {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * Public address of the site. Links are never built from the request's Host
+ * header: a client can set it to any value and receive working tokens for it.
+ */
+export const APP_URL = (
+  process.env.APP_URL || (process.env.NODE_ENV === "production" ? "" : "http://localhost:5000")
+).replace(/\/+$/, "");
+
+// Builds an absolute link to a client page for emails and admin copy/paste.
+// Throws without APP_URL, failing only the feature that needed the link.
+export function buildAppUrl(path: string) {
+  if (!APP_URL) {
+    throw new Error("APP_URL is not set, so links to the site can't be built");
+  }
+  return `${APP_URL}${path}`;
+}
+
+// Strips credentials and 2FA secrets before a user record is sent to the client
+export function toPublicUser(user: SelectUser) {
+  const { password, twoFactorSecret, twoFactorBackupCodes, ...publicUser } = user;
+  return publicUser;
+}
+
+// The signed-in user, plus whether they still have to enroll in 2FA
+async function toSessionUser(user: SelectUser) {
+  return {
+    ...toPublicUser(user),
+    twoFactorSetupRequired: await isTwoFactorSetupRequired(user),
+  };
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PASSWORD_RESET_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const SELF_SERVICE_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+export async function createUserInvite(
+  req: Request,
+  email: string,
+  role: string,
+) {
+  const { token, tokenHash } = generateToken();
+  const invite = await storage.createUserInvite({
+    email,
+    role,
+    tokenHash,
+    invitedBy: req.user?.id ?? null,
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS),
   });
-  
+  return {
+    invite,
+    inviteUrl: buildAppUrl(`/auth/accept-invite?token=${token}`),
+  };
+}
+
+export async function createPasswordResetLink(
+  userId: number,
+  ttlMs: number = PASSWORD_RESET_TTL_MS,
+) {
+  // Only the most recently issued link stays valid
+  await storage.invalidatePasswordResetTokens(userId);
+
+  const { token, tokenHash } = generateToken();
+  const resetToken = await storage.createPasswordResetToken({
+    userId,
+    tokenHash,
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return {
+    resetToken,
+    resetUrl: buildAppUrl(`/auth/reset-password?token=${token}`),
+  };
+}
+
+async function findUsableInvite(token: string) {
+  const invite = await storage.getUserInviteByTokenHash(hashToken(token));
+  if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+    return undefined;
+  }
+  return invite;
+}
+
+async function findUsableResetToken(token: string) {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    return undefined;
+  }
+  return resetToken;
+}
+
+const registerSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+  username: z
+    .string()
+    .min(3, "Username must be at least 3 characters")
+    .max(50, "Username must be at most 50 characters"),
+  password: passwordSchema,
+});
+
+const profileUpdateSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(50, "Username must be at most 50 characters"),
+  email: z.string().trim().email("Please enter a valid email address"),
+});
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Verification code is required"),
+});
+
+const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+});
+
+const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: passwordSchema,
+});
+
+// Permission middleware - passes when the user's role grants any of the listed permissions
+// and the user has enrolled in 2FA if their role requires it
+// For public routes that show signed-in staff more, such as draft previews
+export function requestHasPermission(req: Request, ...permissions: Permission[]) {
+  return req.isAuthenticated() && hasAnyPermission(req.user.role, permissions);
+}
+
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!hasAnyPermission(req.user.role, permissions)) {
+      return res.status(403).json({ message: "Forbidden: You do not have permission to perform this action" });
+    }
+    try {
+      if (await isTwoFactorSetupRequired(req.user)) {
+        return res.status(403).json({
+          message: "Two-factor authentication must be set up before using the admin panel",
+          code: "TWO_FACTOR_SETUP_REQUIRED",
+        });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+export function setupAuth(app: Express) {
   // Create a PostgreSQL session store
   const PgSession = connectPgSimple(session);
   
@@ -45,7 +255,7 @@ export function setupAuth(app: Express) {
     resave: false,
     saveUninitialized: false,
     store: new PgSession({ 
-      pool: pgPool,
+      pool: sessionPool,
       createTableIfMissing: true
     }),
     cookie: {
@@ -58,12 +268,26 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Track when and from where each signed-in session was last used, at most once a minute
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) {
+      const now = Date.now();
+      if (!req.session.lastSeenAt || now - req.session.lastSeenAt > SESSION_LAST_SEEN_INTERVAL_MS) {
+        req.session.lastSeenAt = now;
+        if (req.ip) req.session.lastIpAddress = req.ip;
+      }
+    }
+    next();
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
+        } else if (!user.active) {
+          return done(null, false, { message: "This account has been disabled" });
         } else {
           return done(null, user);
         }
@@ -77,48 +301,275 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
+      // Disabled or deleted accounts lose their existing sessions
+      if (!user || !user.active) {
+        return done(null, false);
+      }
       done(null, user);
     } catch (err) {
       done(err);
     }
   });
 
+  // Registration is invite-only; the invite decides the email and role
+  app.get("/api/invites/:token", async (req, res, next) => {
+    try {
+      const invite = await findUsableInvite(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      res.json({ email: invite.email, role: invite.role, expiresAt: invite.expiresAt });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const data = registerSchema.parse(req.body);
+
+      const invite = await findUsableInvite(data.token);
+      if (!invite) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      const existingUser = await storage.getUserByUsername(data.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-        role: req.body.role || "user", // Default role
+        username: data.username,
+        password: await hashPassword(data.password),
+        role: invite.role,
+        email: invite.email,
       });
+      await storage.markUserInviteAccepted(invite.id);
 
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) return next(err);
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        recordSessionDevice(req);
+        try {
+          res.status(201).json(await toSessionUser(user));
+        } catch (sessionErr) {
+          next(sessionErr);
+        }
       });
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid registration data", errors: err.errors });
+      }
       next(err);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error | null, user: SelectUser | false, info: any) => {
-      if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
-      
-      req.login(user, (err) => {
-        if (err) return next(err);
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+  // Password reset links (issued by an admin or requested by the user)
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const data = passwordResetRequestSchema.parse(req.body);
+
+      // Same response whether or not the account exists, so emails can't be probed
+      const genericResponse = {
+        message: "If an account exists for that email, a password reset link has been sent.",
+      };
+
+      const user = await storage.getUserByEmail(data.email);
+      if (!user || !user.active || !user.email) {
+        return res.json(genericResponse);
+      }
+
+      const { resetUrl } = await createPasswordResetLink(user.id, SELF_SERVICE_RESET_TTL_MS);
+      try {
+        // The body holds a live reset link, so it is kept out of the email log
+        await mailService.sendTemplate(
+          "password_reset",
+          user.email,
+          { username: user.username, resetUrl, expiresIn: "1 hour" },
+          { storeBody: false },
+        );
+      } catch (mailError) {
+        // Logged by the mail service; keep the response generic
+      }
+
+      res.json(genericResponse);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid email", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  app.get("/api/password-reset/:token", async (req, res, next) => {
+    try {
+      const resetToken = await findUsableResetToken(req.params.token);
+      if (!resetToken) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
+      res.json({ valid: true, expiresAt: resetToken.expiresAt });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const data = passwordResetConfirmSchema.parse(req.body);
+
+      const resetToken = await findUsableResetToken(data.token);
+      if (!resetToken) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+      if (!user || !user.active) {
+        return res.status(400).json({ message: "This account is not available" });
+      }
+
+      // Proving ownership of the email also clears any sign-in lockout
+      await storage.updateUser(user.id, {
+        password: await hashPassword(data.password),
+        failedLoginCount: 0,
+        lockedUntil: null,
       });
+      await storage.markPasswordResetTokenUsed(resetToken.id);
+      await storage.invalidatePasswordResetTokens(user.id);
+      await revokeAllUserSessions(user.id);
+
+      res.json({ message: "Password has been reset. You can now sign in." });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid password", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  const completeLogin = async (req: Request, res: Response, next: NextFunction, user: SelectUser) => {
+    try {
+      await recordSuccessfulLogin(user);
+    } catch (err) {
+      return next(err);
+    }
+
+    req.login(user, async (err) => {
+      if (err) return next(err);
+      recordSessionDevice(req);
+      try {
+        res.status(200).json(await toSessionUser(user));
+      } catch (sessionErr) {
+        next(sessionErr);
+      }
+    });
+  };
+
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+
+    // Per-IP and per-account throttling happens before the password is checked
+    try {
+      const throttle = await checkLoginAllowed(req, username);
+      if (!throttle.allowed) {
+        await recordFailedLogin(req, username, "throttled");
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({ message: throttle.message });
+      }
+    } catch (err) {
+      return next(err);
+    }
+
+    passport.authenticate("local", async (err: Error | null, user: SelectUser | false, info: any) => {
+      if (err) return next(err);
+      if (!user) {
+        if (username) {
+          try {
+            const existingUser = await storage.getUserByUsername(username);
+            const reason = existingUser && !existingUser.active ? "account_disabled" : "invalid_credentials";
+            await recordFailedLogin(req, username, reason, existingUser);
+          } catch (recordErr) {
+            return next(recordErr);
+          }
+        }
+        return res.status(401).json({ message: info?.message || "Invalid credentials" });
+      }
+
+      // Accounts with 2FA are only signed in after the code is verified
+      if (user.twoFactorEnabled) {
+        req.session.twoFactorLogin = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
+  // Second login step - accepts a TOTP code or an unused backup code
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+
+      const pending = req.session.twoFactorLogin;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.active || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const throttle = await checkLoginAllowed(req, user.username);
+      if (!throttle.allowed) {
+        delete req.session.twoFactorLogin;
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({ message: throttle.message });
+      }
+
+      if (await verifyUserTotpCode(user, data.code)) {
+        delete req.session.twoFactorLogin;
+        return completeLogin(req, res, next, user);
+      }
+
+      const remainingBackupCodes = consumeBackupCode(user, data.code);
+      if (remainingBackupCodes) {
+        delete req.session.twoFactorLogin;
+        const updatedUser = await storage.updateUser(user.id, {
+          twoFactorBackupCodes: remainingBackupCodes,
+        });
+        return completeLogin(req, res, next, updatedUser || user);
+      }
+
+      // Wrong codes count towards the account lockout like wrong passwords
+      await recordFailedLogin(req, user.username, "invalid_two_factor", user);
+
+      pending.attempts += 1;
+      if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "Too many invalid codes. Please sign in again." });
+      }
+      res.status(400).json({ message: "Invalid verification code" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid verification code", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -152,9 +603,252 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await toSessionUser(req.user));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Current user's own profile and password
+  app.put("/api/user/profile", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const data = profileUpdateSchema.parse(req.body);
+
+      const usernameOwner = await storage.getUserByUsername(data.username);
+      if (usernameOwner && usernameOwner.id !== req.user.id) {
+        return res.status(400).json({
+          message: "Username already exists",
+          errors: [{ path: ["username"], message: "This username is already taken" }],
+        });
+      }
+
+      const emailOwner = await storage.getUserByEmail(data.email);
+      if (emailOwner && emailOwner.id !== req.user.id) {
+        return res.status(400).json({
+          message: "Email already in use",
+          errors: [{ path: ["email"], message: "This email is used by another account" }],
+        });
+      }
+
+      const updatedUser = await storage.updateUser(req.user.id, {
+        username: data.username,
+        email: data.email,
+      });
+      if (!updatedUser) return res.sendStatus(404);
+
+      res.json(toPublicUser(updatedUser));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid profile data", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  app.put("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const data = passwordChangeSchema.parse(req.body);
+
+      if (!(await comparePasswords(data.currentPassword, req.user.password))) {
+        return res.status(400).json({
+          message: "Current password is incorrect",
+          errors: [{ path: ["currentPassword"], message: "Current password is incorrect" }],
+        });
+      }
+
+      if (data.currentPassword === data.newPassword) {
+        return res.status(400).json({
+          message: "New password must be different from the current password",
+          errors: [{ path: ["newPassword"], message: "New password must be different from the current password" }],
+        });
+      }
+
+      await storage.updateUser(req.user.id, {
+        password: await hashPassword(data.newPassword),
+      });
+      // Other devices have to sign in again with the new password
+      await revokeAllUserSessions(req.user.id, req.sessionID);
+      res.json({ message: "Password updated successfully" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid password data", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  // Two-factor authentication enrollment for the current user
+  app.get("/api/user/two-factor", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json({
+        enabled: req.user.twoFactorEnabled,
+        required: await isTwoFactorRequiredForRole(req.user.role),
+        backupCodesRemaining: req.user.twoFactorBackupCodes?.length ?? 0,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/user/two-factor/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (req.user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTwoFactorSecret();
+      req.session.twoFactorSetupSecret = secret;
+      res.json(await buildTwoFactorEnrollment(req.user.username, secret));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const { password, ...userWithoutPassword } = req.user as SelectUser;
-    res.json(userWithoutPassword);
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup again to get a new QR code" });
+      }
+      const step = matchTotpCode(secret, data.code);
+      if (step === null) {
+        return res.status(400).json({
+          message: "Invalid verification code",
+          errors: [{ path: ["code"], message: "That code didn't match. Check your authenticator app and try again." }],
+        });
+      }
+
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateUser(req.user.id, {
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorBackupCodes: hashes,
+        twoFactorLastUsedStep: step,
+      });
+      delete req.session.twoFactorSetupSecret;
+
+      res.json({ backupCodes: codes });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid verification code", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  // Replaces all backup codes; requires a current authenticator code
+  app.post("/api/user/two-factor/backup-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+
+      if (!req.user.twoFactorEnabled || !req.user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifyUserTotpCode(req.user, data.code))) {
+        return res.status(400).json({
+          message: "Invalid verification code",
+          errors: [{ path: ["code"], message: "That code didn't match. Check your authenticator app and try again." }],
+        });
+      }
+
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateUser(req.user.id, { twoFactorBackupCodes: hashes });
+
+      res.json({ backupCodes: codes });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid verification code", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const data = twoFactorDisableSchema.parse(req.body);
+
+      if (await isTwoFactorRequiredForRole(req.user.role)) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!(await comparePasswords(data.password, req.user.password))) {
+        return res.status(400).json({
+          message: "Password is incorrect",
+          errors: [{ path: ["password"], message: "Password is incorrect" }],
+        });
+      }
+
+      await storage.updateUser(req.user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: null,
+        twoFactorLastUsedStep: null,
+      });
+      res.json({ message: "Two-factor authentication has been disabled" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: err.errors[0]?.message || "Invalid request", errors: err.errors });
+      }
+      next(err);
+    }
+  });
+
+  // The current user's active sessions across devices
+  app.get("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await listUserSessions(req.user.id, req.sessionID));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/user/sessions/:sessionId", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (isCurrentSession(req.params.sessionId, req.sessionID)) {
+        return res.status(400).json({ message: "Use Logout to end your current session" });
+      }
+
+      const revoked = await revokeUserSession(req.user.id, req.params.sessionId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Signs out every other device, keeping the current session
+  app.delete("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const revokedCount = await revokeAllUserSessions(req.user.id, req.sessionID);
+      res.json({ revokedCount });
+    } catch (err) {
+      next(err);
+    }
   });
 }
\ No newline at end of file
@@ -1,7 +1,15 @@
-import { eq, ne, and, inArray, count } from "drizzle-orm";
+import { eq, ne, and, or, gt, gte, lt, lte, ilike, inArray, isNull, count, asc, desc, sql, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
+  userInvites,
+  passwordResetTokens,
+  loginAttempts,
+  formSubmissionAttempts,
+  quarantinedSubmissions,
+  formDrafts,
+  auditLog,
+  emailLog,
   projects,
   projectGallery,
   blogCategories,
@@ -17,13 +25,35 @@ import {
   newsletterSubscribers,
   quoteRequests,
   quoteRequestAttachments,
+  quoteRequestActivity,
+  estimates,
   subcontractors,
   vendors,
   jobPostings,
+  jobApplications,
+  jobApplicationActivity,
+  jobAlertSubscriptions,
+  jobAlertQueue,
   teamMembers,
   siteSettings,
   type User,
   type InsertUser,
+  type UserInvite,
+  type InsertUserInvite,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type FormSubmissionAttempt,
+  type InsertFormSubmissionAttempt,
+  type QuarantinedSubmission,
+  type InsertQuarantinedSubmission,
+  type FormDraft,
+  type InsertFormDraft,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type EmailLogEntry,
+  type InsertEmailLogEntry,
   type Project,
   type InsertProject,
   type ProjectGallery,
@@ -50,18 +80,30 @@ import {
   type InsertQuoteRequest,
   type QuoteRequestAttachment,
   type InsertQuoteRequestAttachment,
+  type QuoteRequestActivity,
+  type InsertQuoteRequestActivity,
+  type Estimate,
+  type InsertEstimate,
   type Subcontractor,
   type InsertSubcontractor,
   type Vendor,
   type InsertVendor,
   type JobPosting,
+  type JobApplication,
+  type InsertJobApplication,
+  type JobApplicationActivity,
+  type InsertJobApplicationActivity,
+  type JobAlertSubscription,
+  type InsertJobAlertSubscription,
+  type JobAlertQueueEntry,
+  type InsertJobAlertQueueEntry,
   type InsertJobPosting,
   type TeamMember,
   type InsertTeamMember,
   type SiteSetting,
   type InsertSiteSetting,
 } from "../shared/schema";
-import { IStorage } from "./storage";
+import { IStorage, type AuditLogFilters, type EmailLogFilters } from "./storage";
 import { FileManager, extractUploadThingKeyFromUrl } from "./utils/fileManager";
 
 export class DBStorage implements IStorage {
@@ -93,6 +135,316 @@ export class DBStorage implements IStorage {
     return result[0];
   }
 
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const results = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return results[0];
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getLockedUsers(): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(gt(users.lockedUntil, new Date()))
+      .orderBy(desc(users.lockedUntil));
+  }
+
+  // User Invites
+  async getUserInvites(): Promise<UserInvite[]> {
+    return db.select().from(userInvites).orderBy(desc(userInvites.createdAt));
+  }
+
+  async getUserInviteByTokenHash(
+    tokenHash: string,
+  ): Promise<UserInvite | undefined> {
+    const results = await db
+      .select()
+      .from(userInvites)
+      .where(eq(userInvites.tokenHash, tokenHash));
+    return results[0];
+  }
+
+  async createUserInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const result = await db.insert(userInvites).values(invite).returning();
+    return result[0];
+  }
+
+  async markUserInviteAccepted(id: number): Promise<UserInvite | undefined> {
+    const result = await db
+      .update(userInvites)
+      .set({ acceptedAt: new Date() })
+      .where(eq(userInvites.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteUserInvite(id: number): Promise<boolean> {
+    const result = await db
+      .delete(userInvites)
+      .where(eq(userInvites.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Password Reset Tokens
+  async createPasswordResetToken(
+    token: InsertPasswordResetToken,
+  ): Promise<PasswordResetToken> {
+    const result = await db
+      .insert(passwordResetTokens)
+      .values(token)
+      .returning();
+    return result[0];
+  }
+
+  async getPasswordResetTokenByHash(
+    tokenHash: string,
+  ): Promise<PasswordResetToken | undefined> {
+    const results = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return results[0];
+  }
+
+  async markPasswordResetTokenUsed(
+    id: number,
+  ): Promise<PasswordResetToken | undefined> {
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(passwordResetTokens.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.userId, userId),
+          isNull(passwordResetTokens.usedAt),
+        ),
+      );
+  }
+
+  // Login Attempts
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const result = await db.insert(loginAttempts).values(attempt).returning();
+    return result[0];
+  }
+
+  async getLoginAttempts(limit: number): Promise<LoginAttempt[]> {
+    return db
+      .select()
+      .from(loginAttempts)
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+  }
+
+  async countLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number> {
+    const result = await db
+      .select({ count: count() })
+      .from(loginAttempts)
+      .where(
+        and(
+          eq(loginAttempts.ipAddress, ipAddress),
+          gte(loginAttempts.createdAt, since),
+        ),
+      );
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async countLoginAttemptsByUsername(username: string, since: Date): Promise<number> {
+    const result = await db
+      .select({ count: count() })
+      .from(loginAttempts)
+      .where(
+        and(
+          sql`lower(${loginAttempts.username}) = ${username.toLowerCase()}`,
+          gte(loginAttempts.createdAt, since),
+        ),
+      );
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async deleteLoginAttemptsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.createdAt, date))
+      .returning({ id: loginAttempts.id });
+    return result.length;
+  }
+
+  // Public form rate limiting
+  async createFormSubmissionAttempt(
+    attempt: InsertFormSubmissionAttempt,
+  ): Promise<FormSubmissionAttempt> {
+    const result = await db.insert(formSubmissionAttempts).values(attempt).returning();
+    return result[0];
+  }
+
+  async countFormSubmissionAttempts(form: string, ipAddress: string, since: Date): Promise<number> {
+    const result = await db
+      .select({ count: count() })
+      .from(formSubmissionAttempts)
+      .where(
+        and(
+          eq(formSubmissionAttempts.form, form),
+          eq(formSubmissionAttempts.ipAddress, ipAddress),
+          gte(formSubmissionAttempts.createdAt, since),
+        ),
+      );
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async deleteFormSubmissionAttemptsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(formSubmissionAttempts)
+      .where(lt(formSubmissionAttempts.createdAt, date))
+      .returning({ id: formSubmissionAttempts.id });
+    return result.length;
+  }
+
+  // Spam quarantine
+  async getQuarantinedSubmissions(): Promise<QuarantinedSubmission[]> {
+    return db
+      .select()
+      .from(quarantinedSubmissions)
+      .orderBy(desc(quarantinedSubmissions.createdAt));
+  }
+
+  async getQuarantinedSubmission(id: number): Promise<QuarantinedSubmission | undefined> {
+    const result = await db
+      .select()
+      .from(quarantinedSubmissions)
+      .where(eq(quarantinedSubmissions.id, id));
+    return result[0];
+  }
+
+  async createQuarantinedSubmission(
+    submission: InsertQuarantinedSubmission,
+  ): Promise<QuarantinedSubmission> {
+    const result = await db.insert(quarantinedSubmissions).values(submission).returning();
+    return result[0];
+  }
+
+  async deleteQuarantinedSubmission(id: number): Promise<boolean> {
+    const result = await db
+      .delete(quarantinedSubmissions)
+      .where(eq(quarantinedSubmissions.id, id))
+      .returning({ id: quarantinedSubmissions.id });
+    return result.length > 0;
+  }
+
+  async deleteQuarantinedSubmissionsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(quarantinedSubmissions)
+      .where(lt(quarantinedSubmissions.createdAt, date))
+      .returning({ id: quarantinedSubmissions.id });
+    return result.length;
+  }
+
+  // Saved public form drafts
+  async getFormDraftByTokenHash(tokenHash: string): Promise<FormDraft | undefined> {
+    const result = await db.select().from(formDrafts).where(eq(formDrafts.tokenHash, tokenHash));
+    return result[0];
+  }
+
+  async createFormDraft(draft: InsertFormDraft): Promise<FormDraft> {
+    const result = await db.insert(formDrafts).values(draft).returning();
+    return result[0];
+  }
+
+  async updateFormDraft(
+    id: number,
+    draft: Partial<Pick<FormDraft, "data" | "expiresAt">>,
+  ): Promise<FormDraft | undefined> {
+    const result = await db
+      .update(formDrafts)
+      .set({ ...draft, updatedAt: new Date() })
+      .where(eq(formDrafts.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFormDraft(id: number): Promise<boolean> {
+    const result = await db
+      .delete(formDrafts)
+      .where(eq(formDrafts.id, id))
+      .returning({ id: formDrafts.id });
+    return result.length > 0;
+  }
+
+  async deleteFormDraftsExpiredBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(formDrafts)
+      .where(lt(formDrafts.expiresAt, date))
+      .returning({ id: formDrafts.id });
+    return result.length;
+  }
+
+  // Audit Log
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const result = await db.insert(auditLog).values(entry).returning();
+    return result[0];
+  }
+
+  async getAuditLogEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLog.createdAt, filters.to));
+
+    const query = db
+      .select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt));
+    return filters.limit ? query.limit(filters.limit) : query;
+  }
+
+  // Email Log
+  async createEmailLogEntry(entry: InsertEmailLogEntry): Promise<EmailLogEntry> {
+    const result = await db.insert(emailLog).values(entry).returning();
+    return result[0];
+  }
+
+  async getEmailLogEntries(filters: EmailLogFilters): Promise<EmailLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(emailLog.status, filters.status));
+    if (filters.template) conditions.push(eq(emailLog.template, filters.template));
+    if (filters.recipient) conditions.push(ilike(emailLog.recipient, `%${filters.recipient}%`));
+
+    const query = db
+      .select()
+      .from(emailLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(emailLog.createdAt));
+    return filters.limit ? query.limit(filters.limit) : query;
+  }
+
+  async getEmailLogEntry(id: number): Promise<EmailLogEntry | undefined> {
+    const result = await db.select().from(emailLog).where(eq(emailLog.id, id));
+    return result[0];
+  }
+
   // Projects
   async getProjects(): Promise<Project[]> {
     return db.select().from(projects).orderBy(projects.createdAt);
@@ -260,6 +612,14 @@ export class DBStorage implements IStorage {
         .where(eq(blogPosts.image, imageUrl)),
     );
 
+    // Projects converted from a quote share the customer's attachment files
+    queries.push(
+      db
+        .select({ count: count() })
+        .from(quoteRequestAttachments)
+        .where(eq(quoteRequestAttachments.fileUrl, imageUrl)),
+    );
+
     // Execute all queries concurrently
     const results = await Promise.all(queries);
 
@@ -1142,6 +1502,16 @@ export class DBStorage implements IStorage {
     return request || undefined;
   }
 
+  async getQuoteRequestByTrackingTokenHash(
+    tokenHash: string,
+  ): Promise<QuoteRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(quoteRequests)
+      .where(eq(quoteRequests.trackingTokenHash, tokenHash));
+    return request || undefined;
+  }
+
   async createQuoteRequest(request: InsertQuoteRequest): Promise<QuoteRequest> {
     const [result] = await db.insert(quoteRequests).values(request).returning();
     return result;
@@ -1221,6 +1591,14 @@ export class DBStorage implements IStorage {
     return result.length > 0;
   }
 
+  async isQuoteRequestAttachmentFile(fileUrl: string): Promise<boolean> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(quoteRequestAttachments)
+      .where(eq(quoteRequestAttachments.fileUrl, fileUrl));
+    return result.count > 0;
+  }
+
   async deleteAllQuoteRequestAttachments(
     quoteRequestId: number,
   ): Promise<boolean> {
@@ -1231,6 +1609,66 @@ export class DBStorage implements IStorage {
     return true;
   }
 
+  // Quote Request Activity
+  async getQuoteRequestActivity(
+    quoteRequestId: number,
+  ): Promise<QuoteRequestActivity[]> {
+    return db
+      .select()
+      .from(quoteRequestActivity)
+      .where(eq(quoteRequestActivity.quoteRequestId, quoteRequestId))
+      .orderBy(asc(quoteRequestActivity.createdAt), asc(quoteRequestActivity.id));
+  }
+
+  async createQuoteRequestActivity(
+    activity: InsertQuoteRequestActivity,
+  ): Promise<QuoteRequestActivity> {
+    const [result] = await db
+      .insert(quoteRequestActivity)
+      .values(activity)
+      .returning();
+    return result;
+  }
+
+  // Estimates
+  async getEstimates(quoteRequestId: number): Promise<Estimate[]> {
+    return db
+      .select()
+      .from(estimates)
+      .where(eq(estimates.quoteRequestId, quoteRequestId))
+      .orderBy(desc(estimates.version));
+  }
+
+  async getEstimate(id: number): Promise<Estimate | undefined> {
+    const [result] = await db.select().from(estimates).where(eq(estimates.id, id));
+    return result || undefined;
+  }
+
+  async createEstimate(estimate: InsertEstimate): Promise<Estimate> {
+    const [result] = await db.insert(estimates).values(estimate).returning();
+    return result;
+  }
+
+  async updateEstimate(
+    id: number,
+    updates: Partial<InsertEstimate>,
+  ): Promise<Estimate | undefined> {
+    const [result] = await db
+      .update(estimates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(estimates.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteEstimate(id: number): Promise<boolean> {
+    const result = await db
+      .delete(estimates)
+      .where(eq(estimates.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
   // Subcontractors
   async getSubcontractors(): Promise<Subcontractor[]> {
     return db.select().from(subcontractors).orderBy(subcontractors.createdAt);
@@ -1366,7 +1804,7 @@ export class DBStorage implements IStorage {
     return db
       .select()
       .from(jobPostings)
-      .where(eq(jobPostings.active, true))
+      .where(this.isJobPostingLive(new Date()))
       .orderBy(jobPostings.createdAt);
   }
 
@@ -1374,10 +1812,19 @@ export class DBStorage implements IStorage {
     return db
       .select()
       .from(jobPostings)
-      .where(and(eq(jobPostings.active, true), eq(jobPostings.featured, true)))
+      .where(and(this.isJobPostingLive(new Date()), eq(jobPostings.featured, true)))
       .orderBy(jobPostings.createdAt);
   }
 
+  // Same rule as isJobPostingLive in shared/careers.ts
+  private isJobPostingLive(now: Date) {
+    return and(
+      eq(jobPostings.active, true),
+      or(isNull(jobPostings.publishAt), lte(jobPostings.publishAt, now)),
+      or(isNull(jobPostings.expiresAt), gt(jobPostings.expiresAt, now)),
+    );
+  }
+
   async getJobPosting(id: number): Promise<JobPosting | undefined> {
     const results = await db
       .select()
@@ -1393,7 +1840,7 @@ export class DBStorage implements IStorage {
 
   async updateJobPosting(
     id: number,
-    jobPostingUpdate: Partial<InsertJobPosting>,
+    jobPostingUpdate: Partial<Omit<JobPosting, "id" | "createdAt">>,
   ): Promise<JobPosting | undefined> {
     const result = await db
       .update(jobPostings)
@@ -1413,7 +1860,7 @@ export class DBStorage implements IStorage {
     // Then toggle the active status
     const result = await db
       .update(jobPostings)
-      .set({ active: !currentJob.active })
+      .set({ active: !currentJob.active, archivedAt: null })
       .where(eq(jobPostings.id, id))
       .returning();
     return result[0];
@@ -1443,6 +1890,152 @@ export class DBStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Job Applications
+  async getJobApplications(jobPostingId?: number): Promise<JobApplication[]> {
+    return db
+      .select()
+      .from(jobApplications)
+      .where(jobPostingId === undefined ? undefined : eq(jobApplications.jobPostingId, jobPostingId))
+      .orderBy(desc(jobApplications.createdAt));
+  }
+
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    const result = await db
+      .select()
+      .from(jobApplications)
+      .where(eq(jobApplications.id, id));
+    return result[0];
+  }
+
+  async createJobApplication(application: InsertJobApplication): Promise<JobApplication> {
+    const result = await db.insert(jobApplications).values(application).returning();
+    return result[0];
+  }
+
+  async updateJobApplication(
+    id: number,
+    application: Partial<Omit<JobApplication, "id" | "createdAt">>,
+  ): Promise<JobApplication | undefined> {
+    const result = await db
+      .update(jobApplications)
+      .set({ ...application, updatedAt: new Date() })
+      .where(eq(jobApplications.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteJobApplication(id: number): Promise<boolean> {
+    const result = await db
+      .delete(jobApplications)
+      .where(eq(jobApplications.id, id))
+      .returning({ id: jobApplications.id });
+    return result.length > 0;
+  }
+
+  // Job Application Activity
+  async getJobApplicationActivity(
+    jobApplicationId: number,
+  ): Promise<JobApplicationActivity[]> {
+    return db
+      .select()
+      .from(jobApplicationActivity)
+      .where(eq(jobApplicationActivity.jobApplicationId, jobApplicationId))
+      .orderBy(asc(jobApplicationActivity.createdAt), asc(jobApplicationActivity.id));
+  }
+
+  async createJobApplicationActivity(
+    activity: InsertJobApplicationActivity,
+  ): Promise<JobApplicationActivity> {
+    const result = await db
+      .insert(jobApplicationActivity)
+      .values(activity)
+      .returning();
+    return result[0];
+  }
+
+  // Job Alerts
+  async getJobAlertSubscriptions(): Promise<JobAlertSubscription[]> {
+    return db.select().from(jobAlertSubscriptions).orderBy(asc(jobAlertSubscriptions.id));
+  }
+
+  async getJobAlertSubscriptionByConfirmTokenHash(
+    tokenHash: string,
+  ): Promise<JobAlertSubscription | undefined> {
+    const result = await db
+      .select()
+      .from(jobAlertSubscriptions)
+      .where(eq(jobAlertSubscriptions.confirmTokenHash, tokenHash));
+    return result[0];
+  }
+
+  async getJobAlertSubscriptionByUnsubscribeToken(
+    token: string,
+  ): Promise<JobAlertSubscription | undefined> {
+    const result = await db
+      .select()
+      .from(jobAlertSubscriptions)
+      .where(eq(jobAlertSubscriptions.unsubscribeToken, token));
+    return result[0];
+  }
+
+  async createJobAlertSubscription(
+    subscription: InsertJobAlertSubscription,
+  ): Promise<JobAlertSubscription> {
+    const result = await db
+      .insert(jobAlertSubscriptions)
+      .values(subscription)
+      .returning();
+    return result[0];
+  }
+
+  async updateJobAlertSubscription(
+    id: number,
+    subscription: Partial<Pick<JobAlertSubscription, "confirmTokenHash" | "confirmedAt">>,
+  ): Promise<JobAlertSubscription | undefined> {
+    const result = await db
+      .update(jobAlertSubscriptions)
+      .set(subscription)
+      .where(eq(jobAlertSubscriptions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteJobAlertSubscription(id: number): Promise<boolean> {
+    const result = await db
+      .delete(jobAlertSubscriptions)
+      .where(eq(jobAlertSubscriptions.id, id))
+      .returning({ id: jobAlertSubscriptions.id });
+    return result.length > 0;
+  }
+
+  async deleteUnconfirmedJobAlertSubscriptionsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(jobAlertSubscriptions)
+      .where(and(isNull(jobAlertSubscriptions.confirmedAt), lt(jobAlertSubscriptions.createdAt, date)))
+      .returning({ id: jobAlertSubscriptions.id });
+    return result.length;
+  }
+
+  async getJobAlertQueue(): Promise<JobAlertQueueEntry[]> {
+    return db.select().from(jobAlertQueue).orderBy(asc(jobAlertQueue.id));
+  }
+
+  async createJobAlertQueueEntries(
+    entries: InsertJobAlertQueueEntry[],
+  ): Promise<JobAlertQueueEntry[]> {
+    if (entries.length === 0) return [];
+    return db.insert(jobAlertQueue).values(entries).returning();
+  }
+
+  async deleteJobAlertQueueEntries(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await db
+      .delete(jobAlertQueue)
+      .where(inArray(jobAlertQueue.id, ids))
+      .returning({ id: jobAlertQueue.id });
+    return result.length;
+  }
+
   // Team Members
   async getTeamMembers(): Promise<TeamMember[]> {
     try {
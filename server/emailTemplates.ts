@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import {
+  EDITABLE_MAIL_TEMPLATES,
+  MAIL_TEMPLATES,
+  type EditableMailTemplateName,
+  type MailTemplate,
+  type MailTemplateName,
+} from "./services/mailTemplates";
+
+/**
+ * An editable template as shown in the admin template editor
+ */
+export interface EditableMailTemplate extends MailTemplate {
+  name: EditableMailTemplateName;
+  label: string;
+  description: string;
+  placeholders: string[];
+  // False while the built-in default is in use
+  customized: boolean;
+}
+
+// Site setting key holding an admin's override of a template
+export function mailTemplateSettingKey(name: MailTemplateName) {
+  return `email_template_${name}`;
+}
+
+function parseOverride(value: string | undefined): MailTemplate | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (
+      typeof parsed?.subject !== "string" ||
+      typeof parsed?.text !== "string" ||
+      typeof parsed?.html !== "string"
+    ) {
+      return null;
+    }
+    return { subject: parsed.subject, text: parsed.text, html: parsed.html };
+  } catch {
+    return null;
+  }
+}
+
+async function getOverride(name: MailTemplateName): Promise<MailTemplate | null> {
+  const setting = await storage.getSiteSettingByKey(mailTemplateSettingKey(name));
+  return parseOverride(setting?.value);
+}
+
+/**
+ * The template to send: the admin's override when there is a valid one, otherwise the default
+ */
+export async function getMailTemplate(name: MailTemplateName): Promise<MailTemplate> {
+  if (name in EDITABLE_MAIL_TEMPLATES) {
+    const override = await getOverride(name);
+    if (override) return override;
+  }
+  return MAIL_TEMPLATES[name];
+}
+
+export async function getEditableMailTemplate(name: EditableMailTemplateName): Promise<EditableMailTemplate> {
+  const info = EDITABLE_MAIL_TEMPLATES[name];
+  const override = await getOverride(name);
+  return {
+    name,
+    label: info.label,
+    description: info.description,
+    placeholders: info.placeholders,
+    ...(override ?? MAIL_TEMPLATES[name]),
+    customized: override !== null,
+  };
+}
+
+export async function getEditableMailTemplates(): Promise<EditableMailTemplate[]> {
+  const names = Object.keys(EDITABLE_MAIL_TEMPLATES) as EditableMailTemplateName[];
+  return Promise.all(names.map((name) => getEditableMailTemplate(name)));
+}
+
+export async function setMailTemplateOverride(
+  name: EditableMailTemplateName,
+  template: MailTemplate,
+): Promise<EditableMailTemplate> {
+  const key = mailTemplateSettingKey(name);
+  const value = JSON.stringify({ subject: template.subject, text: template.text, html: template.html });
+  const existing = await storage.getSiteSettingByKey(key);
+  if (existing) {
+    await storage.updateSiteSettingByKey(key, value);
+  } else {
+    await storage.createSiteSetting({
+      key,
+      value,
+      category: "email_templates",
+      label: `Email template: ${EDITABLE_MAIL_TEMPLATES[name].label}`,
+      description: "Customised subject and bodies replacing the built-in email template",
+      type: "json",
+    });
+  }
+  return getEditableMailTemplate(name);
+}
+
+/**
+ * Drop an admin's override so the built-in default is sent again
+ */
+export async function resetMailTemplate(name: EditableMailTemplateName): Promise<EditableMailTemplate> {
+  const existing = await storage.getSiteSettingByKey(mailTemplateSettingKey(name));
+  if (existing) {
+    await storage.deleteSiteSetting(existing.id);
+  }
+  return getEditableMailTemplate(name);
+}
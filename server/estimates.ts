@@ -0,0 +1,137 @@
+import type { Request } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { mailService } from "./services/mailService";
+import { renderProposalPdf, proposalFileName } from "./services/proposalPdf";
+import { recordQuoteActivity } from "./quotePipeline";
+import { formatReferenceNumber } from "@shared/submissions";
+import {
+  calculateEstimateTotals,
+  estimateLineItemSchema,
+  formatCents,
+  formatProposalNumber,
+  MAX_ESTIMATE_TOTAL_CENTS,
+} from "@shared/estimates";
+import type { Estimate, QuoteRequest } from "@shared/schema";
+
+// Fields an estimator edits; totals are always recomputed from the line items
+const estimateFieldsSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  scope: z.string().trim().max(20000).nullish(),
+  terms: z.string().trim().max(20000).nullish(),
+  validUntil: z.coerce.date().nullish(),
+  lineItems: z.array(estimateLineItemSchema).max(500),
+  markupBasisPoints: z.number().int().min(0).max(10_000),
+  taxBasisPoints: z.number().int().min(0).max(5_000),
+});
+
+export type EstimateInput = z.infer<typeof estimateFieldsSchema>;
+
+const isTotalWithinLimit = (input: EstimateInput) =>
+  calculateEstimateTotals(input.lineItems, input.markupBasisPoints, input.taxBasisPoints).totalCents <=
+  MAX_ESTIMATE_TOTAL_CENTS;
+
+const TOTAL_LIMIT_ERROR = {
+  message: `The estimate total can't exceed ${formatCents(MAX_ESTIMATE_TOTAL_CENTS)}`,
+  path: ["lineItems"],
+};
+
+export const estimateInputSchema = estimateFieldsSchema.refine(isTotalWithinLimit, TOTAL_LIMIT_ERROR);
+
+export const newEstimateInputSchema = estimateFieldsSchema
+  .extend({ quoteRequestId: z.number().int().positive() })
+  .refine(isTotalWithinLimit, TOTAL_LIMIT_ERROR);
+
+export function withEstimateTotals(input: EstimateInput) {
+  const { subtotalCents, markupCents, taxCents, totalCents } = calculateEstimateTotals(
+    input.lineItems,
+    input.markupBasisPoints,
+    input.taxBasisPoints,
+  );
+  return {
+    ...input,
+    scope: input.scope ?? null,
+    terms: input.terms ?? null,
+    validUntil: input.validUntil ?? null,
+    subtotalCents,
+    markupCents,
+    taxCents,
+    totalCents,
+  };
+}
+
+// Postgres unique_violation: another save took the same version number first
+const isUniqueViolation = (error: unknown) => (error as { code?: string } | null)?.code === "23505";
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Save the input as the next version of the quote's estimate. Versions are
+ * unique per quote, so a save that loses a race for a number retries with the next one.
+ */
+export async function createEstimateVersion(
+  req: Request,
+  quoteRequestId: number,
+  input: EstimateInput,
+): Promise<Estimate> {
+  for (let attempt = 1; ; attempt++) {
+    const existing = await storage.getEstimates(quoteRequestId);
+    const version = existing.reduce((max, estimate) => Math.max(max, estimate.version), 0) + 1;
+
+    try {
+      return await storage.createEstimate({
+        quoteRequestId,
+        version,
+        status: "draft",
+        ...withEstimateTotals(input),
+        createdById: req.user?.id ?? null,
+        createdByUsername: req.user?.username ?? "unknown",
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Email the proposal PDF to the client, then lock the version by marking it sent
+ */
+export async function sendProposal(
+  req: Request,
+  estimate: Estimate,
+  quote: QuoteRequest,
+  options: { to: string; message?: string },
+): Promise<Estimate> {
+  const sentAt = new Date();
+  // Render as it will be recorded, so the PDF shows the date it was sent
+  const pdf = await renderProposalPdf({ ...estimate, status: "sent", sentAt }, quote);
+  const referenceNumber = formatReferenceNumber("quote_request", quote.id);
+  const proposalNumber = formatProposalNumber(referenceNumber, estimate.version);
+
+  await mailService.sendTemplate(
+    "estimate_proposal",
+    options.to,
+    {
+      name: quote.name,
+      title: estimate.title,
+      proposalNumber,
+      referenceNumber,
+      total: formatCents(estimate.totalCents),
+      validUntilText: estimate.validUntil
+        ? `Valid until ${estimate.validUntil.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}`
+        : "",
+      message: options.message ?? "",
+    },
+    {},
+    [{ filename: proposalFileName(estimate), content: pdf, contentType: "application/pdf" }],
+  );
+
+  const updated = await storage.updateEstimate(estimate.id, { status: "sent", sentAt, sentTo: options.to });
+  await recordQuoteActivity(req, quote.id, {
+    type: "estimate_sent",
+    body: options.message || null,
+    toValue: `${proposalNumber} (${formatCents(estimate.totalCents)}) to ${options.to}`,
+  });
+
+  return updated ?? estimate;
+}
@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { buildAppUrl, generateToken, hashToken } from "./auth";
+import { mailService } from "./services/mailService";
+import {
+  DRAFTABLE_FORM_LABELS,
+  DRAFTABLE_FORM_PATHS,
+  DRAFT_QUERY_PARAM,
+  DRAFT_TTL_DAYS,
+  isDraftableForm,
+  type DraftableForm,
+  type FormDraftView,
+} from "@shared/drafts";
+import type { FormDraft } from "@shared/schema";
+
+const DRAFT_TTL_MS = DRAFT_TTL_DAYS * 24 * 3600000;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+const nextExpiry = () => new Date(Date.now() + DRAFT_TTL_MS);
+
+function buildResumeUrl(form: DraftableForm, token: string) {
+  const path = DRAFTABLE_FORM_PATHS[form];
+  const separator = path.includes("?") ? "&" : "?";
+  return buildAppUrl(`${path}${separator}${DRAFT_QUERY_PARAM}=${token}`);
+}
+
+/**
+ * Save a draft on the server and email its magic link to the visitor.
+ * Returns the token so the browser can keep the server copy up to date.
+ */
+export async function createDraftWithLink(
+  draft: { form: DraftableForm; email: string; data: Record<string, unknown> },
+) {
+  const { token, tokenHash } = generateToken();
+  const saved = await storage.createFormDraft({ ...draft, tokenHash, expiresAt: nextExpiry() });
+
+  const resumeUrl = buildResumeUrl(draft.form, token);
+  try {
+    // The body holds a live link to the draft, so it is kept out of the email log
+    await mailService.sendTemplate(
+      "form_draft_saved",
+      draft.email,
+      {
+        formLabel: DRAFTABLE_FORM_LABELS[draft.form],
+        resumeUrl,
+        expiresOn: saved.expiresAt.toLocaleDateString("en-US", { dateStyle: "long" }),
+      },
+      { storeBody: false },
+    );
+  } catch (error) {
+    // Logged by the mail service; the draft is still saved in this browser
+  }
+
+  return { token, draft: saved };
+}
+
+// Expired drafts are treated as missing even before the cleanup job removes them
+export async function findDraft(token: string): Promise<FormDraft | undefined> {
+  if (!TOKEN_PATTERN.test(token)) return undefined;
+  const draft = await storage.getFormDraftByTokenHash(hashToken(token));
+  if (!draft || draft.expiresAt < new Date()) return undefined;
+  return draft;
+}
+
+// Each save keeps the draft for another DRAFT_TTL_DAYS
+export async function saveDraft(draft: FormDraft, data: Record<string, unknown>) {
+  return storage.updateFormDraft(draft.id, { data, expiresAt: nextExpiry() });
+}
+
+export function toDraftView(draft: FormDraft): FormDraftView | undefined {
+  if (!isDraftableForm(draft.form)) return undefined;
+  return {
+    form: draft.form,
+    email: draft.email,
+    data: draft.data,
+    expiresAt: draft.expiresAt.toISOString(),
+  };
+}
+
+export async function cleanupExpiredDrafts() {
+  return storage.deleteFormDraftsExpiredBefore(new Date());
+}
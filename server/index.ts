@@ -3,19 +3,9 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { createUploadthing } from "uploadthing/server";
 import { uploadRouter, createUploadthingExpressHandler } from "./uploadthing";
-import { setupAuth } from "./auth";
+import { setupAuth, hashPassword, APP_URL } from "./auth";
 import cookieParser from "cookie-parser";
 import { storage } from "./storage";
-import { scrypt, randomBytes } from "crypto";
-import { promisify } from "util";
-
-const scryptAsync = promisify(scrypt);
-
-async function hashPassword(password: string): Promise<string> {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
-}
 
 async function seedAdminUser() {
   try {
@@ -57,6 +47,11 @@ if (!process.env.UPLOADTHING_SECRET || !process.env.UPLOADTHING_APP_ID) {
   });
 }
 
+if (!APP_URL) {
+  console.warn("Warning: APP_URL is not set. Emails and admin actions that include links to the site");
+  console.warn("(invites, password resets, quote tracking, saved drafts, job alerts, staff alerts) will fail.");
+}
+
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -0,0 +1,196 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { buildAppUrl, generateToken, hashToken } from "./auth";
+import { mailService } from "./services/mailService";
+import { escapeHtml } from "./services/mailTemplates";
+import {
+  JOB_ALERTS_PATH,
+  JOB_ALERT_CONFIRM_TTL_DAYS,
+  describeJobAlert,
+  isJobPostingLive,
+  matchesJobAlert,
+} from "@shared/careers";
+import type {
+  JobAlertSubscription,
+  JobPosting,
+  PublicJobAlertSubscription,
+} from "@shared/schema";
+
+const CONFIRM_TTL_MS = JOB_ALERT_CONFIRM_TTL_DAYS * 24 * 3600000;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+const buildUnsubscribeUrl = (subscription: JobAlertSubscription) =>
+  buildAppUrl(`${JOB_ALERTS_PATH}?unsubscribe=${subscription.unsubscribeToken}`);
+
+// Empty filters are stored as null so they match everything
+const toFilters = (data: PublicJobAlertSubscription) => ({
+  department: data.department || null,
+  location: data.location || null,
+  type: data.type || null,
+});
+
+async function sendConfirmation(subscription: JobAlertSubscription, token: string) {
+  try {
+    // The body holds a live confirmation link, so it is kept out of the email log
+    await mailService.sendTemplate(
+      "job_alert_confirm",
+      subscription.email,
+      {
+        filterSummary: describeJobAlert(subscription),
+        confirmUrl: buildAppUrl(`${JOB_ALERTS_PATH}?confirm=${token}`),
+        expiresIn: `${JOB_ALERT_CONFIRM_TTL_DAYS} days`,
+      },
+      { storeBody: false },
+    );
+  } catch (error) {
+    // Logged by the mail service; the visitor can sign up again for a new link
+  }
+}
+
+/**
+ * Start a subscription and email its confirmation link (double opt-in).
+ * Signing up again with the same filters sends a fresh link instead of adding
+ * a duplicate; an already confirmed subscription is left as it is, and the
+ * visitor sees the same response either way.
+ */
+export async function subscribeToJobAlerts(data: PublicJobAlertSubscription) {
+  const filters = toFilters(data);
+  const existing = (await storage.getJobAlertSubscriptions()).find(
+    (subscription) =>
+      subscription.email === data.email &&
+      subscription.department === filters.department &&
+      subscription.location === filters.location &&
+      subscription.type === filters.type,
+  );
+  if (existing?.confirmedAt) return;
+  // Replaced rather than updated so the new link gets the full confirmation window
+  if (existing) await storage.deleteJobAlertSubscription(existing.id);
+
+  const { token, tokenHash } = generateToken();
+  const subscription = await storage.createJobAlertSubscription({
+    email: data.email,
+    ...filters,
+    confirmTokenHash: tokenHash,
+    unsubscribeToken: randomBytes(32).toString("hex"),
+  });
+
+  await sendConfirmation(subscription, token);
+}
+
+// Confirmation links stop working after JOB_ALERT_CONFIRM_TTL_DAYS, before the cleanup job removes them
+export async function confirmJobAlertSubscription(token: string) {
+  if (!TOKEN_PATTERN.test(token)) return undefined;
+  const subscription = await storage.getJobAlertSubscriptionByConfirmTokenHash(hashToken(token));
+  if (!subscription || subscription.createdAt.getTime() + CONFIRM_TTL_MS < Date.now()) {
+    return undefined;
+  }
+
+  return storage.updateJobAlertSubscription(subscription.id, {
+    confirmTokenHash: null,
+    confirmedAt: new Date(),
+  });
+}
+
+export async function unsubscribeFromJobAlerts(token: string) {
+  if (!TOKEN_PATTERN.test(token)) return false;
+  const subscription = await storage.getJobAlertSubscriptionByUnsubscribeToken(token);
+  return subscription ? storage.deleteJobAlertSubscription(subscription.id) : false;
+}
+
+/**
+ * Queue a newly opened posting for the next digest of every confirmed
+ * subscriber it matches. Postings that aren't live yet are picked up by
+ * queueScheduledJobAlerts once their publish date arrives; each posting is
+ * only ever announced once.
+ */
+export async function queueJobAlerts(job: JobPosting, now: Date = new Date()): Promise<number> {
+  if (job.alertsQueuedAt || !isJobPostingLive(job, now)) return 0;
+
+  const subscribers = (await storage.getJobAlertSubscriptions()).filter(
+    (subscription) => subscription.confirmedAt && matchesJobAlert(subscription, job),
+  );
+  await storage.createJobAlertQueueEntries(
+    subscribers.map((subscription) => ({ subscriptionId: subscription.id, jobPostingId: job.id })),
+  );
+  await storage.updateJobPosting(job.id, { alertsQueuedAt: now });
+  return subscribers.length;
+}
+
+// Scheduled postings whose publish date has arrived
+export async function queueScheduledJobAlerts(now: Date = new Date()): Promise<number> {
+  const published = (await storage.getJobPostings()).filter(
+    (job) => job.publishAt && !job.alertsQueuedAt && isJobPostingLive(job, now),
+  );
+
+  let queued = 0;
+  for (const job of published) {
+    queued += await queueJobAlerts(job, now);
+  }
+  return queued;
+}
+
+/**
+ * Send each subscriber one email listing everything queued for them.
+ * Openings that have closed since they were queued are left out.
+ */
+export async function sendJobAlertDigests(now: Date = new Date()): Promise<number> {
+  const queue = await storage.getJobAlertQueue();
+  if (queue.length === 0) return 0;
+
+  const subscriptions = new Map(
+    (await storage.getJobAlertSubscriptions()).map((subscription) => [subscription.id, subscription]),
+  );
+  const jobs = new Map((await storage.getJobPostings()).map((job) => [job.id, job]));
+
+  const bySubscription = new Map<number, typeof queue>();
+  for (const entry of queue) {
+    bySubscription.set(entry.subscriptionId, [...(bySubscription.get(entry.subscriptionId) ?? []), entry]);
+  }
+
+  let sent = 0;
+  for (const [subscriptionId, entries] of Array.from(bySubscription)) {
+    const subscription = subscriptions.get(subscriptionId);
+    const openJobs = entries
+      .map((entry) => jobs.get(entry.jobPostingId))
+      .filter((job): job is JobPosting => !!job && isJobPostingLive(job, now));
+
+    if (subscription && openJobs.length > 0) {
+      const jobUrl = (job: JobPosting) => buildAppUrl(`/careers/${job.id}`);
+      try {
+        // The body holds the subscriber's unsubscribe link, so it is kept out of the email log
+        await mailService.sendTemplate(
+          "job_alert_digest",
+          subscription.email,
+          {
+            jobCount: openJobs.length,
+            filterSummary: describeJobAlert(subscription),
+            jobsText: openJobs
+              .map((job) => `${job.title} - ${job.department}, ${job.location}\n${jobUrl(job)}`)
+              .join("\n\n"),
+            jobsHtml: `<ul>${openJobs
+              .map(
+                (job) =>
+                  `<li><a href="${escapeHtml(jobUrl(job))}">${escapeHtml(job.title)}</a><br>${escapeHtml(
+                    `${job.department}, ${job.location}`,
+                  )}</li>`,
+              )
+              .join("")}</ul>`,
+            unsubscribeUrl: buildUnsubscribeUrl(subscription),
+          },
+          { storeBody: false },
+        );
+        sent++;
+      } catch (error) {
+        // Logged by the mail service; keep the entries for the next run
+        continue;
+      }
+    }
+    await storage.deleteJobAlertQueueEntries(entries.map((entry) => entry.id));
+  }
+  return sent;
+}
+
+export async function cleanupUnconfirmedJobAlerts() {
+  return storage.deleteUnconfirmedJobAlertSubscriptionsBefore(new Date(Date.now() - CONFIRM_TTL_MS));
+}
@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { buildAppUrl } from "./auth";
+import { mailService } from "./services/mailService";
+import { renderFieldList } from "./services/mailTemplates";
+import {
+  DEFAULT_JOB_EXPIRY_SETTINGS,
+  type JobExpirySettings,
+} from "@shared/careers";
+
+const SETTING_KEY = "job_posting_expiry";
+
+const DAY_MS = 24 * 3600000;
+
+function parseSetting(value: string | undefined): JobExpirySettings {
+  if (!value) return DEFAULT_JOB_EXPIRY_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(value);
+    return {
+      alertsEnabled: parsed?.alertsEnabled === true,
+      daysBefore:
+        typeof parsed?.daysBefore === "number" && parsed.daysBefore > 0
+          ? parsed.daysBefore
+          : DEFAULT_JOB_EXPIRY_SETTINGS.daysBefore,
+      recipients: Array.isArray(parsed?.recipients)
+        ? parsed.recipients.filter((recipient: unknown) => typeof recipient === "string")
+        : [],
+    };
+  } catch {
+    return DEFAULT_JOB_EXPIRY_SETTINGS;
+  }
+}
+
+export async function getJobExpirySettings(): Promise<JobExpirySettings> {
+  const setting = await storage.getSiteSettingByKey(SETTING_KEY);
+  return parseSetting(setting?.value);
+}
+
+export async function setJobExpirySettings(settings: JobExpirySettings): Promise<JobExpirySettings> {
+  const value = JSON.stringify(settings);
+  const existing = await storage.getSiteSettingByKey(SETTING_KEY);
+  if (existing) {
+    await storage.updateSiteSettingByKey(SETTING_KEY, value);
+  } else {
+    await storage.createSiteSetting({
+      key: SETTING_KEY,
+      value,
+      category: "notifications",
+      label: "Job posting expiry alerts",
+      description: "Who is warned before job postings expire, and how many days ahead",
+      type: "json",
+    });
+  }
+  return getJobExpirySettings();
+}
+
+/**
+ * Deactivate postings whose expiry date has passed. They are already hidden
+ * from the public pages; archiving takes them off the active list in the
+ * admin too.
+ */
+export async function archiveExpiredJobPostings(now: Date = new Date()): Promise<number> {
+  const expired = (await storage.getJobPostings()).filter(
+    (job) => job.active && job.expiresAt && job.expiresAt <= now,
+  );
+
+  for (const job of expired) {
+    await storage.updateJobPosting(job.id, { active: false, archivedAt: now });
+  }
+  return expired.length;
+}
+
+/**
+ * Email the configured recipients about active postings that expire within
+ * the next daysBefore days. Each expiry date is alerted once; moving it
+ * resets the alert.
+ */
+export async function sendJobExpiryAlerts(now: Date = new Date()): Promise<number> {
+  const settings = await getJobExpirySettings();
+  if (!settings.alertsEnabled || settings.recipients.length === 0) return 0;
+
+  const alertFrom = new Date(now.getTime() + settings.daysBefore * DAY_MS);
+  const expiring = (await storage.getJobPostings()).filter(
+    (job) => job.active && !job.expiryAlertedAt && job.expiresAt && job.expiresAt > now && job.expiresAt <= alertFrom,
+  );
+
+  for (const job of expiring) {
+    const expiresOn = job.expiresAt!.toLocaleString("en-US", { dateStyle: "long", timeStyle: "short" });
+    const applications = await storage.getJobApplications(job.id);
+    const summary = renderFieldList([
+      ["Position", job.title],
+      ["Department", job.department],
+      ["Location", job.location],
+      ["Expires", expiresOn],
+      ["Applications so far", applications.length],
+    ]);
+    const variables = {
+      title: `The job posting "${job.title}" expires on ${expiresOn}`,
+      summaryText: summary.text,
+      summaryHtml: summary.html,
+      adminUrl: buildAppUrl(`/admin/careers?edit=${job.id}`),
+    };
+
+    await Promise.allSettled(
+      settings.recipients.map((recipient) =>
+        mailService.sendTemplate("staff_alert", recipient, variables),
+      ),
+    );
+    await storage.updateJobPosting(job.id, { expiryAlertedAt: now });
+  }
+  return expiring.length;
+}
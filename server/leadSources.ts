@@ -0,0 +1,59 @@
+import { storage } from "./storage";
+import {
+  LEAD_FORMS,
+  describeLeadSource,
+  type LeadAttribution,
+  type LeadForm,
+  type LeadSourceBreakdown,
+  type LeadSourceRow,
+} from "@shared/attribution";
+
+interface AttributedRecord {
+  attribution: LeadAttribution | null;
+  createdAt: Date | null;
+}
+
+const LOADERS: Record<LeadForm, () => Promise<AttributedRecord[]>> = {
+  quote_request: () => storage.getQuoteRequests(),
+  contact_message: () => storage.getMessages(),
+  newsletter_subscriber: () => storage.getNewsletterSubscribers(),
+  subcontractor_application: () => storage.getSubcontractors(),
+  vendor_application: () => storage.getVendors(),
+};
+
+/**
+ * Submissions since a date per "source / medium", for the given forms, plus
+ * the campaigns that produced quote requests
+ */
+export async function getLeadSourceBreakdown(forms: LeadForm[], since: Date): Promise<LeadSourceBreakdown> {
+  const included = LEAD_FORMS.filter((form) => forms.includes(form));
+  const rows = new Map<string, LeadSourceRow>();
+  const campaigns = new Map<string, { campaign: string; source: string; quoteRequests: number }>();
+
+  for (const form of included) {
+    const records = (await LOADERS[form]()).filter((record) => record.createdAt && record.createdAt >= since);
+
+    for (const record of records) {
+      const source = describeLeadSource(record.attribution);
+      const row = rows.get(source) ?? { source, counts: {}, total: 0 };
+      row.counts[form] = (row.counts[form] ?? 0) + 1;
+      row.total++;
+      rows.set(source, row);
+
+      const campaign = record.attribution?.utmCampaign;
+      if (form === "quote_request" && campaign) {
+        const key = `${campaign}\n${source}`;
+        const entry = campaigns.get(key) ?? { campaign, source, quoteRequests: 0 };
+        entry.quoteRequests++;
+        campaigns.set(key, entry);
+      }
+    }
+  }
+
+  return {
+    since: since.toISOString(),
+    forms: included,
+    sources: Array.from(rows.values()).sort((a, b) => b.total - a.total || a.source.localeCompare(b.source)),
+    campaigns: Array.from(campaigns.values()).sort((a, b) => b.quoteRequests - a.quoteRequests),
+  };
+}
@@ -0,0 +1,103 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { User as SelectUser } from "@shared/schema";
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_ATTEMPTS_PER_IP = 20;
+const MAX_ATTEMPTS_PER_USERNAME = 5;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+const ATTEMPT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+export type LoginFailureReason =
+  | "invalid_credentials"
+  | "account_disabled"
+  | "invalid_two_factor"
+  | "throttled";
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; message: string };
+
+function getClientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function blocked(retryAfterMs: number): LoginThrottleResult {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return {
+    allowed: false,
+    retryAfterSeconds,
+    message: `Too many failed sign-in attempts. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+  };
+}
+
+// Checked before the password is verified so a locked account can't be probed
+export async function checkLoginAllowed(
+  req: Request,
+  username: string,
+): Promise<LoginThrottleResult> {
+  const since = new Date(Date.now() - ATTEMPT_WINDOW_MS);
+
+  const ipAddress = getClientIp(req);
+  if (ipAddress && (await storage.countLoginAttemptsByIp(ipAddress, since)) >= MAX_ATTEMPTS_PER_IP) {
+    return blocked(ATTEMPT_WINDOW_MS);
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (user) {
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      return blocked(user.lockedUntil.getTime() - Date.now());
+    }
+    return { allowed: true };
+  }
+
+  // Unknown usernames get the same limit so lockouts don't reveal which accounts exist
+  if ((await storage.countLoginAttemptsByUsername(username, since)) >= MAX_ATTEMPTS_PER_USERNAME) {
+    return blocked(ATTEMPT_WINDOW_MS);
+  }
+  return { allowed: true };
+}
+
+// Logs the failure and locks the account once it reaches the consecutive failure limit
+export async function recordFailedLogin(
+  req: Request,
+  username: string,
+  reason: LoginFailureReason,
+  user?: SelectUser,
+) {
+  await storage.createLoginAttempt({
+    username,
+    userId: user?.id ?? null,
+    ipAddress: getClientIp(req),
+    userAgent: req.get("user-agent") || null,
+    reason,
+  });
+
+  if (!user || reason === "throttled") return;
+
+  const failedLoginCount = user.failedLoginCount + 1;
+  if (failedLoginCount >= MAX_ATTEMPTS_PER_USERNAME) {
+    await storage.updateUser(user.id, {
+      failedLoginCount: 0,
+      lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS),
+    });
+    console.warn(`Account "${user.username}" locked after ${failedLoginCount} failed sign-in attempts`);
+  } else {
+    await storage.updateUser(user.id, { failedLoginCount });
+  }
+}
+
+export async function recordSuccessfulLogin(user: SelectUser) {
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+  }
+}
+
+export async function unlockUser(userId: number) {
+  return storage.updateUser(userId, { failedLoginCount: 0, lockedUntil: null });
+}
+
+export async function cleanupOldLoginAttempts() {
+  return storage.deleteLoginAttemptsBefore(new Date(Date.now() - ATTEMPT_RETENTION_MS));
+}
@@ -0,0 +1,215 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  uploadedFileAttachmentSchema,
+  insertMessageSchema,
+  insertNewsletterSubscriberSchema,
+  insertSubcontractorSchema,
+  insertVendorSchema,
+  publicJobApplicationSchema,
+  publicTestimonialSchema,
+  quoteRequestWithAttachmentsSchema,
+  type InsertMessage,
+  type InsertNewsletterSubscriber,
+  type InsertSubcontractor,
+  type InsertVendor,
+  type NewsletterSubscriber,
+  type PublicJobApplication,
+  type PublicTestimonial,
+  type QuarantinedSubmission,
+} from "@shared/schema";
+import type { SpamProtectedForm } from "@shared/spam";
+import { notifyStaff } from "./staffAlerts";
+import { sendAcknowledgement } from "./acknowledgements";
+import {
+  summarizeContactMessage,
+  summarizeJobApplication,
+  summarizeQuoteRequest,
+  summarizeSubcontractorApplication,
+  summarizeVendorApplication,
+  summarizeTestimonial,
+} from "./submissionSummaries";
+import { issueTrackingLink } from "./quoteTracking";
+import { getQuoteCostRates } from "./quoteCostRates";
+import { calculateBallpark } from "@shared/quoteWizard";
+
+// Saving a public form submission and letting staff and the submitter know.
+// Used by the public routes and when staff release a quarantined submission.
+
+export async function acceptContactMessage(data: InsertMessage) {
+  const message = await storage.createMessage(data);
+  const submission = summarizeContactMessage(message);
+  notifyStaff(submission);
+  sendAcknowledgement(submission);
+  return message;
+}
+
+export async function acceptTestimonial(data: PublicTestimonial) {
+  const testimonial = await storage.createTestimonial(data);
+  const submission = summarizeTestimonial(testimonial);
+  notifyStaff(submission);
+  sendAcknowledgement(submission);
+  return testimonial;
+}
+
+export type NewsletterSubscribeResult =
+  | { status: "subscribed" | "resubscribed"; subscriber: NewsletterSubscriber | undefined }
+  | { status: "already_subscribed" };
+
+export async function acceptNewsletterSubscription(
+  data: InsertNewsletterSubscriber,
+): Promise<NewsletterSubscribeResult> {
+  const existingSubscriber = await storage.getNewsletterSubscriberByEmail(data.email);
+  if (existingSubscriber) {
+    if (existingSubscriber.subscribed) return { status: "already_subscribed" };
+
+    // Previously unsubscribed, so resubscribe them
+    const subscriber = await storage.updateNewsletterSubscriberStatus(existingSubscriber.id, true);
+    return { status: "resubscribed", subscriber };
+  }
+
+  const subscriber = await storage.createNewsletterSubscriber(data);
+  return { status: "subscribed", subscriber };
+}
+
+export async function acceptQuoteRequest(
+  data: z.infer<typeof quoteRequestWithAttachmentsSchema>,
+) {
+  const { attachments, ...quoteData } = data;
+  let quote = await storage.createQuoteRequest(quoteData);
+  console.log(`[QUOTE REQUEST] Created quote request with ID: ${quote.id}`);
+
+  // Priced on the server so the stored range matches what the wizard showed, whatever the client sent.
+  // The request is already saved by now, so a failure here must not fail the submission.
+  try {
+    const ballpark = calculateBallpark(quote.projectType, quote.details, await getQuoteCostRates());
+    if (ballpark) {
+      quote =
+        (await storage.updateQuoteRequest(quote.id, {
+          ballparkLowCents: ballpark.lowCents,
+          ballparkHighCents: ballpark.highCents,
+        })) ?? quote;
+    }
+  } catch (error) {
+    console.error(`[QUOTE REQUEST] Error saving ballpark range for ${quote.id}:`, error);
+  }
+
+  const attachmentNames: string[] = [];
+  for (const attachment of attachments ?? []) {
+    try {
+      if (!attachment.fileUrl || !attachment.fileKey) {
+        console.error(
+          `[QUOTE REQUEST] Invalid attachment data for ${attachment.fileName}: missing fileUrl or fileKey`,
+        );
+        continue; // Skip this attachment but continue with others
+      }
+
+      const validatedAttachment = uploadedFileAttachmentSchema.parse(attachment);
+      await storage.createQuoteRequestAttachment({
+        quoteRequestId: quote.id,
+        fileName: validatedAttachment.fileName,
+        fileUrl: validatedAttachment.fileUrl,
+        fileKey: validatedAttachment.fileKey,
+        fileSize: validatedAttachment.fileSize,
+        fileType: validatedAttachment.fileType,
+      });
+      attachmentNames.push(validatedAttachment.fileName);
+    } catch (attachmentError) {
+      // Continue with the next attachment instead of failing the whole request
+      console.error(
+        `[QUOTE REQUEST] Error saving attachment ${attachment.fileName}:`,
+        attachmentError,
+      );
+    }
+  }
+
+  // Like the ballpark, a failure here must not fail a request that is already saved;
+  // staff can issue a tracking link from the quote's pipeline panel later
+  let trackingUrl: string | undefined;
+  try {
+    trackingUrl = await issueTrackingLink(quote);
+  } catch (error) {
+    console.error(`[QUOTE REQUEST] Error issuing tracking link for ${quote.id}:`, error);
+  }
+
+  const submission = summarizeQuoteRequest(quote, attachmentNames);
+  notifyStaff(submission);
+  // The tracking link is a bearer token, so the body is kept out of the email log
+  sendAcknowledgement(submission, { trackingUrl }, { storeBody: !trackingUrl });
+  return { quote, trackingUrl };
+}
+
+export async function acceptSubcontractorApplication(data: InsertSubcontractor) {
+  const subcontractor = await storage.createSubcontractor(data);
+  const submission = summarizeSubcontractorApplication(subcontractor);
+  notifyStaff(submission);
+  sendAcknowledgement(submission);
+  return subcontractor;
+}
+
+export async function acceptVendorApplication(data: InsertVendor) {
+  const vendor = await storage.createVendor(data);
+  const submission = summarizeVendorApplication(vendor);
+  notifyStaff(submission);
+  sendAcknowledgement(submission);
+  return vendor;
+}
+
+export async function acceptJobApplication(data: PublicJobApplication) {
+  const jobPosting = await storage.getJobPosting(data.jobPostingId);
+  if (!jobPosting) {
+    throw new Error(`Job posting ${data.jobPostingId} no longer exists`);
+  }
+
+  const { resume, coverLetterFile, ...applicant } = data;
+  const application = await storage.createJobApplication({
+    ...applicant,
+    linkedinUrl: applicant.linkedinUrl || null,
+    resumeFileName: resume.fileName,
+    resumeUrl: resume.fileUrl,
+    resumeKey: resume.fileKey,
+    coverLetterFileName: coverLetterFile?.fileName ?? null,
+    coverLetterUrl: coverLetterFile?.fileUrl ?? null,
+    coverLetterKey: coverLetterFile?.fileKey ?? null,
+  });
+
+  const submission = summarizeJobApplication(application, jobPosting);
+  notifyStaff(submission);
+  sendAcknowledgement(submission, { jobTitle: jobPosting.title });
+  return application;
+}
+
+/**
+ * Saves a quarantined submission as though it had just arrived, re-validating
+ * the stored payload first. Throws a ZodError if it no longer validates.
+ */
+export async function releaseQuarantinedSubmission(quarantined: QuarantinedSubmission) {
+  const payload = quarantined.payload;
+  const form = quarantined.form as SpamProtectedForm;
+
+  switch (form) {
+    case "contact_message":
+      await acceptContactMessage(insertMessageSchema.parse(payload));
+      break;
+    case "quote_request":
+      await acceptQuoteRequest(quoteRequestWithAttachmentsSchema.parse(payload));
+      break;
+    case "testimonial_submission":
+      await acceptTestimonial(publicTestimonialSchema.parse(payload));
+      break;
+    case "newsletter_subscriber":
+      await acceptNewsletterSubscription(insertNewsletterSubscriberSchema.parse(payload));
+      break;
+    case "subcontractor_application":
+      await acceptSubcontractorApplication(insertSubcontractorSchema.parse(payload));
+      break;
+    case "vendor_application":
+      await acceptVendorApplication(insertVendorSchema.parse(payload));
+      break;
+    case "job_application":
+      await acceptJobApplication(publicJobApplicationSchema.parse(payload));
+      break;
+    default:
+      throw new Error(`Unknown quarantined form "${quarantined.form}"`);
+  }
+}
@@ -0,0 +1,79 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { recordQuoteActivity } from "./quotePipeline";
+import type { Project, QuoteRequest, QuoteRequestAttachment } from "@shared/schema";
+
+// Quote form project types -> portfolio categories; anything else is left for the editor to choose
+const PROJECT_CATEGORIES: Record<string, string> = {
+  commercial: "Commercial",
+  residential: "Residential",
+  industrial: "Industrial",
+  infrastructure: "Infrastructure",
+};
+
+// Quote form size options, as shown to the customer
+const PROJECT_SIZES: Record<string, string> = {
+  small: "Under 1,000 sq ft",
+  medium: "1,000 - 5,000 sq ft",
+  large: "5,000 - 20,000 sq ft",
+  xlarge: "Over 20,000 sq ft",
+};
+
+const IMAGE_FILE_TYPE = /^(image\/)?(jpe?g|png|webp|gif)$/i;
+
+export interface QuoteConversionResult {
+  project: Project;
+  // Images copied into the project gallery
+  copiedImages: number;
+  // Attachments that can't go in a gallery, such as PDFs
+  skippedFiles: string[];
+}
+
+const isImageAttachment = (attachment: QuoteRequestAttachment) => IMAGE_FILE_TYPE.test(attachment.fileType);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Create a draft project prefilled from the quote and copy its images into the
+ * project gallery. The files themselves are shared, not duplicated; the file
+ * deletion checks keep any file a quote attachment still uses.
+ */
+export async function convertQuoteToProject(req: Request, quote: QuoteRequest): Promise<QuoteConversionResult> {
+  const attachments = await storage.getQuoteRequestAttachments(quote.id);
+  const images = attachments.filter(isImageAttachment);
+  const clientName = quote.company || quote.name;
+
+  const project = await storage.createProject({
+    title: `${capitalize(quote.projectType)} project for ${clientName}`,
+    category: PROJECT_CATEGORIES[quote.projectType.toLowerCase()] ?? capitalize(quote.projectType),
+    description: quote.description,
+    overview: quote.description,
+    image: images[0]?.fileUrl ?? "",
+    featured: false,
+    published: false,
+    client: clientName,
+    size: quote.projectSize ? (PROJECT_SIZES[quote.projectSize] ?? quote.projectSize) : null,
+  });
+
+  for (let index = 0; index < images.length; index++) {
+    await storage.addProjectGalleryImage({
+      projectId: project.id,
+      imageUrl: images[index].fileUrl,
+      caption: images[index].fileName,
+      displayOrder: index,
+      isFeature: index === 0,
+    });
+  }
+
+  await storage.updateQuoteRequest(quote.id, { projectId: project.id });
+  await recordQuoteActivity(req, quote.id, {
+    type: "converted_to_project",
+    toValue: project.title,
+  });
+
+  return {
+    project,
+    copiedImages: images.length,
+    skippedFiles: attachments.filter((attachment) => !isImageAttachment(attachment)).map((a) => a.fileName),
+  };
+}
@@ -0,0 +1,60 @@
+import type { z } from "zod";
+import { storage } from "./storage";
+import {
+  DEFAULT_QUOTE_COST_RATES,
+  ESTIMABLE_PROJECT_TYPES,
+  FINISH_LEVELS,
+  quoteCostRatesSchema,
+  type QuoteCostRates,
+} from "@shared/quoteWizard";
+
+const SETTING_KEY = "quote_cost_rates";
+
+type StoredQuoteCostRates = z.infer<typeof quoteCostRatesSchema>;
+
+// Fills in any project type or finish level missing from the stored table with the default rate
+function withDefaults(rates: StoredQuoteCostRates): QuoteCostRates {
+  const table = {} as QuoteCostRates["rates"];
+  for (const projectType of ESTIMABLE_PROJECT_TYPES) {
+    table[projectType] = { ...DEFAULT_QUOTE_COST_RATES.rates[projectType] };
+    for (const finishLevel of FINISH_LEVELS) {
+      const rate = rates.rates[projectType]?.[finishLevel];
+      if (rate) table[projectType][finishLevel] = rate;
+    }
+  }
+  return { enabled: rates.enabled, perFloorPercent: rates.perFloorPercent, rates: table };
+}
+
+function parseSetting(value: string | undefined): QuoteCostRates {
+  if (!value) return DEFAULT_QUOTE_COST_RATES;
+
+  try {
+    const parsed = quoteCostRatesSchema.safeParse(JSON.parse(value));
+    return parsed.success ? withDefaults(parsed.data) : DEFAULT_QUOTE_COST_RATES;
+  } catch {
+    return DEFAULT_QUOTE_COST_RATES;
+  }
+}
+
+export async function getQuoteCostRates(): Promise<QuoteCostRates> {
+  const setting = await storage.getSiteSettingByKey(SETTING_KEY);
+  return parseSetting(setting?.value);
+}
+
+export async function setQuoteCostRates(rates: StoredQuoteCostRates): Promise<QuoteCostRates> {
+  const value = JSON.stringify(withDefaults(rates));
+  const existing = await storage.getSiteSettingByKey(SETTING_KEY);
+  if (existing) {
+    await storage.updateSiteSettingByKey(SETTING_KEY, value);
+  } else {
+    await storage.createSiteSetting({
+      key: SETTING_KEY,
+      value,
+      category: "quotes",
+      label: "Ballpark cost rates",
+      description: "Cost per square foot by project type and finish level, used for the ballpark range in the quote request wizard",
+      type: "json",
+    });
+  }
+  return getQuoteCostRates();
+}
@@ -0,0 +1,60 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { PERMISSIONS, hasPermission } from "@shared/permissions";
+import type { QuoteActivityType } from "@shared/quotes";
+import type { QuoteRequestActivity, User } from "@shared/schema";
+
+/**
+ * A user quotes can be assigned to, without any account secrets
+ */
+export interface QuoteAssignee {
+  id: number;
+  username: string;
+  email: string | null;
+}
+
+function toAssignee(user: User): QuoteAssignee {
+  return { id: user.id, username: user.username, email: user.email };
+}
+
+function canBeAssigned(user: User) {
+  return user.active && hasPermission(user.role, PERMISSIONS.QUOTES_MANAGE);
+}
+
+// Active users whose role lets them work on quotes
+export async function getQuoteAssignees(): Promise<QuoteAssignee[]> {
+  const users = await storage.getUsers();
+  return users
+    .filter(canBeAssigned)
+    .map(toAssignee)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function getQuoteAssignee(id: number): Promise<QuoteAssignee | undefined> {
+  const user = await storage.getUser(id);
+  return user && canBeAssigned(user) ? toAssignee(user) : undefined;
+}
+
+/**
+ * Add an entry to a quote's activity timeline, authored by the signed-in user
+ */
+export function recordQuoteActivity(
+  req: Request,
+  quoteRequestId: number,
+  activity: {
+    type: QuoteActivityType;
+    body?: string | null;
+    fromValue?: string | null;
+    toValue?: string | null;
+  },
+): Promise<QuoteRequestActivity> {
+  return storage.createQuoteRequestActivity({
+    quoteRequestId,
+    type: activity.type,
+    authorId: req.user?.id ?? null,
+    authorUsername: req.user?.username ?? "unknown",
+    body: activity.body ?? null,
+    fromValue: activity.fromValue ?? null,
+    toValue: activity.toValue ?? null,
+  });
+}
@@ -0,0 +1,213 @@
+import { storage } from "./storage";
+import { buildAppUrl } from "./auth";
+import { mailService } from "./services/mailService";
+import { renderFieldList } from "./services/mailTemplates";
+import { formatReferenceNumber } from "@shared/submissions";
+import {
+  DEFAULT_QUOTE_SLA,
+  formatDuration,
+  getResponseDueAt,
+  isClosedQuoteStatus,
+  type QuoteSlaSettings,
+  type QuoteStatus,
+  type QuoteTimingReport,
+  type QuoteTimingReportRow,
+} from "@shared/quotes";
+import type { QuoteRequest } from "@shared/schema";
+
+const SETTING_KEY = "quote_response_sla";
+
+const HOUR_MS = 3600000;
+
+function parseSetting(value: string | undefined): QuoteSlaSettings {
+  if (!value) return DEFAULT_QUOTE_SLA;
+
+  try {
+    const parsed = JSON.parse(value);
+    return {
+      responseHours:
+        typeof parsed?.responseHours === "number" && parsed.responseHours > 0
+          ? parsed.responseHours
+          : DEFAULT_QUOTE_SLA.responseHours,
+      alertsEnabled: parsed?.alertsEnabled === true,
+      recipients: Array.isArray(parsed?.recipients)
+        ? parsed.recipients.filter((recipient: unknown) => typeof recipient === "string")
+        : [],
+    };
+  } catch {
+    return DEFAULT_QUOTE_SLA;
+  }
+}
+
+export async function getQuoteSlaSettings(): Promise<QuoteSlaSettings> {
+  const setting = await storage.getSiteSettingByKey(SETTING_KEY);
+  return parseSetting(setting?.value);
+}
+
+export async function setQuoteSlaSettings(settings: QuoteSlaSettings): Promise<QuoteSlaSettings> {
+  const value = JSON.stringify(settings);
+  const existing = await storage.getSiteSettingByKey(SETTING_KEY);
+  if (existing) {
+    await storage.updateSiteSettingByKey(SETTING_KEY, value);
+  } else {
+    await storage.createSiteSetting({
+      key: SETTING_KEY,
+      value,
+      category: "notifications",
+      label: "Quote response target",
+      description: "How quickly new quote requests should get a response, and who is alerted when one is late",
+      type: "json",
+    });
+  }
+  return getQuoteSlaSettings();
+}
+
+/**
+ * The response tracking fields to save along with a status change
+ */
+export function getStatusChangeUpdates(
+  quote: QuoteRequest,
+  status: QuoteStatus,
+  now: Date = new Date(),
+): Partial<QuoteRequest> {
+  const closed = isClosedQuoteStatus(status);
+  return {
+    status,
+    statusChangedAt: now,
+    respondedAt: quote.respondedAt ?? (status !== "pending" ? now : null),
+    // Keep the original close time when moving between closed statuses, e.g. accepted to completed
+    closedAt: closed ? (isClosedQuoteStatus(quote.status) ? quote.closedAt ?? now : now) : null,
+  };
+}
+
+function isAwaitingResponse(quote: QuoteRequest) {
+  return (quote.status || "pending") === "pending" && !quote.respondedAt && !!quote.createdAt;
+}
+
+/**
+ * Email the configured recipients about pending quote requests that have
+ * passed the response target. Each request is only alerted once.
+ */
+export async function sendQuoteSlaAlerts(now: Date = new Date()): Promise<number> {
+  const settings = await getQuoteSlaSettings();
+  if (!settings.alertsEnabled || settings.recipients.length === 0) return 0;
+
+  const overdue = (await storage.getQuoteRequests()).filter(
+    (quote) =>
+      isAwaitingResponse(quote) &&
+      !quote.slaAlertedAt &&
+      getResponseDueAt(quote.createdAt!, settings.responseHours) <= now,
+  );
+
+  for (const quote of overdue) {
+    const referenceNumber = formatReferenceNumber("quote_request", quote.id);
+    const waiting = formatDuration(now.getTime() - new Date(quote.createdAt!).getTime());
+    const summary = renderFieldList([
+      ["Reference", referenceNumber],
+      ["Name", quote.name],
+      ["Company", quote.company],
+      ["Project type", quote.projectType],
+      ["Submitted", new Date(quote.createdAt!).toLocaleString("en-US")],
+      ["Waiting", waiting],
+      ["Response target", `${settings.responseHours} hours`],
+    ]);
+    const variables = {
+      title: `Quote request ${referenceNumber} from ${quote.name} has waited ${waiting} for a response`,
+      summaryText: summary.text,
+      summaryHtml: summary.html,
+      adminUrl: buildAppUrl(`/admin/quotes?id=${quote.id}`),
+    };
+
+    await Promise.allSettled(
+      settings.recipients.map((recipient) =>
+        mailService.sendTemplate("staff_alert", recipient, variables),
+      ),
+    );
+    await storage.updateQuoteRequest(quote.id, { slaAlertedAt: now });
+  }
+  return overdue.length;
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const roundHours = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+function buildRow(key: string, label: string, quotes: QuoteRequest[], responseHours: number): QuoteTimingReportRow {
+  const hoursSinceSubmission = (quote: QuoteRequest, at: Date) =>
+    (at.getTime() - new Date(quote.createdAt!).getTime()) / HOUR_MS;
+  const responseTimes = quotes
+    .filter((quote) => quote.respondedAt)
+    .map((quote) => hoursSinceSubmission(quote, quote.respondedAt!));
+  const closeTimes = quotes
+    .filter((quote) => quote.closedAt)
+    .map((quote) => hoursSinceSubmission(quote, quote.closedAt!));
+
+  return {
+    key,
+    label,
+    received: quotes.length,
+    responded: responseTimes.length,
+    respondedWithinTarget: responseTimes.filter((hours) => hours <= responseHours).length,
+    averageResponseHours: roundHours(average(responseTimes)),
+    medianResponseHours: roundHours(median(responseTimes)),
+    closed: closeTimes.length,
+    averageCloseHours: roundHours(average(closeTimes)),
+    medianCloseHours: roundHours(median(closeTimes)),
+  };
+}
+
+function groupRows(
+  quotes: QuoteRequest[],
+  keyOf: (quote: QuoteRequest) => string,
+  labelOf: (key: string) => string,
+  responseHours: number,
+) {
+  const groups = new Map<string, QuoteRequest[]>();
+  for (const quote of quotes) {
+    const key = keyOf(quote);
+    groups.set(key, [...(groups.get(key) ?? []), quote]);
+  }
+  return Array.from(groups, ([key, group]) => buildRow(key, labelOf(key), group, responseHours));
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const monthLabel = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleString("en-US", { month: "long", year: "numeric" });
+};
+
+/**
+ * Response and close times for requests submitted in [from, to), grouped by
+ * the month they were submitted and by project type. Times are measured from
+ * submission, so requests created before response tracking existed only count
+ * towards "received".
+ */
+export async function getQuoteTimingReport(from: Date, to: Date, now: Date = new Date()): Promise<QuoteTimingReport> {
+  const { responseHours } = await getQuoteSlaSettings();
+  const quotes = (await storage.getQuoteRequests()).filter(
+    (quote) => quote.createdAt && quote.createdAt >= from && quote.createdAt < to,
+  );
+
+  return {
+    responseHours,
+    overdue: quotes.filter(
+      (quote) => isAwaitingResponse(quote) && getResponseDueAt(quote.createdAt!, responseHours) <= now,
+    ).length,
+    total: buildRow("all", "All requests", quotes, responseHours),
+    byMonth: groupRows(quotes, (quote) => monthKey(quote.createdAt!), monthLabel, responseHours).sort((a, b) =>
+      b.key.localeCompare(a.key),
+    ),
+    byProjectType: groupRows(quotes, (quote) => quote.projectType, (key) => key, responseHours).sort(
+      (a, b) => b.received - a.received || a.label.localeCompare(b.label),
+    ),
+  };
+}
@@ -0,0 +1,81 @@
+import { storage } from "./storage";
+import { buildAppUrl, generateToken, hashToken } from "./auth";
+import { formatReferenceNumber } from "@shared/submissions";
+import {
+  QUOTE_STATUS_CUSTOMER_DESCRIPTIONS,
+  QUOTE_STATUS_LABELS,
+  isQuoteStatus,
+  type QuoteActivityType,
+  type QuoteTrackingView,
+} from "@shared/quotes";
+import type { QuoteRequest } from "@shared/schema";
+
+// Includes the files sent with the original request
+export const MAX_TRACKING_ATTACHMENTS = 20;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Give the quote a new tracking link, replacing any earlier one.
+ * Only the token's hash is stored, so the link can't be shown again later.
+ */
+export async function issueTrackingLink(quote: QuoteRequest): Promise<string> {
+  const { token, tokenHash } = generateToken();
+  await storage.updateQuoteRequest(quote.id, { trackingTokenHash: tokenHash });
+  return buildAppUrl(`/quote/track/${token}`);
+}
+
+export async function findTrackedQuote(token: string): Promise<QuoteRequest | undefined> {
+  if (!TOKEN_PATTERN.test(token)) return undefined;
+  return storage.getQuoteRequestByTrackingTokenHash(hashToken(token));
+}
+
+export async function getTrackingView(quote: QuoteRequest): Promise<QuoteTrackingView> {
+  const [attachments, activity] = await Promise.all([
+    storage.getQuoteRequestAttachments(quote.id),
+    storage.getQuoteRequestActivity(quote.id),
+  ]);
+  const status = isQuoteStatus(quote.status) ? quote.status : "pending";
+
+  return {
+    referenceNumber: formatReferenceNumber("quote_request", quote.id),
+    name: quote.name,
+    projectType: quote.projectType,
+    submittedAt: quote.createdAt?.toISOString() ?? null,
+    status,
+    statusLabel: QUOTE_STATUS_LABELS[status],
+    statusDescription: QUOTE_STATUS_CUSTOMER_DESCRIPTIONS[status],
+    attachments: attachments.map((attachment) => ({
+      id: attachment.id,
+      fileName: attachment.fileName,
+      fileUrl: attachment.fileUrl,
+      fileSize: attachment.fileSize,
+      fileType: attachment.fileType,
+      createdAt: attachment.createdAt.toISOString(),
+    })),
+    messages: activity
+      .filter((entry) => entry.type === "customer_message" && entry.body)
+      .map((entry) => ({ id: entry.id, body: entry.body as string, createdAt: entry.createdAt.toISOString() })),
+    maxAttachments: MAX_TRACKING_ATTACHMENTS,
+  };
+}
+
+/**
+ * Add something the customer did to the quote's timeline and flag the quote
+ * as unreviewed, so staff notice it in the quote list.
+ */
+export async function recordCustomerActivity(
+  quote: QuoteRequest,
+  activity: { type: Extract<QuoteActivityType, "customer_message" | "customer_upload">; body: string },
+) {
+  await storage.createQuoteRequestActivity({
+    quoteRequestId: quote.id,
+    type: activity.type,
+    authorId: null,
+    authorUsername: quote.name,
+    body: activity.body,
+    fromValue: null,
+    toValue: null,
+  });
+  await storage.updateQuoteRequest(quote.id, { reviewed: false });
+}
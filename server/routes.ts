@@ -28,15 +28,140 @@ import {
   insertSubcontractorSchema,
   insertVendorSchema,
   blogPosts,
-  fileAttachmentSchema,
+  uploadedFileAttachmentSchema,
   quoteRequestWithAttachmentsSchema,
+  publicJobApplicationSchema,
+  insertJobPostingSchema,
+  publicJobAlertSubscriptionSchema,
   insertSiteSettingsSchema,
+  type JobApplication,
+  type JobPosting,
+  type Project,
+  type SiteSetting,
+  type User,
 } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
-import { setupAuth } from "./auth";
+import {
+  setupAuth,
+  requirePermission,
+  requestHasPermission,
+  hashPassword,
+  createUserInvite,
+  createPasswordResetLink,
+  toPublicUser,
+  buildAppUrl,
+} from "./auth";
+import {
+  getTwoFactorRequiredRoles,
+  setTwoFactorRequiredRoles,
+} from "./twoFactor";
+import { audit } from "./audit";
+import { mailService } from "./services/mailService";
+import {
+  getStaffAlertSettings,
+  setStaffAlertSettings,
+} from "./staffAlerts";
+import {
+  spamGuard,
+  quarantineIfFlagged,
+  checkSubmissionRateLimit,
+  cleanupSpamProtectionRecords,
+} from "./spamProtection";
+import {
+  acceptContactMessage,
+  acceptJobApplication,
+  acceptNewsletterSubscription,
+  acceptQuoteRequest,
+  acceptSubcontractorApplication,
+  acceptTestimonial,
+  acceptVendorApplication,
+  releaseQuarantinedSubmission,
+} from "./publicSubmissions";
+import {
+  getQuoteAssignee,
+  getQuoteAssignees,
+  recordQuoteActivity,
+} from "./quotePipeline";
+import { recordApplicantActivity, updateAverageRating } from "./applicantPipeline";
+import {
+  estimateInputSchema,
+  newEstimateInputSchema,
+  withEstimateTotals,
+  createEstimateVersion,
+  sendProposal,
+} from "./estimates";
+import { renderProposalPdf, proposalFileName } from "./services/proposalPdf";
+import {
+  MAX_TRACKING_ATTACHMENTS,
+  issueTrackingLink,
+  findTrackedQuote,
+  getTrackingView,
+  recordCustomerActivity,
+} from "./quoteTracking";
+import { convertQuoteToProject } from "./quoteConversion";
+import { getLeadSourceBreakdown } from "./leadSources";
+import { getQuoteCostRates, setQuoteCostRates } from "./quoteCostRates";
+import {
+  createDraftWithLink,
+  findDraft,
+  saveDraft,
+  toDraftView,
+  cleanupExpiredDrafts,
+} from "./formDrafts";
+import {
+  getQuoteSlaSettings,
+  setQuoteSlaSettings,
+  getStatusChangeUpdates,
+  sendQuoteSlaAlerts,
+  getQuoteTimingReport,
+} from "./quoteSla";
+import {
+  getJobExpirySettings,
+  setJobExpirySettings,
+  archiveExpiredJobPostings,
+  sendJobExpiryAlerts,
+} from "./jobPostingSchedule";
+import {
+  subscribeToJobAlerts,
+  confirmJobAlertSubscription,
+  unsubscribeFromJobAlerts,
+  queueJobAlerts,
+  queueScheduledJobAlerts,
+  sendJobAlertDigests,
+  cleanupUnconfirmedJobAlerts,
+} from "./jobAlerts";
+import { scheduleRecurringJob, SCHEDULED_JOBS_SETTING_CATEGORY } from "./scheduledJobs";
+import {
+  getEditableMailTemplates,
+  setMailTemplateOverride,
+  resetMailTemplate,
+} from "./emailTemplates";
+import {
+  EDITABLE_MAIL_TEMPLATES,
+  isEditableMailTemplate,
+  renderTemplate,
+} from "./services/mailTemplates";
+import { unlockUser, cleanupOldLoginAttempts } from "./loginThrottle";
+import { revokeAllUserSessions } from "./sessions";
+import { PERMISSIONS, ROLES, ROLE_VALUES, type Permission } from "@shared/permissions";
+import { AUDIT_ENTITY_TYPES } from "@shared/audit";
+import {
+  APPLICANT_STAGES,
+  MAX_APPLICANT_RATING,
+  MIN_APPLICANT_RATING,
+  describeJobAlert,
+  isJobPostingLive,
+} from "@shared/careers";
+import { STAFF_ALERT_EVENTS } from "@shared/staffAlerts";
+import { LEAD_FORMS, type LeadForm } from "@shared/attribution";
+import { QUARANTINE_PERMISSIONS, isSpamProtectedForm } from "@shared/spam";
+import { CONVERTIBLE_QUOTE_STATUSES, QUOTE_STATUSES, isQuoteStatus } from "@shared/quotes";
+import { quoteCostRatesSchema } from "@shared/quoteWizard";
+import { createFormDraftSchema, updateFormDraftSchema } from "@shared/drafts";
 import { upload, getFileUrl } from "./utils/fileUpload";
 import path from "path";
+import { randomBytes } from "crypto";
 import { uploadThingService } from "./services/uploadthingService";
 
 // Authentication middleware
@@ -47,14 +172,40 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
-// Admin role middleware
-const isAdmin = (req: Request, res: Response, next: NextFunction) => {
-  if (req.isAuthenticated() && req.user.role === "admin") {
-    return next();
-  }
-  res.status(403).json({ message: "Forbidden: Admin access required" });
+
+// Prevents locking everyone out by removing the only remaining super-admin
+const isLastActiveSuperAdmin = async (user: User) => {
+  if (user.role !== ROLES.SUPER_ADMIN || !user.active) return false;
+  const allUsers = await storage.getUsers();
+  return (
+    allUsers.filter((u) => u.role === ROLES.SUPER_ADMIN && u.active).length <= 1
+  );
 };
 
+const userInviteSchema = z.object({
+  email: z.string().email("A valid email address is required"),
+  role: z.enum(ROLE_VALUES),
+});
+
+const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.enum(ROLE_VALUES)),
+});
+
+// Staff alert recipients, the 2FA policy, email template overrides and background job state
+// are kept out of the unauthenticated site settings routes; admins manage them through their
+// own endpoints
+const PRIVATE_SITE_SETTING_CATEGORIES = new Set([
+  "notifications",
+  "security",
+  "email_templates",
+  SCHEDULED_JOBS_SETTING_CATEGORY,
+]);
+
+const isPublicSiteSetting = (setting: SiteSetting) =>
+  !PRIVATE_SITE_SETTING_CATEGORIES.has(setting.category);
+
+const DAY_MS = 24 * 3600000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication is already set up in server/index.ts
   // API routes prefix
@@ -76,7 +227,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/blog/categories`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_category"),
     async (req: Request, res: Response) => {
       try {
         const categoryData = insertBlogCategorySchema.parse(req.body);
@@ -107,7 +259,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/blog/tags`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_tag"),
     async (req: Request, res: Response) => {
       try {
         const tagData = insertBlogTagSchema.parse(req.body);
@@ -126,10 +279,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Projects Routes
+  // Draft projects are hidden from visitors; project managers can open them to preview and edit
+  const isPublishedProject = (project: Project) => project.published !== false;
+  const canViewDraftProjects = (req: Request) =>
+    requestHasPermission(req, PERMISSIONS.PROJECTS_MANAGE);
+
   app.get(`${apiRouter}/projects`, async (req: Request, res: Response) => {
     try {
       const projects = await storage.getProjects();
-      res.json(projects);
+      const includeDrafts =
+        req.query.includeDrafts === "true" && canViewDraftProjects(req);
+      res.json(includeDrafts ? projects : projects.filter(isPublishedProject));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch projects" });
     }
@@ -140,7 +300,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: Request, res: Response) => {
       try {
         const projects = await storage.getFeaturedProjects();
-        res.json(projects);
+        res.json(projects.filter(isPublishedProject));
       } catch (error) {
         res.status(500).json({ message: "Failed to fetch featured projects" });
       }
@@ -155,7 +315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const project = await storage.getProject(id);
-      if (!project) {
+      if (!project || (!isPublishedProject(project) && !canViewDraftProjects(req))) {
         return res.status(404).json({ message: "Project not found" });
       }
 
@@ -168,7 +328,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin-only endpoints for project management
   app.post(
     `${apiRouter}/projects`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project"),
     async (req: Request, res: Response) => {
       try {
         // Parse using the extended schema that can include gallery images
@@ -230,7 +391,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/projects/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -448,7 +610,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/projects/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -480,6 +643,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         console.log("[DEBUG] Fetching gallery for project ID:", projectId);
 
+        if (!canViewDraftProjects(req)) {
+          const project = await storage.getProject(projectId);
+          if (project && !isPublishedProject(project)) {
+            return res.status(404).json({ message: "Project not found" });
+          }
+        }
+
         try {
           const images = await storage.getProjectGallery(projectId);
           console.log("[DEBUG] Gallery images:", images);
@@ -497,7 +667,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/projects/:projectId/gallery`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const projectId = parseInt(req.params.projectId);
@@ -547,7 +718,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/projects/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -574,7 +746,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/projects/:projectId/gallery/:imageId/set-feature`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project_gallery_image", { action: "set_feature", idParam: "imageId" }),
     async (req: Request, res: Response) => {
       try {
         const projectId = parseInt(req.params.projectId);
@@ -609,7 +782,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/projects/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.PROJECTS_MANAGE),
+    audit("project_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -735,7 +909,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/blog/categories`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_category"),
     async (req: Request, res: Response) => {
       try {
         const categoryData = insertBlogCategorySchema.parse(req.body);
@@ -764,7 +939,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/blog/tags`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_tag"),
     async (req: Request, res: Response) => {
       try {
         const tagData = insertBlogTagSchema.parse(req.body);
@@ -890,7 +1066,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/blog/:postId/gallery`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         console.log(
@@ -952,7 +1129,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/blog/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -984,7 +1162,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/blog/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1147,7 +1326,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin-only endpoints for blog management
   app.post(
     `${apiRouter}/blog`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_post"),
     async (req: Request, res: Response) => {
       try {
         // Use the extended schema that includes categoryIds, tagIds, and galleryImages
@@ -1203,7 +1383,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/blog/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_post"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1384,7 +1565,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/blog/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.BLOG_MANAGE),
+    audit("blog_post"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1434,7 +1616,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/services`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service"),
     async (req: Request, res: Response) => {
       try {
         const serviceData = insertServiceSchema.parse(req.body);
@@ -1466,7 +1649,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/services/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1625,7 +1809,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/services/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1677,7 +1862,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/services/:serviceId/gallery`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const serviceId = parseInt(req.params.serviceId);
@@ -1711,7 +1897,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/services/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1745,7 +1932,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/services/gallery/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SERVICES_MANAGE),
+    audit("service_gallery_image"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1793,10 +1981,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Submit a new testimonial (public)
   app.post(
     `${apiRouter}/testimonials/submit`,
+    spamGuard("testimonial_submission"),
     async (req: Request, res: Response) => {
       try {
         const testimonialData = publicTestimonialSchema.parse(req.body);
-        const testimonial = await storage.createTestimonial(testimonialData);
+        if (!(await quarantineIfFlagged(req, res, "testimonial_submission", testimonialData))) {
+          await acceptTestimonial(testimonialData);
+        }
         res.status(201).json({
           message:
             "Thank you for your testimonial! It will be reviewed by our team before being published.",
@@ -1818,7 +2009,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Testimonial Admin Routes
   app.get(
     `${apiRouter}/admin/testimonials`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const testimonials = await storage.getTestimonials();
@@ -1831,7 +2022,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get(
     `${apiRouter}/admin/testimonials/pending`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const testimonials = await storage.getPendingTestimonials();
@@ -1846,7 +2037,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get(
     `${apiRouter}/admin/testimonials/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1865,7 +2056,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/testimonials/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
+    audit("testimonial"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1913,7 +2105,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/testimonials/:id/approve`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
+    audit("testimonial", { action: "approve" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1932,7 +2125,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/testimonials/:id/revoke`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
+    audit("testimonial", { action: "revoke" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1956,7 +2150,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/admin/testimonials/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.TESTIMONIALS_MANAGE),
+    audit("testimonial"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -1988,10 +2183,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Contact/Messages Routes
-  app.post(`${apiRouter}/contact`, async (req: Request, res: Response) => {
+  app.post(`${apiRouter}/contact`, spamGuard("contact_message"), async (req: Request, res: Response) => {
     try {
       const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(messageData);
+      if (!(await quarantineIfFlagged(req, res, "contact_message", messageData))) {
+        await acceptContactMessage(messageData);
+      }
       res
         .status(201)
         .json({ success: true, message: "Message sent successfully" });
@@ -2007,7 +2204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get(
     `${apiRouter}/messages`,
-    isAdmin,
+    requirePermission(PERMISSIONS.MESSAGES_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const messages = await storage.getMessages();
@@ -2020,7 +2217,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/messages/:id/read`,
-    isAdmin,
+    requirePermission(PERMISSIONS.MESSAGES_MANAGE),
+    audit("message", { action: "mark_read" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -2042,7 +2240,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/messages/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.MESSAGES_MANAGE),
+    audit("message"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -2065,7 +2264,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // File Upload Route
   app.post(
     `${apiRouter}/upload`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_UPLOAD),
+    audit("file", { action: "upload" }),
     upload.single("file"),
     (req: Request, res: Response) => {
       try {
@@ -2102,7 +2302,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // File management endpoints
   app.post(
     `${apiRouter}/files/track`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_UPLOAD),
+    audit("file", { action: "track" }),
     (req: Request, res: Response) => {
       try {
         const { fileUrl, sessionId, filename } = req.body;
@@ -2151,7 +2352,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/files/commit`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_UPLOAD),
+    audit("file", { action: "commit" }),
     (req: Request, res: Response) => {
       try {
         const { sessionId, fileUrls } = req.body;
@@ -2187,7 +2389,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/files/cleanup`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
+    audit("file", { action: "cleanup" }),
     async (req: Request, res: Response) => {
       try {
         const { sessionId, fileUrl, fileUrls, preserveUrls } = req.body;
@@ -2450,7 +2653,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Debug endpoint to view pending files in FileManager
   app.get(
     `${apiRouter}/files/debug`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
     (req: Request, res: Response) => {
       try {
         // Get the current state of pendingFiles from FileManager
@@ -2472,7 +2675,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // UploadThing direct file management APIs
   app.get(
     `${apiRouter}/uploadthing/files`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const files = await uploadThingService.listFiles();
@@ -2489,7 +2692,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/uploadthing/files/:key`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
+    audit("file", { idParam: "key" }),
     async (req: Request, res: Response) => {
       try {
         const { key } = req.params;
@@ -2520,7 +2724,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/uploadthing/files/delete-batch`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
+    audit("file", { action: "delete_batch" }),
     async (req: Request, res: Response) => {
       try {
         const { keys } = req.body;
@@ -2555,7 +2760,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get file categorization data from database to help organize files by projects
   app.get(
     `${apiRouter}/uploadthing/file-categories`,
-    isAdmin,
+    requirePermission(PERMISSIONS.FILES_MANAGE),
     async (req: Request, res: Response) => {
       try {
         // Get all projects with their titles for mapping
@@ -2813,6 +3018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Newsletter Subscriber Routes
   app.post(
     `${apiRouter}/newsletter/subscribe`,
+    spamGuard("newsletter_subscriber"),
     async (req: Request, res: Response) => {
       try {
         // Validate the input data
@@ -2828,38 +3034,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const subscriberData = insertNewsletterSubscriberSchema.parse(req.body);
 
-        // Check if email already exists
-        const existingSubscriber = await storage.getNewsletterSubscriberByEmail(
-          subscriberData.email,
-        );
-        if (existingSubscriber) {
-          // If already subscribed, return success
-          if (existingSubscriber.subscribed) {
-            return res.json({
-              message: "You are already subscribed to our newsletter",
-            });
-          }
-
-          // If previously unsubscribed, resubscribe them
-          const updatedSubscriber =
-            await storage.updateNewsletterSubscriberStatus(
-              existingSubscriber.id,
-              true,
-            );
+        if (await quarantineIfFlagged(req, res, "newsletter_subscriber", subscriberData)) {
+          return res.status(201).json({
+            message: "Thank you for subscribing to our newsletter!",
+          });
+        }
 
+        const result = await acceptNewsletterSubscription(subscriberData);
+        if (result.status === "already_subscribed") {
+          return res.json({
+            message: "You are already subscribed to our newsletter",
+          });
+        }
+        if (result.status === "resubscribed") {
           return res.json({
             message:
               "Welcome back! You have been resubscribed to our newsletter",
-            subscriber: updatedSubscriber,
+            subscriber: result.subscriber,
           });
         }
 
-        // Create new subscriber
-        const subscriber =
-          await storage.createNewsletterSubscriber(subscriberData);
         res.status(201).json({
           message: "Thank you for subscribing to our newsletter!",
-          subscriber,
+          subscriber: result.subscriber,
         });
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -2915,7 +3112,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin newsletter management
   app.get(
     `${apiRouter}/admin/newsletter/subscribers`,
-    isAdmin,
+    requirePermission(PERMISSIONS.NEWSLETTER_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const subscribers = await storage.getNewsletterSubscribers();
@@ -2930,7 +3127,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/admin/newsletter/subscribers/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.NEWSLETTER_MANAGE),
+    audit("newsletter_subscriber"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -2956,7 +3154,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (_req: Request, res: Response) => {
       try {
         const settings = await storage.getSiteSettings();
-        res.status(200).json(settings);
+        res.status(200).json(settings.filter(isPublicSiteSetting));
       } catch (error) {
         console.error("Error fetching site settings:", error);
         res.status(500).json({ message: "Failed to fetch site settings" });
@@ -2970,7 +3168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         const { category } = req.params;
         const settings = await storage.getSiteSettingsByCategory(category);
-        res.status(200).json(settings);
+        res.status(200).json(settings.filter(isPublicSiteSetting));
       } catch (error) {
         console.error(
           `Error fetching site settings for category ${req.params.category}:`,
@@ -2987,7 +3185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         const { key } = req.params;
         const setting = await storage.getSiteSettingByKey(key);
-        if (!setting) {
+        if (!setting || !isPublicSiteSetting(setting)) {
           return res.status(404).json({ message: "Setting not found" });
         }
         res.status(200).json(setting);
@@ -3003,7 +3201,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     `${apiRouter}/admin/site-settings`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
     async (req: Request, res: Response) => {
       try {
         const settingData = insertSiteSettingsSchema.parse(req.body);
@@ -3026,7 +3225,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/site-settings/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -3051,7 +3251,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/site-settings/key/:key`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting", { idParam: "key" }),
     async (req: Request, res: Response) => {
       try {
         const { key } = req.params;
@@ -3080,7 +3281,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     `${apiRouter}/admin/site-settings/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -3105,6 +3307,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Quote Request Routes
   app.post(
     `${apiRouter}/quote/request`,
+    spamGuard("quote_request"),
     async (req: Request, res: Response) => {
       try {
         console.log("[QUOTE REQUEST] Received quote request submission");
@@ -3129,81 +3332,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
 
           // First validate with the extended schema that includes attachments
-          const { attachments, ...quoteData } =
-            quoteRequestWithAttachmentsSchema.parse(req.body);
+          const quoteData = quoteRequestWithAttachmentsSchema.parse(req.body);
 
           console.log("[QUOTE REQUEST] Data validation passed");
 
-          // Create the quote request
-          const quote = await storage.createQuoteRequest(quoteData);
-          console.log(
-            `[QUOTE REQUEST] Created quote request with ID: ${quote.id}`,
-          );
-
-          // Check if there are file attachments to save
-          if (
-            attachments &&
-            Array.isArray(attachments) &&
-            attachments.length > 0
-          ) {
-            console.log(
-              `[QUOTE REQUEST] Processing ${attachments.length} attachments`,
-            );
-
-            // Save each attachment
-            for (const attachment of attachments) {
-              try {
-                console.log(
-                  `[QUOTE REQUEST] Saving attachment: ${attachment.fileName} (${(attachment.fileSize / 1024).toFixed(2)} KB)`,
-                );
-
-                if (!attachment.fileUrl || !attachment.fileKey) {
-                  console.error(
-                    `[QUOTE REQUEST] Invalid attachment data for ${attachment.fileName}: missing fileUrl or fileKey`,
-                  );
-                  continue; // Skip this attachment but continue with others
-                }
-
-                // Validate attachment data with the schema
-                const validatedAttachment =
-                  fileAttachmentSchema.parse(attachment);
-
-                await storage.createQuoteRequestAttachment({
-                  quoteRequestId: quote.id,
-                  fileName: validatedAttachment.fileName,
-                  fileUrl: validatedAttachment.fileUrl,
-                  fileKey: validatedAttachment.fileKey,
-                  fileSize: validatedAttachment.fileSize,
-                  fileType: validatedAttachment.fileType,
-                });
-
-                console.log(
-                  `[QUOTE REQUEST] Successfully saved attachment: ${attachment.fileName}`,
-                );
-              } catch (attachmentError) {
-                console.error(
-                  `[QUOTE REQUEST] Error saving attachment ${attachment.fileName}:`,
-                  attachmentError,
-                );
-                console.error(
-                  `[QUOTE REQUEST] Error details:`,
-                  attachmentError instanceof Error
-                    ? attachmentError.message
-                    : String(attachmentError),
-                );
-                // Continue with the next attachment instead of failing the whole request
-              }
-            }
-          } else {
-            console.log("[QUOTE REQUEST] No attachments to process");
+          if (await quarantineIfFlagged(req, res, "quote_request", quoteData)) {
+            return res.status(201).json({
+              message: "Your quote request has been submitted successfully!",
+            });
           }
 
+          const { quote, trackingUrl } = await acceptQuoteRequest(quoteData);
+
           console.log(
             "[QUOTE REQUEST] Successfully completed quote request submission",
           );
           res.status(201).json({
             message: "Your quote request has been submitted successfully!",
             quote,
+            trackingUrl,
           });
         } catch (validationError) {
           if (validationError instanceof z.ZodError) {
@@ -3234,10 +3381,228 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Cost rates behind the quote wizard's ballpark range (public, the wizard prices in the browser)
+  app.get(
+    `${apiRouter}/quote/cost-rates`,
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await getQuoteCostRates());
+      } catch (error) {
+        console.error("Error fetching quote cost rates:", error);
+        res.status(500).json({ message: "Failed to fetch cost rates" });
+      }
+    },
+  );
+
+  // Saved drafts of the long public forms - like quote tracking, the token in the
+  // emailed link is the only credential
+  app.post(
+    `${apiRouter}/drafts`,
+    async (req: Request, res: Response) => {
+      try {
+        const draftData = createFormDraftSchema.parse(req.body);
+
+        const limit = await checkSubmissionRateLimit(req, "draft_link");
+        if (!limit.allowed) {
+          res.set("Retry-After", String(limit.retryAfterSeconds));
+          return res.status(429).json({ message: limit.message });
+        }
+
+        const { token, draft } = await createDraftWithLink(draftData);
+        res.status(201).json({
+          message: "We've emailed you a link to finish later.",
+          token,
+          expiresAt: draft.expiresAt.toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid draft", errors: error.errors });
+        }
+        console.error("Error saving form draft:", error);
+        res.status(500).json({ message: "Failed to save your progress" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/drafts/:token`,
+    async (req: Request, res: Response) => {
+      try {
+        const draft = await findDraft(req.params.token);
+        const view = draft && toDraftView(draft);
+        if (!view) {
+          return res
+            .status(404)
+            .json({ message: "This link has expired or the form has already been submitted" });
+        }
+
+        res.json(view);
+      } catch (error) {
+        console.error("Error fetching form draft:", error);
+        res.status(500).json({ message: "Failed to load your saved progress" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/drafts/:token`,
+    async (req: Request, res: Response) => {
+      try {
+        const { data } = updateFormDraftSchema.parse(req.body);
+
+        const draft = await findDraft(req.params.token);
+        if (!draft) {
+          return res
+            .status(404)
+            .json({ message: "This link has expired or the form has already been submitted" });
+        }
+
+        const updated = await saveDraft(draft, data);
+        res.json(updated && toDraftView(updated));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid draft", errors: error.errors });
+        }
+        console.error("Error updating form draft:", error);
+        res.status(500).json({ message: "Failed to save your progress" });
+      }
+    },
+  );
+
+  // Called once the form has been submitted, so the link stops working
+  app.delete(
+    `${apiRouter}/drafts/:token`,
+    async (req: Request, res: Response) => {
+      try {
+        const draft = await findDraft(req.params.token);
+        if (draft) await storage.deleteFormDraft(draft.id);
+        res.status(204).end();
+      } catch (error) {
+        console.error("Error deleting form draft:", error);
+        res.status(500).json({ message: "Failed to delete your saved progress" });
+      }
+    },
+  );
+
+  // Customer quote tracking - the unguessable token in the link is the only credential
+  app.get(
+    `${apiRouter}/quote/track/:token`,
+    async (req: Request, res: Response) => {
+      try {
+        const quote = await findTrackedQuote(req.params.token);
+        if (!quote) {
+          return res
+            .status(404)
+            .json({ message: "This tracking link is invalid or has been replaced" });
+        }
+
+        res.json(await getTrackingView(quote));
+      } catch (error) {
+        console.error("Error fetching tracked quote:", error);
+        res.status(500).json({ message: "Failed to load your quote request" });
+      }
+    },
+  );
+
+  const trackingMessageSchema = z.object({
+    message: z.string().trim().min(1, "Message is required").max(5000),
+  });
+
+  app.post(
+    `${apiRouter}/quote/track/:token/messages`,
+    async (req: Request, res: Response) => {
+      try {
+        const { message } = trackingMessageSchema.parse(req.body);
+
+        const limit = await checkSubmissionRateLimit(req, "tracking_message");
+        if (!limit.allowed) {
+          res.set("Retry-After", String(limit.retryAfterSeconds));
+          return res.status(429).json({ message: limit.message });
+        }
+
+        const quote = await findTrackedQuote(req.params.token);
+        if (!quote) {
+          return res
+            .status(404)
+            .json({ message: "This tracking link is invalid or has been replaced" });
+        }
+
+        await recordCustomerActivity(quote, { type: "customer_message", body: message });
+        res.status(201).json(await getTrackingView(quote));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid message", errors: error.errors });
+        }
+        console.error("Error adding customer message:", error);
+        res.status(500).json({ message: "Failed to send your message" });
+      }
+    },
+  );
+
+  const trackingAttachmentsSchema = z.object({
+    attachments: z.array(uploadedFileAttachmentSchema).min(1).max(3),
+  });
+
+  app.post(
+    `${apiRouter}/quote/track/:token/attachments`,
+    async (req: Request, res: Response) => {
+      try {
+        const { attachments } = trackingAttachmentsSchema.parse(req.body);
+
+        const limit = await checkSubmissionRateLimit(req, "tracking_upload");
+        if (!limit.allowed) {
+          res.set("Retry-After", String(limit.retryAfterSeconds));
+          return res.status(429).json({ message: limit.message });
+        }
+
+        const quote = await findTrackedQuote(req.params.token);
+        if (!quote) {
+          return res
+            .status(404)
+            .json({ message: "This tracking link is invalid or has been replaced" });
+        }
+
+        const existing = await storage.getQuoteRequestAttachments(quote.id);
+        if (existing.length + attachments.length > MAX_TRACKING_ATTACHMENTS) {
+          return res.status(400).json({
+            message: `A quote request can have at most ${MAX_TRACKING_ATTACHMENTS} files. Please contact us to share more.`,
+          });
+        }
+
+        for (const attachment of attachments) {
+          await storage.createQuoteRequestAttachment({
+            quoteRequestId: quote.id,
+            ...attachment,
+          });
+        }
+        await recordCustomerActivity(quote, {
+          type: "customer_upload",
+          body: attachments.map((attachment) => attachment.fileName).join(", "),
+        });
+
+        res.status(201).json(await getTrackingView(quote));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid attachments", errors: error.errors });
+        }
+        console.error("Error adding customer attachments:", error);
+        res.status(500).json({ message: "Failed to save your files" });
+      }
+    },
+  );
+
   // Admin quote request management
   app.get(
     `${apiRouter}/admin/quote/requests`,
-    isAdmin,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const quotes = await storage.getQuoteRequests();
@@ -3250,7 +3615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get(
     `${apiRouter}/admin/quote/requests/:id`,
-    isAdmin,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -3278,7 +3643,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(
     `${apiRouter}/admin/quote/requests/:id/status`,
-    isAdmin,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "change_status" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
@@ -3291,26 +3657,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Status is required" });
         }
 
-        // Valid status values
-        const validStatuses = [
-          "pending",
-          "reviewing",
-          "accepted",
-          "rejected",
-          "completed",
-        ];
-        if (!validStatuses.includes(status)) {
+        if (!isQuoteStatus(status)) {
           return res.status(400).json({
             message: "Invalid status value",
-            validValues: validStatuses,
+            validValues: QUOTE_STATUSES,
           });
         }
 
-        const quote = await storage.updateQuoteRequestStatus(id, status);
+        const existing = await storage.getQuoteRequest(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        const previousStatus = existing.status || "pending";
+        const quote =
+          previousStatus === status
+            ? existing
+            : await storage.updateQuoteRequest(id, getStatusChangeUpdates(existing, status));
         if (!quote) {
           return res.status(404).json({ message: "Quote request not found" });
         }
 
+        if (previousStatus !== status) {
+          await recordQuoteActivity(req, id, {
+            type: "status_change",
+            fromValue: previousStatus,
+            toValue: status,
+          });
+        }
+
         res.json(quote);
       } catch (error) {
         res
@@ -3320,326 +3695,720 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/quote/requests/:id/reviewed`,
-    isAdmin,
+  // Users who can be assigned as the estimator on a quote
+  app.get(
+    `${apiRouter}/admin/quote/assignees`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid quote request ID" });
-        }
-
-        const quote = await storage.markQuoteRequestAsReviewed(id);
-        if (!quote) {
-          return res.status(404).json({ message: "Quote request not found" });
-        }
-
-        res.json(quote);
+        res.json(await getQuoteAssignees());
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to mark quote request as reviewed" });
+        console.error("Error fetching quote assignees:", error);
+        res.status(500).json({ message: "Failed to fetch estimators" });
       }
     },
   );
 
-  app.delete(
-    `${apiRouter}/admin/quote/requests/:id`,
-    isAdmin,
+  // Response target (SLA) for new quote requests; quote managers need it for the aging badges
+  app.get(
+    `${apiRouter}/admin/quote/sla`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE, PERMISSIONS.SETTINGS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid quote request ID" });
-        }
-
-        // First delete any attachments for this quote request
-        await storage.deleteAllQuoteRequestAttachments(id);
-
-        // Then delete the quote request itself
-        const success = await storage.deleteQuoteRequest(id);
-        if (!success) {
-          return res.status(404).json({ message: "Quote request not found" });
-        }
-
-        res.status(204).send();
+        res.json(await getQuoteSlaSettings());
       } catch (error) {
-        res.status(500).json({ message: "Failed to delete quote request" });
+        console.error("Error fetching quote response target:", error);
+        res.status(500).json({ message: "Failed to fetch the quote response target" });
       }
     },
   );
 
-  // Route to delete a single quote request attachment
-  app.delete(
-    `${apiRouter}/admin/quote/requests/attachments/:id`,
-    isAdmin,
+  const quoteSlaSettingsSchema = z.object({
+    responseHours: z.number().int().min(1).max(24 * 30),
+    alertsEnabled: z.boolean(),
+    recipients: z.array(z.string().trim().email("Each recipient must be a valid email address")).max(20),
+  });
+
+  app.put(
+    `${apiRouter}/admin/quote/sla`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("quote_sla_settings"),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid attachment ID" });
+        const settings = quoteSlaSettingsSchema.parse(req.body);
+        res.json(await setQuoteSlaSettings(settings));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid response target", errors: error.errors });
         }
+        console.error("Error updating quote response target:", error);
+        res.status(500).json({ message: "Failed to update the quote response target" });
+      }
+    },
+  );
 
-        const success = await storage.deleteQuoteRequestAttachment(id);
-        if (!success) {
-          return res.status(404).json({ message: "Attachment not found" });
-        }
-
-        res.status(204).send();
-      } catch (error) {
-        res.status(500).json({ message: "Failed to delete attachment" });
-      }
-    },
-  );
-
-  // Subcontractor Routes
-  // Public route to submit subcontractor application
-  app.post(
-    `${apiRouter}/subcontractors/apply`,
+  // Ballpark cost rates are read through the public /quote/cost-rates route
+  app.put(
+    `${apiRouter}/admin/quote/cost-rates`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("quote_cost_rates"),
     async (req: Request, res: Response) => {
       try {
-        console.log(
-          "Subcontractor application submitted:",
-          JSON.stringify(req.body, null, 2),
-        );
-        const subcontractorData = insertSubcontractorSchema.parse(req.body);
-        console.log(
-          "Parsed subcontractor data:",
-          JSON.stringify(subcontractorData, null, 2),
-        );
-        const subcontractor =
-          await storage.createSubcontractor(subcontractorData);
-        res.status(201).json({
-          message: "Your application has been submitted successfully",
-          id: subcontractor.id,
-        });
+        const rates = quoteCostRatesSchema.parse(req.body);
+        res.json(await setQuoteCostRates(rates));
       } catch (error) {
         if (error instanceof z.ZodError) {
-          console.error("Zod validation error:", error.errors);
-          return res.status(400).json({
-            message: "Invalid application data",
-            errors: error.errors,
-          });
+          return res
+            .status(400)
+            .json({ message: "Invalid cost rates", errors: error.errors });
         }
-        console.error("Subcontractor application error:", error);
-        res.status(500).json({ message: "Failed to submit application" });
+        console.error("Error updating quote cost rates:", error);
+        res.status(500).json({ message: "Failed to update cost rates" });
       }
     },
   );
 
-  // Admin routes to manage subcontractor applications
+  // Response and close times for requests submitted in a date range (default: the last 12 months)
   app.get(
-    `${apiRouter}/admin/subcontractors`,
-    isAdmin,
+    `${apiRouter}/admin/quote/reports/timing`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const subcontractors = await storage.getSubcontractors();
-        res.json(subcontractors);
+        const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+        const from = req.query.from
+          ? new Date(String(req.query.from))
+          : new Date(to.getFullYear() - 1, to.getMonth(), to.getDate());
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+
+        res.json(await getQuoteTimingReport(from, to));
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to fetch subcontractor applications" });
+        console.error("Error building quote timing report:", error);
+        res.status(500).json({ message: "Failed to build the quote report" });
       }
     },
   );
 
-  app.get(
-    `${apiRouter}/admin/subcontractors/:id`,
-    isAdmin,
+  const quoteAssignmentSchema = z.object({
+    assignedToId: z.number().int().positive().nullable(),
+  });
+
+  app.put(
+    `${apiRouter}/admin/quote/requests/:id/assignment`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "assign" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid subcontractor ID" });
+          return res.status(400).json({ message: "Invalid quote request ID" });
         }
 
-        const subcontractor = await storage.getSubcontractor(id);
-        if (!subcontractor) {
+        const { assignedToId } = quoteAssignmentSchema.parse(req.body);
+
+        const existing = await storage.getQuoteRequest(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        const assignee = assignedToId ? await getQuoteAssignee(assignedToId) : null;
+        if (assignedToId && !assignee) {
           return res
-            .status(404)
-            .json({ message: "Subcontractor application not found" });
+            .status(400)
+            .json({ message: "Quotes can only be assigned to active users who manage quotes" });
         }
 
-        res.json(subcontractor);
+        const quote = await storage.updateQuoteRequest(id, { assignedToId });
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        if (existing.assignedToId !== assignedToId) {
+          const previousAssignee = existing.assignedToId
+            ? await storage.getUser(existing.assignedToId)
+            : undefined;
+          await recordQuoteActivity(req, id, {
+            type: "assignment",
+            fromValue: previousAssignee?.username ?? null,
+            toValue: assignee?.username ?? null,
+          });
+        }
+
+        res.json(quote);
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to fetch subcontractor application" });
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid assignment", errors: error.errors });
+        }
+        console.error("Error assigning quote request:", error);
+        res.status(500).json({ message: "Failed to assign quote request" });
       }
     },
   );
 
+  const quoteFollowUpSchema = z.object({
+    followUpAt: z.coerce.date().nullable(),
+    note: z.string().trim().max(2000).optional(),
+  });
+
   app.put(
-    `${apiRouter}/admin/subcontractors/:id/status`,
-    isAdmin,
+    `${apiRouter}/admin/quote/requests/:id/follow-up`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "schedule_follow_up" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid subcontractor ID" });
+          return res.status(400).json({ message: "Invalid quote request ID" });
         }
 
-        const { status } = req.body;
-        if (!status || !["pending", "approved", "rejected"].includes(status)) {
-          return res.status(400).json({ message: "Invalid status value" });
+        const { followUpAt, note } = quoteFollowUpSchema.parse(req.body);
+
+        const existing = await storage.getQuoteRequest(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Quote request not found" });
         }
 
-        const subcontractor = await storage.updateSubcontractorStatus(
-          id,
-          status,
-        );
-        if (!subcontractor) {
-          return res
-            .status(404)
-            .json({ message: "Subcontractor application not found" });
+        const quote = await storage.updateQuoteRequest(id, { followUpAt });
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
         }
 
-        res.json(subcontractor);
+        await recordQuoteActivity(req, id, {
+          type: "follow_up",
+          body: note || null,
+          fromValue: existing.followUpAt?.toISOString() ?? null,
+          toValue: followUpAt?.toISOString() ?? null,
+        });
+
+        res.json(quote);
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to update subcontractor status" });
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid follow-up date", errors: error.errors });
+        }
+        console.error("Error scheduling quote follow-up:", error);
+        res.status(500).json({ message: "Failed to schedule follow-up" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/subcontractors/:id/notes`,
-    isAdmin,
+  app.post(
+    `${apiRouter}/admin/quote/requests/:id/convert-to-project`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "convert_to_project" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid subcontractor ID" });
+          return res.status(400).json({ message: "Invalid quote request ID" });
         }
 
-        const { notes } = req.body;
-        if (typeof notes !== "string") {
-          return res.status(400).json({ message: "Notes must be a string" });
+        if (!requestHasPermission(req, PERMISSIONS.PROJECTS_MANAGE)) {
+          return res.status(403).json({
+            message: "Forbidden: You do not have permission to create projects",
+          });
         }
 
-        const subcontractor = await storage.updateSubcontractorNotes(id, notes);
-        if (!subcontractor) {
-          return res
-            .status(404)
-            .json({ message: "Subcontractor application not found" });
+        const quote = await storage.getQuoteRequest(id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
         }
 
-        res.json(subcontractor);
+        if (!isQuoteStatus(quote.status) || !CONVERTIBLE_QUOTE_STATUSES.includes(quote.status)) {
+          return res.status(409).json({
+            message: "Only accepted or completed quote requests can be converted to a project",
+          });
+        }
+
+        if (quote.projectId && (await storage.getProject(quote.projectId))) {
+          return res.status(409).json({
+            message: "This quote request has already been converted to a project",
+            projectId: quote.projectId,
+          });
+        }
+
+        res.status(201).json(await convertQuoteToProject(req, quote));
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to update subcontractor notes" });
+        console.error("Error converting quote request to project:", error);
+        res.status(500).json({ message: "Failed to convert quote request to project" });
       }
     },
   );
 
-  app.delete(
-    `${apiRouter}/admin/subcontractors/:id`,
-    isAdmin,
+  // Replaces the customer's tracking link, e.g. when they've lost it or it was shared by mistake
+  app.post(
+    `${apiRouter}/admin/quote/requests/:id/tracking-link`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "issue_tracking_link" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid subcontractor ID" });
+          return res.status(400).json({ message: "Invalid quote request ID" });
         }
 
-        const success = await storage.deleteSubcontractor(id);
-        if (!success) {
-          return res
-            .status(404)
-            .json({ message: "Subcontractor application not found" });
+        const quote = await storage.getQuoteRequest(id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
         }
 
-        res.status(204).send();
+        const trackingUrl = await issueTrackingLink(quote);
+        await recordQuoteActivity(req, id, {
+          type: "tracking_link",
+          toValue: quote.trackingTokenHash ? "replaced" : "issued",
+        });
+
+        res.status(201).json({ trackingUrl });
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to delete subcontractor application" });
+        console.error("Error issuing tracking link:", error);
+        res.status(500).json({ message: "Failed to create tracking link" });
       }
     },
   );
 
-  // Vendor Routes
-  // Public route to submit vendor application
+  // Notes and pipeline changes, oldest first
+  app.get(
+    `${apiRouter}/admin/quote/requests/:id/activity`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid quote request ID" });
+        }
+
+        const quote = await storage.getQuoteRequest(id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        res.json(await storage.getQuoteRequestActivity(id));
+      } catch (error) {
+        console.error("Error fetching quote activity:", error);
+        res.status(500).json({ message: "Failed to fetch quote activity" });
+      }
+    },
+  );
+
+  const quoteNoteSchema = z.object({
+    body: z.string().trim().min(1, "Note cannot be empty").max(5000),
+  });
+
   app.post(
-    `${apiRouter}/vendors/apply`,
+    `${apiRouter}/admin/quote/requests/:id/notes`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request_note"),
     async (req: Request, res: Response) => {
       try {
-        console.log(
-          "Vendor application submitted:",
-          JSON.stringify(req.body, null, 2),
-        );
-        const vendorData = insertVendorSchema.parse(req.body);
-        console.log("Parsed vendor data:", JSON.stringify(vendorData, null, 2));
-        const vendor = await storage.createVendor(vendorData);
-        res.status(201).json({
-          message: "Your application has been submitted successfully",
-          id: vendor.id,
-        });
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid quote request ID" });
+        }
+
+        const { body } = quoteNoteSchema.parse(req.body);
+
+        const quote = await storage.getQuoteRequest(id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        const note = await recordQuoteActivity(req, id, { type: "note", body });
+        res.status(201).json(note);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          console.error("Zod validation error:", error.errors);
-          return res.status(400).json({
-            message: "Invalid application data",
-            errors: error.errors,
-          });
+          return res
+            .status(400)
+            .json({ message: "Invalid note", errors: error.errors });
         }
-        console.error("Vendor application error:", error);
-        res.status(500).json({ message: "Failed to submit application" });
+        console.error("Error adding quote note:", error);
+        res.status(500).json({ message: "Failed to add note" });
       }
     },
   );
 
-  // Admin routes to manage vendor applications
-  app.get(
-    `${apiRouter}/admin/vendors`,
-    isAdmin,
+  app.put(
+    `${apiRouter}/admin/quote/requests/:id/reviewed`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request", { action: "mark_reviewed" }),
     async (req: Request, res: Response) => {
       try {
-        const vendors = await storage.getVendors();
-        res.json(vendors);
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid quote request ID" });
+        }
+
+        const quote = await storage.markQuoteRequestAsReviewed(id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        res.json(quote);
       } catch (error) {
         res
           .status(500)
-          .json({ message: "Failed to fetch vendor applications" });
+          .json({ message: "Failed to mark quote request as reviewed" });
       }
     },
   );
 
-  app.get(
-    `${apiRouter}/admin/vendors/:id`,
-    isAdmin,
+  app.delete(
+    `${apiRouter}/admin/quote/requests/:id`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid vendor ID" });
+          return res.status(400).json({ message: "Invalid quote request ID" });
         }
 
-        const vendor = await storage.getVendor(id);
-        if (!vendor) {
-          return res
-            .status(404)
-            .json({ message: "Vendor application not found" });
+        // First delete any attachments for this quote request
+        await storage.deleteAllQuoteRequestAttachments(id);
+
+        // Then delete the quote request itself
+        const success = await storage.deleteQuoteRequest(id);
+        if (!success) {
+          return res.status(404).json({ message: "Quote request not found" });
         }
 
-        res.json(vendor);
+        res.status(204).send();
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch vendor application" });
+        res.status(500).json({ message: "Failed to delete quote request" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/vendors/:id/status`,
-    isAdmin,
+  // Route to delete a single quote request attachment
+  app.delete(
+    `${apiRouter}/admin/quote/requests/attachments/:id`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("quote_request_attachment"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid vendor ID" });
+          return res.status(400).json({ message: "Invalid attachment ID" });
+        }
+
+        const success = await storage.deleteQuoteRequestAttachment(id);
+        if (!success) {
+          return res.status(404).json({ message: "Attachment not found" });
+        }
+
+        res.status(204).send();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to delete attachment" });
+      }
+    },
+  );
+
+  // Estimates - versioned, priced proposals for a quote request
+  app.get(
+    `${apiRouter}/admin/quote/requests/:id/estimates`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid quote request ID" });
+        }
+
+        res.json(await storage.getEstimates(id));
+      } catch (error) {
+        console.error("Error fetching estimates:", error);
+        res.status(500).json({ message: "Failed to fetch estimates" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/estimates/:id`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid estimate ID" });
+        }
+
+        const estimate = await storage.getEstimate(id);
+        if (!estimate) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+
+        res.json(estimate);
+      } catch (error) {
+        console.error("Error fetching estimate:", error);
+        res.status(500).json({ message: "Failed to fetch estimate" });
+      }
+    },
+  );
+
+  // Creates the next version; send the previous version's fields to start from a copy
+  app.post(
+    `${apiRouter}/admin/estimates`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("estimate"),
+    async (req: Request, res: Response) => {
+      try {
+        const { quoteRequestId, ...input } = newEstimateInputSchema.parse(req.body);
+
+        const quote = await storage.getQuoteRequest(quoteRequestId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        const estimate = await createEstimateVersion(req, quoteRequestId, input);
+        res.status(201).json(estimate);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid estimate", errors: error.errors });
+        }
+        console.error("Error creating estimate:", error);
+        res.status(500).json({ message: "Failed to create estimate" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/estimates/:id`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("estimate"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid estimate ID" });
+        }
+
+        const input = estimateInputSchema.parse(req.body);
+
+        const existing = await storage.getEstimate(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+        if (existing.status !== "draft") {
+          return res.status(409).json({
+            message: "This version has already been sent. Create a new version to make changes.",
+          });
+        }
+
+        res.json(await storage.updateEstimate(id, withEstimateTotals(input)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid estimate", errors: error.errors });
+        }
+        console.error("Error updating estimate:", error);
+        res.status(500).json({ message: "Failed to update estimate" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/estimates/:id`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("estimate"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid estimate ID" });
+        }
+
+        const existing = await storage.getEstimate(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+        if (existing.status !== "draft") {
+          return res.status(409).json({ message: "Sent versions are kept and can't be deleted" });
+        }
+
+        await storage.deleteEstimate(id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting estimate:", error);
+        res.status(500).json({ message: "Failed to delete estimate" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/estimates/:id/pdf`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid estimate ID" });
+        }
+
+        const estimate = await storage.getEstimate(id);
+        if (!estimate) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+        const quote = await storage.getQuoteRequest(estimate.quoteRequestId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+
+        const pdf = await renderProposalPdf(estimate, quote);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `${req.query.download === "false" ? "inline" : "attachment"}; filename="${proposalFileName(estimate)}"`,
+        );
+        res.send(pdf);
+      } catch (error) {
+        console.error("Error rendering proposal PDF:", error);
+        res.status(500).json({ message: "Failed to generate proposal PDF" });
+      }
+    },
+  );
+
+  const sendProposalSchema = z.object({
+    to: z.string().trim().email("Enter a valid email address").optional(),
+    message: z.string().trim().max(5000).optional(),
+  });
+
+  app.post(
+    `${apiRouter}/admin/estimates/:id/send`,
+    requirePermission(PERMISSIONS.QUOTES_MANAGE),
+    audit("estimate", { action: "send" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid estimate ID" });
+        }
+
+        const { to, message } = sendProposalSchema.parse(req.body);
+
+        const estimate = await storage.getEstimate(id);
+        if (!estimate) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+        const quote = await storage.getQuoteRequest(estimate.quoteRequestId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote request not found" });
+        }
+        if (estimate.lineItems.length === 0) {
+          return res.status(400).json({ message: "Add at least one line item before sending" });
+        }
+
+        res.json(await sendProposal(req, estimate, quote, { to: to || quote.email, message }));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid request", errors: error.errors });
+        }
+        console.error("Error sending proposal:", error);
+        res.status(500).json({ message: "Failed to send proposal" });
+      }
+    },
+  );
+
+  // Subcontractor Routes
+  // Public route to submit subcontractor application
+  app.post(
+    `${apiRouter}/subcontractors/apply`,
+    spamGuard("subcontractor_application"),
+    async (req: Request, res: Response) => {
+      try {
+        console.log(
+          "Subcontractor application submitted:",
+          JSON.stringify(req.body, null, 2),
+        );
+        const subcontractorData = insertSubcontractorSchema.parse(req.body);
+        console.log(
+          "Parsed subcontractor data:",
+          JSON.stringify(subcontractorData, null, 2),
+        );
+        if (await quarantineIfFlagged(req, res, "subcontractor_application", subcontractorData)) {
+          return res.status(201).json({
+            message: "Your application has been submitted successfully",
+          });
+        }
+        const subcontractor = await acceptSubcontractorApplication(subcontractorData);
+        res.status(201).json({
+          message: "Your application has been submitted successfully",
+          id: subcontractor.id,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          console.error("Zod validation error:", error.errors);
+          return res.status(400).json({
+            message: "Invalid application data",
+            errors: error.errors,
+          });
+        }
+        console.error("Subcontractor application error:", error);
+        res.status(500).json({ message: "Failed to submit application" });
+      }
+    },
+  );
+
+  // Admin routes to manage subcontractor applications
+  app.get(
+    `${apiRouter}/admin/subcontractors`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const subcontractors = await storage.getSubcontractors();
+        res.json(subcontractors);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to fetch subcontractor applications" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/subcontractors/:id`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid subcontractor ID" });
+        }
+
+        const subcontractor = await storage.getSubcontractor(id);
+        if (!subcontractor) {
+          return res
+            .status(404)
+            .json({ message: "Subcontractor application not found" });
+        }
+
+        res.json(subcontractor);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to fetch subcontractor application" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/subcontractors/:id/status`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("subcontractor", { action: "change_status" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid subcontractor ID" });
         }
 
         const { status } = req.body;
@@ -3647,583 +4416,1943 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Invalid status value" });
         }
 
-        const vendor = await storage.updateVendorStatus(id, status);
-        if (!vendor) {
+        const subcontractor = await storage.updateSubcontractorStatus(
+          id,
+          status,
+        );
+        if (!subcontractor) {
           return res
             .status(404)
-            .json({ message: "Vendor application not found" });
+            .json({ message: "Subcontractor application not found" });
         }
 
-        res.json(vendor);
+        res.json(subcontractor);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to update subcontractor status" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/subcontractors/:id/notes`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("subcontractor", { action: "update_notes" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid subcontractor ID" });
+        }
+
+        const { notes } = req.body;
+        if (typeof notes !== "string") {
+          return res.status(400).json({ message: "Notes must be a string" });
+        }
+
+        const subcontractor = await storage.updateSubcontractorNotes(id, notes);
+        if (!subcontractor) {
+          return res
+            .status(404)
+            .json({ message: "Subcontractor application not found" });
+        }
+
+        res.json(subcontractor);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to update subcontractor notes" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/subcontractors/:id`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("subcontractor"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid subcontractor ID" });
+        }
+
+        const success = await storage.deleteSubcontractor(id);
+        if (!success) {
+          return res
+            .status(404)
+            .json({ message: "Subcontractor application not found" });
+        }
+
+        res.status(204).send();
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to delete subcontractor application" });
+      }
+    },
+  );
+
+  // Vendor Routes
+  // Public route to submit vendor application
+  app.post(
+    `${apiRouter}/vendors/apply`,
+    spamGuard("vendor_application"),
+    async (req: Request, res: Response) => {
+      try {
+        console.log(
+          "Vendor application submitted:",
+          JSON.stringify(req.body, null, 2),
+        );
+        const vendorData = insertVendorSchema.parse(req.body);
+        console.log("Parsed vendor data:", JSON.stringify(vendorData, null, 2));
+        if (await quarantineIfFlagged(req, res, "vendor_application", vendorData)) {
+          return res.status(201).json({
+            message: "Your application has been submitted successfully",
+          });
+        }
+        const vendor = await acceptVendorApplication(vendorData);
+        res.status(201).json({
+          message: "Your application has been submitted successfully",
+          id: vendor.id,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          console.error("Zod validation error:", error.errors);
+          return res.status(400).json({
+            message: "Invalid application data",
+            errors: error.errors,
+          });
+        }
+        console.error("Vendor application error:", error);
+        res.status(500).json({ message: "Failed to submit application" });
+      }
+    },
+  );
+
+  // Admin routes to manage vendor applications
+  app.get(
+    `${apiRouter}/admin/vendors`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const vendors = await storage.getVendors();
+        res.json(vendors);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to fetch vendor applications" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/vendors/:id`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid vendor ID" });
+        }
+
+        const vendor = await storage.getVendor(id);
+        if (!vendor) {
+          return res
+            .status(404)
+            .json({ message: "Vendor application not found" });
+        }
+
+        res.json(vendor);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch vendor application" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/vendors/:id/status`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("vendor", { action: "change_status" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid vendor ID" });
+        }
+
+        const { status } = req.body;
+        if (!status || !["pending", "approved", "rejected"].includes(status)) {
+          return res.status(400).json({ message: "Invalid status value" });
+        }
+
+        const vendor = await storage.updateVendorStatus(id, status);
+        if (!vendor) {
+          return res
+            .status(404)
+            .json({ message: "Vendor application not found" });
+        }
+
+        res.json(vendor);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to update vendor status" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/vendors/:id/notes`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("vendor", { action: "update_notes" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid vendor ID" });
+        }
+
+        const { notes } = req.body;
+        if (typeof notes !== "string") {
+          return res.status(400).json({ message: "Notes must be a string" });
+        }
+
+        const vendor = await storage.updateVendorNotes(id, notes);
+        if (!vendor) {
+          return res
+            .status(404)
+            .json({ message: "Vendor application not found" });
+        }
+
+        res.json(vendor);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to update vendor notes" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/vendors/:id`,
+    requirePermission(PERMISSIONS.VENDORS_MANAGE),
+    audit("vendor"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid vendor ID" });
+        }
+
+        const success = await storage.deleteVendor(id);
+        if (!success) {
+          return res
+            .status(404)
+            .json({ message: "Vendor application not found" });
+        }
+
+        res.status(204).send();
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to delete vendor application" });
+      }
+    },
+  );
+
+  // Job Postings - Public Routes
+  app.get(`${apiRouter}/careers`, async (req: Request, res: Response) => {
+    try {
+      const jobPostings = await storage.getActiveJobPostings();
+      return res.status(200).json(jobPostings);
+    } catch (error) {
+      console.error("Error fetching job postings:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(
+    `${apiRouter}/careers/featured`,
+    async (req: Request, res: Response) => {
+      try {
+        const featuredJobs = await storage.getFeaturedJobPostings();
+        return res.status(200).json(featuredJobs);
+      } catch (error) {
+        console.error("Error fetching featured job postings:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  // Job alerts - double opt-in; the tokens in the emailed links are the only credentials
+  app.post(
+    `${apiRouter}/careers/alerts`,
+    async (req: Request, res: Response) => {
+      try {
+        const subscriptionData = publicJobAlertSubscriptionSchema.parse(req.body);
+
+        const limit = await checkSubmissionRateLimit(req, "job_alert_link");
+        if (!limit.allowed) {
+          res.set("Retry-After", String(limit.retryAfterSeconds));
+          return res.status(429).json({ message: limit.message });
+        }
+
+        await subscribeToJobAlerts(subscriptionData);
+        res.status(201).json({
+          message: "Almost done! We've emailed you a link to confirm your job alerts.",
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid job alert", errors: error.errors });
+        }
+        console.error("Error subscribing to job alerts:", error);
+        res.status(500).json({ message: "Failed to set up your job alerts" });
+      }
+    },
+  );
+
+  const jobAlertTokenSchema = z.object({ token: z.string() });
+
+  app.post(
+    `${apiRouter}/careers/alerts/confirm`,
+    async (req: Request, res: Response) => {
+      try {
+        const { token } = jobAlertTokenSchema.parse(req.body);
+        const subscription = await confirmJobAlertSubscription(token);
+        if (!subscription) {
+          return res
+            .status(404)
+            .json({ message: "This link has expired or has already been used" });
+        }
+
+        res.json({
+          message: "Your job alerts are confirmed.",
+          filterSummary: describeJobAlert(subscription),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid link", errors: error.errors });
+        }
+        console.error("Error confirming job alerts:", error);
+        res.status(500).json({ message: "Failed to confirm your job alerts" });
+      }
+    },
+  );
+
+  app.post(
+    `${apiRouter}/careers/alerts/unsubscribe`,
+    async (req: Request, res: Response) => {
+      try {
+        const { token } = jobAlertTokenSchema.parse(req.body);
+        if (!(await unsubscribeFromJobAlerts(token))) {
+          return res
+            .status(404)
+            .json({ message: "This link is invalid or you have already unsubscribed" });
+        }
+
+        res.json({ message: "You have been unsubscribed from job alerts." });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid link", errors: error.errors });
+        }
+        console.error("Error unsubscribing from job alerts:", error);
+        res.status(500).json({ message: "Failed to unsubscribe" });
+      }
+    },
+  );
+
+  app.get(`${apiRouter}/careers/:id`, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const jobPosting = await storage.getJobPosting(id);
+
+      if (!jobPosting) {
+        return res.status(404).json({ message: "Job posting not found" });
+      }
+
+      // Only return live jobs to the public: active, published and not yet expired
+      if (!isJobPostingLive(jobPosting)) {
+        return res.status(404).json({ message: "Job posting not found" });
+      }
+
+      return res.status(200).json(jobPosting);
+    } catch (error) {
+      console.error("Error fetching job posting:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(
+    `${apiRouter}/careers/:id/apply`,
+    spamGuard("job_application"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const jobPosting = isNaN(id) ? undefined : await storage.getJobPosting(id);
+        if (!jobPosting || !isJobPostingLive(jobPosting)) {
+          return res
+            .status(404)
+            .json({ message: "This position is no longer accepting applications" });
+        }
+
+        const applicationData = publicJobApplicationSchema.parse({ ...req.body, jobPostingId: id });
+        const successMessage = "Thank you for applying! We've emailed you a confirmation.";
+
+        if (await quarantineIfFlagged(req, res, "job_application", applicationData)) {
+          return res.status(201).json({ message: successMessage });
+        }
+
+        await acceptJobApplication(applicationData);
+        res.status(201).json({ message: successMessage });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid application", errors: error.errors });
+        }
+        console.error("Error submitting job application:", error);
+        res.status(500).json({ message: "Failed to submit your application" });
+      }
+    },
+  );
+
+  // Job Postings - Admin Routes
+  app.get(
+    `${apiRouter}/admin/careers`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const jobPostings = await storage.getJobPostings();
+        return res.status(200).json(jobPostings);
+      } catch (error) {
+        console.error("Error fetching all job postings:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  // Who hears about postings that are about to expire; registered before /admin/careers/:id
+  app.get(
+    `${apiRouter}/admin/careers/expiry-settings`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE, PERMISSIONS.SETTINGS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await getJobExpirySettings());
+      } catch (error) {
+        console.error("Error fetching job expiry settings:", error);
+        res.status(500).json({ message: "Failed to fetch the job expiry settings" });
+      }
+    },
+  );
+
+  const jobExpirySettingsSchema = z.object({
+    alertsEnabled: z.boolean(),
+    daysBefore: z.number().int().min(1).max(60),
+    recipients: z.array(z.string().trim().email("Each recipient must be a valid email address")).max(20),
+  });
+
+  app.put(
+    `${apiRouter}/admin/careers/expiry-settings`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("job_expiry_settings"),
+    async (req: Request, res: Response) => {
+      try {
+        const settings = jobExpirySettingsSchema.parse(req.body);
+        res.json(await setJobExpirySettings(settings));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid job expiry settings", errors: error.errors });
+        }
+        console.error("Error updating job expiry settings:", error);
+        res.status(500).json({ message: "Failed to update the job expiry settings" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/careers/:id`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const jobPosting = await storage.getJobPosting(id);
+
+        if (!jobPosting) {
+          return res.status(404).json({ message: "Job posting not found" });
+        }
+
+        return res.status(200).json(jobPosting);
+      } catch (error) {
+        console.error("Error fetching job posting:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  const isValidSchedule = (job: { publishAt?: Date | null; expiresAt?: Date | null }) =>
+    !job.publishAt || !job.expiresAt || job.expiresAt > job.publishAt;
+  const invalidScheduleMessage = "The expiry date must be after the publish date";
+
+  // Queue a posting that has just been switched on for job alert subscribers; the
+  // save has already happened, so a failure here is only logged
+  const announceJobPosting = async (job: JobPosting | undefined) => {
+    if (!job?.active) return;
+    try {
+      await queueJobAlerts(job);
+    } catch (error) {
+      console.error("Error queueing job alerts:", error);
+    }
+  };
+
+  app.post(
+    `${apiRouter}/admin/careers`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_posting"),
+    async (req: Request, res: Response) => {
+      try {
+        const jobPostingData = insertJobPostingSchema.parse(req.body);
+        if (!isValidSchedule(jobPostingData)) {
+          return res.status(400).json({ message: invalidScheduleMessage });
+        }
+        const result = await storage.createJobPosting(jobPostingData);
+        await announceJobPosting(result);
+        return res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid job posting", errors: error.errors });
+        }
+        console.error("Error creating job posting:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/careers/:id`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_posting"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const existing = await storage.getJobPosting(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Job posting not found" });
+        }
+
+        const updates = insertJobPostingSchema.partial().parse(req.body);
+        if (!isValidSchedule({ ...existing, ...updates })) {
+          return res.status(400).json({ message: invalidScheduleMessage });
+        }
+
+        const expiryChanged =
+          updates.expiresAt !== undefined &&
+          (updates.expiresAt?.getTime() ?? null) !== (existing.expiresAt?.getTime() ?? null);
+        const updatedJobPosting = await storage.updateJobPosting(id, {
+          ...updates,
+          // A new expiry date gets its own advance warning
+          ...(expiryChanged ? { expiryAlertedAt: null } : {}),
+        });
+        if (!existing.active) await announceJobPosting(updatedJobPosting);
+
+        return res.status(200).json(updatedJobPosting);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "Invalid job posting", errors: error.errors });
+        }
+        console.error("Error updating job posting:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/careers/:id/toggle-active`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_posting", { action: "toggle_active" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const updatedJobPosting = await storage.toggleJobPostingActive(id);
+
+        if (!updatedJobPosting) {
+          return res.status(404).json({ message: "Job posting not found" });
+        }
+        await announceJobPosting(updatedJobPosting);
+
+        return res.status(200).json(updatedJobPosting);
+      } catch (error) {
+        console.error("Error toggling job posting active status:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/careers/:id/toggle-featured`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_posting", { action: "toggle_featured" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const updatedJobPosting = await storage.toggleJobPostingFeatured(id);
+
+        if (!updatedJobPosting) {
+          return res.status(404).json({ message: "Job posting not found" });
+        }
+
+        return res.status(200).json(updatedJobPosting);
+      } catch (error) {
+        console.error("Error toggling job posting featured status:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  // Resumes hold personal details, so the uploaded files go with their applications
+  const deleteApplicationFiles = async (applications: JobApplication[]) => {
+    const fileKeys = applications.flatMap((application) =>
+      [application.resumeKey, application.coverLetterKey].filter((key): key is string => !!key),
+    );
+    if (fileKeys.length === 0) return;
+    try {
+      await uploadThingService.deleteFiles(fileKeys);
+    } catch (error) {
+      console.error("Error deleting job application files:", error);
+    }
+  };
+
+  app.delete(
+    `${apiRouter}/admin/careers/:id`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_posting"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const applications = await storage.getJobApplications(id);
+        const result = await storage.deleteJobPosting(id);
+
+        if (result) {
+          await deleteApplicationFiles(applications);
+          return res
+            .status(200)
+            .json({ message: "Job posting deleted successfully" });
+        } else {
+          return res.status(404).json({ message: "Job posting not found" });
+        }
+      } catch (error) {
+        console.error("Error deleting job posting:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  // Job Applications - all of them, or one posting's with ?jobPostingId=
+  app.get(
+    `${apiRouter}/admin/job-applications`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const jobPostingId = req.query.jobPostingId ? parseInt(String(req.query.jobPostingId)) : undefined;
+        if (jobPostingId !== undefined && isNaN(jobPostingId)) {
+          return res.status(400).json({ message: "Invalid job posting ID" });
+        }
+
+        res.json(await storage.getJobApplications(jobPostingId));
+      } catch (error) {
+        console.error("Error fetching job applications:", error);
+        res.status(500).json({ message: "Failed to fetch job applications" });
+      }
+    },
+  );
+
+  const applicantStageSchema = z.object({
+    stage: z.enum(APPLICANT_STAGES),
+    note: z.string().trim().max(2000).optional(),
+  });
+
+  // Move a candidate through the pipeline, e.g. by dragging their card on the board
+  app.put(
+    `${apiRouter}/admin/job-applications/:id/stage`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_application", { action: "change_stage" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid application ID" });
+        }
+
+        const { stage, note } = applicantStageSchema.parse(req.body);
+
+        const existing = await storage.getJobApplication(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+        if (existing.stage === stage) {
+          return res.json(existing);
+        }
+
+        const application = await storage.updateJobApplication(id, { stage });
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+
+        await recordApplicantActivity(req, id, {
+          type: "stage_change",
+          body: note || null,
+          fromValue: existing.stage,
+          toValue: stage,
+        });
+
+        res.json(application);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid stage", errors: error.errors });
+        }
+        console.error("Error updating applicant stage:", error);
+        res.status(500).json({ message: "Failed to update the candidate's stage" });
+      }
+    },
+  );
+
+  // Notes, ratings and stage changes, oldest first
+  app.get(
+    `${apiRouter}/admin/job-applications/:id/activity`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid application ID" });
+        }
+
+        const application = await storage.getJobApplication(id);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+
+        res.json(await storage.getJobApplicationActivity(id));
+      } catch (error) {
+        console.error("Error fetching applicant activity:", error);
+        res.status(500).json({ message: "Failed to fetch applicant activity" });
+      }
+    },
+  );
+
+  const applicantNoteSchema = z.object({
+    body: z.string().trim().min(1, "Note cannot be empty").max(5000),
+    rating: z.number().int().min(MIN_APPLICANT_RATING).max(MAX_APPLICANT_RATING).nullish(),
+  });
+
+  app.post(
+    `${apiRouter}/admin/job-applications/:id/notes`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_application_note"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid application ID" });
+        }
+
+        const { body, rating } = applicantNoteSchema.parse(req.body);
+
+        const application = await storage.getJobApplication(id);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+
+        const note = await recordApplicantActivity(req, id, { type: "note", body, rating });
+        if (rating) {
+          await updateAverageRating(id);
+        }
+
+        res.status(201).json(note);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid note", errors: error.errors });
+        }
+        console.error("Error adding applicant note:", error);
+        res.status(500).json({ message: "Failed to add note" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/job-applications/:id`,
+    requirePermission(PERMISSIONS.CAREERS_MANAGE),
+    audit("job_application"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid application ID" });
+        }
+
+        const application = await storage.getJobApplication(id);
+        if (!application || !(await storage.deleteJobApplication(id))) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+
+        await deleteApplicationFiles([application]);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting job application:", error);
+        res.status(500).json({ message: "Failed to delete application" });
+      }
+    },
+  );
+
+  // Team Members API Routes
+  app.get(`${apiRouter}/team-members`, async (req: Request, res: Response) => {
+    try {
+      const teamMembers = await storage.getActiveTeamMembers();
+      return res.status(200).json(teamMembers);
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(
+    `${apiRouter}/admin/team-members`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const teamMembers = await storage.getTeamMembers();
+        return res.status(200).json(teamMembers);
+      } catch (error) {
+        console.error("Error fetching team members:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/team-members/:id`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const teamMember = await storage.getTeamMember(id);
+
+        if (teamMember) {
+          return res.status(200).json(teamMember);
+        } else {
+          return res.status(404).json({ message: "Team member not found" });
+        }
+      } catch (error) {
+        console.error("Error fetching team member:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.post(
+    `${apiRouter}/admin/team-members`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    audit("team_member"),
+    async (req: Request, res: Response) => {
+      try {
+        const teamMember = await storage.createTeamMember(req.body);
+        return res.status(201).json(teamMember);
+      } catch (error) {
+        console.error("Error creating team member:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/team-members/:id`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    audit("team_member"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+
+        // Check if photo has been removed to delete the file
+        if (req.body.photo === null || req.body.photo === "") {
+          const existingTeamMember = await storage.getTeamMember(id);
+          if (existingTeamMember && existingTeamMember.photo) {
+            // Delete the photo file from the filesystem
+            await FileManager.safeDeleteFile(existingTeamMember.photo);
+          }
+        }
+
+        const teamMember = await storage.updateTeamMember(id, req.body);
+
+        if (teamMember) {
+          return res.status(200).json(teamMember);
+        } else {
+          return res.status(404).json({ message: "Team member not found" });
+        }
+      } catch (error) {
+        console.error("Error updating team member:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/team-members/:id/toggle-active`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    audit("team_member", { action: "toggle_active" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const teamMember = await storage.toggleTeamMemberActive(id);
+
+        if (teamMember) {
+          return res.status(200).json(teamMember);
+        } else {
+          return res.status(404).json({ message: "Team member not found" });
+        }
+      } catch (error) {
+        console.error("Error toggling team member active status:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/team-members/:id/order`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    audit("team_member", { action: "reorder" }),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { order } = req.body;
+
+        if (typeof order !== "number") {
+          return res.status(400).json({ message: "Order must be a number" });
+        }
+
+        const teamMember = await storage.updateTeamMemberOrder(id, order);
+
+        if (teamMember) {
+          return res.status(200).json(teamMember);
+        } else {
+          return res.status(404).json({ message: "Team member not found" });
+        }
+      } catch (error) {
+        console.error("Error updating team member order:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/team-members/:id`,
+    requirePermission(PERMISSIONS.TEAM_MANAGE),
+    audit("team_member"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+
+        // Get the team member to retrieve their photo URL before deletion
+        const teamMember = await storage.getTeamMember(id);
+
+        if (teamMember && teamMember.photo) {
+          // Delete the physical file
+          await FileManager.safeDeleteFile(teamMember.photo);
+        }
+
+        const result = await storage.deleteTeamMember(id);
+
+        if (result) {
+          return res
+            .status(200)
+            .json({ message: "Team member deleted successfully" });
+        } else {
+          return res.status(404).json({ message: "Team member not found" });
+        }
+      } catch (error) {
+        console.error("Error deleting team member:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    },
+  );
+
+  // Site Settings API Routes
+  app.get(`${apiRouter}/site-settings`, async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getSiteSettings();
+      res.json(settings.filter(isPublicSiteSetting));
+    } catch (error) {
+      console.error("Error fetching site settings:", error);
+      res.status(500).json({ message: "Failed to fetch site settings" });
+    }
+  });
+
+  app.get(
+    `${apiRouter}/site-settings/category/:category`,
+    async (req: Request, res: Response) => {
+      try {
+        const { category } = req.params;
+        const settings = await storage.getSiteSettingsByCategory(category);
+        res.json(settings.filter(isPublicSiteSetting));
+      } catch (error) {
+        console.error(
+          `Error fetching site settings for category ${req.params.category}:`,
+          error,
+        );
+        res
+          .status(500)
+          .json({ message: "Failed to fetch category site settings" });
+      }
+    },
+  );
+
+  app.get(
+    `${apiRouter}/site-settings/:key`,
+    async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const setting = await storage.getSiteSettingByKey(key);
+
+        if (!setting || !isPublicSiteSetting(setting)) {
+          return res
+            .status(404)
+            .json({ message: `Setting with key ${key} not found` });
+        }
+
+        res.json(setting);
+      } catch (error) {
+        console.error(
+          `Error fetching site setting with key ${req.params.key}:`,
+          error,
+        );
+        res.status(500).json({ message: "Failed to fetch site setting" });
+      }
+    },
+  );
+
+  app.post(
+    `${apiRouter}/admin/site-settings`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
+    async (req: Request, res: Response) => {
+      try {
+        const settingData = insertSiteSettingsSchema.parse(req.body);
+
+        // Check if a setting with this key already exists
+        const existingSetting = await storage.getSiteSettingByKey(
+          settingData.key,
+        );
+        if (existingSetting) {
+          return res.status(400).json({
+            message: `Setting with key "${settingData.key}" already exists. Use PUT to update it.`,
+          });
+        }
+
+        const setting = await storage.createSiteSetting(settingData);
+        res.status(201).json(setting);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid setting data", errors: error.errors });
+        }
+        console.error("Error creating site setting:", error);
+        res.status(500).json({ message: "Failed to create site setting" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/site-settings/:id`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid setting ID" });
+        }
+
+        const settingData = insertSiteSettingsSchema.partial().parse(req.body);
+        const updatedSetting = await storage.updateSiteSetting(id, settingData);
+
+        if (!updatedSetting) {
+          return res.status(404).json({ message: "Setting not found" });
+        }
+
+        res.json(updatedSetting);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid setting data", errors: error.errors });
+        }
+        console.error("Error updating site setting:", error);
+        res.status(500).json({ message: "Failed to update site setting" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/site-settings/key/:key`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting", { idParam: "key" }),
+    async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const { value } = req.body;
+
+        if (!value && value !== "" && value !== null) {
+          return res.status(400).json({ message: "Value is required" });
+        }
+
+        const updatedSetting = await storage.updateSiteSettingByKey(key, value);
+
+        if (!updatedSetting) {
+          return res
+            .status(404)
+            .json({ message: `Setting with key ${key} not found` });
+        }
+
+        res.json(updatedSetting);
+      } catch (error) {
+        console.error(
+          `Error updating site setting with key ${req.params.key}:`,
+          error,
+        );
+        res.status(500).json({ message: "Failed to update site setting" });
+      }
+    },
+  );
+
+  app.delete(
+    `${apiRouter}/admin/site-settings/:id`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("site_setting"),
+    async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid setting ID" });
+        }
+
+        const success = await storage.deleteSiteSetting(id);
+
+        if (!success) {
+          return res.status(404).json({ message: "Setting not found" });
+        }
+
+        res.json({ message: "Setting deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting site setting:", error);
+        res.status(500).json({ message: "Failed to delete site setting" });
+      }
+    },
+  );
+
+  // User Management - Admin Routes
+  app.get(
+    `${apiRouter}/admin/users`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        const users = await storage.getUsers();
+        res.json(users.map(toPublicUser));
       } catch (error) {
-        res.status(500).json({ message: "Failed to update vendor status" });
+        console.error("Error fetching users:", error);
+        res.status(500).json({ message: "Failed to fetch users" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/vendors/:id/notes`,
-    isAdmin,
+  app.get(
+    `${apiRouter}/admin/users/invites`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid vendor ID" });
-        }
+        const invites = await storage.getUserInvites();
+        // Never expose token hashes; only pending invites are of interest
+        res.json(
+          invites
+            .filter((invite) => !invite.acceptedAt)
+            .map(({ tokenHash, ...invite }) => ({
+              ...invite,
+              expired: invite.expiresAt < new Date(),
+            })),
+        );
+      } catch (error) {
+        console.error("Error fetching user invites:", error);
+        res.status(500).json({ message: "Failed to fetch invites" });
+      }
+    },
+  );
 
-        const { notes } = req.body;
-        if (typeof notes !== "string") {
-          return res.status(400).json({ message: "Notes must be a string" });
-        }
+  app.post(
+    `${apiRouter}/admin/users/invites`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user_invite"),
+    async (req: Request, res: Response) => {
+      try {
+        const { email, role } = userInviteSchema.parse(req.body);
 
-        const vendor = await storage.updateVendorNotes(id, notes);
-        if (!vendor) {
+        const existingUser = await storage.getUserByEmail(email);
+        if (existingUser) {
           return res
-            .status(404)
-            .json({ message: "Vendor application not found" });
+            .status(400)
+            .json({ message: "A user with this email already exists" });
         }
 
-        res.json(vendor);
+        const { invite, inviteUrl } = await createUserInvite(req, email, role);
+        const { tokenHash, ...inviteWithoutToken } = invite;
+        res.status(201).json({ ...inviteWithoutToken, inviteUrl });
       } catch (error) {
-        res.status(500).json({ message: "Failed to update vendor notes" });
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid invite data", errors: error.errors });
+        }
+        console.error("Error creating user invite:", error);
+        res.status(500).json({ message: "Failed to create invite" });
       }
     },
   );
 
   app.delete(
-    `${apiRouter}/admin/vendors/:id`,
-    isAdmin,
+    `${apiRouter}/admin/users/invites/:id`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user_invite"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid vendor ID" });
+          return res.status(400).json({ message: "Invalid invite ID" });
         }
 
-        const success = await storage.deleteVendor(id);
+        const success = await storage.deleteUserInvite(id);
         if (!success) {
-          return res
-            .status(404)
-            .json({ message: "Vendor application not found" });
+          return res.status(404).json({ message: "Invite not found" });
         }
 
         res.status(204).send();
       } catch (error) {
-        res
-          .status(500)
-          .json({ message: "Failed to delete vendor application" });
+        console.error("Error revoking user invite:", error);
+        res.status(500).json({ message: "Failed to revoke invite" });
       }
     },
   );
 
-  // Job Postings - Public Routes
-  app.get(`${apiRouter}/careers`, async (req: Request, res: Response) => {
-    try {
-      const jobPostings = await storage.getActiveJobPostings();
-      return res.status(200).json(jobPostings);
-    } catch (error) {
-      console.error("Error fetching job postings:", error);
-      return res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
-  app.get(
-    `${apiRouter}/careers/featured`,
+  app.put(
+    `${apiRouter}/admin/users/:id/role`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "change_role" }),
     async (req: Request, res: Response) => {
       try {
-        const featuredJobs = await storage.getFeaturedJobPostings();
-        return res.status(200).json(featuredJobs);
-      } catch (error) {
-        console.error("Error fetching featured job postings:", error);
-        return res.status(500).json({ message: "Internal server error" });
-      }
-    },
-  );
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
 
-  app.get(`${apiRouter}/careers/:id`, async (req: Request, res: Response) => {
-    try {
-      const id = parseInt(req.params.id);
-      const jobPosting = await storage.getJobPosting(id);
+        const parsed = z.object({ role: z.enum(ROLE_VALUES) }).safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid role value",
+            validValues: ROLE_VALUES,
+          });
+        }
 
-      if (!jobPosting) {
-        return res.status(404).json({ message: "Job posting not found" });
-      }
+        if (id === req.user!.id) {
+          return res
+            .status(400)
+            .json({ message: "You cannot change your own role" });
+        }
 
-      // Only return active jobs to the public
-      if (!jobPosting.active) {
-        return res.status(404).json({ message: "Job posting not found" });
-      }
+        const user = await storage.getUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
 
-      return res.status(200).json(jobPosting);
-    } catch (error) {
-      console.error("Error fetching job posting:", error);
-      return res.status(500).json({ message: "Internal server error" });
-    }
-  });
+        if (
+          parsed.data.role !== ROLES.SUPER_ADMIN &&
+          (await isLastActiveSuperAdmin(user))
+        ) {
+          return res
+            .status(400)
+            .json({ message: "At least one active super admin is required" });
+        }
 
-  // Job Postings - Admin Routes
-  app.get(
-    `${apiRouter}/admin/careers`,
-    isAdmin,
-    async (req: Request, res: Response) => {
-      try {
-        const jobPostings = await storage.getJobPostings();
-        return res.status(200).json(jobPostings);
+        const updatedUser = await storage.updateUser(id, {
+          role: parsed.data.role,
+        });
+        res.json(toPublicUser(updatedUser!));
       } catch (error) {
-        console.error("Error fetching all job postings:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error updating user role:", error);
+        res.status(500).json({ message: "Failed to update user role" });
       }
     },
   );
 
-  app.get(
-    `${apiRouter}/admin/careers/:id`,
-    isAdmin,
+  app.put(
+    `${apiRouter}/admin/users/:id/status`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "change_status" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
-        const jobPosting = await storage.getJobPosting(id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
 
-        if (!jobPosting) {
-          return res.status(404).json({ message: "Job posting not found" });
+        const { active } = req.body;
+        if (typeof active !== "boolean") {
+          return res.status(400).json({ message: "Active flag is required" });
         }
 
-        return res.status(200).json(jobPosting);
+        if (id === req.user!.id) {
+          return res
+            .status(400)
+            .json({ message: "You cannot disable your own account" });
+        }
+
+        const user = await storage.getUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!active && (await isLastActiveSuperAdmin(user))) {
+          return res
+            .status(400)
+            .json({ message: "At least one active super admin is required" });
+        }
+
+        const updatedUser = await storage.updateUser(id, { active });
+        res.json(toPublicUser(updatedUser!));
       } catch (error) {
-        console.error("Error fetching job posting:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error updating user status:", error);
+        res.status(500).json({ message: "Failed to update user status" });
       }
     },
   );
 
   app.post(
-    `${apiRouter}/admin/careers`,
-    isAdmin,
+    `${apiRouter}/admin/users/:id/reset-password`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "reset_password" }),
     async (req: Request, res: Response) => {
       try {
-        const result = await storage.createJobPosting(req.body);
-        return res.status(201).json(result);
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+
+        const user = await storage.getUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        // Replace the current password with a random one so the user
+        // has to choose a new password through the reset link
+        await storage.updateUser(id, {
+          password: await hashPassword(randomBytes(32).toString("hex")),
+        });
+        // Sign the account out everywhere, in case it was reset because it was compromised
+        await revokeAllUserSessions(id, id === req.user!.id ? req.sessionID : undefined);
+        const { resetUrl, resetToken } = await createPasswordResetLink(id);
+
+        res.json({ resetUrl, expiresAt: resetToken.expiresAt });
       } catch (error) {
-        console.error("Error creating job posting:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error forcing password reset:", error);
+        res.status(500).json({ message: "Failed to reset password" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/careers/:id`,
-    isAdmin,
+  app.delete(
+    `${apiRouter}/admin/users/:id`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
-        const updatedJobPosting = await storage.updateJobPosting(id, req.body);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
 
-        if (!updatedJobPosting) {
-          return res.status(404).json({ message: "Job posting not found" });
+        if (id === req.user!.id) {
+          return res
+            .status(400)
+            .json({ message: "You cannot delete your own account" });
         }
 
-        return res.status(200).json(updatedJobPosting);
+        const user = await storage.getUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (await isLastActiveSuperAdmin(user)) {
+          return res
+            .status(400)
+            .json({ message: "At least one active super admin is required" });
+        }
+
+        await storage.deleteUser(id);
+        res.status(204).send();
       } catch (error) {
-        console.error("Error updating job posting:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error deleting user:", error);
+        res.status(500).json({ message: "Failed to delete user" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/careers/:id/toggle-active`,
-    isAdmin,
+  // Clears a user's 2FA enrollment, e.g. after a lost phone; they can enroll again on next sign-in
+  app.delete(
+    `${apiRouter}/admin/users/:id/two-factor`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "reset_two_factor" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
-        const updatedJobPosting = await storage.toggleJobPostingActive(id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
 
-        if (!updatedJobPosting) {
-          return res.status(404).json({ message: "Job posting not found" });
+        const updatedUser = await storage.updateUser(id, {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorBackupCodes: null,
+          twoFactorLastUsedStep: null,
+        });
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
         }
 
-        return res.status(200).json(updatedJobPosting);
+        res.json(toPublicUser(updatedUser));
       } catch (error) {
-        console.error("Error toggling job posting active status:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error resetting two-factor authentication:", error);
+        res
+          .status(500)
+          .json({ message: "Failed to reset two-factor authentication" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/careers/:id/toggle-featured`,
-    isAdmin,
+  // Signs the user out on every device (keeps the acting admin's own session)
+  app.post(
+    `${apiRouter}/admin/users/:id/sign-out`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "sign_out_everywhere" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
-        const updatedJobPosting = await storage.toggleJobPostingFeatured(id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
 
-        if (!updatedJobPosting) {
-          return res.status(404).json({ message: "Job posting not found" });
+        const user = await storage.getUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
         }
 
-        return res.status(200).json(updatedJobPosting);
+        const revokedCount = await revokeAllUserSessions(
+          id,
+          id === req.user!.id ? req.sessionID : undefined,
+        );
+        res.json({ revokedCount });
       } catch (error) {
-        console.error("Error toggling job posting featured status:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error signing user out:", error);
+        res.status(500).json({ message: "Failed to sign user out" });
       }
     },
   );
 
-  app.delete(
-    `${apiRouter}/admin/careers/:id`,
-    isAdmin,
+  // Sign-in lockouts - Admin Routes
+  app.get(
+    `${apiRouter}/admin/users/locked`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        const result = await storage.deleteJobPosting(id);
-
-        if (result) {
-          return res
-            .status(200)
-            .json({ message: "Job posting deleted successfully" });
-        } else {
-          return res.status(404).json({ message: "Job posting not found" });
-        }
+        const lockedUsers = await storage.getLockedUsers();
+        res.json(lockedUsers.map(toPublicUser));
       } catch (error) {
-        console.error("Error deleting job posting:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error fetching locked users:", error);
+        res.status(500).json({ message: "Failed to fetch locked accounts" });
       }
     },
   );
 
-  // Team Members API Routes
-  app.get(`${apiRouter}/team-members`, async (req: Request, res: Response) => {
-    try {
-      const teamMembers = await storage.getActiveTeamMembers();
-      return res.status(200).json(teamMembers);
-    } catch (error) {
-      console.error("Error fetching team members:", error);
-      return res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
-  app.get(
-    `${apiRouter}/admin/team-members`,
-    isAdmin,
+  app.post(
+    `${apiRouter}/admin/users/:id/unlock`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
+    audit("user", { action: "unlock" }),
     async (req: Request, res: Response) => {
       try {
-        const teamMembers = await storage.getTeamMembers();
-        return res.status(200).json(teamMembers);
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+
+        const updatedUser = await unlockUser(id);
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        res.json(toPublicUser(updatedUser));
       } catch (error) {
-        console.error("Error fetching team members:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error unlocking user:", error);
+        res.status(500).json({ message: "Failed to unlock account" });
       }
     },
   );
 
   app.get(
-    `${apiRouter}/admin/team-members/:id`,
-    isAdmin,
+    `${apiRouter}/admin/login-attempts`,
+    requirePermission(PERMISSIONS.USERS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        const teamMember = await storage.getTeamMember(id);
-
-        if (teamMember) {
-          return res.status(200).json(teamMember);
-        } else {
-          return res.status(404).json({ message: "Team member not found" });
-        }
+        const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+        const attempts = await storage.getLoginAttempts(limit);
+        res.json(attempts);
       } catch (error) {
-        console.error("Error fetching team member:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error fetching login attempts:", error);
+        res.status(500).json({ message: "Failed to fetch failed sign-in attempts" });
       }
     },
   );
 
-  app.post(
-    `${apiRouter}/admin/team-members`,
-    isAdmin,
+  // Security policy - Admin Routes
+  app.get(
+    `${apiRouter}/admin/security/two-factor-policy`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const teamMember = await storage.createTeamMember(req.body);
-        return res.status(201).json(teamMember);
+        res.json({ requiredRoles: await getTwoFactorRequiredRoles() });
       } catch (error) {
-        console.error("Error creating team member:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error fetching two-factor policy:", error);
+        res.status(500).json({ message: "Failed to fetch two-factor policy" });
       }
     },
   );
 
   app.put(
-    `${apiRouter}/admin/team-members/:id`,
-    isAdmin,
+    `${apiRouter}/admin/security/two-factor-policy`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("security_policy", { action: "update_two_factor_policy" }),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
+        const data = twoFactorPolicySchema.parse(req.body);
 
-        // Check if photo has been removed to delete the file
-        if (req.body.photo === null || req.body.photo === "") {
-          const existingTeamMember = await storage.getTeamMember(id);
-          if (existingTeamMember && existingTeamMember.photo) {
-            // Delete the photo file from the filesystem
-            await FileManager.safeDeleteFile(existingTeamMember.photo);
-          }
+        const requiredRoles = await setTwoFactorRequiredRoles(
+          Array.from(new Set(data.requiredRoles)),
+        );
+        res.json({ requiredRoles });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid two-factor policy", errors: error.errors });
         }
+        console.error("Error updating two-factor policy:", error);
+        res.status(500).json({ message: "Failed to update two-factor policy" });
+      }
+    },
+  );
 
-        const teamMember = await storage.updateTeamMember(id, req.body);
+  // Lead sources - Admin dashboard
+  const LEAD_FORM_PERMISSIONS: Record<LeadForm, Permission> = {
+    quote_request: PERMISSIONS.QUOTES_MANAGE,
+    contact_message: PERMISSIONS.MESSAGES_MANAGE,
+    newsletter_subscriber: PERMISSIONS.NEWSLETTER_MANAGE,
+    subcontractor_application: PERMISSIONS.VENDORS_MANAGE,
+    vendor_application: PERMISSIONS.VENDORS_MANAGE,
+  };
 
-        if (teamMember) {
-          return res.status(200).json(teamMember);
-        } else {
-          return res.status(404).json({ message: "Team member not found" });
+  app.get(
+    `${apiRouter}/admin/lead-sources`,
+    requirePermission(PERMISSIONS.DASHBOARD_VIEW),
+    async (req: Request, res: Response) => {
+      try {
+        const days = parseInt(String(req.query.days ?? "90"));
+        if (isNaN(days) || days < 1 || days > 3650) {
+          return res.status(400).json({ message: "Invalid number of days" });
         }
+
+        // Each form only counts towards the breakdown if the user can see its submissions
+        const forms = LEAD_FORMS.filter((form) => requestHasPermission(req, LEAD_FORM_PERMISSIONS[form]));
+        const since = new Date(Date.now() - days * 24 * 3600000);
+        res.json(await getLeadSourceBreakdown(forms, since));
       } catch (error) {
-        console.error("Error updating team member:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error building lead source breakdown:", error);
+        res.status(500).json({ message: "Failed to fetch lead sources" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/team-members/:id/toggle-active`,
-    isAdmin,
+  // Spam quarantine - Admin Routes
+  const canManageQuarantined = (req: Request, form: string) =>
+    isSpamProtectedForm(form) && requestHasPermission(req, QUARANTINE_PERMISSIONS[form]);
+
+  app.get(
+    `${apiRouter}/admin/quarantine`,
+    requirePermission(...Object.values(QUARANTINE_PERMISSIONS)),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        const teamMember = await storage.toggleTeamMemberActive(id);
-
-        if (teamMember) {
-          return res.status(200).json(teamMember);
-        } else {
-          return res.status(404).json({ message: "Team member not found" });
-        }
+        const submissions = await storage.getQuarantinedSubmissions();
+        res.json(submissions.filter((submission) => canManageQuarantined(req, submission.form)));
       } catch (error) {
-        console.error("Error toggling team member active status:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error fetching quarantined submissions:", error);
+        res.status(500).json({ message: "Failed to fetch quarantined submissions" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/team-members/:id/order`,
-    isAdmin,
+  app.post(
+    `${apiRouter}/admin/quarantine/:id/release`,
+    requirePermission(...Object.values(QUARANTINE_PERMISSIONS)),
+    audit("quarantined_submission", { action: "release" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
-        const { order } = req.body;
-
-        if (typeof order !== "number") {
-          return res.status(400).json({ message: "Order must be a number" });
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid submission ID" });
         }
 
-        const teamMember = await storage.updateTeamMemberOrder(id, order);
-
-        if (teamMember) {
-          return res.status(200).json(teamMember);
-        } else {
-          return res.status(404).json({ message: "Team member not found" });
+        const submission = await storage.getQuarantinedSubmission(id);
+        if (!submission || !canManageQuarantined(req, submission.form)) {
+          return res.status(404).json({ message: "Quarantined submission not found" });
         }
+
+        await releaseQuarantinedSubmission(submission);
+        await storage.deleteQuarantinedSubmission(id);
+        res.json({ success: true });
       } catch (error) {
-        console.error("Error updating team member order:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "This submission is no longer valid and can't be released",
+            errors: error.errors,
+          });
+        }
+        console.error("Error releasing quarantined submission:", error);
+        res.status(500).json({ message: "Failed to release submission" });
       }
     },
   );
 
   app.delete(
-    `${apiRouter}/admin/team-members/:id`,
-    isAdmin,
+    `${apiRouter}/admin/quarantine/:id`,
+    requirePermission(...Object.values(QUARANTINE_PERMISSIONS)),
+    audit("quarantined_submission"),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid submission ID" });
+        }
 
-        // Get the team member to retrieve their photo URL before deletion
-        const teamMember = await storage.getTeamMember(id);
-
-        if (teamMember && teamMember.photo) {
-          // Delete the physical file
-          await FileManager.safeDeleteFile(teamMember.photo);
+        const submission = await storage.getQuarantinedSubmission(id);
+        if (!submission || !canManageQuarantined(req, submission.form)) {
+          return res.status(404).json({ message: "Quarantined submission not found" });
         }
 
-        const result = await storage.deleteTeamMember(id);
+        await storage.deleteQuarantinedSubmission(id);
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Error deleting quarantined submission:", error);
+        res.status(500).json({ message: "Failed to delete submission" });
+      }
+    },
+  );
 
-        if (result) {
+  // Staff alerts - Admin Routes
+  const staffAlertSettingSchema = z.object({
+    enabled: z.boolean(),
+    recipients: z.array(z.string().trim().email("Each recipient must be a valid email address")).max(20),
+  });
+  const staffAlertSettingsSchema = z.record(z.enum(STAFF_ALERT_EVENTS), staffAlertSettingSchema);
+
+  app.get(
+    `${apiRouter}/admin/notifications/staff-alerts`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await getStaffAlertSettings());
+      } catch (error) {
+        console.error("Error fetching staff alert settings:", error);
+        res.status(500).json({ message: "Failed to fetch staff alert settings" });
+      }
+    },
+  );
+
+  app.put(
+    `${apiRouter}/admin/notifications/staff-alerts`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("staff_alert_settings"),
+    async (req: Request, res: Response) => {
+      try {
+        const settings = staffAlertSettingsSchema.parse(req.body);
+        res.json(await setStaffAlertSettings(settings));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
           return res
-            .status(200)
-            .json({ message: "Team member deleted successfully" });
-        } else {
-          return res.status(404).json({ message: "Team member not found" });
+            .status(400)
+            .json({ message: "Invalid staff alert settings", errors: error.errors });
         }
-      } catch (error) {
-        console.error("Error deleting team member:", error);
-        return res.status(500).json({ message: "Internal server error" });
+        console.error("Error updating staff alert settings:", error);
+        res.status(500).json({ message: "Failed to update staff alert settings" });
       }
     },
   );
 
-  // Site Settings API Routes
-  app.get(`${apiRouter}/site-settings`, async (req: Request, res: Response) => {
-    try {
-      const settings = await storage.getSiteSettings();
-      res.json(settings);
-    } catch (error) {
-      console.error("Error fetching site settings:", error);
-      res.status(500).json({ message: "Failed to fetch site settings" });
-    }
+  // Email templates - Admin Routes
+  const mailTemplateSchema = z.object({
+    subject: z.string().trim().min(1, "Subject is required").max(200),
+    text: z.string().trim().min(1, "Plain-text body is required").max(20000),
+    html: z.string().trim().min(1, "HTML body is required").max(50000),
   });
 
   app.get(
-    `${apiRouter}/site-settings/category/:category`,
+    `${apiRouter}/admin/email-templates`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const { category } = req.params;
-        const settings = await storage.getSiteSettingsByCategory(category);
-        res.json(settings);
+        res.json(await getEditableMailTemplates());
       } catch (error) {
-        console.error(
-          `Error fetching site settings for category ${req.params.category}:`,
-          error,
-        );
-        res
-          .status(500)
-          .json({ message: "Failed to fetch category site settings" });
+        console.error("Error fetching email templates:", error);
+        res.status(500).json({ message: "Failed to fetch email templates" });
       }
     },
   );
 
-  app.get(
-    `${apiRouter}/site-settings/:key`,
+  app.put(
+    `${apiRouter}/admin/email-templates/:name`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("email_template", { idParam: "name" }),
     async (req: Request, res: Response) => {
       try {
-        const { key } = req.params;
-        const setting = await storage.getSiteSettingByKey(key);
+        const { name } = req.params;
+        if (!isEditableMailTemplate(name)) {
+          return res.status(404).json({ message: "Email template not found" });
+        }
 
-        if (!setting) {
+        const template = mailTemplateSchema.parse(req.body);
+        res.json(await setMailTemplateOverride(name, template));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
           return res
-            .status(404)
-            .json({ message: `Setting with key ${key} not found` });
+            .status(400)
+            .json({ message: "Invalid email template", errors: error.errors });
         }
+        console.error("Error updating email template:", error);
+        res.status(500).json({ message: "Failed to update email template" });
+      }
+    },
+  );
 
-        res.json(setting);
+  // Restores the built-in default
+  app.delete(
+    `${apiRouter}/admin/email-templates/:name`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+    audit("email_template", { action: "reset", idParam: "name" }),
+    async (req: Request, res: Response) => {
+      try {
+        const { name } = req.params;
+        if (!isEditableMailTemplate(name)) {
+          return res.status(404).json({ message: "Email template not found" });
+        }
+
+        res.json(await resetMailTemplate(name));
       } catch (error) {
-        console.error(
-          `Error fetching site setting with key ${req.params.key}:`,
-          error,
-        );
-        res.status(500).json({ message: "Failed to fetch site setting" });
+        console.error("Error resetting email template:", error);
+        res.status(500).json({ message: "Failed to reset email template" });
       }
     },
   );
 
+  // Renders unsaved edits with sample values so admins can check them before saving
   app.post(
-    `${apiRouter}/admin/site-settings`,
-    isAdmin,
+    `${apiRouter}/admin/email-templates/:name/preview`,
+    requirePermission(PERMISSIONS.SETTINGS_MANAGE),
     async (req: Request, res: Response) => {
       try {
-        const settingData = insertSiteSettingsSchema.parse(req.body);
-
-        // Check if a setting with this key already exists
-        const existingSetting = await storage.getSiteSettingByKey(
-          settingData.key,
-        );
-        if (existingSetting) {
-          return res.status(400).json({
-            message: `Setting with key "${settingData.key}" already exists. Use PUT to update it.`,
-          });
+        const { name } = req.params;
+        if (!isEditableMailTemplate(name)) {
+          return res.status(404).json({ message: "Email template not found" });
         }
 
-        const setting = await storage.createSiteSetting(settingData);
-        res.status(201).json(setting);
+        const template = mailTemplateSchema.parse(req.body);
+        res.json(renderTemplate(template, EDITABLE_MAIL_TEMPLATES[name].sampleVariables));
       } catch (error) {
         if (error instanceof z.ZodError) {
           return res
             .status(400)
-            .json({ message: "Invalid setting data", errors: error.errors });
+            .json({ message: "Invalid email template", errors: error.errors });
         }
-        console.error("Error creating site setting:", error);
-        res.status(500).json({ message: "Failed to create site setting" });
+        console.error("Error previewing email template:", error);
+        res.status(500).json({ message: "Failed to preview email template" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/site-settings/:id`,
-    isAdmin,
+  // Audit log - Admin Routes
+  const auditLogQuerySchema = z.object({
+    actorId: z.coerce.number().int().positive().optional(),
+    entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+    entityId: z.string().min(1).optional(),
+    action: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().positive().max(5000).default(500),
+  });
+
+  app.get(
+    `${apiRouter}/admin/audit`,
+    requirePermission(PERMISSIONS.AUDIT_VIEW),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid setting ID" });
+        const filters = auditLogQuerySchema.parse(req.query);
+        const entries = await storage.getAuditLogEntries(filters);
+        res.json(entries);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid audit log filters", errors: error.errors });
         }
+        console.error("Error fetching audit log:", error);
+        res.status(500).json({ message: "Failed to fetch audit log" });
+      }
+    },
+  );
 
-        const settingData = insertSiteSettingsSchema.partial().parse(req.body);
-        const updatedSetting = await storage.updateSiteSetting(id, settingData);
-
-        if (!updatedSetting) {
-          return res.status(404).json({ message: "Setting not found" });
-        }
+  // Email outbox - Admin Routes
+  const outboxQuerySchema = z.object({
+    status: z.enum(["sent", "failed"]).optional(),
+    template: z.string().min(1).optional(),
+    recipient: z.string().min(1).optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(200),
+  });
 
-        res.json(updatedSetting);
+  app.get(
+    `${apiRouter}/admin/outbox`,
+    requirePermission(PERMISSIONS.OUTBOX_VIEW),
+    async (req: Request, res: Response) => {
+      try {
+        const filters = outboxQuerySchema.parse(req.query);
+        const entries = await storage.getEmailLogEntries(filters);
+
+        // Bodies are only sent when a single message is opened
+        res.json(
+          entries.map(({ textBody, htmlBody, ...entry }) => ({
+            ...entry,
+            hasBody: textBody !== null || htmlBody !== null,
+          })),
+        );
       } catch (error) {
         if (error instanceof z.ZodError) {
           return res
             .status(400)
-            .json({ message: "Invalid setting data", errors: error.errors });
+            .json({ message: "Invalid outbox filters", errors: error.errors });
         }
-        console.error("Error updating site setting:", error);
-        res.status(500).json({ message: "Failed to update site setting" });
+        console.error("Error fetching email outbox:", error);
+        res.status(500).json({ message: "Failed to fetch email outbox" });
       }
     },
   );
 
-  app.put(
-    `${apiRouter}/admin/site-settings/key/:key`,
-    isAdmin,
+  app.get(
+    `${apiRouter}/admin/outbox/status`,
+    requirePermission(PERMISSIONS.OUTBOX_VIEW),
+    (req: Request, res: Response) => {
+      res.json({ transport: mailService.transportName, sender: mailService.sender });
+    },
+  );
+
+  app.get(
+    `${apiRouter}/admin/outbox/:id`,
+    requirePermission(PERMISSIONS.OUTBOX_VIEW),
     async (req: Request, res: Response) => {
       try {
-        const { key } = req.params;
-        const { value } = req.body;
-
-        if (!value && value !== "" && value !== null) {
-          return res.status(400).json({ message: "Value is required" });
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid email ID" });
         }
 
-        const updatedSetting = await storage.updateSiteSettingByKey(key, value);
+        const entry = await storage.getEmailLogEntry(id);
+        if (!entry) {
+          return res.status(404).json({ message: "Email not found" });
+        }
+        res.json(entry);
+      } catch (error) {
+        console.error("Error fetching email:", error);
+        res.status(500).json({ message: "Failed to fetch email" });
+      }
+    },
+  );
 
-        if (!updatedSetting) {
+  app.post(
+    `${apiRouter}/admin/outbox/test`,
+    requirePermission(PERMISSIONS.OUTBOX_VIEW),
+    audit("email", { action: "send_test" }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.user?.email) {
           return res
-            .status(404)
-            .json({ message: `Setting with key ${key} not found` });
+            .status(400)
+            .json({ message: "Add an email address to your profile before sending a test email" });
         }
 
-        res.json(updatedSetting);
+        const result = await mailService.sendTemplate("test_message", req.user.email, {
+          username: req.user.username,
+          sentAt: new Date().toLocaleString(),
+        });
+        res.json({ id: result.logId, recipient: req.user.email, transport: result.transport });
       } catch (error) {
-        console.error(
-          `Error updating site setting with key ${req.params.key}:`,
-          error,
-        );
-        res.status(500).json({ message: "Failed to update site setting" });
+        console.error("Error sending test email:", error);
+        res.status(500).json({ message: "Failed to send test email" });
       }
     },
   );
 
-  app.delete(
-    `${apiRouter}/admin/site-settings/:id`,
-    isAdmin,
+  app.post(
+    `${apiRouter}/admin/outbox/:id/resend`,
+    requirePermission(PERMISSIONS.OUTBOX_VIEW),
+    audit("email", { action: "resend" }),
     async (req: Request, res: Response) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
-          return res.status(400).json({ message: "Invalid setting ID" });
+          return res.status(400).json({ message: "Invalid email ID" });
         }
 
-        const success = await storage.deleteSiteSetting(id);
-
-        if (!success) {
-          return res.status(404).json({ message: "Setting not found" });
+        const entry = await storage.getEmailLogEntry(id);
+        if (!entry) {
+          return res.status(404).json({ message: "Email not found" });
+        }
+        if (entry.textBody === null) {
+          return res
+            .status(400)
+            .json({ message: "This email's contents were not stored, so it can't be resent" });
         }
 
-        res.json({ message: "Setting deleted successfully" });
+        const result = await mailService.send(
+          {
+            to: entry.recipient,
+            subject: entry.subject,
+            text: entry.textBody,
+            html: entry.htmlBody ?? undefined,
+          },
+          { template: entry.template ?? undefined },
+        );
+        res.json({ id: result.logId, recipient: entry.recipient, transport: result.transport });
       } catch (error) {
-        console.error("Error deleting site setting:", error);
-        res.status(500).json({ message: "Failed to delete site setting" });
+        console.error("Error resending email:", error);
+        res.status(500).json({ message: "Failed to resend email" });
       }
     },
   );
@@ -4242,6 +6371,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 3600000); // Run every hour
 
+  // Daily jobs are timed from their last recorded run, so restarts don't keep postponing them
+  scheduleRecurringJob("login_attempt_cleanup", "Failed sign-in cleanup", DAY_MS, async () => {
+    const deletedCount = await cleanupOldLoginAttempts();
+    if (deletedCount > 0) {
+      console.log(`Removed ${deletedCount} old failed sign-in records`);
+    }
+  });
+
+  // Prune form rate-limit records and old quarantined submissions
+  scheduleRecurringJob("spam_protection_cleanup", "Spam protection cleanup", DAY_MS, async () => {
+    const { attempts, quarantined } = await cleanupSpamProtectionRecords();
+    if (attempts > 0 || quarantined > 0) {
+      console.log(`Removed ${attempts} form rate-limit records and ${quarantined} quarantined submissions`);
+    }
+  });
+
+  // Remove saved form drafts whose magic links have expired
+  scheduleRecurringJob("form_draft_cleanup", "Expired form draft cleanup", DAY_MS, async () => {
+    const removedCount = await cleanupExpiredDrafts();
+    if (removedCount > 0) {
+      console.log(`Removed ${removedCount} expired form drafts`);
+    }
+  });
+
+  // Alert staff about quote requests that have missed the response target
+  setInterval(async () => {
+    try {
+      const alertedCount = await sendQuoteSlaAlerts();
+      if (alertedCount > 0) {
+        console.log(`Sent response target alerts for ${alertedCount} quote requests`);
+      }
+    } catch (error) {
+      console.error("Error sending quote response target alerts:", error);
+    }
+  }, 15 * 60000);
+
+  // Archive expired job postings and warn HR about ones expiring soon
+  setInterval(async () => {
+    try {
+      const archivedCount = await archiveExpiredJobPostings();
+      if (archivedCount > 0) {
+        console.log(`Archived ${archivedCount} expired job postings`);
+      }
+      const alertedCount = await sendJobExpiryAlerts();
+      if (alertedCount > 0) {
+        console.log(`Sent expiry alerts for ${alertedCount} job postings`);
+      }
+    } catch (error) {
+      console.error("Error archiving or alerting on expiring job postings:", error);
+    }
+  }, 3600000);
+
+  // Queue scheduled postings for job alert subscribers as they go live
+  setInterval(async () => {
+    try {
+      const queuedCount = await queueScheduledJobAlerts();
+      if (queuedCount > 0) {
+        console.log(`Queued ${queuedCount} job alerts for newly published postings`);
+      }
+    } catch (error) {
+      console.error("Error queueing job alerts for scheduled postings:", error);
+    }
+  }, 3600000);
+
+  // Send job alert subscribers a digest of new openings, and drop unconfirmed sign-ups
+  scheduleRecurringJob("job_alert_digest", "Job alert digest", DAY_MS, async () => {
+    const sentCount = await sendJobAlertDigests();
+    if (sentCount > 0) {
+      console.log(`Sent ${sentCount} job alert digests`);
+    }
+    const removedCount = await cleanupUnconfirmedJobAlerts();
+    if (removedCount > 0) {
+      console.log(`Removed ${removedCount} unconfirmed job alert subscriptions`);
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+
+// Kept out of the public site settings routes with the other private categories
+export const SCHEDULED_JOBS_SETTING_CATEGORY = "scheduled_jobs";
+
+const CHECK_INTERVAL_MS = 15 * 60000;
+
+const settingKey = (name: string) => `scheduled_job_${name}`;
+
+async function getLastRunAt(name: string): Promise<Date | undefined> {
+  const setting = await storage.getSiteSettingByKey(settingKey(name));
+  const lastRunAt = setting ? new Date(setting.value) : undefined;
+  return lastRunAt && !isNaN(lastRunAt.getTime()) ? lastRunAt : undefined;
+}
+
+async function recordRun(name: string, label: string, runAt: Date) {
+  const key = settingKey(name);
+  const value = runAt.toISOString();
+  const existing = await storage.getSiteSettingByKey(key);
+  if (existing) {
+    await storage.updateSiteSettingByKey(key, value);
+  } else {
+    await storage.createSiteSetting({
+      key,
+      value,
+      category: SCHEDULED_JOBS_SETTING_CATEGORY,
+      label: `Last run: ${label}`,
+      description: "When this background job last finished, so restarts don't reset its schedule",
+      type: "text",
+    });
+  }
+}
+
+/**
+ * Run a task every intervalMs, measured from its last recorded run instead of
+ * from process start. The server restarts and sleeps more often than once a
+ * day, so a plain daily setInterval might never fire. Checked at startup and
+ * then every 15 minutes; a failed run is retried at the next check.
+ */
+export function scheduleRecurringJob(
+  name: string,
+  label: string,
+  intervalMs: number,
+  task: () => Promise<void>,
+) {
+  let running = false;
+
+  const runIfDue = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const lastRunAt = await getLastRunAt(name);
+      if (lastRunAt && Date.now() - lastRunAt.getTime() < intervalMs) return;
+
+      const startedAt = new Date();
+      await task();
+      await recordRun(name, label, startedAt);
+    } catch (error) {
+      console.error(`Error running scheduled job "${label}":`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void runIfDue();
+  setInterval(runIfDue, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,228 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { storage } from "../storage";
+import type { InsertEmailLogEntry } from "@shared/schema";
+import { getMailTemplate } from "../emailTemplates";
+import {
+  renderTemplate,
+  type MailTemplateName,
+  type MailTemplateVariables,
+} from "./mailTemplates";
+
+/**
+ * A file attached to an outgoing email
+ */
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * A single outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Not kept in the email log, so resending from the outbox sends the message without them
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Options controlling how a send is recorded in the email log
+ */
+export interface MailSendOptions {
+  // Template the message was rendered from
+  template?: string;
+  // Set to false when the body contains a secret (e.g. a one-time link) that shouldn't be kept
+  storeBody?: boolean;
+}
+
+/**
+ * Result of sending an email
+ */
+export interface MailSendResult {
+  messageId: string;
+  transport: MailTransportName;
+  // Path of the written .eml file when using the file transport
+  filePath?: string;
+  // Id of the email_log row recording this send
+  logId?: number;
+}
+
+export type MailTransportName = "smtp" | "file";
+
+/**
+ * Delivers a fully-built message. Implementations are picked by createMailTransport.
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+  deliver(message: MailMessage & { from: string }): Promise<{ messageId: string; filePath?: string }>;
+}
+
+/**
+ * Sends through an SMTP server configured by SMTP_HOST, SMTP_PORT, SMTP_USER,
+ * SMTP_PASSWORD and SMTP_SECURE
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = "smtp" as const;
+  private transporter: Transporter;
+
+  constructor(host: string) {
+    const port = parseInt(process.env.SMTP_PORT || "587");
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async deliver(message: MailMessage & { from: string }) {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Writes each message as an .eml file to an outbox directory so email flows can
+ * be exercised in development and tests without an SMTP server
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = "file" as const;
+  private transporter: Transporter;
+
+  constructor(private outboxDir: string) {
+    // Build the raw message in memory; deliver() writes it to the outbox
+    this.transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: "unix",
+    });
+  }
+
+  async deliver(message: MailMessage & { from: string }) {
+    const info = await this.transporter.sendMail(message);
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filePath = path.join(this.outboxDir, `${Date.now()}-${safeRecipient}.eml`);
+    await fs.writeFile(filePath, info.message as Buffer);
+    console.log(`Email to ${message.to} ("${message.subject}") written to ${filePath}`);
+
+    return { messageId: info.messageId, filePath };
+  }
+}
+
+/**
+ * Uses SMTP when SMTP_HOST is configured. Otherwise (or when MAIL_TRANSPORT=file)
+ * messages go to MAIL_OUTBOX_DIR.
+ */
+export function createMailTransport(): MailTransport {
+  if (process.env.SMTP_HOST && process.env.MAIL_TRANSPORT !== "file") {
+    return new SmtpMailTransport(process.env.SMTP_HOST);
+  }
+  return new FileMailTransport(
+    process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), "arcemusa-mail-outbox"),
+  );
+}
+
+/**
+ * Service class for sending transactional email.
+ *
+ * Every send, successful or not, is recorded in the email log that backs the
+ * admin outbox viewer.
+ */
+export class MailService {
+  private from: string;
+
+  constructor(private transport: MailTransport = createMailTransport()) {
+    this.from = process.env.MAIL_FROM || "ARCEM Construction <no-reply@arcemusa.com>";
+  }
+
+  get transportName(): MailTransportName {
+    return this.transport.name;
+  }
+
+  get sender(): string {
+    return this.from;
+  }
+
+  /**
+   * Send an email using the configured transport
+   * @param message The message to send
+   * @param options How the send is recorded in the email log
+   * @returns Promise with the message id (and file path for the file transport)
+   */
+  async send(message: MailMessage, options: MailSendOptions = {}): Promise<MailSendResult> {
+    const storeBody = options.storeBody ?? true;
+    const logEntry = {
+      recipient: message.to,
+      sender: this.from,
+      subject: message.subject,
+      template: options.template ?? null,
+      textBody: storeBody ? message.text : null,
+      htmlBody: storeBody ? message.html ?? null : null,
+      transport: this.transport.name,
+    };
+
+    try {
+      const { messageId, filePath } = await this.transport.deliver({ from: this.from, ...message });
+      const logId = await this.record({
+        ...logEntry,
+        status: "sent",
+        messageId,
+        filePath: filePath ?? null,
+      });
+
+      return { messageId, transport: this.transport.name, filePath, logId };
+    } catch (error) {
+      console.error(`Error sending email to ${message.to}:`, error);
+      await this.record({
+        ...logEntry,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a named template and send it
+   * @param name Template from MAIL_TEMPLATES; admin overrides take precedence
+   * @param to Recipient address
+   * @param variables Values for the template's placeholders
+   * @param options How the send is recorded in the email log
+   * @param attachments Files to attach
+   */
+  async sendTemplate(
+    name: MailTemplateName,
+    to: string,
+    variables: MailTemplateVariables,
+    options: Omit<MailSendOptions, "template"> = {},
+    attachments?: MailAttachment[],
+  ): Promise<MailSendResult> {
+    const rendered = renderTemplate(await getMailTemplate(name), variables);
+    return this.send({ to, ...rendered, attachments }, { ...options, template: name });
+  }
+
+  // A failure to write the log must never turn a delivered email into an error
+  private async record(entry: InsertEmailLogEntry): Promise<number | undefined> {
+    try {
+      const logEntry = await storage.createEmailLogEntry(entry);
+      return logEntry.id;
+    } catch (error) {
+      console.error("Error recording email in the email log:", error);
+      return undefined;
+    }
+  }
+}
+
+// Export a singleton instance
+export const mailService = new MailService();
@@ -0,0 +1,452 @@
+/**
+ * Email templates and the renderer used by MailService.sendTemplate.
+ *
+ * Placeholders use {{name}}. In HTML bodies values are escaped; use {{{name}}}
+ * for values that are already safe HTML (e.g. a pre-rendered list).
+ */
+
+/**
+ * Subject and bodies of an email before placeholders are filled in
+ */
+export interface MailTemplate {
+  subject: string;
+  text: string;
+  // Inner HTML content; wrapped in the branded layout when rendered
+  html: string;
+}
+
+export type MailTemplateVariables = Record<string, string | number | null | undefined>;
+
+/**
+ * A template with its placeholders filled in, ready to send
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const COMPANY_NAME = "ARCEM Construction";
+
+// Receipt sent to someone who submitted a public form; intro (and an optional closing paragraph) is the only part that differs
+function acknowledgementTemplate(
+  subject: string,
+  intro: string,
+  closing?: { text: string; html: string },
+): MailTemplate {
+  return {
+    subject,
+    text: [
+      "Hi {{name}},",
+      "",
+      intro,
+      "",
+      "Your reference number is {{referenceNumber}}. Please mention it if you contact us about this submission.",
+      "",
+      "Here is a copy of what you sent us:",
+      "",
+      "{{submissionText}}",
+      "",
+      ...(closing ? [closing.text, ""] : []),
+      "The ARCEM Construction team",
+    ].join("\n"),
+    html: `
+      <p>Hi {{name}},</p>
+      <p>${intro}</p>
+      <p>Your reference number is <strong>{{referenceNumber}}</strong>. Please mention it if you contact us about this submission.</p>
+      <p>Here is a copy of what you sent us:</p>
+      {{{submissionHtml}}}
+      ${closing ? `<p>${closing.html}</p>` : ""}
+      <p>The ARCEM Construction team</p>
+    `,
+  };
+}
+
+export const MAIL_TEMPLATES = {
+  password_reset: {
+    subject: "Reset your ARCEM Construction password",
+    text: [
+      "Hi {{username}},",
+      "",
+      "We received a request to reset the password for your ARCEM Construction admin account.",
+      "Use the link below to choose a new password. The link expires in {{expiresIn}} and can only be used once.",
+      "",
+      "{{resetUrl}}",
+      "",
+      "If you didn't request this, you can ignore this email and your password will stay the same.",
+    ].join("\n"),
+    html: `
+      <p>Hi {{username}},</p>
+      <p>We received a request to reset the password for your ARCEM Construction admin account.</p>
+      <p><a href="{{resetUrl}}">Choose a new password</a></p>
+      <p>The link expires in {{expiresIn}} and can only be used once.</p>
+      <p>If you didn't request this, you can ignore this email and your password will stay the same.</p>
+    `,
+  },
+  test_message: {
+    subject: "ARCEM Construction test email",
+    text: [
+      "Hi {{username}},",
+      "",
+      "This is a test email sent from the ARCEM Construction admin panel at {{sentAt}}.",
+      "If you can read this, outgoing email is working.",
+    ].join("\n"),
+    html: `
+      <p>Hi {{username}},</p>
+      <p>This is a test email sent from the ARCEM Construction admin panel at {{sentAt}}.</p>
+      <p>If you can read this, outgoing email is working.</p>
+    `,
+  },
+  staff_alert: {
+    subject: "{{title}}",
+    text: [
+      "{{title}}",
+      "",
+      "{{summaryText}}",
+      "",
+      "View it in the admin panel:",
+      "{{adminUrl}}",
+    ].join("\n"),
+    html: `
+      <p><strong>{{title}}</strong></p>
+      {{{summaryHtml}}}
+      <p><a href="{{adminUrl}}">View it in the admin panel</a></p>
+    `,
+  },
+  form_draft_saved: {
+    subject: "Finish your {{formLabel}} with ARCEM Construction",
+    text: [
+      "Hi,",
+      "",
+      "We saved your {{formLabel}} so you can finish it later. Use the link below to pick up where you left off, on any device.",
+      "",
+      "{{resumeUrl}}",
+      "",
+      "The link works until {{expiresOn}}. Keep it private: anyone with the link can see and change what you've entered.",
+      "",
+      "The ARCEM Construction team",
+    ].join("\n"),
+    html: `
+      <p>Hi,</p>
+      <p>We saved your {{formLabel}} so you can finish it later. Use the link below to pick up where you left off, on any device.</p>
+      <p><a href="{{resumeUrl}}">Continue your {{formLabel}}</a></p>
+      <p>The link works until {{expiresOn}}. Keep it private: anyone with the link can see and change what you've entered.</p>
+      <p>The ARCEM Construction team</p>
+    `,
+  },
+  job_alert_confirm: {
+    subject: "Confirm your ARCEM Construction job alerts",
+    text: [
+      "Hi,",
+      "",
+      "Someone, hopefully you, asked to be emailed when ARCEM Construction posts new openings matching: {{filterSummary}}.",
+      "Use the link below to confirm. We won't send any job alerts until you do.",
+      "",
+      "{{confirmUrl}}",
+      "",
+      "The link works for {{expiresIn}}. If you didn't ask for job alerts, you can ignore this email.",
+      "",
+      "The ARCEM Construction team",
+    ].join("\n"),
+    html: `
+      <p>Hi,</p>
+      <p>Someone, hopefully you, asked to be emailed when ARCEM Construction posts new openings matching: <strong>{{filterSummary}}</strong>.</p>
+      <p><a href="{{confirmUrl}}">Confirm your job alerts</a></p>
+      <p>We won't send any job alerts until you do. The link works for {{expiresIn}}. If you didn't ask for job alerts, you can ignore this email.</p>
+      <p>The ARCEM Construction team</p>
+    `,
+  },
+  job_alert_digest: {
+    subject: "New openings at ARCEM Construction: {{jobCount}} matching your job alert",
+    text: [
+      "Hi,",
+      "",
+      "These positions matching your job alert ({{filterSummary}}) have just opened:",
+      "",
+      "{{jobsText}}",
+      "",
+      "To stop receiving job alerts, unsubscribe here:",
+      "{{unsubscribeUrl}}",
+      "",
+      "The ARCEM Construction team",
+    ].join("\n"),
+    html: `
+      <p>Hi,</p>
+      <p>These positions matching your job alert (<strong>{{filterSummary}}</strong>) have just opened:</p>
+      {{{jobsHtml}}}
+      <p style="font-size:12px;color:#6b7280;">You're receiving this because you signed up for job alerts on our careers page. <a href="{{unsubscribeUrl}}">Unsubscribe</a></p>
+      <p>The ARCEM Construction team</p>
+    `,
+  },
+  contact_message_received: acknowledgementTemplate(
+    "We received your message [{{referenceNumber}}]",
+    "Thank you for contacting ARCEM Construction. A member of our team will get back to you as soon as possible.",
+  ),
+  quote_request_received: acknowledgementTemplate(
+    "We received your quote request [{{referenceNumber}}]",
+    "Thank you for requesting a quote from ARCEM Construction. Our estimating team will review your project details and contact you to discuss next steps.",
+    {
+      text: "You can check the status of your request, add files or send us a message at any time using your private tracking link:\n{{trackingUrl}}",
+      html: 'You can check the status of your request, add files or send us a message at any time using your <a href="{{trackingUrl}}">private tracking link</a>.',
+    },
+  ),
+  subcontractor_application_received: acknowledgementTemplate(
+    "Your subcontractor registration [{{referenceNumber}}]",
+    "Thank you for registering as a subcontractor with ARCEM Construction. Our team will review your information and reach out when there is a suitable opportunity.",
+  ),
+  vendor_application_received: acknowledgementTemplate(
+    "Your vendor registration [{{referenceNumber}}]",
+    "Thank you for registering as a vendor with ARCEM Construction. Our procurement team will review your information and contact you if we need anything else.",
+  ),
+  testimonial_received: acknowledgementTemplate(
+    "Thank you for your testimonial [{{referenceNumber}}]",
+    "Thank you for sharing your experience with ARCEM Construction. Your testimonial will appear on our website once it has been reviewed.",
+  ),
+  job_application_received: acknowledgementTemplate(
+    "Your application for {{jobTitle}} [{{referenceNumber}}]",
+    "Thank you for applying for the {{jobTitle}} position at ARCEM Construction. Our hiring team will review your application and contact you if your experience is a good fit.",
+  ),
+  estimate_proposal: {
+    subject: "Your proposal from ARCEM Construction [{{proposalNumber}}]",
+    text: [
+      "Hi {{name}},",
+      "",
+      "Thank you for the opportunity to quote on your project. Our proposal \"{{title}}\" is attached as a PDF.",
+      "",
+      "Proposal number: {{proposalNumber}}",
+      "Total: {{total}}",
+      "{{validUntilText}}",
+      "",
+      "{{message}}",
+      "",
+      "If you have any questions or would like to go ahead, reply to this email or call us and mention your reference number {{referenceNumber}}.",
+      "",
+      "The ARCEM Construction team",
+    ].join("\n"),
+    html: `
+      <p>Hi {{name}},</p>
+      <p>Thank you for the opportunity to quote on your project. Our proposal <strong>{{title}}</strong> is attached as a PDF.</p>
+      <p>Proposal number: <strong>{{proposalNumber}}</strong><br>Total: <strong>{{total}}</strong><br>{{validUntilText}}</p>
+      <p style="white-space:pre-wrap;">{{message}}</p>
+      <p>If you have any questions or would like to go ahead, reply to this email or call us and mention your reference number {{referenceNumber}}.</p>
+      <p>The ARCEM Construction team</p>
+    `,
+  },
+} satisfies Record<string, MailTemplate>;
+
+export type MailTemplateName = keyof typeof MAIL_TEMPLATES;
+
+/**
+ * Templates admins may customise, with the placeholders they can use
+ */
+export interface EditableMailTemplateInfo {
+  label: string;
+  description: string;
+  placeholders: string[];
+  // Used to render previews in the template editor
+  sampleVariables: MailTemplateVariables;
+}
+
+const ACKNOWLEDGEMENT_PLACEHOLDERS = ["name", "referenceNumber", "submissionText", "submissionHtml"];
+
+function acknowledgementSample(referenceNumber: string, fields: Array<[string, string]>): MailTemplateVariables {
+  const submission = renderFieldList(fields);
+  return {
+    name: "Jane Doe",
+    referenceNumber,
+    submissionText: submission.text,
+    submissionHtml: submission.html,
+  };
+}
+
+export const EDITABLE_MAIL_TEMPLATES = {
+  contact_message_received: {
+    label: "Contact form acknowledgement",
+    description: "Sent to people who use the contact form",
+    placeholders: ACKNOWLEDGEMENT_PLACEHOLDERS,
+    sampleVariables: acknowledgementSample("MSG-000042", [
+      ["Name", "Jane Doe"],
+      ["Email", "jane@example.com"],
+      ["Message", "I'd like to talk about a kitchen remodel."],
+    ]),
+  },
+  quote_request_received: {
+    label: "Quote request acknowledgement",
+    description:
+      "Sent to people who request a quote, including the names of any files they attached and their private tracking link",
+    placeholders: [...ACKNOWLEDGEMENT_PLACEHOLDERS, "trackingUrl"],
+    sampleVariables: {
+      ...acknowledgementSample("QR-000042", [
+        ["Name", "Jane Doe"],
+        ["Email", "jane@example.com"],
+        ["Project type", "Commercial"],
+        ["Description", "Two-storey office fit-out."],
+        ["Attachments", "floor-plan.pdf, site-photo.jpg"],
+      ]),
+      trackingUrl: "https://example.com/quote/track/3f9c2a…",
+    },
+  },
+  subcontractor_application_received: {
+    label: "Subcontractor registration acknowledgement",
+    description: "Sent to subcontractors who register through the website",
+    placeholders: ACKNOWLEDGEMENT_PLACEHOLDERS,
+    sampleVariables: acknowledgementSample("SUB-000042", [
+      ["Company", "Doe Electrical LLC"],
+      ["Contact", "Jane Doe"],
+      ["Services", "Electrical"],
+    ]),
+  },
+  vendor_application_received: {
+    label: "Vendor registration acknowledgement",
+    description: "Sent to vendors who register through the website",
+    placeholders: ACKNOWLEDGEMENT_PLACEHOLDERS,
+    sampleVariables: acknowledgementSample("VEN-000042", [
+      ["Company", "Doe Supply Co."],
+      ["Contact", "Jane Doe"],
+      ["Supplies", "Lumber, Drywall"],
+    ]),
+  },
+  testimonial_received: {
+    label: "Testimonial acknowledgement",
+    description: "Sent to people who submit a testimonial and leave an email address",
+    placeholders: ACKNOWLEDGEMENT_PLACEHOLDERS,
+    sampleVariables: acknowledgementSample("TST-000042", [
+      ["Name", "Jane Doe"],
+      ["Rating", "5"],
+      ["Testimonial", "Great team, finished on time."],
+    ]),
+  },
+  job_application_received: {
+    label: "Job application acknowledgement",
+    description: "Sent to people who apply for a job through the careers page",
+    placeholders: [...ACKNOWLEDGEMENT_PLACEHOLDERS, "jobTitle"],
+    sampleVariables: {
+      ...acknowledgementSample("APP-000042", [
+        ["Position", "Site Superintendent"],
+        ["Name", "Jane Doe"],
+        ["Email", "jane@example.com"],
+        ["Resume", "jane-doe-resume.pdf"],
+      ]),
+      jobTitle: "Site Superintendent",
+    },
+  },
+  estimate_proposal: {
+    label: "Proposal email",
+    description: "Sent with the proposal PDF attached when an estimate is emailed to the requester",
+    placeholders: ["name", "title", "proposalNumber", "referenceNumber", "total", "validUntilText", "message"],
+    sampleVariables: {
+      name: "Jane Doe",
+      title: "Office fit-out",
+      proposalNumber: "QR-000042-v2",
+      referenceNumber: "QR-000042",
+      total: "$73,085.05",
+      validUntilText: "Valid until November 18, 2026",
+      message: "As discussed on site, the price includes weekend work on the second floor.",
+    },
+  },
+} satisfies Partial<Record<MailTemplateName, EditableMailTemplateInfo>>;
+
+export type EditableMailTemplateName = keyof typeof EDITABLE_MAIL_TEMPLATES;
+
+export function isEditableMailTemplate(name: string): name is EditableMailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EDITABLE_MAIL_TEMPLATES, name);
+}
+
+/**
+ * Escape user-provided values before interpolating them into HTML email bodies
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render label/value pairs as a plain-text list and an HTML table, skipping empty values.
+ * Pass the results as {{name}} and {{{name}}} placeholders respectively.
+ */
+export function renderFieldList(fields: ReadonlyArray<readonly [label: string, value: string | number | null | undefined]>) {
+  const filled = fields.filter(([, value]) => value !== null && value !== undefined && value !== "");
+
+  const text = filled.map(([label, value]) => `${label}: ${value}`).join("\n");
+  const rows = filled
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#6b7280;vertical-align:top;white-space:nowrap;">${escapeHtml(label)}</td>` +
+        `<td style="padding:4px 0;white-space:pre-wrap;">${escapeHtml(String(value))}</td></tr>`,
+    )
+    .join("");
+  const html = `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:12px 0;">${rows}</table>`;
+
+  return { text, html };
+}
+
+function interpolate(
+  source: string,
+  variables: MailTemplateVariables,
+  escape: (value: string) => string,
+): string {
+  // Single pass, so placeholders inside substituted values are left alone
+  return source.replace(
+    /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g,
+    (_match, rawName: string | undefined, escapedName: string | undefined) =>
+      rawName
+        ? String(variables[rawName] ?? "")
+        : escape(String(variables[escapedName!] ?? "")),
+  );
+}
+
+/**
+ * Wrap HTML content in the shared branded email layout
+ */
+export function renderHtmlLayout(content: string, subject: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(subject)}</title>
+  </head>
+  <body style="margin:0;padding:0;background-color:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f3f4f6;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background-color:#000000;color:#ffffff;padding:20px 24px;font-size:20px;font-weight:bold;">
+                ${COMPANY_NAME}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px;font-size:15px;line-height:1.6;">
+                ${content}
+              </td>
+            </tr>
+            <tr>
+              <td style="background-color:#f9fafb;color:#6b7280;padding:16px 24px;font-size:12px;">
+                &copy; ${new Date().getFullYear()} ${COMPANY_NAME}. This is an automated message.
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+/**
+ * Fill in a template's placeholders and wrap its HTML in the branded layout
+ */
+export function renderTemplate(template: MailTemplate, variables: MailTemplateVariables): RenderedMail {
+  const raw = (value: string) => value;
+  const subject = interpolate(template.subject, variables, raw);
+
+  return {
+    subject,
+    text: interpolate(template.text, variables, raw),
+    html: renderHtmlLayout(interpolate(template.html, variables, escapeHtml), subject),
+  };
+}
@@ -0,0 +1,272 @@
+import PDFDocument from "pdfkit";
+import type { Estimate, QuoteRequest } from "@shared/schema";
+import { formatReferenceNumber } from "@shared/submissions";
+import {
+  ESTIMATE_LINE_ITEM_CATEGORIES,
+  ESTIMATE_LINE_ITEM_CATEGORY_LABELS,
+  formatBasisPoints,
+  formatCents,
+  formatProposalNumber,
+  lineItemTotalCents,
+} from "@shared/estimates";
+
+const COMPANY_NAME = "ARCEM Construction";
+const BRAND_BLUE = "#1E90DB";
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#6b7280";
+const RULE_COLOR = "#e5e7eb";
+
+const PAGE_MARGIN = 50;
+const HEADER_HEIGHT = 70;
+const FOOTER_HEIGHT = 30;
+
+// Line item table columns as [x offset from the left margin, width]
+const COLUMNS = {
+  description: [0, 250],
+  quantity: [255, 55],
+  unit: [315, 45],
+  unitPrice: [365, 70],
+  amount: [440, 72],
+} as const;
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+export function proposalFileName(estimate: Estimate) {
+  const referenceNumber = formatReferenceNumber("quote_request", estimate.quoteRequestId);
+  return `ARCEM-Proposal-${formatProposalNumber(referenceNumber, estimate.version)}.pdf`;
+}
+
+/**
+ * Render an estimate as a branded, client-facing proposal PDF
+ */
+export function renderProposalPdf(estimate: Estimate, quote: QuoteRequest): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margins: { top: PAGE_MARGIN, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    bufferPages: true,
+    info: {
+      Title: `${COMPANY_NAME} proposal: ${estimate.title}`,
+      Author: COMPANY_NAME,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const left = doc.page.margins.left;
+  const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const referenceNumber = formatReferenceNumber("quote_request", quote.id);
+  const issuedAt = estimate.sentAt ?? estimate.updatedAt;
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  };
+
+  const sectionHeading = (title: string) => {
+    ensureSpace(40);
+    doc.moveDown(1);
+    doc.font("Helvetica-Bold").fontSize(12).fillColor(BRAND_BLUE).text(title, left);
+    doc.moveDown(0.3);
+    doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+  };
+
+  // Header bar
+  doc.rect(0, 0, doc.page.width, HEADER_HEIGHT).fill("#000000");
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(20)
+    .fillColor("#ffffff")
+    .text(COMPANY_NAME, left, 25, { lineBreak: false });
+  doc
+    .font("Helvetica")
+    .fontSize(12)
+    .text("PROPOSAL", left, 30, { width: contentWidth, align: "right" });
+
+  // Client and proposal details
+  const detailsTop = HEADER_HEIGHT + 30;
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR).text("PREPARED FOR", left, detailsTop);
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+  [quote.name, quote.company, quote.email, quote.phone]
+    .filter(Boolean)
+    .forEach((line) => doc.text(line as string, left));
+  const clientBottom = doc.y;
+
+  const detailsX = left + contentWidth / 2 + 20;
+  const detailsWidth = contentWidth / 2 - 20;
+  const details: Array<[string, string]> = [
+    ["Proposal no.", formatProposalNumber(referenceNumber, estimate.version)],
+    ["Date", formatDay(issuedAt)],
+    ...(estimate.validUntil ? [["Valid until", formatDay(estimate.validUntil)] as [string, string]] : []),
+    ["Project type", quote.projectType],
+  ];
+  doc.y = detailsTop;
+  for (const [label, value] of details) {
+    const rowTop = doc.y;
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR).text(label.toUpperCase(), detailsX, rowTop, {
+      width: 80,
+    });
+    doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR).text(value, detailsX + 85, rowTop, {
+      width: detailsWidth - 85,
+    });
+  }
+  doc.y = Math.max(doc.y, clientBottom) + 20;
+
+  doc.font("Helvetica-Bold").fontSize(16).fillColor(TEXT_COLOR).text(estimate.title, left, doc.y, {
+    width: contentWidth,
+  });
+
+  if (estimate.scope) {
+    sectionHeading("Scope of Work");
+    doc.text(estimate.scope, left, doc.y, { width: contentWidth });
+  }
+
+  // Line items, grouped by category
+  sectionHeading("Pricing");
+  const cell = (
+    text: string,
+    column: keyof typeof COLUMNS,
+    y: number,
+    align: "left" | "right" = "left",
+  ) => {
+    const [offset, width] = COLUMNS[column];
+    doc.text(text, left + offset, y, { width, align });
+  };
+
+  const tableHeader = () => {
+    const y = doc.y;
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR);
+    cell("DESCRIPTION", "description", y);
+    cell("QTY", "quantity", y, "right");
+    cell("UNIT", "unit", y);
+    cell("UNIT PRICE", "unitPrice", y, "right");
+    cell("AMOUNT", "amount", y, "right");
+    doc.y = y + 14;
+    doc.moveTo(left, doc.y).lineTo(left + contentWidth, doc.y).strokeColor(RULE_COLOR).stroke();
+    doc.y += 6;
+    doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+  };
+
+  tableHeader();
+  for (const category of ESTIMATE_LINE_ITEM_CATEGORIES) {
+    const items = estimate.lineItems.filter((item) => item.category === category);
+    if (items.length === 0) continue;
+
+    ensureSpace(40);
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT_COLOR);
+    cell(ESTIMATE_LINE_ITEM_CATEGORY_LABELS[category], "description", doc.y);
+    doc.y += 4;
+    doc.font("Helvetica");
+
+    let categoryTotal = 0;
+    for (const item of items) {
+      const amount = lineItemTotalCents(item);
+      categoryTotal += amount;
+
+      const rowHeight = doc.heightOfString(item.description, { width: COLUMNS.description[1] });
+      if (doc.y + rowHeight + 4 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        tableHeader();
+      }
+      const y = doc.y;
+      cell(item.description, "description", y);
+      cell(item.quantity.toLocaleString("en-US"), "quantity", y, "right");
+      cell(item.unit, "unit", y);
+      cell(formatCents(item.unitPriceCents), "unitPrice", y, "right");
+      cell(formatCents(amount), "amount", y, "right");
+      doc.y = y + rowHeight + 4;
+    }
+
+    ensureSpace(20);
+    const y = doc.y;
+    doc.font("Helvetica-Oblique").fillColor(MUTED_COLOR);
+    doc.text(`${ESTIMATE_LINE_ITEM_CATEGORY_LABELS[category]} subtotal`, left, y, {
+      width: COLUMNS.unitPrice[0] + COLUMNS.unitPrice[1],
+      align: "right",
+    });
+    cell(formatCents(categoryTotal), "amount", y, "right");
+    doc.font("Helvetica").fillColor(TEXT_COLOR);
+    doc.y = y + 20;
+  }
+
+  // Totals
+  ensureSpace(90);
+  doc.moveTo(left, doc.y).lineTo(left + contentWidth, doc.y).strokeColor(RULE_COLOR).stroke();
+  doc.y += 8;
+  const totals: Array<[string, number]> = [
+    ["Subtotal", estimate.subtotalCents],
+    ...(estimate.markupBasisPoints
+      ? [[`Overhead & profit (${formatBasisPoints(estimate.markupBasisPoints)})`, estimate.markupCents] as [string, number]]
+      : []),
+    ...(estimate.taxBasisPoints
+      ? [[`Tax (${formatBasisPoints(estimate.taxBasisPoints)})`, estimate.taxCents] as [string, number]]
+      : []),
+  ];
+  const labelX = left + COLUMNS.unit[0] - 60;
+  const labelWidth = COLUMNS.amount[0] - COLUMNS.unit[0] + 55;
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    doc.text(label, labelX, y, { width: labelWidth, align: "right" });
+    cell(formatCents(value), "amount", y, "right");
+    doc.y = y + 16;
+  }
+  const totalY = doc.y + 4;
+  doc.font("Helvetica-Bold").fontSize(12);
+  doc.text("Total", labelX, totalY, { width: labelWidth, align: "right" });
+  cell(formatCents(estimate.totalCents), "amount", totalY, "right");
+  doc.y = totalY + 20;
+  doc.font("Helvetica").fontSize(10);
+
+  if (estimate.terms) {
+    sectionHeading("Terms & Conditions");
+    doc.text(estimate.terms, left, doc.y, { width: contentWidth });
+  }
+
+  // Acceptance block
+  ensureSpace(110);
+  sectionHeading("Acceptance");
+  doc.text(
+    "By signing below, the client accepts this proposal, including the scope, pricing and terms described above.",
+    left,
+    doc.y,
+    { width: contentWidth },
+  );
+  const signatureY = doc.y + 45;
+  const signatureWidth = contentWidth / 2 - 20;
+  doc.moveTo(left, signatureY).lineTo(left + signatureWidth, signatureY).strokeColor(TEXT_COLOR).stroke();
+  doc
+    .moveTo(left + contentWidth / 2 + 20, signatureY)
+    .lineTo(left + contentWidth, signatureY)
+    .stroke();
+  doc.fontSize(9).fillColor(MUTED_COLOR);
+  doc.text("Client signature", left, signatureY + 4);
+  doc.text("Date", left + contentWidth / 2 + 20, signatureY + 4);
+
+  // Footer on every page; margins are dropped so writing below the content area doesn't add a page
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `${COMPANY_NAME} · ${formatProposalNumber(referenceNumber, estimate.version)} · Page ${index - range.start + 1} of ${range.count}`,
+        left,
+        doc.page.height - PAGE_MARGIN,
+        { width: contentWidth, align: "center", lineBreak: false },
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  doc.end();
+  return finished;
+}
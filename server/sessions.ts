@@ -0,0 +1,111 @@
+import pg from "pg";
+import { createHash } from "crypto";
+import { DATABASE_URL } from "./db";
+
+// Default table created by connect-pg-simple
+const SESSION_TABLE = "session";
+
+// Shared by the session store and the session management queries below
+export const sessionPool = new pg.Pool({
+  connectionString: DATABASE_URL,
+});
+
+export interface UserSessionInfo {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface SessionRow {
+  sid: string;
+  sess: any;
+  expire: Date;
+}
+
+// Session ids are the cookie secret, so the client only ever sees a hash of them
+function publicSessionId(sid: string) {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Rough "Browser on OS" label; good enough to tell a user's devices apart
+export function describeUserAgent(userAgent: string | null | undefined) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+async function getUserSessionRows(userId: number): Promise<SessionRow[]> {
+  const result = await sessionPool.query<SessionRow>(
+    `SELECT sid, sess, expire FROM "${SESSION_TABLE}"
+     WHERE sess->'passport'->>'user' = $1 AND expire > NOW()`,
+    [String(userId)],
+  );
+  return result.rows;
+}
+
+export async function listUserSessions(
+  userId: number,
+  currentSid?: string,
+): Promise<UserSessionInfo[]> {
+  const rows = await getUserSessionRows(userId);
+
+  return rows
+    .map((row) => {
+      const device = row.sess?.device;
+      const lastSeenAt = row.sess?.lastSeenAt ?? device?.signedInAt ?? null;
+      return {
+        id: publicSessionId(row.sid),
+        device: describeUserAgent(device?.userAgent),
+        ipAddress: row.sess?.lastIpAddress ?? device?.ipAddress ?? null,
+        signedInAt: device?.signedInAt ? new Date(device.signedInAt).toISOString() : null,
+        lastSeenAt: lastSeenAt ? new Date(lastSeenAt).toISOString() : null,
+        expiresAt: new Date(row.expire).toISOString(),
+        current: row.sid === currentSid,
+      };
+    })
+    .sort((a, b) => (b.lastSeenAt || "").localeCompare(a.lastSeenAt || ""));
+}
+
+// Returns false when no session of this user matches the public id
+export async function revokeUserSession(userId: number, sessionId: string) {
+  const rows = await getUserSessionRows(userId);
+  const match = rows.find((row) => publicSessionId(row.sid) === sessionId);
+  if (!match) return false;
+
+  await sessionPool.query(`DELETE FROM "${SESSION_TABLE}" WHERE sid = $1`, [match.sid]);
+  return true;
+}
+
+// Signs the user out everywhere, optionally keeping the session making the request
+export async function revokeAllUserSessions(userId: number, exceptSid?: string) {
+  const result = await sessionPool.query(
+    `DELETE FROM "${SESSION_TABLE}"
+     WHERE sess->'passport'->>'user' = $1 AND sid IS DISTINCT FROM $2`,
+    [String(userId), exceptSid ?? null],
+  );
+  return result.rowCount ?? 0;
+}
+
+export function isCurrentSession(sessionId: string, currentSid: string) {
+  return publicSessionId(currentSid) === sessionId;
+}
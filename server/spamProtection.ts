@@ -0,0 +1,217 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { formGuardSchema, type SpamProtectedForm } from "@shared/spam";
+
+// Uploads from the quote and job application forms are limited separately since one submission
+// can carry several files, and "finish later" links and job alert sign-ups since each one sends
+// an email to an address the visitor typed in. Messages and files added from a quote tracking
+// page have their own limits as well.
+export type RateLimitedForm =
+  | SpamProtectedForm
+  | "quote_upload"
+  | "application_upload"
+  | "draft_link"
+  | "job_alert_link"
+  | "tracking_message"
+  | "tracking_upload";
+
+const RATE_LIMITS: Record<RateLimitedForm, { max: number; windowMs: number }> = {
+  contact_message: { max: 5, windowMs: 10 * 60000 },
+  quote_request: { max: 5, windowMs: 10 * 60000 },
+  testimonial_submission: { max: 3, windowMs: 10 * 60000 },
+  newsletter_subscriber: { max: 5, windowMs: 10 * 60000 },
+  subcontractor_application: { max: 3, windowMs: 10 * 60000 },
+  vendor_application: { max: 3, windowMs: 10 * 60000 },
+  job_application: { max: 3, windowMs: 10 * 60000 },
+  quote_upload: { max: 30, windowMs: 3600000 },
+  application_upload: { max: 10, windowMs: 3600000 },
+  draft_link: { max: 5, windowMs: 3600000 },
+  job_alert_link: { max: 5, windowMs: 3600000 },
+  tracking_message: { max: 10, windowMs: 3600000 },
+  tracking_upload: { max: 10, windowMs: 3600000 },
+};
+
+// Submissions scoring at least this much are quarantined
+export const SPAM_SCORE_THRESHOLD = 50;
+
+// People need a few seconds to fill in even the shortest form
+const MIN_FILL_TIME_MS = 3000;
+
+const ATTEMPT_RETENTION_MS = 24 * 3600000;
+const QUARANTINE_RETENTION_MS = 30 * 24 * 3600000;
+
+// Fields that aren't typed by the submitter
+const UNSCREENED_FIELDS = new Set(["formGuard", "attribution", "attachments", "resume", "coverLetterFile"]);
+
+const SPAM_PHRASES = [
+  /\bviagra\b/i,
+  /\bcialis\b/i,
+  /\bcasino\b/i,
+  /\bcrypto(currency)?\b/i,
+  /\bbitcoin\b/i,
+  /\bforex\b/i,
+  /\bpayday loans?\b/i,
+  /\bbacklinks?\b/i,
+  /\bseo (services|agency|expert)\b/i,
+  /\b(rank|ranking) (your|on) (website|google)\b/i,
+  /\b(increase|boost) your (website )?traffic\b/i,
+  /\bmake money (online|fast)\b/i,
+  /\bwork from home\b/i,
+  /\bclick here\b/i,
+  /\bporn\b/i,
+  /\bescorts?\b/i,
+];
+
+export interface SpamCheck {
+  score: number;
+  reasons: string[];
+}
+
+export type SubmissionRateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; message: string };
+
+function getClientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function collectText(value: unknown, parts: string[]) {
+  if (typeof value === "string") {
+    parts.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, parts));
+  } else if (value && typeof value === "object") {
+    for (const [key, field] of Object.entries(value)) {
+      if (!UNSCREENED_FIELDS.has(key)) collectText(field, parts);
+    }
+  }
+}
+
+/**
+ * Counts this submission against the per-IP limit for the form. Attempts
+ * that are turned away aren't recorded, so the limit clears on schedule.
+ */
+export async function checkSubmissionRateLimit(
+  req: Request,
+  form: RateLimitedForm,
+): Promise<SubmissionRateLimitResult> {
+  const ipAddress = getClientIp(req);
+  if (!ipAddress) return { allowed: true };
+
+  const { max, windowMs } = RATE_LIMITS[form];
+  const since = new Date(Date.now() - windowMs);
+  if ((await storage.countFormSubmissionAttempts(form, ipAddress, since)) >= max) {
+    const minutes = Math.ceil(windowMs / 60000);
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil(windowMs / 1000),
+      message: `Too many submissions. Please try again in ${minutes} minutes.`,
+    };
+  }
+
+  await storage.createFormSubmissionAttempt({ form, ipAddress });
+  return { allowed: true };
+}
+
+/**
+ * Scores a public form submission from its hidden honeypot, how quickly it
+ * was filled in, and what the submitter wrote. Higher is more likely spam.
+ */
+export function screenSubmission(body: unknown): SpamCheck {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const rawGuard = (body as { formGuard?: unknown } | null)?.formGuard;
+  const guard = rawGuard ? formGuardSchema.safeParse(rawGuard) : undefined;
+  if (!guard?.success) {
+    add(30, "Not sent from the website form");
+  } else {
+    if (guard.data.honeypot?.trim()) add(100, "Hidden honeypot field was filled in");
+    if (guard.data.elapsedMs !== undefined && guard.data.elapsedMs < MIN_FILL_TIME_MS) {
+      add(50, `Submitted ${(guard.data.elapsedMs / 1000).toFixed(1)}s after the form opened`);
+    }
+  }
+
+  const parts: string[] = [];
+  collectText(body, parts);
+  const text = parts.join("\n");
+
+  const links = text.match(/https?:\/\/|www\./gi)?.length ?? 0;
+  if (links > 0) add(Math.min(links * 10, 40), `${links} link${links === 1 ? "" : "s"}`);
+
+  if (/\[url=|\[link=/i.test(text)) add(40, "Forum link markup");
+  if (/<a\s+href/i.test(text)) add(30, "HTML links");
+
+  const phrases = SPAM_PHRASES.filter((pattern) => pattern.test(text));
+  if (phrases.length > 0) {
+    const matches = phrases.map((pattern) => text.match(pattern)?.[0].toLowerCase());
+    add(Math.min(phrases.length * 20, 60), `Spam phrases: ${matches.join(", ")}`);
+  }
+
+  if (/[Ѐ-ӿ]/.test(text)) add(20, "Cyrillic text");
+
+  const letters = text.replace(/[^a-zA-Z]/g, "");
+  if (letters.length >= 40 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7) {
+    add(15, "Mostly capital letters");
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Route middleware for public forms: enforces the per-IP limit and screens
+ * the body, leaving the result for quarantineIfFlagged once the route has
+ * validated the data. Checks fail open so an outage never loses a lead.
+ */
+export function spamGuard(form: SpamProtectedForm) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = await checkSubmissionRateLimit(req, form);
+      if (!limit.allowed) {
+        res.set("Retry-After", String(limit.retryAfterSeconds));
+        return res.status(429).json({ message: limit.message });
+      }
+      res.locals.spamCheck = screenSubmission(req.body);
+    } catch (error) {
+      console.error(`Error screening ${form} submission:`, error);
+    }
+    next();
+  };
+}
+
+/**
+ * Holds a validated submission in quarantine when spamGuard flagged it.
+ * Returns true when it was quarantined; the route should then respond as
+ * though it was accepted so bots learn nothing.
+ */
+export async function quarantineIfFlagged(
+  req: Request,
+  res: Response,
+  form: SpamProtectedForm,
+  payload: Record<string, unknown>,
+): Promise<boolean> {
+  const check = res.locals.spamCheck as SpamCheck | undefined;
+  if (!check || check.score < SPAM_SCORE_THRESHOLD) return false;
+
+  const submission = await storage.createQuarantinedSubmission({
+    form,
+    payload,
+    spamScore: check.score,
+    spamReasons: check.reasons,
+    ipAddress: getClientIp(req),
+    userAgent: req.get("user-agent") || null,
+  });
+  console.warn(`Quarantined ${form} submission ${submission.id} (score ${check.score}: ${check.reasons.join("; ")})`);
+  return true;
+}
+
+export async function cleanupSpamProtectionRecords() {
+  const now = Date.now();
+  const attempts = await storage.deleteFormSubmissionAttemptsBefore(new Date(now - ATTEMPT_RETENTION_MS));
+  const quarantined = await storage.deleteQuarantinedSubmissionsBefore(new Date(now - QUARANTINE_RETENTION_MS));
+  return { attempts, quarantined };
+}
@@ -0,0 +1,109 @@
+import { storage } from "./storage";
+import { buildAppUrl } from "./auth";
+import { mailService } from "./services/mailService";
+import { renderFieldList } from "./services/mailTemplates";
+import type { SubmissionSummary, SummaryField } from "./submissionSummaries";
+import {
+  STAFF_ALERT_EVENTS,
+  STAFF_ALERT_EVENT_LABELS,
+  staffAlertSettingKey,
+  type StaffAlertEvent,
+  type StaffAlertSetting,
+  type StaffAlertSettings,
+} from "@shared/staffAlerts";
+
+const DISABLED_ALERT: StaffAlertSetting = { enabled: false, recipients: [] };
+
+// Long free-text fields are cut down so alerts stay skimmable; the full text is in the admin panel
+const MAX_SUMMARY_VALUE_LENGTH = 1000;
+
+function parseSetting(value: string | undefined): StaffAlertSetting {
+  if (!value) return DISABLED_ALERT;
+
+  try {
+    const parsed = JSON.parse(value);
+    return {
+      enabled: parsed?.enabled === true,
+      recipients: Array.isArray(parsed?.recipients)
+        ? parsed.recipients.filter((recipient: unknown) => typeof recipient === "string")
+        : [],
+    };
+  } catch {
+    return DISABLED_ALERT;
+  }
+}
+
+export async function getStaffAlertSetting(event: StaffAlertEvent): Promise<StaffAlertSetting> {
+  const setting = await storage.getSiteSettingByKey(staffAlertSettingKey(event));
+  return parseSetting(setting?.value);
+}
+
+export async function getStaffAlertSettings(): Promise<StaffAlertSettings> {
+  const entries = await Promise.all(
+    STAFF_ALERT_EVENTS.map(async (event) => [event, await getStaffAlertSetting(event)] as const),
+  );
+  return Object.fromEntries(entries) as StaffAlertSettings;
+}
+
+export async function setStaffAlertSettings(
+  settings: Partial<StaffAlertSettings>,
+): Promise<StaffAlertSettings> {
+  for (const event of STAFF_ALERT_EVENTS) {
+    const setting = settings[event];
+    if (!setting) continue;
+
+    const key = staffAlertSettingKey(event);
+    const value = JSON.stringify(setting);
+    const existing = await storage.getSiteSettingByKey(key);
+    if (existing) {
+      await storage.updateSiteSettingByKey(key, value);
+    } else {
+      await storage.createSiteSetting({
+        key,
+        value,
+        category: "notifications",
+        label: `Staff alerts: ${STAFF_ALERT_EVENT_LABELS[event]}`,
+        description: "Whether staff are emailed about new submissions of this type, and who receives them",
+        type: "json",
+      });
+    }
+  }
+  return getStaffAlertSettings();
+}
+
+function truncate(value: string | number | null | undefined) {
+  if (typeof value !== "string" || value.length <= MAX_SUMMARY_VALUE_LENGTH) return value;
+  return `${value.slice(0, MAX_SUMMARY_VALUE_LENGTH)}…`;
+}
+
+/**
+ * Email the configured recipients about a new submission.
+ *
+ * Never throws: alerts are sent after the submitter's response and a mail
+ * problem must not affect them. Failures are visible in the email outbox.
+ */
+export async function notifyStaff(submission: SubmissionSummary): Promise<void> {
+  try {
+    const setting = await getStaffAlertSetting(submission.type);
+    if (!setting.enabled || setting.recipients.length === 0) return;
+
+    const summary = renderFieldList([
+      ["Reference", submission.referenceNumber],
+      ...submission.fields.map(([label, value]): SummaryField => [label, truncate(value)]),
+    ]);
+    const variables = {
+      title: submission.headline,
+      summaryText: summary.text,
+      summaryHtml: summary.html,
+      adminUrl: buildAppUrl(submission.adminPath),
+    };
+
+    await Promise.allSettled(
+      setting.recipients.map((recipient) =>
+        mailService.sendTemplate("staff_alert", recipient, variables),
+      ),
+    );
+  } catch (error) {
+    console.error(`Error sending staff alert for ${submission.type}:`, error);
+  }
+}
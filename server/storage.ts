@@ -1,5 +1,13 @@
 import {
   users, type User, type InsertUser,
+  userInvites, type UserInvite, type InsertUserInvite,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  loginAttempts, type LoginAttempt, type InsertLoginAttempt,
+  formSubmissionAttempts, type FormSubmissionAttempt, type InsertFormSubmissionAttempt,
+  quarantinedSubmissions, type QuarantinedSubmission, type InsertQuarantinedSubmission,
+  formDrafts, type FormDraft, type InsertFormDraft,
+  auditLog, type AuditLogEntry, type InsertAuditLogEntry,
+  emailLog, type EmailLogEntry, type InsertEmailLogEntry,
   projects, type Project, type InsertProject,
   projectGallery, type ProjectGallery, type InsertProjectGallery,
   blogCategories, type BlogCategory, type InsertBlogCategory,
@@ -13,12 +21,36 @@ import {
   newsletterSubscribers, type NewsletterSubscriber, type InsertNewsletterSubscriber,
   quoteRequests, type QuoteRequest, type InsertQuoteRequest,
   quoteRequestAttachments, type QuoteRequestAttachment, type InsertQuoteRequestAttachment,
+  quoteRequestActivity, type QuoteRequestActivity, type InsertQuoteRequestActivity,
+  estimates, type Estimate, type InsertEstimate,
   subcontractors, type Subcontractor, type InsertSubcontractor,
   vendors, type Vendor, type InsertVendor,
   jobPostings, type JobPosting, type InsertJobPosting,
+  jobApplications, type JobApplication, type InsertJobApplication,
+  jobApplicationActivity, type JobApplicationActivity, type InsertJobApplicationActivity,
+  jobAlertSubscriptions, type JobAlertSubscription, type InsertJobAlertSubscription,
+  jobAlertQueue, type JobAlertQueueEntry, type InsertJobAlertQueueEntry,
   teamMembers, type TeamMember, type InsertTeamMember,
   siteSettings, type SiteSetting, type InsertSiteSetting
 } from "@shared/schema";
+import { isJobPostingLive } from "@shared/careers";
+
+export interface AuditLogFilters {
+  actorId?: number;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface EmailLogFilters {
+  status?: string;
+  template?: string;
+  recipient?: string;
+  limit?: number;
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -43,6 +75,58 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+  getLockedUsers(): Promise<User[]>;
+
+  // User Invites
+  getUserInvites(): Promise<UserInvite[]>;
+  getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined>;
+  createUserInvite(invite: InsertUserInvite): Promise<UserInvite>;
+  markUserInviteAccepted(id: number): Promise<UserInvite | undefined>;
+  deleteUserInvite(id: number): Promise<boolean>;
+
+  // Password Reset Tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+
+  // Login Attempts
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginAttempts(limit: number): Promise<LoginAttempt[]>;
+  countLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number>;
+  countLoginAttemptsByUsername(username: string, since: Date): Promise<number>;
+  deleteLoginAttemptsBefore(date: Date): Promise<number>;
+
+  // Public form rate limiting
+  createFormSubmissionAttempt(attempt: InsertFormSubmissionAttempt): Promise<FormSubmissionAttempt>;
+  countFormSubmissionAttempts(form: string, ipAddress: string, since: Date): Promise<number>;
+  deleteFormSubmissionAttemptsBefore(date: Date): Promise<number>;
+
+  // Spam quarantine
+  getQuarantinedSubmissions(): Promise<QuarantinedSubmission[]>;
+  getQuarantinedSubmission(id: number): Promise<QuarantinedSubmission | undefined>;
+  createQuarantinedSubmission(submission: InsertQuarantinedSubmission): Promise<QuarantinedSubmission>;
+  deleteQuarantinedSubmission(id: number): Promise<boolean>;
+  deleteQuarantinedSubmissionsBefore(date: Date): Promise<number>;
+
+  // Saved public form drafts
+  getFormDraftByTokenHash(tokenHash: string): Promise<FormDraft | undefined>;
+  createFormDraft(draft: InsertFormDraft): Promise<FormDraft>;
+  updateFormDraft(id: number, draft: Partial<Pick<FormDraft, "data" | "expiresAt">>): Promise<FormDraft | undefined>;
+  deleteFormDraft(id: number): Promise<boolean>;
+  deleteFormDraftsExpiredBefore(date: Date): Promise<number>;
+
+  // Audit Log
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLogEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+
+  // Email Log
+  createEmailLogEntry(entry: InsertEmailLogEntry): Promise<EmailLogEntry>;
+  getEmailLogEntries(filters: EmailLogFilters): Promise<EmailLogEntry[]>;
+  getEmailLogEntry(id: number): Promise<EmailLogEntry | undefined>;
 
   // Projects
   getProjects(): Promise<Project[]>;
@@ -140,6 +224,7 @@ export interface IStorage {
   // Quote Requests
   getQuoteRequests(): Promise<QuoteRequest[]>;
   getQuoteRequest(id: number): Promise<QuoteRequest | undefined>;
+  getQuoteRequestByTrackingTokenHash(tokenHash: string): Promise<QuoteRequest | undefined>;
   createQuoteRequest(request: InsertQuoteRequest): Promise<QuoteRequest>;
   updateQuoteRequest(id: number, request: Partial<QuoteRequest>): Promise<QuoteRequest | undefined>;
   markQuoteRequestAsReviewed(id: number): Promise<QuoteRequest | undefined>;
@@ -151,6 +236,19 @@ export interface IStorage {
   createQuoteRequestAttachment(attachment: InsertQuoteRequestAttachment): Promise<QuoteRequestAttachment>;
   deleteQuoteRequestAttachment(id: number): Promise<boolean>;
   deleteAllQuoteRequestAttachments(quoteRequestId: number): Promise<boolean>;
+  // Converted projects reuse attachment files, so deleting a gallery image must not delete these
+  isQuoteRequestAttachmentFile(fileUrl: string): Promise<boolean>;
+
+  // Quote Request Activity (oldest first)
+  getQuoteRequestActivity(quoteRequestId: number): Promise<QuoteRequestActivity[]>;
+  createQuoteRequestActivity(activity: InsertQuoteRequestActivity): Promise<QuoteRequestActivity>;
+
+  // Estimates (newest version first)
+  getEstimates(quoteRequestId: number): Promise<Estimate[]>;
+  getEstimate(id: number): Promise<Estimate | undefined>;
+  createEstimate(estimate: InsertEstimate): Promise<Estimate>;
+  updateEstimate(id: number, estimate: Partial<InsertEstimate>): Promise<Estimate | undefined>;
+  deleteEstimate(id: number): Promise<boolean>;
 
   // Subcontractors
   getSubcontractors(): Promise<Subcontractor[]>;
@@ -176,11 +274,43 @@ export interface IStorage {
   getFeaturedJobPostings(): Promise<JobPosting[]>;
   getJobPosting(id: number): Promise<JobPosting | undefined>;
   createJobPosting(jobPosting: InsertJobPosting): Promise<JobPosting>;
-  updateJobPosting(id: number, jobPosting: Partial<InsertJobPosting>): Promise<JobPosting | undefined>;
+  updateJobPosting(
+    id: number,
+    jobPosting: Partial<Omit<JobPosting, "id" | "createdAt">>,
+  ): Promise<JobPosting | undefined>;
   toggleJobPostingActive(id: number): Promise<JobPosting | undefined>;
   toggleJobPostingFeatured(id: number): Promise<JobPosting | undefined>;
   deleteJobPosting(id: number): Promise<boolean>;
 
+  // Job Applications
+  getJobApplications(jobPostingId?: number): Promise<JobApplication[]>;
+  getJobApplication(id: number): Promise<JobApplication | undefined>;
+  createJobApplication(application: InsertJobApplication): Promise<JobApplication>;
+  updateJobApplication(
+    id: number,
+    application: Partial<Omit<JobApplication, "id" | "createdAt">>,
+  ): Promise<JobApplication | undefined>;
+  deleteJobApplication(id: number): Promise<boolean>;
+
+  // Job Application Activity
+  getJobApplicationActivity(jobApplicationId: number): Promise<JobApplicationActivity[]>;
+  createJobApplicationActivity(activity: InsertJobApplicationActivity): Promise<JobApplicationActivity>;
+
+  // Job Alerts
+  getJobAlertSubscriptions(): Promise<JobAlertSubscription[]>;
+  getJobAlertSubscriptionByConfirmTokenHash(tokenHash: string): Promise<JobAlertSubscription | undefined>;
+  getJobAlertSubscriptionByUnsubscribeToken(token: string): Promise<JobAlertSubscription | undefined>;
+  createJobAlertSubscription(subscription: InsertJobAlertSubscription): Promise<JobAlertSubscription>;
+  updateJobAlertSubscription(
+    id: number,
+    subscription: Partial<Pick<JobAlertSubscription, "confirmTokenHash" | "confirmedAt">>,
+  ): Promise<JobAlertSubscription | undefined>;
+  deleteJobAlertSubscription(id: number): Promise<boolean>;
+  deleteUnconfirmedJobAlertSubscriptionsBefore(date: Date): Promise<number>;
+  getJobAlertQueue(): Promise<JobAlertQueueEntry[]>;
+  createJobAlertQueueEntries(entries: InsertJobAlertQueueEntry[]): Promise<JobAlertQueueEntry[]>;
+  deleteJobAlertQueueEntries(ids: number[]): Promise<number>;
+
   // Team Members
   getTeamMembers(): Promise<TeamMember[]>;
   getActiveTeamMembers(): Promise<TeamMember[]>;
@@ -203,6 +333,14 @@ export interface IStorage {
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private userInvites: Map<number, UserInvite>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private loginAttempts: Map<number, LoginAttempt>;
+  private formSubmissionAttempts: Map<number, FormSubmissionAttempt>;
+  private quarantinedSubmissions: Map<number, QuarantinedSubmission>;
+  private formDrafts: Map<number, FormDraft>;
+  private auditLog: Map<number, AuditLogEntry>;
+  private emailLog: Map<number, EmailLogEntry>;
   private projects: Map<number, Project>;
   private projectGallery: Map<number, ProjectGallery>;
   private blogCategories: Map<number, BlogCategory>;
@@ -218,13 +356,27 @@ export class MemStorage implements IStorage {
   private newsletterSubscribers: Map<number, NewsletterSubscriber>;
   private quoteRequests: Map<number, QuoteRequest>;
   private quoteRequestAttachments: Map<number, QuoteRequestAttachment>;
+  private quoteRequestActivity: Map<number, QuoteRequestActivity>;
+  private estimates: Map<number, Estimate>;
   private subcontractors: Map<number, Subcontractor>;
   private vendors: Map<number, Vendor>;
   private jobPostings: Map<number, JobPosting>;
+  private jobApplications: Map<number, JobApplication>;
+  private jobApplicationActivity: Map<number, JobApplicationActivity>;
+  private jobAlertSubscriptions: Map<number, JobAlertSubscription>;
+  private jobAlertQueue: Map<number, JobAlertQueueEntry>;
   private teamMembers: Map<number, TeamMember>;
   private siteSettings: Map<number, SiteSetting>;
 
   userCurrentId: number;
+  userInviteCurrentId: number;
+  passwordResetTokenCurrentId: number;
+  loginAttemptCurrentId: number;
+  formSubmissionAttemptCurrentId: number;
+  quarantinedSubmissionCurrentId: number;
+  formDraftCurrentId: number;
+  auditLogCurrentId: number;
+  emailLogCurrentId: number;
   projectCurrentId: number;
   projectGalleryCurrentId: number;
   blogCategoryCurrentId: number;
@@ -237,9 +389,15 @@ export class MemStorage implements IStorage {
   newsletterSubscriberCurrentId: number;
   quoteRequestCurrentId: number;
   quoteRequestAttachmentCurrentId: number;
+  quoteRequestActivityCurrentId: number;
+  estimateCurrentId: number;
   subcontractorCurrentId: number;
   vendorCurrentId: number;
   jobPostingCurrentId: number;
+  jobApplicationCurrentId: number;
+  jobApplicationActivityCurrentId: number;
+  jobAlertSubscriptionCurrentId: number;
+  jobAlertQueueCurrentId: number;
   teamMemberCurrentId: number;
   siteSettingCurrentId: number;
 
@@ -247,6 +405,14 @@ export class MemStorage implements IStorage {
 
   constructor() {
     this.users = new Map();
+    this.userInvites = new Map();
+    this.passwordResetTokens = new Map();
+    this.loginAttempts = new Map();
+    this.formSubmissionAttempts = new Map();
+    this.quarantinedSubmissions = new Map();
+    this.formDrafts = new Map();
+    this.auditLog = new Map();
+    this.emailLog = new Map();
     this.projects = new Map();
     this.projectGallery = new Map();
     this.blogCategories = new Map();
@@ -262,13 +428,27 @@ export class MemStorage implements IStorage {
     this.newsletterSubscribers = new Map();
     this.quoteRequests = new Map();
     this.quoteRequestAttachments = new Map();
+    this.quoteRequestActivity = new Map();
+    this.estimates = new Map();
     this.subcontractors = new Map();
     this.vendors = new Map();
     this.jobPostings = new Map();
+    this.jobApplications = new Map();
+    this.jobApplicationActivity = new Map();
+    this.jobAlertSubscriptions = new Map();
+    this.jobAlertQueue = new Map();
     this.teamMembers = new Map();
     this.siteSettings = new Map();
 
     this.userCurrentId = 1;
+    this.userInviteCurrentId = 1;
+    this.passwordResetTokenCurrentId = 1;
+    this.loginAttemptCurrentId = 1;
+    this.formSubmissionAttemptCurrentId = 1;
+    this.quarantinedSubmissionCurrentId = 1;
+    this.formDraftCurrentId = 1;
+    this.auditLogCurrentId = 1;
+    this.emailLogCurrentId = 1;
     this.projectCurrentId = 1;
     this.projectGalleryCurrentId = 1;
     this.blogCategoryCurrentId = 1;
@@ -282,9 +462,15 @@ export class MemStorage implements IStorage {
     this.newsletterSubscriberCurrentId = 1;
     this.quoteRequestCurrentId = 1;
     this.quoteRequestAttachmentCurrentId = 1;
+    this.quoteRequestActivityCurrentId = 1;
+    this.estimateCurrentId = 1;
     this.subcontractorCurrentId = 1;
     this.vendorCurrentId = 1;
     this.jobPostingCurrentId = 1;
+    this.jobApplicationCurrentId = 1;
+    this.jobApplicationActivityCurrentId = 1;
+    this.jobAlertSubscriptionCurrentId = 1;
+    this.jobAlertQueueCurrentId = 1;
     this.teamMemberCurrentId = 1;
     this.siteSettingCurrentId = 1;
 
@@ -561,7 +747,15 @@ export class MemStorage implements IStorage {
       username: insertUser.username,
       password: insertUser.password,
       role: insertUser.role || null,
-      email: insertUser.email || null
+      email: insertUser.email || null,
+      active: insertUser.active ?? true,
+      twoFactorEnabled: insertUser.twoFactorEnabled ?? false,
+      twoFactorSecret: insertUser.twoFactorSecret ?? null,
+      twoFactorBackupCodes: insertUser.twoFactorBackupCodes ?? null,
+      twoFactorLastUsedStep: insertUser.twoFactorLastUsedStep ?? null,
+      failedLoginCount: insertUser.failedLoginCount ?? 0,
+      lockedUntil: insertUser.lockedUntil ?? null,
+      createdAt: new Date()
     };
     this.users.set(id, user);
     return user;
@@ -579,6 +773,336 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      a.username.localeCompare(b.username)
+    );
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    Array.from(this.passwordResetTokens.entries())
+      .filter(([_, token]) => token.userId === id)
+      .forEach(([tokenId]) => this.passwordResetTokens.delete(tokenId));
+    return this.users.delete(id);
+  }
+
+  async getLockedUsers(): Promise<User[]> {
+    const now = new Date();
+    return Array.from(this.users.values()).filter(
+      (user) => user.lockedUntil && user.lockedUntil > now,
+    );
+  }
+
+  // User Invites
+  async getUserInvites(): Promise<UserInvite[]> {
+    return Array.from(this.userInvites.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined> {
+    return Array.from(this.userInvites.values()).find(
+      (invite) => invite.tokenHash === tokenHash,
+    );
+  }
+
+  async createUserInvite(insertInvite: InsertUserInvite): Promise<UserInvite> {
+    const id = this.userInviteCurrentId++;
+    const invite: UserInvite = {
+      id,
+      email: insertInvite.email,
+      role: insertInvite.role,
+      tokenHash: insertInvite.tokenHash,
+      invitedBy: insertInvite.invitedBy ?? null,
+      expiresAt: insertInvite.expiresAt,
+      acceptedAt: null,
+      createdAt: new Date()
+    };
+    this.userInvites.set(id, invite);
+    return invite;
+  }
+
+  async markUserInviteAccepted(id: number): Promise<UserInvite | undefined> {
+    const invite = this.userInvites.get(id);
+    if (!invite) return undefined;
+
+    const updatedInvite: UserInvite = { ...invite, acceptedAt: new Date() };
+    this.userInvites.set(id, updatedInvite);
+    return updatedInvite;
+  }
+
+  async deleteUserInvite(id: number): Promise<boolean> {
+    return this.userInvites.delete(id);
+  }
+
+  // Password Reset Tokens
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenCurrentId++;
+    const token: PasswordResetToken = {
+      id,
+      userId: insertToken.userId,
+      tokenHash: insertToken.tokenHash,
+      expiresAt: insertToken.expiresAt,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash,
+    );
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken: PasswordResetToken = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    const usedAt = new Date();
+    Array.from(this.passwordResetTokens.values())
+      .filter(token => token.userId === userId && !token.usedAt)
+      .forEach(token => this.passwordResetTokens.set(token.id, { ...token, usedAt }));
+  }
+
+  // Login Attempts
+  async createLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const id = this.loginAttemptCurrentId++;
+    const attempt: LoginAttempt = {
+      id,
+      username: insertAttempt.username,
+      userId: insertAttempt.userId ?? null,
+      ipAddress: insertAttempt.ipAddress ?? null,
+      userAgent: insertAttempt.userAgent ?? null,
+      reason: insertAttempt.reason,
+      createdAt: new Date()
+    };
+    this.loginAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async getLoginAttempts(limit: number): Promise<LoginAttempt[]> {
+    return Array.from(this.loginAttempts.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async countLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number> {
+    return Array.from(this.loginAttempts.values()).filter(
+      (attempt) => attempt.ipAddress === ipAddress && attempt.createdAt >= since,
+    ).length;
+  }
+
+  async countLoginAttemptsByUsername(username: string, since: Date): Promise<number> {
+    return Array.from(this.loginAttempts.values()).filter(
+      (attempt) =>
+        attempt.username.toLowerCase() === username.toLowerCase() &&
+        attempt.createdAt >= since,
+    ).length;
+  }
+
+  async deleteLoginAttemptsBefore(date: Date): Promise<number> {
+    const expired = Array.from(this.loginAttempts.values()).filter(
+      (attempt) => attempt.createdAt < date,
+    );
+    expired.forEach((attempt) => this.loginAttempts.delete(attempt.id));
+    return expired.length;
+  }
+
+  // Public form rate limiting
+  async createFormSubmissionAttempt(insertAttempt: InsertFormSubmissionAttempt): Promise<FormSubmissionAttempt> {
+    const id = this.formSubmissionAttemptCurrentId++;
+    const attempt: FormSubmissionAttempt = {
+      id,
+      form: insertAttempt.form,
+      ipAddress: insertAttempt.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    this.formSubmissionAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async countFormSubmissionAttempts(form: string, ipAddress: string, since: Date): Promise<number> {
+    return Array.from(this.formSubmissionAttempts.values()).filter(
+      (attempt) => attempt.form === form && attempt.ipAddress === ipAddress && attempt.createdAt >= since,
+    ).length;
+  }
+
+  async deleteFormSubmissionAttemptsBefore(date: Date): Promise<number> {
+    const expired = Array.from(this.formSubmissionAttempts.values()).filter(
+      (attempt) => attempt.createdAt < date,
+    );
+    expired.forEach((attempt) => this.formSubmissionAttempts.delete(attempt.id));
+    return expired.length;
+  }
+
+  // Spam quarantine
+  async getQuarantinedSubmissions(): Promise<QuarantinedSubmission[]> {
+    return Array.from(this.quarantinedSubmissions.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getQuarantinedSubmission(id: number): Promise<QuarantinedSubmission | undefined> {
+    return this.quarantinedSubmissions.get(id);
+  }
+
+  async createQuarantinedSubmission(insertSubmission: InsertQuarantinedSubmission): Promise<QuarantinedSubmission> {
+    const id = this.quarantinedSubmissionCurrentId++;
+    const submission: QuarantinedSubmission = {
+      id,
+      form: insertSubmission.form,
+      payload: insertSubmission.payload as Record<string, unknown>,
+      spamScore: insertSubmission.spamScore,
+      spamReasons: insertSubmission.spamReasons ?? [],
+      ipAddress: insertSubmission.ipAddress ?? null,
+      userAgent: insertSubmission.userAgent ?? null,
+      createdAt: new Date()
+    };
+    this.quarantinedSubmissions.set(id, submission);
+    return submission;
+  }
+
+  async deleteQuarantinedSubmission(id: number): Promise<boolean> {
+    return this.quarantinedSubmissions.delete(id);
+  }
+
+  async deleteQuarantinedSubmissionsBefore(date: Date): Promise<number> {
+    const expired = Array.from(this.quarantinedSubmissions.values()).filter(
+      (submission) => submission.createdAt < date,
+    );
+    expired.forEach((submission) => this.quarantinedSubmissions.delete(submission.id));
+    return expired.length;
+  }
+
+  // Saved public form drafts
+  async getFormDraftByTokenHash(tokenHash: string): Promise<FormDraft | undefined> {
+    return Array.from(this.formDrafts.values()).find((draft) => draft.tokenHash === tokenHash);
+  }
+
+  async createFormDraft(insertDraft: InsertFormDraft): Promise<FormDraft> {
+    const id = this.formDraftCurrentId++;
+    const now = new Date();
+    const draft: FormDraft = {
+      id,
+      form: insertDraft.form,
+      email: insertDraft.email,
+      tokenHash: insertDraft.tokenHash,
+      data: insertDraft.data as Record<string, unknown>,
+      expiresAt: insertDraft.expiresAt,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.formDrafts.set(id, draft);
+    return draft;
+  }
+
+  async updateFormDraft(
+    id: number,
+    draftUpdate: Partial<Pick<FormDraft, "data" | "expiresAt">>,
+  ): Promise<FormDraft | undefined> {
+    const existing = this.formDrafts.get(id);
+    if (!existing) return undefined;
+
+    const updated: FormDraft = { ...existing, ...draftUpdate, updatedAt: new Date() };
+    this.formDrafts.set(id, updated);
+    return updated;
+  }
+
+  async deleteFormDraft(id: number): Promise<boolean> {
+    return this.formDrafts.delete(id);
+  }
+
+  async deleteFormDraftsExpiredBefore(date: Date): Promise<number> {
+    const expired = Array.from(this.formDrafts.values()).filter((draft) => draft.expiresAt < date);
+    expired.forEach((draft) => this.formDrafts.delete(draft.id));
+    return expired.length;
+  }
+
+  // Audit Log
+  async createAuditLogEntry(insertEntry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.auditLogCurrentId++;
+    const entry: AuditLogEntry = {
+      id,
+      actorId: insertEntry.actorId ?? null,
+      actorUsername: insertEntry.actorUsername,
+      action: insertEntry.action,
+      entityType: insertEntry.entityType,
+      entityId: insertEntry.entityId ?? null,
+      before: insertEntry.before ?? null,
+      after: insertEntry.after ?? null,
+      changes: insertEntry.changes ?? null,
+      ipAddress: insertEntry.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    this.auditLog.set(id, entry);
+    return entry;
+  }
+
+  async getAuditLogEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const entries = Array.from(this.auditLog.values())
+      .filter((entry) =>
+        (filters.actorId === undefined || entry.actorId === filters.actorId) &&
+        (!filters.entityType || entry.entityType === filters.entityType) &&
+        (!filters.entityId || entry.entityId === filters.entityId) &&
+        (!filters.action || entry.action === filters.action) &&
+        (!filters.from || entry.createdAt >= filters.from) &&
+        (!filters.to || entry.createdAt <= filters.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return filters.limit ? entries.slice(0, filters.limit) : entries;
+  }
+
+  // Email Log
+  async createEmailLogEntry(insertEntry: InsertEmailLogEntry): Promise<EmailLogEntry> {
+    const id = this.emailLogCurrentId++;
+    const entry: EmailLogEntry = {
+      id,
+      recipient: insertEntry.recipient,
+      sender: insertEntry.sender,
+      subject: insertEntry.subject,
+      template: insertEntry.template ?? null,
+      textBody: insertEntry.textBody ?? null,
+      htmlBody: insertEntry.htmlBody ?? null,
+      transport: insertEntry.transport,
+      status: insertEntry.status,
+      messageId: insertEntry.messageId ?? null,
+      error: insertEntry.error ?? null,
+      filePath: insertEntry.filePath ?? null,
+      createdAt: new Date()
+    };
+    this.emailLog.set(id, entry);
+    return entry;
+  }
+
+  async getEmailLogEntries(filters: EmailLogFilters): Promise<EmailLogEntry[]> {
+    const recipient = filters.recipient?.toLowerCase();
+    const entries = Array.from(this.emailLog.values())
+      .filter((entry) =>
+        (!filters.status || entry.status === filters.status) &&
+        (!filters.template || entry.template === filters.template) &&
+        (!recipient || entry.recipient.toLowerCase().includes(recipient))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return filters.limit ? entries.slice(0, filters.limit) : entries;
+  }
+
+  async getEmailLogEntry(id: number): Promise<EmailLogEntry | undefined> {
+    return this.emailLog.get(id);
+  }
+
   // Projects
   async getProjects(): Promise<Project[]> {
     return Array.from(this.projects.values())
@@ -643,6 +1167,7 @@ export class MemStorage implements IStorage {
       description: project.description,
       image: project.image,
       featured: project.featured ?? null,
+      published: project.published ?? true,
       createdAt: now,
 
       // Handle optional fields with proper nulls
@@ -678,6 +1203,12 @@ export class MemStorage implements IStorage {
   async deleteProject(id: number): Promise<boolean> {
     // Also delete all gallery images for this project
     this.deleteAllProjectGalleryImages(id);
+    // Quotes converted into this project lose the link, like ON DELETE SET NULL
+    for (const request of Array.from(this.quoteRequests.values())) {
+      if (request.projectId === id) {
+        this.quoteRequests.set(request.id, { ...request, projectId: null });
+      }
+    }
     return this.projects.delete(id);
   }
 
@@ -1150,7 +1681,8 @@ export class MemStorage implements IStorage {
       createdAt: now, 
       read: false,
       phone: message.phone ?? null,
-      service: message.service ?? null
+      service: message.service ?? null,
+      attribution: message.attribution ?? null
     };
     this.messages.set(id, newMessage);
     return newMessage;
@@ -1198,6 +1730,7 @@ export class MemStorage implements IStorage {
       firstName: subscriber.firstName || null,
       lastName: subscriber.lastName || null,
       subscribed: subscriber.subscribed ?? true,
+      attribution: subscriber.attribution ?? null,
       createdAt: now
     };
 
@@ -1244,6 +1777,12 @@ export class MemStorage implements IStorage {
     return this.quoteRequests.get(id);
   }
 
+  async getQuoteRequestByTrackingTokenHash(tokenHash: string): Promise<QuoteRequest | undefined> {
+    return Array.from(this.quoteRequests.values()).find(
+      (request) => request.trackingTokenHash === tokenHash,
+    );
+  }
+
   async createQuoteRequest(request: InsertQuoteRequest): Promise<QuoteRequest> {
     const id = this.quoteRequestCurrentId++;
     const now = new Date();
@@ -1261,6 +1800,18 @@ export class MemStorage implements IStorage {
       description: request.description,
       status: "pending",
       reviewed: false,
+      assignedToId: null,
+      followUpAt: null,
+      trackingTokenHash: null,
+      projectId: null,
+      statusChangedAt: null,
+      respondedAt: null,
+      closedAt: null,
+      slaAlertedAt: null,
+      attribution: request.attribution ?? null,
+      details: request.details ?? null,
+      ballparkLowCents: null,
+      ballparkHighCents: null,
       createdAt: now
     };
 
@@ -1308,8 +1859,14 @@ export class MemStorage implements IStorage {
   }
 
   async deleteQuoteRequest(id: number): Promise<boolean> {
-    // Delete all attachments for this quote request
+    // Delete all attachments, activity and estimates for this quote request
     await this.deleteAllQuoteRequestAttachments(id);
+    Array.from(this.quoteRequestActivity.values())
+      .filter(activity => activity.quoteRequestId === id)
+      .forEach(activity => this.quoteRequestActivity.delete(activity.id));
+    Array.from(this.estimates.values())
+      .filter(estimate => estimate.quoteRequestId === id)
+      .forEach(estimate => this.estimates.delete(estimate.id));
     return this.quoteRequests.delete(id);
   }
 
@@ -1343,6 +1900,12 @@ export class MemStorage implements IStorage {
     return this.quoteRequestAttachments.delete(id);
   }
 
+  async isQuoteRequestAttachmentFile(fileUrl: string): Promise<boolean> {
+    return Array.from(this.quoteRequestAttachments.values()).some(
+      (attachment) => attachment.fileUrl === fileUrl,
+    );
+  }
+
   async deleteAllQuoteRequestAttachments(quoteRequestId: number): Promise<boolean> {
     const attachments = Array.from(this.quoteRequestAttachments.values())
       .filter(attachment => attachment.quoteRequestId === quoteRequestId);
@@ -1354,6 +1917,88 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Quote Request Activity
+  async getQuoteRequestActivity(quoteRequestId: number): Promise<QuoteRequestActivity[]> {
+    return Array.from(this.quoteRequestActivity.values())
+      .filter(activity => activity.quoteRequestId === quoteRequestId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async createQuoteRequestActivity(insertActivity: InsertQuoteRequestActivity): Promise<QuoteRequestActivity> {
+    const id = this.quoteRequestActivityCurrentId++;
+    const activity: QuoteRequestActivity = {
+      id,
+      quoteRequestId: insertActivity.quoteRequestId,
+      type: insertActivity.type,
+      authorId: insertActivity.authorId ?? null,
+      authorUsername: insertActivity.authorUsername,
+      body: insertActivity.body ?? null,
+      fromValue: insertActivity.fromValue ?? null,
+      toValue: insertActivity.toValue ?? null,
+      createdAt: new Date()
+    };
+    this.quoteRequestActivity.set(id, activity);
+    return activity;
+  }
+
+  // Estimates
+  async getEstimates(quoteRequestId: number): Promise<Estimate[]> {
+    return Array.from(this.estimates.values())
+      .filter(estimate => estimate.quoteRequestId === quoteRequestId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getEstimate(id: number): Promise<Estimate | undefined> {
+    return this.estimates.get(id);
+  }
+
+  async createEstimate(insertEstimate: InsertEstimate): Promise<Estimate> {
+    const id = this.estimateCurrentId++;
+    const now = new Date();
+    const estimate: Estimate = {
+      id,
+      quoteRequestId: insertEstimate.quoteRequestId,
+      version: insertEstimate.version,
+      status: insertEstimate.status ?? "draft",
+      title: insertEstimate.title,
+      scope: insertEstimate.scope ?? null,
+      terms: insertEstimate.terms ?? null,
+      validUntil: insertEstimate.validUntil ?? null,
+      lineItems: insertEstimate.lineItems ?? [],
+      markupBasisPoints: insertEstimate.markupBasisPoints ?? 0,
+      taxBasisPoints: insertEstimate.taxBasisPoints ?? 0,
+      subtotalCents: insertEstimate.subtotalCents ?? 0,
+      markupCents: insertEstimate.markupCents ?? 0,
+      taxCents: insertEstimate.taxCents ?? 0,
+      totalCents: insertEstimate.totalCents ?? 0,
+      createdById: insertEstimate.createdById ?? null,
+      createdByUsername: insertEstimate.createdByUsername,
+      sentAt: insertEstimate.sentAt ?? null,
+      sentTo: insertEstimate.sentTo ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.estimates.set(id, estimate);
+    return estimate;
+  }
+
+  async updateEstimate(id: number, updates: Partial<InsertEstimate>): Promise<Estimate | undefined> {
+    const estimate = this.estimates.get(id);
+    if (!estimate) return undefined;
+
+    const updatedEstimate: Estimate = {
+      ...estimate,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.estimates.set(id, updatedEstimate);
+    return updatedEstimate;
+  }
+
+  async deleteEstimate(id: number): Promise<boolean> {
+    return this.estimates.delete(id);
+  }
+
   // Subcontractors
   async getSubcontractors(): Promise<Subcontractor[]> {
     return Array.from(this.subcontractors.values());
@@ -1388,6 +2033,7 @@ export class MemStorage implements IStorage {
       howDidYouHear: subcontractor.howDidYouHear || null,
       status: "pending",
       notes: null,
+      attribution: subcontractor.attribution ?? null,
       createdAt: now
     };
 
@@ -1475,6 +2121,7 @@ export class MemStorage implements IStorage {
       howDidYouHear: vendor.howDidYouHear || null,
       status: "pending",
       notes: null,
+      attribution: vendor.attribution ?? null,
       createdAt: now
     };
 
@@ -1536,13 +2183,15 @@ export class MemStorage implements IStorage {
   }
 
   async getActiveJobPostings(): Promise<JobPosting[]> {
+    const now = new Date();
     return Array.from(this.jobPostings.values())
-      .filter(job => job.active === true);
+      .filter(job => isJobPostingLive(job, now));
   }
 
   async getFeaturedJobPostings(): Promise<JobPosting[]> {
+    const now = new Date();
     return Array.from(this.jobPostings.values())
-      .filter(job => job.featured === true && job.active === true);
+      .filter(job => job.featured === true && isJobPostingLive(job, now));
   }
 
   async getJobPosting(id: number): Promise<JobPosting | undefined> {
@@ -1567,6 +2216,11 @@ export class MemStorage implements IStorage {
       applyUrl: jobPosting.applyUrl || null,
       active: jobPosting.active ?? true,
       featured: jobPosting.featured ?? false,
+      publishAt: jobPosting.publishAt ?? null,
+      expiresAt: jobPosting.expiresAt ?? null,
+      archivedAt: null,
+      expiryAlertedAt: null,
+      alertsQueuedAt: null,
       createdAt: now,
       updatedAt: now
     };
@@ -1575,7 +2229,10 @@ export class MemStorage implements IStorage {
     return newJobPosting;
   }
 
-  async updateJobPosting(id: number, jobPostingUpdate: Partial<InsertJobPosting>): Promise<JobPosting | undefined> {
+  async updateJobPosting(
+    id: number,
+    jobPostingUpdate: Partial<Omit<JobPosting, "id" | "createdAt">>,
+  ): Promise<JobPosting | undefined> {
     const jobPosting = this.jobPostings.get(id);
     if (!jobPosting) return undefined;
 
@@ -1596,6 +2253,8 @@ export class MemStorage implements IStorage {
     const updatedJobPosting: JobPosting = {
       ...jobPosting,
       active: !jobPosting.active,
+      // Switched by hand, so no longer archived by the expiry job
+      archivedAt: null,
       updatedAt: new Date()
     };
 
@@ -1618,9 +2277,176 @@ export class MemStorage implements IStorage {
   }
 
   async deleteJobPosting(id: number): Promise<boolean> {
+    // Applications go with the posting, as the foreign key cascades in the database
+    Array.from(this.jobApplications.values())
+      .filter((application) => application.jobPostingId === id)
+      .forEach((application) => this.deleteJobApplication(application.id));
+    Array.from(this.jobAlertQueue.values())
+      .filter((entry) => entry.jobPostingId === id)
+      .forEach((entry) => this.jobAlertQueue.delete(entry.id));
     return this.jobPostings.delete(id);
   }
 
+  // Job Applications
+  async getJobApplications(jobPostingId?: number): Promise<JobApplication[]> {
+    return Array.from(this.jobApplications.values())
+      .filter((application) => jobPostingId === undefined || application.jobPostingId === jobPostingId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    return this.jobApplications.get(id);
+  }
+
+  async createJobApplication(application: InsertJobApplication): Promise<JobApplication> {
+    const id = this.jobApplicationCurrentId++;
+    const now = new Date();
+    const newApplication: JobApplication = {
+      id,
+      jobPostingId: application.jobPostingId,
+      name: application.name,
+      email: application.email,
+      phone: application.phone || null,
+      location: application.location || null,
+      linkedinUrl: application.linkedinUrl || null,
+      coverLetter: application.coverLetter || null,
+      resumeFileName: application.resumeFileName,
+      resumeUrl: application.resumeUrl,
+      resumeKey: application.resumeKey,
+      coverLetterFileName: application.coverLetterFileName || null,
+      coverLetterUrl: application.coverLetterUrl || null,
+      coverLetterKey: application.coverLetterKey || null,
+      stage: "new",
+      averageRating: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobApplications.set(id, newApplication);
+    return newApplication;
+  }
+
+  async updateJobApplication(
+    id: number,
+    applicationUpdate: Partial<Omit<JobApplication, "id" | "createdAt">>,
+  ): Promise<JobApplication | undefined> {
+    const existing = this.jobApplications.get(id);
+    if (!existing) return undefined;
+
+    const updated: JobApplication = { ...existing, ...applicationUpdate, updatedAt: new Date() };
+    this.jobApplications.set(id, updated);
+    return updated;
+  }
+
+  async deleteJobApplication(id: number): Promise<boolean> {
+    Array.from(this.jobApplicationActivity.values())
+      .filter((activity) => activity.jobApplicationId === id)
+      .forEach((activity) => this.jobApplicationActivity.delete(activity.id));
+    return this.jobApplications.delete(id);
+  }
+
+  // Job Application Activity
+  async getJobApplicationActivity(jobApplicationId: number): Promise<JobApplicationActivity[]> {
+    return Array.from(this.jobApplicationActivity.values())
+      .filter((activity) => activity.jobApplicationId === jobApplicationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async createJobApplicationActivity(insertActivity: InsertJobApplicationActivity): Promise<JobApplicationActivity> {
+    const id = this.jobApplicationActivityCurrentId++;
+    const activity: JobApplicationActivity = {
+      id,
+      jobApplicationId: insertActivity.jobApplicationId,
+      type: insertActivity.type,
+      authorId: insertActivity.authorId ?? null,
+      authorUsername: insertActivity.authorUsername,
+      body: insertActivity.body ?? null,
+      rating: insertActivity.rating ?? null,
+      fromValue: insertActivity.fromValue ?? null,
+      toValue: insertActivity.toValue ?? null,
+      createdAt: new Date()
+    };
+    this.jobApplicationActivity.set(id, activity);
+    return activity;
+  }
+
+  // Job Alerts
+  async getJobAlertSubscriptions(): Promise<JobAlertSubscription[]> {
+    return Array.from(this.jobAlertSubscriptions.values());
+  }
+
+  async getJobAlertSubscriptionByConfirmTokenHash(tokenHash: string): Promise<JobAlertSubscription | undefined> {
+    return Array.from(this.jobAlertSubscriptions.values()).find((subscription) => subscription.confirmTokenHash === tokenHash);
+  }
+
+  async getJobAlertSubscriptionByUnsubscribeToken(token: string): Promise<JobAlertSubscription | undefined> {
+    return Array.from(this.jobAlertSubscriptions.values()).find((subscription) => subscription.unsubscribeToken === token);
+  }
+
+  async createJobAlertSubscription(insertSubscription: InsertJobAlertSubscription): Promise<JobAlertSubscription> {
+    const id = this.jobAlertSubscriptionCurrentId++;
+    const subscription: JobAlertSubscription = {
+      id,
+      email: insertSubscription.email,
+      department: insertSubscription.department ?? null,
+      location: insertSubscription.location ?? null,
+      type: insertSubscription.type ?? null,
+      confirmTokenHash: insertSubscription.confirmTokenHash ?? null,
+      confirmedAt: insertSubscription.confirmedAt ?? null,
+      unsubscribeToken: insertSubscription.unsubscribeToken,
+      createdAt: new Date()
+    };
+    this.jobAlertSubscriptions.set(id, subscription);
+    return subscription;
+  }
+
+  async updateJobAlertSubscription(
+    id: number,
+    subscriptionUpdate: Partial<Pick<JobAlertSubscription, "confirmTokenHash" | "confirmedAt">>,
+  ): Promise<JobAlertSubscription | undefined> {
+    const existing = this.jobAlertSubscriptions.get(id);
+    if (!existing) return undefined;
+
+    const updated: JobAlertSubscription = { ...existing, ...subscriptionUpdate };
+    this.jobAlertSubscriptions.set(id, updated);
+    return updated;
+  }
+
+  async deleteJobAlertSubscription(id: number): Promise<boolean> {
+    Array.from(this.jobAlertQueue.values())
+      .filter((entry) => entry.subscriptionId === id)
+      .forEach((entry) => this.jobAlertQueue.delete(entry.id));
+    return this.jobAlertSubscriptions.delete(id);
+  }
+
+  async deleteUnconfirmedJobAlertSubscriptionsBefore(date: Date): Promise<number> {
+    const stale = Array.from(this.jobAlertSubscriptions.values())
+      .filter((subscription) => !subscription.confirmedAt && subscription.createdAt < date);
+    stale.forEach((subscription) => this.deleteJobAlertSubscription(subscription.id));
+    return stale.length;
+  }
+
+  async getJobAlertQueue(): Promise<JobAlertQueueEntry[]> {
+    return Array.from(this.jobAlertQueue.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createJobAlertQueueEntries(entries: InsertJobAlertQueueEntry[]): Promise<JobAlertQueueEntry[]> {
+    return entries.map((insertEntry) => {
+      const id = this.jobAlertQueueCurrentId++;
+      const entry: JobAlertQueueEntry = {
+        id,
+        subscriptionId: insertEntry.subscriptionId,
+        jobPostingId: insertEntry.jobPostingId,
+        createdAt: new Date()
+      };
+      this.jobAlertQueue.set(id, entry);
+      return entry;
+    });
+  }
+
+  async deleteJobAlertQueueEntries(ids: number[]): Promise<number> {
+    return ids.filter((id) => this.jobAlertQueue.delete(id)).length;
+  }
+
   // Team Members
   async getTeamMembers(): Promise<TeamMember[]> {
     return Array.from(this.teamMembers.values())
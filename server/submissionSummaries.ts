@@ -0,0 +1,165 @@
+import { formatReferenceNumber, type SubmissionType } from "@shared/submissions";
+import {
+  QUOTE_PROJECT_TYPE_LABELS,
+  QUOTE_TIMELINE_LABELS,
+  describeQuoteDetails,
+  formatBallpark,
+  isQuoteProjectType,
+  isQuoteTimeline,
+} from "@shared/quoteWizard";
+import type {
+  JobApplication,
+  JobPosting,
+  Message,
+  QuoteRequest,
+  Subcontractor,
+  Vendor,
+  Testimonial,
+} from "@shared/schema";
+
+export type SummaryField = [label: string, value: string | number | null | undefined];
+
+/**
+ * What a public submission contained, used for staff alerts and submitter receipts
+ */
+export interface SubmissionSummary {
+  type: SubmissionType;
+  referenceNumber: string;
+  // One-line description for staff, e.g. "New quote request from Jane Doe"
+  headline: string;
+  submitterName: string;
+  submitterEmail: string | null;
+  fields: SummaryField[];
+  // Admin page (with query string) that opens the submission
+  adminPath: string;
+}
+
+export function summarizeContactMessage(message: Message): SubmissionSummary {
+  return {
+    type: "contact_message",
+    referenceNumber: formatReferenceNumber("contact_message", message.id),
+    headline: `New contact message from ${message.name}`,
+    submitterName: message.name,
+    submitterEmail: message.email,
+    fields: [
+      ["Name", message.name],
+      ["Email", message.email],
+      ["Phone", message.phone],
+      ["Service", message.service],
+      ["Message", message.message],
+    ],
+    adminPath: `/admin/messages?id=${message.id}`,
+  };
+}
+
+export function summarizeQuoteRequest(quote: QuoteRequest, attachmentNames: string[]): SubmissionSummary {
+  return {
+    type: "quote_request",
+    referenceNumber: formatReferenceNumber("quote_request", quote.id),
+    headline: `New quote request from ${quote.name}`,
+    submitterName: quote.name,
+    submitterEmail: quote.email,
+    fields: [
+      ["Name", quote.name],
+      ["Company", quote.company],
+      ["Email", quote.email],
+      ["Phone", quote.phone],
+      ["Project type", isQuoteProjectType(quote.projectType) ? QUOTE_PROJECT_TYPE_LABELS[quote.projectType] : quote.projectType],
+      ["Project size", describeQuoteDetails(quote.details) || quote.projectSize],
+      ["Budget", quote.budget],
+      ["Timeframe", isQuoteTimeline(quote.timeframe) ? QUOTE_TIMELINE_LABELS[quote.timeframe] : quote.timeframe],
+      [
+        "Ballpark shown",
+        quote.ballparkLowCents !== null && quote.ballparkHighCents !== null
+          ? formatBallpark({ lowCents: quote.ballparkLowCents, highCents: quote.ballparkHighCents })
+          : null,
+      ],
+      ["Description", quote.description],
+      ["Attachments", attachmentNames.join(", ")],
+    ],
+    adminPath: `/admin/quotes?id=${quote.id}`,
+  };
+}
+
+export function summarizeSubcontractorApplication(subcontractor: Subcontractor): SubmissionSummary {
+  return {
+    type: "subcontractor_application",
+    referenceNumber: formatReferenceNumber("subcontractor_application", subcontractor.id),
+    headline: `New subcontractor registration: ${subcontractor.companyName}`,
+    submitterName: subcontractor.contactName,
+    submitterEmail: subcontractor.email,
+    fields: [
+      ["Company", subcontractor.companyName],
+      ["Contact", subcontractor.contactName],
+      ["Email", subcontractor.email],
+      ["Phone", subcontractor.phone],
+      ["Location", `${subcontractor.city}, ${subcontractor.state}`],
+      ["Services", subcontractor.serviceTypes?.join(", ")],
+      ["Years in business", subcontractor.yearsInBusiness],
+      ["Description", subcontractor.serviceDescription],
+    ],
+    adminPath: `/admin/subcontractors?tab=subcontractors&id=${subcontractor.id}`,
+  };
+}
+
+export function summarizeVendorApplication(vendor: Vendor): SubmissionSummary {
+  return {
+    type: "vendor_application",
+    referenceNumber: formatReferenceNumber("vendor_application", vendor.id),
+    headline: `New vendor registration: ${vendor.companyName}`,
+    submitterName: vendor.contactName,
+    submitterEmail: vendor.email,
+    fields: [
+      ["Company", vendor.companyName],
+      ["Contact", vendor.contactName],
+      ["Email", vendor.email],
+      ["Phone", vendor.phone],
+      ["Location", `${vendor.city}, ${vendor.state}`],
+      ["Supplies", vendor.supplyTypes?.join(", ")],
+      ["Years in business", vendor.yearsInBusiness],
+      ["Description", vendor.serviceDescription],
+    ],
+    adminPath: `/admin/subcontractors?tab=vendors&id=${vendor.id}`,
+  };
+}
+
+export function summarizeTestimonial(testimonial: Testimonial): SubmissionSummary {
+  return {
+    type: "testimonial_submission",
+    referenceNumber: formatReferenceNumber("testimonial_submission", testimonial.id),
+    headline: `New testimonial from ${testimonial.name}`,
+    submitterName: testimonial.name,
+    submitterEmail: testimonial.email,
+    fields: [
+      ["Name", testimonial.name],
+      ["Position", testimonial.position],
+      ["Company", testimonial.company],
+      ["Email", testimonial.email],
+      ["Rating", testimonial.rating],
+      ["Testimonial", testimonial.content],
+    ],
+    adminPath: `/admin/testimonials?tab=${testimonial.approved ? "all" : "pending"}`,
+  };
+}
+
+export function summarizeJobApplication(application: JobApplication, jobPosting: JobPosting): SubmissionSummary {
+  return {
+    type: "job_application",
+    referenceNumber: formatReferenceNumber("job_application", application.id),
+    headline: `New application for ${jobPosting.title} from ${application.name}`,
+    submitterName: application.name,
+    submitterEmail: application.email,
+    fields: [
+      ["Position", jobPosting.title],
+      ["Name", application.name],
+      ["Email", application.email],
+      ["Phone", application.phone],
+      ["Location", application.location],
+      ["LinkedIn", application.linkedinUrl],
+      ["Resume", application.resumeFileName],
+      ["Cover letter file", application.coverLetterFileName],
+      ["Cover letter", application.coverLetter],
+    ],
+    adminPath: `/admin/careers?applications=${jobPosting.id}&id=${application.id}`,
+  };
+}
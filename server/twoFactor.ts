@@ -0,0 +1,122 @@
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { randomBytes, createHash } from "crypto";
+import { storage } from "./storage";
+import { User as SelectUser } from "@shared/schema";
+import { isRole, type Role } from "@shared/permissions";
+
+const TWO_FACTOR_ISSUER = "ARCEM Construction";
+const BACKUP_CODE_COUNT = 10;
+
+// Site setting holding the JSON list of roles that must use two-factor authentication
+export const TWO_FACTOR_POLICY_KEY = "two_factor_required_roles";
+
+// Accept codes from the previous and next 30 second step to allow for clock drift
+authenticator.options = { window: 1 };
+
+export function generateTwoFactorSecret() {
+  return authenticator.generateSecret();
+}
+
+// Returns what the authenticator app needs: the otpauth:// URL and a QR code of it
+export async function buildTwoFactorEnrollment(username: string, secret: string) {
+  const otpauthUrl = authenticator.keyuri(username, TWO_FACTOR_ISSUER, secret);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+// Returns the time step the code belongs to when it matches, or null
+export function matchTotpCode(secret: string, code: string): number | null {
+  try {
+    const delta = authenticator.checkDelta(code.replace(/\s/g, ""), secret);
+    if (delta === null) return null;
+    const currentStep = Math.floor(Date.now() / 1000 / authenticator.allOptions().step);
+    return currentStep + delta;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a code against the user's enabled authenticator and records it as
+ * used. Codes from the same or an earlier time step than the last accepted
+ * one are rejected, so an intercepted code can't be replayed.
+ */
+export async function verifyUserTotpCode(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  const step = matchTotpCode(user.twoFactorSecret, code);
+  if (step === null) return false;
+  if (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep) return false;
+
+  await storage.updateUser(user.id, { twoFactorLastUsedStep: step });
+  return true;
+}
+
+function normalizeBackupCode(code: string) {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashBackupCode(code: string) {
+  return createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+// Plain codes are shown to the user once; only their hashes are stored
+export function generateBackupCodes() {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+}
+
+// Returns the remaining backup code hashes when the code matches, or null
+export function consumeBackupCode(user: SelectUser, code: string): string[] | null {
+  const hashes = user.twoFactorBackupCodes || [];
+  const codeHash = hashBackupCode(code);
+  if (!hashes.includes(codeHash)) {
+    return null;
+  }
+  return hashes.filter((hash) => hash !== codeHash);
+}
+
+export async function getTwoFactorRequiredRoles(): Promise<Role[]> {
+  const setting = await storage.getSiteSettingByKey(TWO_FACTOR_POLICY_KEY);
+  if (!setting) return [];
+
+  try {
+    const roles = JSON.parse(setting.value);
+    return Array.isArray(roles) ? roles.filter(isRole) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function setTwoFactorRequiredRoles(roles: Role[]): Promise<Role[]> {
+  const value = JSON.stringify(roles);
+  const existing = await storage.getSiteSettingByKey(TWO_FACTOR_POLICY_KEY);
+  if (existing) {
+    await storage.updateSiteSettingByKey(TWO_FACTOR_POLICY_KEY, value);
+  } else {
+    await storage.createSiteSetting({
+      key: TWO_FACTOR_POLICY_KEY,
+      value,
+      category: "security",
+      label: "Roles requiring two-factor authentication",
+      description: "Users with these roles must set up two-factor authentication before using the admin panel",
+      type: "json",
+    });
+  }
+  return roles;
+}
+
+export async function isTwoFactorRequiredForRole(role: string | null | undefined) {
+  if (!isRole(role)) return false;
+  const requiredRoles = await getTwoFactorRequiredRoles();
+  return requiredRoles.includes(role);
+}
+
+// True when the user's role requires 2FA but the user has not enrolled yet
+export async function isTwoFactorSetupRequired(user: SelectUser) {
+  return !user.twoFactorEnabled && (await isTwoFactorRequiredForRole(user.role));
+}
@@ -3,6 +3,9 @@ import { UploadThingError } from "uploadthing/server";
 // Import the Express-specific route handler for proper Express integration
 import { createRouteHandler } from "uploadthing/express";
 import type { Request, Response, Router } from "express";
+import { hasPermission, PERMISSIONS } from "@shared/permissions";
+import { isTwoFactorSetupRequired } from "./twoFactor";
+import { checkSubmissionRateLimit } from "./spamProtection";
 
 // Check UploadThing environment variables
 if (!process.env.UPLOADTHING_SECRET || !process.env.UPLOADTHING_APP_ID) {
@@ -17,14 +20,22 @@ const f = createUploadthing();
 
 interface Session {
   userId?: number;
-  role?: 'admin' | 'user';
+  role?: string;
 }
 
 // Define authentication function to handle permissions
-const isAuthenticated = (req: Request) => {
+const isAuthenticated = async (req: Request) => {
   if (!req.session || !req.isAuthenticated()) {
     throw new UploadThingError("Unauthorized");
   }
+
+  if (!hasPermission(req.user?.role, PERMISSIONS.FILES_UPLOAD)) {
+    throw new UploadThingError("Forbidden");
+  }
+
+  if (await isTwoFactorSetupRequired(req.user)) {
+    throw new UploadThingError("Forbidden");
+  }
   
   return {
     userId: req.user?.id,
@@ -37,11 +48,11 @@ export const uploadRouter = {
   // Define a route for image upload
   imageUploader: f({ image: { maxFileSize: "16MB", maxFileCount: 10 } })
     // Set permissions and get metadata to identify the user
-    .middleware(({ req }) => {
+    .middleware(async ({ req }) => {
       try {
         // This code runs on your server before upload
         // Type assertion to solve type mismatch between Express.Request types
-        const session = isAuthenticated(req as any);
+        const session = await isAuthenticated(req as any);
         
         console.log("📤 Upload middleware executed for user:", session.userId);
         return { userId: session.userId };
@@ -78,10 +89,17 @@ export const uploadRouter = {
     image: { maxFileSize: "8MB", maxFileCount: 3 },
     pdf: { maxFileSize: "8MB", maxFileCount: 3 }
   })
-    .middleware(({ req }) => {
+    .middleware(async ({ req }) => {
       // For quote requests, we allow anonymous uploads
       // This enables visitors to attach files without being logged in
       console.log("📤 Quote document upload middleware executed (anonymous allowed)");
+
+      // Anonymous uploads are limited per IP address
+      const limit = await checkSubmissionRateLimit(req as any, "quote_upload");
+      if (!limit.allowed) {
+        throw new UploadThingError(limit.message);
+      }
+
       return { 
         isAnonymous: true,
         userId: req.user?.id || null 
@@ -111,6 +129,36 @@ export const uploadRouter = {
         size: file.size
       };
     }),
+
+  // Resumes and cover letters attached to job applications, PDF or Word only
+  applicationDocumentUploader: f({
+    pdf: { maxFileSize: "8MB", maxFileCount: 2 },
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": { maxFileSize: "8MB", maxFileCount: 2 }
+  })
+    .middleware(async ({ req }) => {
+      // Applicants upload without an account, limited per IP address like quote documents
+      const limit = await checkSubmissionRateLimit(req as any, "application_upload");
+      if (!limit.allowed) {
+        throw new UploadThingError(limit.message);
+      }
+
+      return { isAnonymous: true };
+    })
+    .onUploadComplete(({ file }) => {
+      console.log("✅ Application document upload complete:", {
+        name: file.name,
+        size: (file.size / 1024 / 1024).toFixed(2) + " MB",
+        key: file.key
+      });
+
+      return {
+        url: file.url,
+        ufsUrl: file.ufsUrl || file.url,
+        key: file.key,
+        name: file.name,
+        size: file.size
+      };
+    }),
 };
 
 // Custom error handler for diagnostic purposes
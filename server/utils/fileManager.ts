@@ -2,6 +2,7 @@ import path from 'path';
 import fs from 'fs';
 import { promisify } from 'util';
 import { uploadThingService } from '../services/uploadthingService';
+import { storage } from '../storage';
 
 const unlink = promisify(fs.unlink);
 const exists = promisify(fs.exists);
@@ -417,7 +418,8 @@ export class FileManager {
 
   /**
    * Safely deletes a file, checking for references in other entities
-   * In the future, this could be extended to check for file usage across the system
+   * Files still attached to a quote request are kept: projects converted from
+   * a quote reuse the customer's attachments in their gallery
    * @param fileUrl The URL of the file to delete
    * @returns Promise<boolean> True if the file was deleted, false otherwise
    */
@@ -425,8 +427,10 @@ export class FileManager {
     if (!fileUrl) return false;
     
     try {
-      // Here we would check if the file is used elsewhere in the system
-      // For now, we'll just delete it directly
+      if (await storage.isQuoteRequestAttachmentFile(fileUrl)) {
+        console.log(`Preserving file ${fileUrl} as it is attached to a quote request`);
+        return false;
+      }
       return await this.deleteFile(fileUrl);
     } catch (error) {
       console.error(`Error safely deleting file ${fileUrl}:`, error);
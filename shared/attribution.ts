@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+// Where a lead came from, captured by the browser on the visitor's first visit and sent with each form
+
+export const leadAttributionSchema = z.object({
+  utmSource: z.string().trim().max(200).optional(),
+  utmMedium: z.string().trim().max(200).optional(),
+  utmCampaign: z.string().trim().max(200).optional(),
+  utmTerm: z.string().trim().max(200).optional(),
+  utmContent: z.string().trim().max(200).optional(),
+  // Empty for direct visits and links from our own site
+  referrer: z.string().trim().max(2000).optional(),
+  // Path and query string of the first page viewed
+  landingPage: z.string().trim().max(2000).optional(),
+  firstVisitAt: z.string().max(40).optional(),
+});
+
+export type LeadAttribution = z.infer<typeof leadAttributionSchema>;
+
+export const UTM_PARAMETERS = {
+  utm_source: "utmSource",
+  utm_medium: "utmMedium",
+  utm_campaign: "utmCampaign",
+  utm_term: "utmTerm",
+  utm_content: "utmContent",
+} as const satisfies Record<string, keyof LeadAttribution>;
+
+// Forms whose submissions carry attribution, in the order they appear on the dashboard
+export const LEAD_FORMS = [
+  "quote_request",
+  "contact_message",
+  "newsletter_subscriber",
+  "subcontractor_application",
+  "vendor_application",
+] as const;
+
+export type LeadForm = (typeof LEAD_FORMS)[number];
+
+export const LEAD_FORM_LABELS: Record<LeadForm, string> = {
+  quote_request: "Quote requests",
+  contact_message: "Contact messages",
+  newsletter_subscriber: "Newsletter sign-ups",
+  subcontractor_application: "Subcontractors",
+  vendor_application: "Vendors",
+};
+
+const SEARCH_ENGINES: Array<[pattern: RegExp, name: string]> = [
+  [/(^|\.)google\./, "google"],
+  [/(^|\.)bing\.com$/, "bing"],
+  [/(^|\.)duckduckgo\.com$/, "duckduckgo"],
+  [/(^|\.)yahoo\.com$/, "yahoo"],
+];
+
+export const UNTRACKED_LEAD_SOURCE = "(not tracked)";
+
+/**
+ * "source / medium" label in the style of analytics tools, e.g.
+ * "google / cpc", "google / organic", "houzz.com / referral" or
+ * "(direct) / (none)". Submissions from before attribution was captured
+ * are "(not tracked)".
+ */
+export function describeLeadSource(attribution: LeadAttribution | null | undefined) {
+  if (!attribution) return UNTRACKED_LEAD_SOURCE;
+
+  if (attribution.utmSource) {
+    return `${attribution.utmSource.toLowerCase()} / ${attribution.utmMedium?.toLowerCase() || "(none)"}`;
+  }
+
+  if (attribution.referrer) {
+    let host: string;
+    try {
+      host = new URL(attribution.referrer).hostname.replace(/^www\./, "");
+    } catch {
+      return "(direct) / (none)";
+    }
+    const searchEngine = SEARCH_ENGINES.find(([pattern]) => pattern.test(host));
+    return searchEngine ? `${searchEngine[1]} / organic` : `${host} / referral`;
+  }
+
+  return "(direct) / (none)";
+}
+
+export interface LeadSourceRow {
+  source: string;
+  counts: Partial<Record<LeadForm, number>>;
+  total: number;
+}
+
+export interface LeadSourceBreakdown {
+  since: string;
+  // Only the forms the signed-in user can manage
+  forms: LeadForm[];
+  sources: LeadSourceRow[];
+  // Quote requests per campaign, for campaigns that produced at least one
+  campaigns: Array<{ campaign: string; source: string; quoteRequests: number }>;
+}
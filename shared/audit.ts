@@ -0,0 +1,79 @@
+// Entity types recorded in the audit log, shared by the audit middleware and the admin UI
+
+export const AUDIT_ENTITY_TYPES = [
+  "project",
+  "project_gallery_image",
+  "blog_post",
+  "blog_category",
+  "blog_tag",
+  "blog_gallery_image",
+  "service",
+  "service_gallery_image",
+  "testimonial",
+  "message",
+  "file",
+  "newsletter_subscriber",
+  "site_setting",
+  "quote_request",
+  "quote_request_attachment",
+  "quote_request_note",
+  "estimate",
+  "subcontractor",
+  "vendor",
+  "job_posting",
+  "job_application",
+  "job_application_note",
+  "team_member",
+  "user",
+  "user_invite",
+  "security_policy",
+  "email",
+  "staff_alert_settings",
+  "quote_sla_settings",
+  "email_template",
+  "quarantined_submission",
+  "quote_cost_rates",
+  "job_expiry_settings",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: "Project",
+  project_gallery_image: "Project Gallery Image",
+  blog_post: "Blog Post",
+  blog_category: "Blog Category",
+  blog_tag: "Blog Tag",
+  blog_gallery_image: "Blog Gallery Image",
+  service: "Service",
+  service_gallery_image: "Service Gallery Image",
+  testimonial: "Testimonial",
+  message: "Message",
+  file: "File",
+  newsletter_subscriber: "Newsletter Subscriber",
+  site_setting: "Site Setting",
+  quote_request: "Quote Request",
+  quote_request_attachment: "Quote Attachment",
+  quote_request_note: "Quote Note",
+  estimate: "Estimate",
+  subcontractor: "Subcontractor",
+  vendor: "Vendor",
+  job_posting: "Job Posting",
+  job_application: "Job Application",
+  job_application_note: "Applicant Note",
+  team_member: "Team Member",
+  user: "User",
+  user_invite: "User Invite",
+  security_policy: "Security Policy",
+  email: "Email",
+  staff_alert_settings: "Staff Alert Settings",
+  quote_sla_settings: "Quote Response Target",
+  email_template: "Email Template",
+  quarantined_submission: "Quarantined Submission",
+  quote_cost_rates: "Ballpark Cost Rates",
+  job_expiry_settings: "Job Expiry Alerts",
+};
+
+export function isAuditEntityType(value: unknown): value is AuditEntityType {
+  return typeof value === "string" && (AUDIT_ENTITY_TYPES as readonly string[]).includes(value);
+}
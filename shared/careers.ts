@@ -0,0 +1,240 @@
+// Applicant tracking values, shared by the admin routes and the careers management UI
+
+export const APPLICANT_STAGES = [
+  "new",
+  "screening",
+  "interview",
+  "offer",
+  "hired",
+  "rejected",
+] as const;
+
+export type ApplicantStage = (typeof APPLICANT_STAGES)[number];
+
+export const APPLICANT_STAGE_LABELS: Record<ApplicantStage, string> = {
+  new: "New",
+  screening: "Screening",
+  interview: "Interview",
+  offer: "Offer",
+  hired: "Hired",
+  rejected: "Rejected",
+};
+
+export function isApplicantStage(value: unknown): value is ApplicantStage {
+  return typeof value === "string" && (APPLICANT_STAGES as readonly string[]).includes(value);
+}
+
+export const APPLICANT_ACTIVITY_TYPES = ["note", "stage_change"] as const;
+
+export type ApplicantActivityType = (typeof APPLICANT_ACTIVITY_TYPES)[number];
+
+// Interviewers can score a candidate along with their note
+export const MIN_APPLICANT_RATING = 1;
+export const MAX_APPLICANT_RATING = 5;
+
+// Average of the ratings left on a candidate's notes, or null when nobody has rated them
+export function getAverageRating(activity: Array<{ rating: number | null }>) {
+  const ratings = activity.flatMap((entry) => (entry.rating === null ? [] : [entry.rating]));
+  if (ratings.length === 0) return null;
+  return ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+}
+
+type JobPostingSchedule = {
+  active: boolean;
+  publishAt: Date | string | null;
+  expiresAt: Date | string | null;
+  archivedAt: Date | string | null;
+};
+
+export type JobPostingStatus = "live" | "scheduled" | "expired" | "archived" | "inactive";
+
+export const JOB_POSTING_STATUS_LABELS: Record<JobPostingStatus, string> = {
+  live: "Live",
+  scheduled: "Scheduled",
+  expired: "Expired",
+  archived: "Archived",
+  inactive: "Inactive",
+};
+
+/**
+ * Where a posting stands for the public careers pages. Only "live" postings
+ * are listed and accept applications: active, past their publish date and
+ * not yet expired.
+ */
+export function getJobPostingStatus(job: JobPostingSchedule, now: Date = new Date()): JobPostingStatus {
+  if (!job.active) return job.archivedAt ? "archived" : "inactive";
+  if (job.publishAt && new Date(job.publishAt) > now) return "scheduled";
+  if (job.expiresAt && new Date(job.expiresAt) <= now) return "expired";
+  return "live";
+}
+
+export function isJobPostingLive(job: JobPostingSchedule, now: Date = new Date()) {
+  return getJobPostingStatus(job, now) === "live";
+}
+
+/**
+ * Who is warned before postings expire, and how far ahead. Expired postings
+ * are archived whether or not alerts are on.
+ */
+export interface JobExpirySettings {
+  alertsEnabled: boolean;
+  daysBefore: number;
+  recipients: string[];
+}
+
+export const DEFAULT_JOB_EXPIRY_SETTINGS: JobExpirySettings = {
+  alertsEnabled: false,
+  daysBefore: 3,
+  recipients: [],
+};
+
+// Google for Jobs: how a posting's free-text fields map onto schema.org JobPosting
+
+export const JOB_EMPLOYMENT_TYPES: Record<string, string> = {
+  "full-time": "FULL_TIME",
+  "part-time": "PART_TIME",
+  contract: "CONTRACTOR",
+  temporary: "TEMPORARY",
+  internship: "INTERN",
+};
+
+export type JobLocation =
+  | { remote: true }
+  | { remote: false; addressLocality: string; addressRegion: string; addressCountry: string };
+
+/**
+ * Read a posting's location as "Remote", "City, ST" (taken to be in the US)
+ * or "City, Region, Country". Anything else can't be turned into an address.
+ */
+export function parseJobLocation(location: string): JobLocation | null {
+  const trimmed = location.trim();
+  if (/^remote\b/i.test(trimmed)) return { remote: true };
+
+  const parts = trimmed.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length < 2 || parts.length > 3) return null;
+  return {
+    remote: false,
+    addressLocality: parts[0],
+    // Drop a trailing ZIP code from "TX 77479"
+    addressRegion: parts[1].replace(/\s+\d{5}(-\d{4})?$/, ""),
+    addressCountry: parts[2] ?? "US",
+  };
+}
+
+export interface SalaryRange {
+  minValue: number;
+  maxValue: number;
+  unitText: "HOUR" | "WEEK" | "MONTH" | "YEAR";
+}
+
+/**
+ * Read amounts like "$60,000 - $80,000", "$60k–$80k" or "$25/hour" from the
+ * salary text. Returns null for text without a figure, such as "Competitive".
+ */
+export function parseSalaryRange(salary: string | null | undefined): SalaryRange | null {
+  if (!salary) return null;
+
+  const amounts = Array.from(salary.matchAll(/(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/gi), (match) => {
+    const amount = parseFloat(match[1].replace(/,/g, ""));
+    return match[2] ? amount * 1000 : amount;
+  }).filter((amount) => amount > 0);
+  if (amounts.length === 0) return null;
+
+  const minValue = Math.min(...amounts);
+  const maxValue = Math.max(...amounts);
+  const unitText = /hour|\/\s*hr\b/i.test(salary)
+    ? "HOUR"
+    : /week|\/\s*wk\b/i.test(salary)
+      ? "WEEK"
+      : /month|\/\s*mo\b/i.test(salary)
+        ? "MONTH"
+        : /year|annual|\/\s*yr\b/i.test(salary) || maxValue >= 1000
+          ? "YEAR"
+          : "HOUR";
+  return { minValue, maxValue, unitText };
+}
+
+export interface JobPostingSeoIssue {
+  field: "description" | "location" | "type" | "salary" | "expiresAt";
+  message: string;
+  // Google leaves postings missing a required field out of job search altogether
+  required: boolean;
+}
+
+/**
+ * What keeps a posting from showing up (or showing up well) in Google's job
+ * search. Title, date posted and hiring organization are always filled in.
+ */
+export function getJobPostingSeoIssues(job: {
+  description: string;
+  location: string;
+  type: string;
+  salary?: string | null;
+  expiresAt?: Date | string | null;
+}): JobPostingSeoIssue[] {
+  const issues: JobPostingSeoIssue[] = [];
+
+  if (!job.description.trim()) {
+    issues.push({ field: "description", message: "Add a description.", required: true });
+  }
+  if (!parseJobLocation(job.location)) {
+    issues.push({
+      field: "location",
+      message: 'Enter the location as "City, ST" (for example "Sugar Land, TX") or "Remote".',
+      required: true,
+    });
+  }
+  if (!JOB_EMPLOYMENT_TYPES[job.type]) {
+    issues.push({ field: "type", message: "Choose a job type.", required: false });
+  }
+  if (!parseSalaryRange(job.salary)) {
+    issues.push({
+      field: "salary",
+      message: 'Add a salary with figures (for example "$60,000 - $80,000" or "$25/hour").',
+      required: false,
+    });
+  }
+  if (!job.expiresAt) {
+    issues.push({
+      field: "expiresAt",
+      message: "Set a closing date so the listing is dropped when the position is filled.",
+      required: false,
+    });
+  }
+  return issues;
+}
+
+// Job alert subscriptions: the page the confirmation and unsubscribe links open
+export const JOB_ALERTS_PATH = "/careers/alerts";
+
+// Subscriptions not confirmed within this many days are removed
+export const JOB_ALERT_CONFIRM_TTL_DAYS = 7;
+
+type JobAlertFilters = {
+  department: string | null;
+  location: string | null;
+  type: string | null;
+};
+
+const sameText = (filter: string | null, value: string) =>
+  !filter || filter.trim().toLowerCase() === value.trim().toLowerCase();
+
+// Whether a posting is one the subscriber asked to hear about; empty filters match anything
+export function matchesJobAlert(
+  filters: JobAlertFilters,
+  job: { department: string; location: string; type: string },
+) {
+  return (
+    sameText(filters.department, job.department) &&
+    sameText(filters.location, job.location) &&
+    sameText(filters.type, job.type)
+  );
+}
+
+// "Engineering jobs in Houston, TX (full time)", for emails and the confirmation page
+export function describeJobAlert(filters: JobAlertFilters) {
+  const what = filters.department ? `${filters.department} jobs` : "All jobs";
+  const where = filters.location ? ` in ${filters.location}` : "";
+  const type = filters.type ? ` (${filters.type.replace("-", " ")})` : "";
+  return `${what}${where}${type}`;
+}
@@ -0,0 +1,55 @@
+// Saved progress for the long public forms, kept in the browser and, when the
+// visitor asks for a link to finish later, on the server behind a magic link
+
+import { z } from "zod";
+
+export const DRAFTABLE_FORMS = ["quote_request", "subcontractor_application", "vendor_application"] as const;
+
+export type DraftableForm = (typeof DRAFTABLE_FORMS)[number];
+
+export const DRAFTABLE_FORM_LABELS: Record<DraftableForm, string> = {
+  quote_request: "quote request",
+  subcontractor_application: "subcontractor registration",
+  vendor_application: "vendor registration",
+};
+
+// Where each form lives; the magic link adds ?draft=<token>
+export const DRAFTABLE_FORM_PATHS: Record<DraftableForm, string> = {
+  quote_request: "/request-quote",
+  subcontractor_application: "/subcontractors?tab=subcontractor",
+  vendor_application: "/subcontractors?tab=vendor",
+};
+
+export function isDraftableForm(value: unknown): value is DraftableForm {
+  return typeof value === "string" && (DRAFTABLE_FORMS as readonly string[]).includes(value);
+}
+
+export const DRAFT_QUERY_PARAM = "draft";
+
+// Counted from the last save, both on the server and in the browser
+export const DRAFT_TTL_DAYS = 30;
+
+// Generous for the largest form, small enough that drafts can't be used as free storage
+export const MAX_DRAFT_BYTES = 64 * 1024;
+
+const draftDataSchema = z
+  .record(z.unknown())
+  .refine((data) => JSON.stringify(data).length <= MAX_DRAFT_BYTES, "The draft is too large to save");
+
+export const createFormDraftSchema = z.object({
+  form: z.enum(DRAFTABLE_FORMS),
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  data: draftDataSchema,
+});
+
+export const updateFormDraftSchema = z.object({
+  data: draftDataSchema,
+});
+
+// What the magic link hands back to the form
+export interface FormDraftView {
+  form: DraftableForm;
+  email: string;
+  data: Record<string, unknown>;
+  expiresAt: string;
+}
@@ -0,0 +1,87 @@
+// Estimate line items and totals, shared by the proposal PDF, the admin routes and the estimate builder
+
+import { z } from "zod";
+
+export const ESTIMATE_LINE_ITEM_CATEGORIES = ["labor", "materials", "subcontract"] as const;
+
+export type EstimateLineItemCategory = (typeof ESTIMATE_LINE_ITEM_CATEGORIES)[number];
+
+export const ESTIMATE_LINE_ITEM_CATEGORY_LABELS: Record<EstimateLineItemCategory, string> = {
+  labor: "Labor",
+  materials: "Materials",
+  subcontract: "Subcontract",
+};
+
+// Drafts can be edited; sent versions are kept as they were sent and edited by creating a new version
+export const ESTIMATE_STATUSES = ["draft", "sent"] as const;
+
+export type EstimateStatus = (typeof ESTIMATE_STATUSES)[number];
+
+// Money is stored in cents and rates in basis points (1% = 100) so totals never depend on float rounding
+export const estimateLineItemSchema = z.object({
+  category: z.enum(ESTIMATE_LINE_ITEM_CATEGORIES),
+  description: z.string().trim().min(1, "Description is required").max(500),
+  quantity: z.number().positive().max(1_000_000),
+  unit: z.string().trim().max(20).default(""),
+  unitPriceCents: z.number().int().min(0).max(100_000_000_00),
+});
+
+export type EstimateLineItem = z.infer<typeof estimateLineItemSchema>;
+
+// Largest total that stays exact as a JavaScript number (about $90 trillion)
+export const MAX_ESTIMATE_TOTAL_CENTS = Number.MAX_SAFE_INTEGER;
+
+export interface EstimateTotals {
+  categoryTotalsCents: Record<EstimateLineItemCategory, number>;
+  subtotalCents: number;
+  markupCents: number;
+  taxCents: number;
+  totalCents: number;
+}
+
+export function lineItemTotalCents(item: Pick<EstimateLineItem, "quantity" | "unitPriceCents">) {
+  return Math.round(item.quantity * item.unitPriceCents);
+}
+
+/**
+ * Markup is applied to the line item subtotal; tax is applied to the subtotal plus markup
+ */
+export function calculateEstimateTotals(
+  lineItems: EstimateLineItem[],
+  markupBasisPoints: number,
+  taxBasisPoints: number,
+): EstimateTotals {
+  const categoryTotalsCents = Object.fromEntries(
+    ESTIMATE_LINE_ITEM_CATEGORIES.map((category) => [category, 0]),
+  ) as Record<EstimateLineItemCategory, number>;
+
+  for (const item of lineItems) {
+    categoryTotalsCents[item.category] += lineItemTotalCents(item);
+  }
+
+  const subtotalCents = Object.values(categoryTotalsCents).reduce((sum, value) => sum + value, 0);
+  const markupCents = Math.round((subtotalCents * markupBasisPoints) / 10_000);
+  const taxCents = Math.round(((subtotalCents + markupCents) * taxBasisPoints) / 10_000);
+
+  return {
+    categoryTotalsCents,
+    subtotalCents,
+    markupCents,
+    taxCents,
+    totalCents: subtotalCents + markupCents + taxCents,
+  };
+}
+
+export function formatCents(cents: number) {
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+// 725 -> "7.25%"
+export function formatBasisPoints(basisPoints: number) {
+  return `${(basisPoints / 100).toLocaleString("en-US", { maximumFractionDigits: 2 })}%`;
+}
+
+// Proposal number shown on the PDF, e.g. "QR-000123-v2"
+export function formatProposalNumber(referenceNumber: string, version: number) {
+  return `${referenceNumber}-v${version}`;
+}
@@ -0,0 +1,94 @@
+// Role and permission definitions shared by the server middleware and the admin UI
+
+export const ROLES = {
+  // The seeded "admin" account keeps its original role value and acts as super-admin
+  SUPER_ADMIN: "admin",
+  CONTENT_EDITOR: "content_editor",
+  ESTIMATOR: "estimator",
+  HR: "hr",
+  PROCUREMENT: "procurement",
+  USER: "user",
+} as const;
+
+export type Role = (typeof ROLES)[keyof typeof ROLES];
+
+export const ROLE_VALUES = Object.values(ROLES) as [Role, ...Role[]];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  [ROLES.SUPER_ADMIN]: "Super Admin",
+  [ROLES.CONTENT_EDITOR]: "Content Editor",
+  [ROLES.ESTIMATOR]: "Estimator",
+  [ROLES.HR]: "HR",
+  [ROLES.PROCUREMENT]: "Procurement",
+  [ROLES.USER]: "User (no admin access)",
+};
+
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: "dashboard:view",
+  PROJECTS_MANAGE: "projects:manage",
+  BLOG_MANAGE: "blog:manage",
+  SERVICES_MANAGE: "services:manage",
+  TESTIMONIALS_MANAGE: "testimonials:manage",
+  MESSAGES_MANAGE: "messages:manage",
+  NEWSLETTER_MANAGE: "newsletter:manage",
+  QUOTES_MANAGE: "quotes:manage",
+  CAREERS_MANAGE: "careers:manage",
+  TEAM_MANAGE: "team:manage",
+  VENDORS_MANAGE: "vendors:manage",
+  // Uploading new files only; listing and deleting stored files (which include
+  // applicants' resumes and quote attachments) needs FILES_MANAGE
+  FILES_UPLOAD: "files:upload",
+  FILES_MANAGE: "files:manage",
+  SETTINGS_MANAGE: "settings:manage",
+  USERS_MANAGE: "users:manage",
+  AUDIT_VIEW: "audit:view",
+  OUTBOX_VIEW: "outbox:view",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [ROLES.SUPER_ADMIN]: Object.values(PERMISSIONS),
+  [ROLES.CONTENT_EDITOR]: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.PROJECTS_MANAGE,
+    PERMISSIONS.BLOG_MANAGE,
+    PERMISSIONS.SERVICES_MANAGE,
+    PERMISSIONS.TESTIMONIALS_MANAGE,
+    PERMISSIONS.FILES_UPLOAD,
+    PERMISSIONS.FILES_MANAGE,
+  ],
+  [ROLES.ESTIMATOR]: [PERMISSIONS.DASHBOARD_VIEW, PERMISSIONS.QUOTES_MANAGE],
+  [ROLES.HR]: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.CAREERS_MANAGE,
+    PERMISSIONS.TEAM_MANAGE,
+    // Team member photos
+    PERMISSIONS.FILES_UPLOAD,
+  ],
+  [ROLES.PROCUREMENT]: [PERMISSIONS.DASHBOARD_VIEW, PERMISSIONS.VENDORS_MANAGE],
+  [ROLES.USER]: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLE_VALUES as string[]).includes(value);
+}
+
+// Unknown or missing roles get no permissions
+export function getRolePermissions(role: string | null | undefined): Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission,
+): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+export function hasAnyPermission(
+  role: string | null | undefined,
+  permissions: Permission[],
+): boolean {
+  return permissions.some((permission) => hasPermission(role, permission));
+}
@@ -0,0 +1,189 @@
+// Structured project questions asked by the quote request wizard, and the ballpark
+// range estimated from them with the admin-maintained cost-per-square-foot table
+
+import { z } from "zod";
+
+export const QUOTE_PROJECT_TYPES = [
+  "residential",
+  "commercial",
+  "renovation",
+  "industrial",
+  "infrastructure",
+  "other",
+] as const;
+
+export type QuoteProjectType = (typeof QUOTE_PROJECT_TYPES)[number];
+
+export const QUOTE_PROJECT_TYPE_LABELS: Record<QuoteProjectType, string> = {
+  residential: "Residential Construction",
+  commercial: "Commercial Construction",
+  renovation: "Renovation",
+  industrial: "Industrial Construction",
+  infrastructure: "Infrastructure",
+  other: "Other",
+};
+
+export function isQuoteProjectType(value: unknown): value is QuoteProjectType {
+  return typeof value === "string" && (QUOTE_PROJECT_TYPES as readonly string[]).includes(value);
+}
+
+export const FINISH_LEVELS = ["standard", "premium", "luxury"] as const;
+
+export type FinishLevel = (typeof FINISH_LEVELS)[number];
+
+export const FINISH_LEVEL_LABELS: Record<FinishLevel, string> = {
+  standard: "Standard",
+  premium: "Premium",
+  luxury: "Luxury / custom",
+};
+
+export const RENOVATION_SCOPES = ["kitchen", "bathroom", "interior", "whole_building", "exterior"] as const;
+
+export type RenovationScope = (typeof RENOVATION_SCOPES)[number];
+
+export const RENOVATION_SCOPE_LABELS: Record<RenovationScope, string> = {
+  kitchen: "Kitchen",
+  bathroom: "Bathroom",
+  interior: "Interior remodel",
+  whole_building: "Whole building",
+  exterior: "Exterior / roofing",
+};
+
+// Stored in the existing quote_requests.timeframe column
+export const QUOTE_TIMELINES = ["immediate", "soon", "planning", "future"] as const;
+
+export type QuoteTimeline = (typeof QUOTE_TIMELINES)[number];
+
+export const QUOTE_TIMELINE_LABELS: Record<QuoteTimeline, string> = {
+  immediate: "Immediate (1-3 months)",
+  soon: "Soon (3-6 months)",
+  planning: "Planning Phase (6-12 months)",
+  future: "Future Project (Over 12 months)",
+};
+
+export function isQuoteTimeline(value: unknown): value is QuoteTimeline {
+  return typeof value === "string" && (QUOTE_TIMELINES as readonly string[]).includes(value);
+}
+
+export const quoteDetailsSchema = z.object({
+  renovationScope: z.enum(RENOVATION_SCOPES).optional(),
+  squareFeet: z.number().int().min(10).max(5_000_000).optional(),
+  floors: z.number().int().min(1).max(150).optional(),
+  finishLevel: z.enum(FINISH_LEVELS).optional(),
+});
+
+export type QuoteDetails = z.infer<typeof quoteDetailsSchema>;
+
+export type QuoteDetailField = keyof QuoteDetails;
+
+// Which structured questions the wizard asks for each project type, in order
+export const QUOTE_WIZARD_QUESTIONS: Record<QuoteProjectType, QuoteDetailField[]> = {
+  residential: ["squareFeet", "floors", "finishLevel"],
+  commercial: ["squareFeet", "floors", "finishLevel"],
+  renovation: ["renovationScope", "squareFeet", "finishLevel"],
+  industrial: ["squareFeet", "floors"],
+  infrastructure: [],
+  other: [],
+};
+
+// Project types priced per square foot; others are always priced individually
+export const ESTIMABLE_PROJECT_TYPES = ["residential", "commercial", "renovation", "industrial"] as const;
+
+export type EstimableProjectType = (typeof ESTIMABLE_PROJECT_TYPES)[number];
+
+export function isEstimableProjectType(value: unknown): value is EstimableProjectType {
+  return typeof value === "string" && (ESTIMABLE_PROJECT_TYPES as readonly string[]).includes(value);
+}
+
+const costRangeSchema = z
+  .object({
+    lowCents: z.number().int().min(0).max(10_000_000),
+    highCents: z.number().int().min(0).max(10_000_000),
+  })
+  .refine((range) => range.highCents >= range.lowCents, {
+    message: "The high rate must not be below the low rate",
+  });
+
+export type CostRange = z.infer<typeof costRangeSchema>;
+
+export const quoteCostRatesSchema = z.object({
+  // Off until staff have reviewed the rates; the wizard then shows no ballpark
+  enabled: z.boolean(),
+  // Cost per square foot in cents, by project type and finish level
+  rates: z.record(z.enum(ESTIMABLE_PROJECT_TYPES), z.record(z.enum(FINISH_LEVELS), costRangeSchema)),
+  // Added for each floor above the first, to cover structure and vertical transport
+  perFloorPercent: z.number().min(0).max(100),
+});
+
+export type QuoteCostRates = {
+  enabled: boolean;
+  rates: Record<EstimableProjectType, Record<FinishLevel, CostRange>>;
+  perFloorPercent: number;
+};
+
+const range = (lowDollars: number, highDollars: number): CostRange => ({
+  lowCents: lowDollars * 100,
+  highCents: highDollars * 100,
+});
+
+export const DEFAULT_QUOTE_COST_RATES: QuoteCostRates = {
+  enabled: false,
+  rates: {
+    residential: { standard: range(150, 225), premium: range(225, 325), luxury: range(325, 500) },
+    commercial: { standard: range(175, 275), premium: range(275, 400), luxury: range(400, 600) },
+    renovation: { standard: range(75, 150), premium: range(150, 250), luxury: range(250, 400) },
+    industrial: { standard: range(90, 150), premium: range(150, 225), luxury: range(225, 325) },
+  },
+  perFloorPercent: 5,
+};
+
+export interface Ballpark {
+  lowCents: number;
+  highCents: number;
+}
+
+// Ballparks are rounded to the nearest $1,000 so they don't look more precise than they are
+const roundToThousand = (cents: number) => Math.round(cents / 100_000) * 100_000;
+
+/**
+ * Rough cost range for a project from its size, floors and finish level,
+ * or null when the type isn't priced per square foot, the size is unknown
+ * or ballparks are switched off
+ */
+export function calculateBallpark(
+  projectType: string,
+  details: QuoteDetails | null | undefined,
+  costRates: QuoteCostRates,
+): Ballpark | null {
+  if (!costRates.enabled || !isEstimableProjectType(projectType) || !details?.squareFeet) return null;
+
+  const rate = costRates.rates[projectType]?.[details.finishLevel ?? "standard"];
+  if (!rate || rate.highCents === 0) return null;
+
+  const floors = QUOTE_WIZARD_QUESTIONS[projectType].includes("floors") ? details.floors ?? 1 : 1;
+  const floorFactor = 1 + ((floors - 1) * costRates.perFloorPercent) / 100;
+
+  return {
+    lowCents: roundToThousand(details.squareFeet * rate.lowCents * floorFactor),
+    highCents: roundToThousand(details.squareFeet * rate.highCents * floorFactor),
+  };
+}
+
+// "2,400 sq ft · 2 floors · Premium finish", for the project size shown in lists and emails
+export function describeQuoteDetails(details: QuoteDetails | null | undefined) {
+  if (!details) return "";
+  const parts: string[] = [];
+  if (details.renovationScope) parts.push(RENOVATION_SCOPE_LABELS[details.renovationScope]);
+  if (details.squareFeet) parts.push(`${details.squareFeet.toLocaleString("en-US")} sq ft`);
+  if (details.floors) parts.push(`${details.floors} floor${details.floors === 1 ? "" : "s"}`);
+  if (details.finishLevel) parts.push(`${FINISH_LEVEL_LABELS[details.finishLevel]} finish`);
+  return parts.join(" · ");
+}
+
+const formatWholeDollars = (cents: number) =>
+  (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+// "$360,000 – $540,000"
+export function formatBallpark(ballpark: Ballpark) {
+  return `${formatWholeDollars(ballpark.lowCents)} – ${formatWholeDollars(ballpark.highCents)}`;
+}
@@ -0,0 +1,162 @@
+// Quote request pipeline values, shared by the admin routes and the quote management UI
+
+export const QUOTE_STATUSES = [
+  "pending",
+  "reviewing",
+  "accepted",
+  "rejected",
+  "completed",
+] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  pending: "Pending",
+  reviewing: "Reviewing",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  completed: "Completed",
+};
+
+// Shown to the customer on their quote tracking page
+export const QUOTE_STATUS_CUSTOMER_DESCRIPTIONS: Record<QuoteStatus, string> = {
+  pending: "We've received your request and it's waiting for an estimator to pick it up.",
+  reviewing: "An estimator is reviewing your project details. We may contact you with questions.",
+  accepted: "Good news: we'd like to take on your project. We'll be in touch to arrange the next steps.",
+  rejected: "Unfortunately we're unable to take on this project. Thank you for considering us.",
+  completed: "Your quote has been completed. Thank you for choosing ARCEM Construction.",
+};
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export const QUOTE_ACTIVITY_TYPES = [
+  "note",
+  "status_change",
+  "assignment",
+  "follow_up",
+  "estimate_sent",
+  "customer_message",
+  "customer_upload",
+  "tracking_link",
+  "converted_to_project",
+] as const;
+
+// A quote can be turned into a (draft) portfolio project once the work is won
+export const CONVERTIBLE_QUOTE_STATUSES: QuoteStatus[] = ["accepted", "completed"];
+
+export type QuoteActivityType = (typeof QUOTE_ACTIVITY_TYPES)[number];
+
+// What a customer sees on their tracking page; internal notes and staff details are never included
+export interface QuoteTrackingView {
+  referenceNumber: string;
+  name: string;
+  projectType: string;
+  submittedAt: string | null;
+  status: QuoteStatus;
+  statusLabel: string;
+  statusDescription: string;
+  attachments: Array<{
+    id: number;
+    fileName: string;
+    fileUrl: string;
+    fileSize: number;
+    fileType: string;
+    createdAt: string;
+  }>;
+  messages: Array<{ id: number; body: string; createdAt: string }>;
+  // Customers can add files until the quote has this many in total
+  maxAttachments: number;
+}
+
+// A quote is closed once the customer has a decision; moving it back to an open status reopens it
+export const CLOSED_QUOTE_STATUSES: QuoteStatus[] = ["accepted", "rejected", "completed"];
+
+export function isClosedQuoteStatus(status: string | null | undefined) {
+  return isQuoteStatus(status) && CLOSED_QUOTE_STATUSES.includes(status);
+}
+
+/**
+ * The response target for new quote requests. A request has been responded to
+ * once it leaves "pending"; staff are alerted when that takes longer than
+ * responseHours.
+ */
+export interface QuoteSlaSettings {
+  responseHours: number;
+  alertsEnabled: boolean;
+  recipients: string[];
+}
+
+export const DEFAULT_QUOTE_SLA: QuoteSlaSettings = {
+  responseHours: 48,
+  alertsEnabled: false,
+  recipients: [],
+};
+
+const HOUR_MS = 3600000;
+
+// When a pending request breaches the response target
+export function getResponseDueAt(createdAt: Date | string, responseHours: number) {
+  return new Date(new Date(createdAt).getTime() + responseHours * HOUR_MS);
+}
+
+/**
+ * How long a quote spent in each status, from its submission time and the
+ * status changes on its timeline. The current status runs until `now`.
+ */
+export function getQuoteStatusDurations(
+  createdAt: Date | string,
+  statusChanges: Array<{ toValue: string | null; createdAt: Date | string }>,
+  now: Date = new Date(),
+): Partial<Record<QuoteStatus, number>> {
+  const durations: Partial<Record<QuoteStatus, number>> = {};
+  let status: string = "pending";
+  let since = new Date(createdAt).getTime();
+
+  const changes = [...statusChanges].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+  for (const change of [...changes, { toValue: null, createdAt: now }]) {
+    const at = new Date(change.createdAt).getTime();
+    if (isQuoteStatus(status)) {
+      durations[status] = (durations[status] ?? 0) + Math.max(0, at - since);
+    }
+    if (change.toValue) status = change.toValue;
+    since = at;
+  }
+  return durations;
+}
+
+// Compact duration for badges and reports, e.g. "45m", "5h", "2d 4h"
+export function formatDuration(ms: number) {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+// One row of the response time report; times are in hours and null when there is nothing to measure
+export interface QuoteTimingReportRow {
+  key: string;
+  label: string;
+  received: number;
+  responded: number;
+  respondedWithinTarget: number;
+  averageResponseHours: number | null;
+  medianResponseHours: number | null;
+  closed: number;
+  averageCloseHours: number | null;
+  medianCloseHours: number | null;
+}
+
+export interface QuoteTimingReport {
+  responseHours: number;
+  // Requests still pending past the response target
+  overdue: number;
+  total: QuoteTimingReportRow;
+  byMonth: QuoteTimingReportRow[];
+  byProjectType: QuoteTimingReportRow[];
+}
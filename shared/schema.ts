@@ -3,15 +3,21 @@ import {
   text,
   serial,
   integer,
+  bigint,
   boolean,
   timestamp,
   primaryKey,
   foreignKey,
+  uniqueIndex,
   jsonb,
+  real,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import { estimateLineItemSchema, type EstimateLineItem } from "./estimates";
+import { leadAttributionSchema, type LeadAttribution } from "./attribution";
+import { quoteDetailsSchema, type QuoteDetails } from "./quoteWizard";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -19,6 +25,17 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: text("role").default("user"),
   email: text("email"),
+  active: boolean("active").default(true).notNull(),
+  // TOTP two-factor authentication; backup codes are stored as hashes
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(),
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorBackupCodes: text("two_factor_backup_codes").array(),
+  // Time step of the last accepted code, so a code can't be used twice
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"),
+  // Consecutive failed sign-ins; reaching the limit sets lockedUntil
+  failedLoginCount: integer("failed_login_count").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -26,8 +43,208 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   role: true,
   email: true,
+  active: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorBackupCodes: true,
+  twoFactorLastUsedStep: true,
+  failedLoginCount: true,
+  lockedUntil: true,
+});
+
+// Password rules applied wherever a user chooses a new password
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters");
+
+// Staff invitations - public registration requires one of these tokens
+export const userInvites = pgTable("user_invites", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  role: text("role").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserInviteSchema = createInsertSchema(userInvites).omit({
+  id: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
+export type UserInvite = typeof userInvites.$inferSelect;
+export type InsertUserInvite = z.infer<typeof insertUserInviteSchema>;
+
+// Single-use password reset tokens
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(
+  passwordResetTokens,
+).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<
+  typeof insertPasswordResetTokenSchema
+>;
+
+// Failed sign-in attempts, used for throttling and the admin security log
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(),
+  userId: integer("user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  reason: text("reason").notNull(), // invalid_credentials, account_disabled, invalid_two_factor, throttled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+
+// One row per post to a public form, counted for per-IP rate limits; pruned daily
+export const formSubmissionAttempts = pgTable("form_submission_attempts", {
+  id: serial("id").primaryKey(),
+  form: text("form").notNull(), // see RateLimitedForm in server/spamProtection.ts
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertFormSubmissionAttemptSchema = createInsertSchema(
+  formSubmissionAttempts,
+).omit({
+  id: true,
+  createdAt: true,
 });
 
+export type FormSubmissionAttempt = typeof formSubmissionAttempts.$inferSelect;
+export type InsertFormSubmissionAttempt = z.infer<
+  typeof insertFormSubmissionAttemptSchema
+>;
+
+// Public submissions that scored as likely spam. They are held here instead of reaching
+// the inboxes until staff release them (which creates the real record) or delete them.
+export const quarantinedSubmissions = pgTable("quarantined_submissions", {
+  id: serial("id").primaryKey(),
+  form: text("form").notNull(), // see SPAM_PROTECTED_FORMS in shared/spam.ts
+  // The validated form data, exactly as it would have been saved
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  spamScore: integer("spam_score").notNull(),
+  spamReasons: text("spam_reasons").array().notNull().default([]),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertQuarantinedSubmissionSchema = createInsertSchema(
+  quarantinedSubmissions,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type QuarantinedSubmission = typeof quarantinedSubmissions.$inferSelect;
+export type InsertQuarantinedSubmission = z.infer<
+  typeof insertQuarantinedSubmissionSchema
+>;
+
+// Half-finished public forms saved for later. Only a SHA-256 hash of the magic link
+// token is stored; drafts expire DRAFT_TTL_DAYS (shared/drafts.ts) after the last save.
+export const formDrafts = pgTable("form_drafts", {
+  id: serial("id").primaryKey(),
+  form: text("form").notNull(), // see DRAFTABLE_FORMS in shared/drafts.ts
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertFormDraftSchema = createInsertSchema(formDrafts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type FormDraft = typeof formDrafts.$inferSelect;
+export type InsertFormDraft = z.infer<typeof insertFormDraftSchema>;
+
+// One row per successful admin mutation; written by the audit middleware in server/audit.ts
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  actorUsername: text("actor_username").notNull(), // Kept so entries survive the user being deleted
+  action: text("action").notNull(), // create, update, delete, approve, ...
+  entityType: text("entity_type").notNull(), // project, testimonial, quote_request, ...
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  changes: jsonb("changes"), // { field: { from, to } } for the fields that changed
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+
+// One row per outgoing email, written by the mail service whether or not delivery succeeded
+export const emailLog = pgTable("email_log", {
+  id: serial("id").primaryKey(),
+  recipient: text("recipient").notNull(),
+  sender: text("sender").notNull(),
+  subject: text("subject").notNull(),
+  template: text("template"), // Template name when sent via sendTemplate
+  textBody: text("text_body"), // Null when the body held a secret such as a reset link
+  htmlBody: text("html_body"),
+  transport: text("transport").notNull(), // smtp, file
+  status: text("status").notNull(), // sent, failed
+  messageId: text("message_id"),
+  error: text("error"),
+  filePath: text("file_path"), // .eml location for the file transport
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEmailLogSchema = createInsertSchema(emailLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EmailLogEntry = typeof emailLog.$inferSelect;
+export type InsertEmailLogEntry = z.infer<typeof insertEmailLogSchema>;
+
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -35,6 +252,8 @@ export const projects = pgTable("projects", {
   description: text("description").notNull(),
   image: text("image").notNull(),
   featured: boolean("featured"),
+  // Drafts (e.g. converted from a quote request) are only visible in the admin panel
+  published: boolean("published").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 
   // Additional details for individual project pages
@@ -333,10 +552,14 @@ export const messages = pgTable("messages", {
   service: text("service"),
   message: text("message").notNull(),
   read: boolean("read").default(false),
+  // UTM parameters, referrer and landing page from the submitter's first visit
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  attribution: leadAttributionSchema.nullish(),
+}).omit({
   id: true,
   read: true,
   createdAt: true,
@@ -348,11 +571,14 @@ export const newsletterSubscribers = pgTable("newsletter_subscribers", {
   firstName: text("first_name"),
   lastName: text("last_name"),
   subscribed: boolean("subscribed").default(true),
+  // UTM parameters, referrer and landing page from the submitter's first visit
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertNewsletterSubscriberSchema = createInsertSchema(
   newsletterSubscribers,
+  { attribution: leadAttributionSchema.nullish() },
 ).omit({
   id: true,
   subscribed: true,
@@ -377,13 +603,52 @@ export const quoteRequests = pgTable("quote_requests", {
   description: text("description").notNull(),
   status: text("status").default("pending"),
   reviewed: boolean("reviewed").default(false),
+  // Estimator responsible for the quote
+  assignedToId: integer("assigned_to_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  followUpAt: timestamp("follow_up_at"),
+  // Hash of the token in the customer's tracking link; the token itself is never stored
+  trackingTokenHash: text("tracking_token_hash").unique(),
+  // Project created from this quote with "Convert to project"
+  projectId: integer("project_id").references(() => projects.id, {
+    onDelete: "set null",
+  }),
+  // Response tracking: when the status last changed (null while still in the status it
+  // was submitted with), when the request first left "pending", when it last reached a
+  // closed status, and when staff were alerted that it missed the response target
+  statusChangedAt: timestamp("status_changed_at"),
+  respondedAt: timestamp("responded_at"),
+  closedAt: timestamp("closed_at"),
+  slaAlertedAt: timestamp("sla_alerted_at"),
+  // UTM parameters, referrer and landing page from the submitter's first visit
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
+  // Structured answers from the quote wizard (size, floors, finish level)
+  details: jsonb("details").$type<QuoteDetails>(),
+  // Ballpark range shown to the customer, priced with the cost rates in force when they submitted
+  // bigint: large commercial requests pass the integer limit in cents
+  ballparkLowCents: bigint("ballpark_low_cents", { mode: "number" }),
+  ballparkHighCents: bigint("ballpark_high_cents", { mode: "number" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertQuoteRequestSchema = createInsertSchema(quoteRequests).omit({
+export const insertQuoteRequestSchema = createInsertSchema(quoteRequests, {
+  attribution: leadAttributionSchema.nullish(),
+  details: quoteDetailsSchema.nullish(),
+}).omit({
   id: true,
   status: true,
   reviewed: true,
+  assignedToId: true,
+  followUpAt: true,
+  trackingTokenHash: true,
+  projectId: true,
+  statusChangedAt: true,
+  respondedAt: true,
+  closedAt: true,
+  slaAlertedAt: true,
+  ballparkLowCents: true,
+  ballparkHighCents: true,
   createdAt: true,
 });
 
@@ -396,10 +661,34 @@ export const fileAttachmentSchema = z.object({
   fileType: z.string(),
 });
 
+const UPLOADTHING_HOSTS = ["utfs.io", "uploadthing.com"];
+
+// An https link to the file on UploadThing's CDN, e.g. https://utfs.io/f/{key} or https://{app}.ufs.sh/f/{key}
+export function isUploadThingFileUrl(fileUrl: string, fileKey: string) {
+  try {
+    const url = new URL(fileUrl);
+    return (
+      url.protocol === "https:" &&
+      (UPLOADTHING_HOSTS.includes(url.hostname) || url.hostname.endsWith(".ufs.sh")) &&
+      /^[\w-]+$/.test(fileKey) &&
+      url.pathname === `/f/${fileKey}`
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Files sent by visitors must have come from one of the public upload routes;
+// staff open these links from the admin
+export const uploadedFileAttachmentSchema = fileAttachmentSchema.refine(
+  (file) => isUploadThingFileUrl(file.fileUrl, file.fileKey),
+  { message: "Please upload the file again", path: ["fileUrl"] },
+);
+
 // Extended schema that includes attachments for the frontend
 export const quoteRequestWithAttachmentsSchema =
   insertQuoteRequestSchema.extend({
-    attachments: z.array(fileAttachmentSchema).optional(),
+    attachments: z.array(uploadedFileAttachmentSchema).optional(),
   });
 
 export type QuoteRequest = typeof quoteRequests.$inferSelect;
@@ -432,6 +721,81 @@ export type InsertQuoteRequestAttachment = z.infer<
   typeof insertQuoteRequestAttachmentSchema
 >;
 
+// Internal notes and pipeline changes (status, assignment, follow-up) on a quote request
+export const quoteRequestActivity = pgTable("quote_request_activity", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id")
+    .notNull()
+    .references(() => quoteRequests.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // see QUOTE_ACTIVITY_TYPES in shared/quotes.ts
+  // Username is kept so entries stay readable after the user is deleted
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  authorUsername: text("author_username").notNull(),
+  // Note text, or an optional comment on a pipeline change
+  body: text("body"),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertQuoteRequestActivitySchema = createInsertSchema(
+  quoteRequestActivity,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type QuoteRequestActivity = typeof quoteRequestActivity.$inferSelect;
+export type InsertQuoteRequestActivity = z.infer<
+  typeof insertQuoteRequestActivitySchema
+>;
+
+// Priced estimates for a quote request. Each row is one version; a new version is
+// created instead of editing one that has been sent to the client.
+export const estimates = pgTable("estimates", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id")
+    .notNull()
+    .references(() => quoteRequests.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  status: text("status").default("draft").notNull(), // see ESTIMATE_STATUSES in shared/estimates.ts
+  title: text("title").notNull(),
+  scope: text("scope"),
+  terms: text("terms"),
+  validUntil: timestamp("valid_until"),
+  lineItems: jsonb("line_items").$type<EstimateLineItem[]>().default([]).notNull(),
+  // Rates in basis points (1% = 100); amounts in cents, computed from the line items on save.
+  // bigint because commercial estimates pass the integer limit ($21.4M) in cents.
+  markupBasisPoints: integer("markup_basis_points").default(0).notNull(),
+  taxBasisPoints: integer("tax_basis_points").default(0).notNull(),
+  subtotalCents: bigint("subtotal_cents", { mode: "number" }).default(0).notNull(),
+  markupCents: bigint("markup_cents", { mode: "number" }).default(0).notNull(),
+  taxCents: bigint("tax_cents", { mode: "number" }).default(0).notNull(),
+  totalCents: bigint("total_cents", { mode: "number" }).default(0).notNull(),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdByUsername: text("created_by_username").notNull(),
+  sentAt: timestamp("sent_at"),
+  sentTo: text("sent_to"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  quoteRequestVersion: uniqueIndex("estimates_quote_request_version_idx").on(
+    table.quoteRequestId,
+    table.version,
+  ),
+}));
+
+export const insertEstimateSchema = createInsertSchema(estimates, {
+  lineItems: z.array(estimateLineItemSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Estimate = typeof estimates.$inferSelect;
+export type InsertEstimate = z.infer<typeof insertEstimateSchema>;
+
 // Define relations for quote requests and attachments
 export const quoteRequestsRelations = relations(quoteRequests, ({ many }) => ({
   attachments: many(quoteRequestAttachments),
@@ -469,11 +833,14 @@ export const subcontractors = pgTable("subcontractors", {
   howDidYouHear: text("how_did_you_hear"),
   status: text("status").default("pending"), // pending, approved, rejected
   notes: text("notes"),
+  // UTM parameters, referrer and landing page from the submitter's first visit
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertSubcontractorSchema = createInsertSchema(
   subcontractors,
+  { attribution: leadAttributionSchema.nullish() },
 ).omit({
   id: true,
   status: true,
@@ -500,10 +867,14 @@ export const vendors = pgTable("vendors", {
   howDidYouHear: text("how_did_you_hear"),
   status: text("status").default("pending"), // pending, approved, rejected
   notes: text("notes"),
+  // UTM parameters, referrer and landing page from the submitter's first visit
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertVendorSchema = createInsertSchema(vendors).omit({
+export const insertVendorSchema = createInsertSchema(vendors, {
+  attribution: leadAttributionSchema.nullish(),
+}).omit({
   id: true,
   status: true,
   notes: true,
@@ -530,12 +901,28 @@ export const jobPostings = pgTable("job_postings", {
   applyUrl: text("apply_url"),
   active: boolean("active").default(true).notNull(),
   featured: boolean("featured").default(false).notNull(),
+  // Public from publishAt until expiresAt; either can be left open (see getJobPostingStatus in shared/careers.ts)
+  publishAt: timestamp("publish_at"),
+  expiresAt: timestamp("expires_at"),
+  // Set when the expiry job deactivates the posting
+  archivedAt: timestamp("archived_at"),
+  // When HR was warned about the coming expiry, so each expiry date is alerted once
+  expiryAlertedAt: timestamp("expiry_alerted_at"),
+  // When the opening was queued for job alert subscribers, so it's announced once
+  alertsQueuedAt: timestamp("alerts_queued_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const insertJobPostingSchema = createInsertSchema(jobPostings).omit({
+export const insertJobPostingSchema = createInsertSchema(jobPostings, {
+  // Sent as ISO strings from the admin form
+  publishAt: z.coerce.date().nullish(),
+  expiresAt: z.coerce.date().nullish(),
+}).omit({
   id: true,
+  archivedAt: true,
+  expiryAlertedAt: true,
+  alertsQueuedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -543,6 +930,155 @@ export const insertJobPostingSchema = createInsertSchema(jobPostings).omit({
 export type JobPosting = typeof jobPostings.$inferSelect;
 export type InsertJobPosting = z.infer<typeof insertJobPostingSchema>;
 
+// Applications made through the apply form on a job posting. The resume (and an
+// optional cover letter file) are uploaded to UploadThing before the form is sent.
+export const jobApplications = pgTable("job_applications", {
+  id: serial("id").primaryKey(),
+  jobPostingId: integer("job_posting_id")
+    .notNull()
+    .references(() => jobPostings.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  location: text("location"),
+  linkedinUrl: text("linkedin_url"),
+  coverLetter: text("cover_letter"),
+  resumeFileName: text("resume_file_name").notNull(),
+  resumeUrl: text("resume_url").notNull(),
+  resumeKey: text("resume_key").notNull(),
+  coverLetterFileName: text("cover_letter_file_name"),
+  coverLetterUrl: text("cover_letter_url"),
+  coverLetterKey: text("cover_letter_key"),
+  stage: text("stage").default("new").notNull(), // see APPLICANT_STAGES in shared/careers.ts
+  // Average of the ratings on the candidate's notes, kept here for the board
+  averageRating: real("average_rating"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertJobApplicationSchema = createInsertSchema(jobApplications).omit({
+  id: true,
+  stage: true,
+  averageRating: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Resumes and cover letters are limited to PDF and Word files by the upload route, and HR
+// opens them from the admin, so only files uploaded to UploadThing are accepted
+const applicationFileSchema = uploadedFileAttachmentSchema.refine(
+  (file) => /\.(pdf|docx)$/i.test(file.fileName),
+  { message: "Please upload a PDF or Word (.docx) file" },
+);
+
+// What the public apply form sends
+export const publicJobApplicationSchema = z.object({
+  jobPostingId: z.number().int().positive(),
+  name: z.string().trim().min(2, "Please enter your full name").max(200),
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  phone: z.string().trim().max(50).optional(),
+  location: z.string().trim().max(200).optional(),
+  linkedinUrl: z
+    .string()
+    .trim()
+    .max(500)
+    .url("Please enter a full link, starting with https://")
+    .optional()
+    .or(z.literal("")),
+  coverLetter: z.string().trim().max(10000).optional(),
+  resume: applicationFileSchema,
+  coverLetterFile: applicationFileSchema.optional(),
+});
+
+export type JobApplication = typeof jobApplications.$inferSelect;
+export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
+export type PublicJobApplication = z.infer<typeof publicJobApplicationSchema>;
+
+// Interviewer notes, ratings and stage changes on a job application
+export const jobApplicationActivity = pgTable("job_application_activity", {
+  id: serial("id").primaryKey(),
+  jobApplicationId: integer("job_application_id")
+    .notNull()
+    .references(() => jobApplications.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // see APPLICANT_ACTIVITY_TYPES in shared/careers.ts
+  // Username is kept so entries stay readable after the user is deleted
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  authorUsername: text("author_username").notNull(),
+  // Note text, or an optional comment on a stage change
+  body: text("body"),
+  // 1-5, only on notes
+  rating: integer("rating"),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertJobApplicationActivitySchema = createInsertSchema(
+  jobApplicationActivity,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type JobApplicationActivity = typeof jobApplicationActivity.$inferSelect;
+export type InsertJobApplicationActivity = z.infer<
+  typeof insertJobApplicationActivitySchema
+>;
+
+// Visitors who asked to be emailed about new openings. Double opt-in: nothing is
+// sent until the link in the confirmation email is followed, and only a SHA-256
+// hash of that link's token is stored.
+export const jobAlertSubscriptions = pgTable("job_alert_subscriptions", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  // Null matches any department, location or job type
+  department: text("department"),
+  location: text("location"),
+  type: text("type"),
+  confirmTokenHash: text("confirm_token_hash").unique(),
+  confirmedAt: timestamp("confirmed_at"),
+  // Stored as-is since every digest links to it; it can only unsubscribe
+  unsubscribeToken: text("unsubscribe_token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertJobAlertSubscriptionSchema = createInsertSchema(jobAlertSubscriptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What the careers page sends; an empty filter matches everything
+export const publicJobAlertSubscriptionSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  department: z.string().trim().max(200).nullish(),
+  location: z.string().trim().max(200).nullish(),
+  type: z.string().trim().max(50).nullish(),
+});
+
+export type JobAlertSubscription = typeof jobAlertSubscriptions.$inferSelect;
+export type InsertJobAlertSubscription = z.infer<typeof insertJobAlertSubscriptionSchema>;
+export type PublicJobAlertSubscription = z.infer<typeof publicJobAlertSubscriptionSchema>;
+
+// New openings waiting to go out in a subscriber's next digest email
+export const jobAlertQueue = pgTable("job_alert_queue", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id")
+    .notNull()
+    .references(() => jobAlertSubscriptions.id, { onDelete: "cascade" }),
+  jobPostingId: integer("job_posting_id")
+    .notNull()
+    .references(() => jobPostings.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertJobAlertQueueEntrySchema = createInsertSchema(jobAlertQueue).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type JobAlertQueueEntry = typeof jobAlertQueue.$inferSelect;
+export type InsertJobAlertQueueEntry = z.infer<typeof insertJobAlertQueueEntrySchema>;
+
 // Team Members schema
 export const teamMembers = pgTable("team_members", {
   id: serial("id").primaryKey(),
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { PERMISSIONS, type Permission } from "./permissions";
+
+// Public forms screened for spam; flagged submissions are held in quarantine instead of the inboxes
+
+export const SPAM_PROTECTED_FORMS = [
+  "contact_message",
+  "quote_request",
+  "testimonial_submission",
+  "newsletter_subscriber",
+  "subcontractor_application",
+  "vendor_application",
+  "job_application",
+] as const;
+
+export type SpamProtectedForm = (typeof SPAM_PROTECTED_FORMS)[number];
+
+export const SPAM_PROTECTED_FORM_LABELS: Record<SpamProtectedForm, string> = {
+  contact_message: "Contact message",
+  quote_request: "Quote request",
+  testimonial_submission: "Testimonial",
+  newsletter_subscriber: "Newsletter sign-up",
+  subcontractor_application: "Subcontractor registration",
+  vendor_application: "Vendor registration",
+  job_application: "Job application",
+};
+
+// Staff see held submissions for the inboxes they manage
+export const QUARANTINE_PERMISSIONS: Record<SpamProtectedForm, Permission> = {
+  contact_message: PERMISSIONS.MESSAGES_MANAGE,
+  quote_request: PERMISSIONS.QUOTES_MANAGE,
+  testimonial_submission: PERMISSIONS.TESTIMONIALS_MANAGE,
+  newsletter_subscriber: PERMISSIONS.NEWSLETTER_MANAGE,
+  subcontractor_application: PERMISSIONS.VENDORS_MANAGE,
+  vendor_application: PERMISSIONS.VENDORS_MANAGE,
+  job_application: PERMISSIONS.CAREERS_MANAGE,
+};
+
+export function isSpamProtectedForm(value: unknown): value is SpamProtectedForm {
+  return typeof value === "string" && (SPAM_PROTECTED_FORMS as readonly string[]).includes(value);
+}
+
+/**
+ * Sent by the browser with every protected form: the value of a hidden
+ * honeypot input that people never see, and how long the form was open
+ */
+export const formGuardSchema = z.object({
+  honeypot: z.string().max(1000).optional(),
+  elapsedMs: z.number().nonnegative().optional(),
+});
+
+export type FormGuard = z.infer<typeof formGuardSchema>;
+
+// Name of the honeypot input; chosen to look like a field bots will want to fill in
+export const HONEYPOT_FIELD_NAME = "fax_number";
+
+export type WithFormGuard<T> = T & { formGuard?: FormGuard };
@@ -0,0 +1,29 @@
+// Staff alert events, shared by the alert sender and the notification settings UI
+
+import { SUBMISSION_TYPES, type SubmissionType } from "./submissions";
+
+// One alert per kind of public submission
+export const STAFF_ALERT_EVENTS = SUBMISSION_TYPES;
+
+export type StaffAlertEvent = SubmissionType;
+
+export const STAFF_ALERT_EVENT_LABELS: Record<StaffAlertEvent, string> = {
+  contact_message: "Contact form messages",
+  quote_request: "Quote requests",
+  subcontractor_application: "Subcontractor registrations",
+  vendor_application: "Vendor registrations",
+  testimonial_submission: "Testimonial submissions",
+  job_application: "Job applications",
+};
+
+export interface StaffAlertSetting {
+  enabled: boolean;
+  recipients: string[];
+}
+
+export type StaffAlertSettings = Record<StaffAlertEvent, StaffAlertSetting>;
+
+// Site setting key holding the recipients for one event type
+export function staffAlertSettingKey(event: StaffAlertEvent) {
+  return `staff_alerts_${event}`;
+}
@@ -0,0 +1,26 @@
+// Public form submissions that staff are alerted about and submitters get a receipt for
+
+export const SUBMISSION_TYPES = [
+  "contact_message",
+  "quote_request",
+  "subcontractor_application",
+  "vendor_application",
+  "testimonial_submission",
+  "job_application",
+] as const;
+
+export type SubmissionType = (typeof SUBMISSION_TYPES)[number];
+
+const REFERENCE_PREFIXES: Record<SubmissionType, string> = {
+  contact_message: "MSG",
+  quote_request: "QR",
+  subcontractor_application: "SUB",
+  vendor_application: "VEN",
+  testimonial_submission: "TST",
+  job_application: "APP",
+};
+
+// Derived from the record id, so the same number can be shown in emails and the admin panel
+export function formatReferenceNumber(type: SubmissionType, id: number) {
+  return `${REFERENCE_PREFIXES[type]}-${String(id).padStart(6, "0")}`;
+}
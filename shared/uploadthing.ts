@@ -39,4 +39,26 @@ export type OurFileRouter = FileRouter & {
       size: number;
     }[];
   };
+  applicationDocumentUploader: {
+    config: {
+      pdf?: {
+        maxFileSize: string;
+        maxFileCount: number;
+      };
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"?: {
+        maxFileSize: string;
+        maxFileCount: number;
+      };
+    };
+    metadata?: {
+      isAnonymous?: boolean;
+    };
+    output: {
+      url: string;
+      ufsUrl?: string;
+      key: string;
+      name: string;
+      size: number;
+    }[];
+  };
 };
\ No newline at end of file